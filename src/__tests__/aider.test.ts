@@ -0,0 +1,156 @@
+/**
+ * Tests for the Aider chat history adapter (src/parsers/aider.ts).
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+import { getPreset, setActiveConfig } from '../config/index.js';
+import { extractAiderContext, findAiderSessionFiles, parseAiderSessions } from '../parsers/aider.js';
+import { adapters } from '../parsers/registry.js';
+import { annotateParents } from '../utils/lineage.js';
+import { resolveCrossToolForwarding } from '../utils/resume.js';
+import { resolveWatchRoots } from '../utils/watch.js';
+import { createAiderFixture } from './fixtures/index.js';
+
+const fixture = createAiderFixture();
+const historyFile = path.join(fixture.root, '.aider.chat.history.md');
+
+afterAll(() => fixture.cleanup());
+
+describe('parseAiderSessions', () => {
+  it('splits the history into one session per chat, newest first', async () => {
+    const sessions = await parseAiderSessions([historyFile]);
+    expect(sessions).toHaveLength(2);
+
+    const [latest, earlier] = sessions;
+    expect(latest.source).toBe('aider');
+    expect(latest.cwd).toBe(fixture.root);
+    expect(latest.summary).toBe('Fix the authentication bug in login.ts');
+    expect(latest.model).toBe('anthropic/claude-sonnet-4');
+    expect(latest.createdAt).toEqual(new Date(2026, 0, 15, 10, 0, 0));
+
+    expect(earlier.summary).toBe('What does login.ts do?');
+    expect(earlier.createdAt).toEqual(new Date(2026, 0, 14, 9, 0, 0));
+    // Ends at its last input, taken from .aider.input.history
+    expect(earlier.updatedAt).toEqual(new Date(2026, 0, 14, 9, 0, 5, 100));
+
+    expect(latest.id).not.toBe(earlier.id);
+    expect((await parseAiderSessions([historyFile])).map((s) => s.id)).toEqual([latest.id, earlier.id]);
+  });
+});
+
+describe('aider handoff lineage', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-aider-lineage-'));
+  afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('links each chat of a history from its own first message', async () => {
+    const file = path.join(root, '.aider.chat.history.md');
+    fs.writeFileSync(
+      file,
+      [
+        '# aider chat started at 2026-01-14 09:00:00',
+        '',
+        '#### What does login.ts do?',
+        '',
+        'It checks the session. Handoffs start with <!-- continues-handoff v1 source=codex id=codex-parent-1 -->',
+        '',
+        '# aider chat started at 2026-01-15 10:00:00',
+        '',
+        '#### <!-- continues-handoff v1 source=claude id=claude-parent-1 -->',
+        "#### I'm continuing a coding session from **Claude Code**.",
+        '',
+        'Picking it up.',
+        '',
+      ].join('\n'),
+    );
+
+    const [handedOff, plain] = annotateParents(await parseAiderSessions([file]));
+    expect(handedOff.parent).toEqual({ source: 'claude', id: 'claude-parent-1' });
+    expect(plain.parent).toBeUndefined();
+  });
+
+  it('watches the history files rather than the projects holding them', async () => {
+    expect(adapters.aider.watchFiles).toBe(true);
+    const config = getPreset('standard');
+    config.aider = { searchRoots: [root] };
+    setActiveConfig(config);
+    try {
+      expect(await resolveWatchRoots(adapters.aider)).toContain(path.join(root, '.aider.chat.history.md'));
+    } finally {
+      setActiveConfig(null);
+    }
+  });
+});
+
+describe('extractAiderContext', () => {
+  it('extracts turns, /run commands and applied edits of one chat', async () => {
+    const [session] = await parseAiderSessions([historyFile]);
+    const context = await extractAiderContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Fix the authentication bug in login.ts'],
+      ['assistant', expect.stringContaining('The token validation was missing.')],
+      ['user', 'Great, please also add error handling\nand log the failure'],
+      ['assistant', 'Done. I added try-catch blocks and proper error messages.'],
+    ]);
+    expect(context.recentMessages[2].timestamp).toEqual(new Date(2026, 0, 15, 10, 5, 0));
+
+    const edit = context.toolSummaries.find((s) => s.name === 'Edit');
+    expect(edit?.samples[0].data).toMatchObject({
+      category: 'edit',
+      filePath: 'src/login.ts',
+      diffStats: { added: 1, removed: 1 },
+    });
+    expect(edit?.samples[0].data?.category === 'edit' && edit.samples[0].data.diff).toContain(
+      '+const valid = verifyToken(token);',
+    );
+
+    const shell = context.toolSummaries.find((s) => s.name === 'Bash');
+    expect(shell?.samples[0].data).toEqual({
+      category: 'shell',
+      command: 'npm test',
+      stdoutTail: 'PASS src/login.test.ts\nTests: 3 passed',
+    });
+
+    expect(context.filesModified).toEqual(['src/login.ts']);
+    expect(context.sessionNotes?.tokenUsage).toEqual({ input: 2500, output: 120 });
+    expect(context.sessionNotes?.fileChanges?.[0]).toMatchObject({ filePath: 'src/login.ts', added: 1, removed: 1 });
+    expect(context.markdown).toContain('Aider');
+  });
+});
+
+describe('findAiderSessionFiles', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-aider-roots-'));
+
+  afterEach(() => setActiveConfig(null));
+  afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('finds histories in projects below the configured search roots', async () => {
+    const project = path.join(root, 'acme', 'app');
+    fs.mkdirSync(path.join(root, 'node_modules', 'pkg'), { recursive: true });
+    fs.mkdirSync(project, { recursive: true });
+    fs.writeFileSync(path.join(project, '.aider.chat.history.md'), '# aider chat started at 2026-01-15 10:00:00\n');
+    fs.writeFileSync(path.join(root, 'node_modules', 'pkg', '.aider.chat.history.md'), '');
+
+    const config = getPreset('standard');
+    config.aider = { searchRoots: [root] };
+    setActiveConfig(config);
+
+    const files = await findAiderSessionFiles();
+    expect(files).toContain(path.join(project, '.aider.chat.history.md'));
+    expect(files.some((f) => f.includes('node_modules'))).toBe(false);
+  });
+});
+
+describe('aider as a handoff target', () => {
+  it('passes the prompt as --message and maps model and auto-approve flags', () => {
+    expect(adapters.aider.crossToolArgs('Read the handoff', '/work/app')).toEqual(['--message', 'Read the handoff']);
+    expect(resolveCrossToolForwarding('aider', { rawArgs: ['--yolo', '--model', 'sonnet'] }).mappedArgs).toEqual([
+      '--yes-always',
+      '--model',
+      'sonnet',
+    ]);
+  });
+});
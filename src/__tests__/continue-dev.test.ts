@@ -0,0 +1,79 @@
+/**
+ * Tests for the Continue.dev session adapter (src/parsers/continue-dev.ts).
+ */
+
+import * as path from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import { extractContinueContext, parseContinueSessions } from '../parsers/continue-dev.js';
+import { adapters } from '../parsers/registry.js';
+import { createContinueFixture } from './fixtures/index.js';
+
+const fixture = createContinueFixture();
+const sessionFile = path.join(fixture.root, 'cccccccc-1111-2222-3333-444444444444.json');
+const untitledFile = path.join(fixture.root, 'cccccccc-5555-6666-7777-888888888888.json');
+
+afterAll(() => fixture.cleanup());
+
+describe('parseContinueSessions', () => {
+  it('takes titles, workspace folders and dates from sessions.json', async () => {
+    const sessions = await parseContinueSessions([sessionFile, untitledFile]);
+    const titled = sessions.find((s) => s.id === 'cccccccc-1111-2222-3333-444444444444');
+    const untitled = sessions.find((s) => s.id === 'cccccccc-5555-6666-7777-888888888888');
+
+    expect(titled).toMatchObject({ source: 'continue-dev', cwd: '/home/user/project', summary: 'Fix auth bug' });
+    expect(titled?.createdAt).toEqual(new Date(Date.UTC(2026, 0, 15, 10, 0, 0)));
+    // "New Session" is Continue's placeholder title — the first message is more telling
+    expect(untitled?.summary).toBe('What does login.ts do?');
+  });
+
+  it('skips files the index does not list', async () => {
+    expect(await parseContinueSessions([path.join(fixture.root, 'sessions.json')])).toEqual([]);
+  });
+});
+
+describe('extractContinueContext', () => {
+  it('maps messages, tool calls and context items', async () => {
+    const [session] = await parseContinueSessions([sessionFile]);
+    const context = await extractContinueContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Fix the authentication bug in login.ts'],
+      ['assistant', 'I will run the tests first.'],
+      ['assistant', 'The token validation was missing. I fixed it.'],
+      ['user', 'Great, please also add error handling'],
+      ['assistant', 'Done. I added try-catch blocks and proper error messages.'],
+    ]);
+
+    const shell = context.toolSummaries.find((s) => s.name === 'Bash');
+    expect(shell?.samples[0].data).toEqual({
+      category: 'shell',
+      command: 'npm test',
+      stdoutTail: 'FAIL src/login.test.ts\nTests: 1 failed',
+    });
+
+    const edit = context.toolSummaries.find((s) => s.name === 'Edit');
+    expect(edit?.samples[0].data).toMatchObject({ filePath: 'src/login.ts', diffStats: { added: 1, removed: 1 } });
+
+    const write = context.toolSummaries.find((s) => s.name === 'Write');
+    expect(write?.samples[0].data).toMatchObject({ category: 'write', filePath: 'src/errors.ts', isNewFile: true });
+
+    // The attached file and the failed read_file call
+    const read = context.toolSummaries.find((s) => s.name === 'Read');
+    expect(read).toMatchObject({ count: 2, errorCount: 1 });
+    expect(read?.samples[0].data).toEqual({ category: 'read', filePath: '/home/user/project/src/login.ts' });
+    expect(context.toolSummaries.find((s) => s.name === 'Context')?.samples[0].summary).toBe('@terminal Terminal');
+
+    expect(context.filesModified).toEqual(['src/login.ts', 'src/errors.ts']);
+    expect(context.sessionNotes).toMatchObject({ model: 'Claude Sonnet 4', tokenUsage: { input: 2700, output: 200 } });
+    expect(context.sessionNotes?.openProblems?.[0]).toMatchObject({ tool: 'Read', target: 'read src/missing.ts' });
+  });
+});
+
+describe('continue-dev as a handoff target', () => {
+  it('prints steps to attach the handoff file instead of launching a binary', () => {
+    const steps = adapters['continue-dev'].handoffInstructions?.('.continues-handoff.md', '/work/app') ?? [];
+    expect(steps.join('\n')).toContain('/work/app');
+    expect(steps.join('\n')).toContain('.continues-handoff.md');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for the VS Code Copilot Chat adapter (src/parsers/copilot-chat.ts).
+ */
+
+import * as path from 'node:path';
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import {
+  extractCopilotChatContext,
+  findCopilotChatSessionFiles,
+  parseCopilotChatSessions,
+} from '../parsers/copilot-chat.js';
+import { adapters } from '../parsers/registry.js';
+import { createCopilotChatFixture } from './fixtures/index.js';
+
+const fixture = createCopilotChatFixture();
+const workspaceDir = path.join(fixture.root, 'Code', 'User', 'workspaceStorage', 'f3b9c0a1d2e4');
+const sessionFile = path.join(workspaceDir, 'chatSessions', 'test-copilot-chat-session-1.json');
+const stateDb = path.join(workspaceDir, 'state.vscdb');
+
+afterAll(() => fixture.cleanup());
+
+describe.skipIf(process.platform !== 'linux')('findCopilotChatSessionFiles', () => {
+  const saved = process.env.XDG_CONFIG_HOME;
+  beforeEach(() => {
+    process.env.XDG_CONFIG_HOME = fixture.root;
+  });
+  afterEach(() => {
+    if (saved === undefined) delete process.env.XDG_CONFIG_HOME;
+    else process.env.XDG_CONFIG_HOME = saved;
+  });
+
+  it('finds chatSessions files and the workspace state database', async () => {
+    expect((await findCopilotChatSessionFiles()).sort()).toEqual([sessionFile, stateDb].sort());
+  });
+});
+
+describe('parseCopilotChatSessions', () => {
+  it('reads chatSessions files and legacy chats, newest first', async () => {
+    const [chat, legacy] = await parseCopilotChatSessions([sessionFile, stateDb]);
+
+    expect(chat).toMatchObject({
+      id: 'test-copilot-chat-session-1',
+      source: 'copilot-chat',
+      cwd: '/home/user/project',
+      summary: 'Fix auth bug',
+      model: 'gpt-4.1',
+      lines: 2,
+      originalPath: sessionFile,
+    });
+    expect(chat.updatedAt).toEqual(new Date('2026-01-15T10:05:00.000Z'));
+    expect(legacy).toMatchObject({
+      id: 'test-copilot-chat-legacy-1',
+      cwd: '/home/user/project',
+      summary: 'What does verifyToken do?',
+      originalPath: stateDb,
+    });
+  });
+});
+
+describe('extractCopilotChatContext', () => {
+  it('extracts messages, terminal runs, edits and the todo list', async () => {
+    const [session] = await parseCopilotChatSessions([sessionFile]);
+    const context = await extractCopilotChatContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Fix the authentication bug in login.ts'],
+      ['assistant', 'I will run the tests first.\n\nThe token validation was missing in `login.ts`.'],
+      ['user', 'Great, please also add error handling'],
+      ['assistant', 'Done. I added an AuthError class.'],
+    ]);
+
+    expect(context.toolSummaries.find((s) => s.name === 'Bash')?.samples[0].data).toMatchObject({
+      category: 'shell',
+      command: 'npm test',
+      exitCode: 1,
+      errored: true,
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Read')?.samples[0].data).toMatchObject({
+      filePath: '/home/user/project/src/login.ts',
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Edit')?.samples[0].data).toMatchObject({
+      filePath: '/home/user/project/src/login.ts',
+      diffStats: { added: 1, removed: 1 },
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Write')?.samples[0].data).toMatchObject({
+      filePath: '/home/user/project/src/errors.ts',
+      isNewFile: true,
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'mcp_github_get_issue')?.errorCount).toBe(1);
+
+    expect(context.filesModified).toEqual(['/home/user/project/src/login.ts', '/home/user/project/src/errors.ts']);
+    expect(context.pendingTasks).toEqual(['Use AuthError in login.ts']);
+    expect(context.sessionNotes?.model).toBe('gpt-4.1');
+  });
+
+  it('reads legacy chats from the state database', async () => {
+    const [session] = await parseCopilotChatSessions([stateDb]);
+    const context = await extractCopilotChatContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => m.content)).toEqual([
+      'What does verifyToken do?',
+      'It checks the signature of a JWT.',
+    ]);
+  });
+});
+
+describe('copilot-chat as a handoff target', () => {
+  it('opens the chat view with the handoff prompt', () => {
+    expect(adapters['copilot-chat'].crossToolSubcommand).toEqual(['chat']);
+    expect(adapters['copilot-chat'].crossToolArgs('Read the handoff', '/work/app')).toEqual(['Read the handoff']);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the Crush adapter (src/parsers/crush.ts).
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPreset } from '../config/index.js';
+import { extractCrushContext, findCrushSessionFiles, parseCrushSessions } from '../parsers/crush.js';
+import { createCrushFixture } from './fixtures/index.js';
+
+const fixture = createCrushFixture();
+const projectDir = path.join(fixture.root, 'project');
+const projectDb = path.join(projectDir, '.crush', 'crush.db');
+
+afterAll(() => fixture.cleanup());
+
+describe('findCrushSessionFiles', () => {
+  const saved = { CRUSH_GLOBAL_DATA: process.env.CRUSH_GLOBAL_DATA, XDG_DATA_HOME: process.env.XDG_DATA_HOME };
+  let dataHome: string;
+
+  beforeEach(() => {
+    dataHome = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-crush-'));
+    delete process.env.CRUSH_GLOBAL_DATA;
+    process.env.XDG_DATA_HOME = dataHome;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    fs.rmSync(dataHome, { recursive: true, force: true });
+  });
+
+  it('finds project databases listed in projects.json', async () => {
+    fs.mkdirSync(path.join(dataHome, 'crush'));
+    fs.writeFileSync(
+      path.join(dataHome, 'crush', 'projects.json'),
+      JSON.stringify({
+        projects: [
+          { path: projectDir, data_dir: '.crush', last_accessed: '2026-01-15T10:05:00Z' },
+          { path: path.join(fixture.root, 'gone'), data_dir: '.crush' },
+        ],
+      }),
+    );
+
+    expect(await findCrushSessionFiles()).toContain(projectDb);
+  });
+
+  it('finds the database of the project containing the working directory', async () => {
+    const nested = path.join(projectDir, 'src', 'auth');
+    fs.mkdirSync(nested, { recursive: true });
+    vi.spyOn(process, 'cwd').mockReturnValue(nested);
+
+    expect(await findCrushSessionFiles()).toContain(projectDb);
+  });
+});
+
+describe('parseCrushSessions', () => {
+  it('lists sessions with messages, using the project as cwd', async () => {
+    const sessions = await parseCrushSessions([projectDb]);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      id: 'test-crush-session-1',
+      source: 'crush',
+      cwd: projectDir,
+      summary: 'Fix auth bug',
+      lines: 7,
+      originalPath: projectDb,
+    });
+    expect(sessions[0].createdAt).toEqual(new Date('2026-01-15T10:00:00.000Z'));
+    expect(sessions[0].updatedAt).toEqual(new Date('2026-01-15T10:05:00.000Z'));
+  });
+
+  it('skips databases that cannot be opened', async () => {
+    expect(await parseCrushSessions([path.join(fixture.root, 'missing', 'crush.db')])).toEqual([]);
+  });
+});
+
+describe('extractCrushContext', () => {
+  it('extracts messages, tool calls, file changes and token usage', async () => {
+    const [session] = await parseCrushSessions([projectDb]);
+    const context = await extractCrushContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Fix the authentication bug in login.ts'],
+      ['assistant', 'I will run the tests first.'],
+      ['assistant', 'The token validation was missing.'],
+      ['user', 'Great, please also add error handling'],
+      ['assistant', 'Done. I added an AuthError class.'],
+    ]);
+
+    expect(context.toolSummaries.find((s) => s.name === 'Bash')?.samples[0].data).toMatchObject({
+      category: 'shell',
+      command: 'npm test',
+      errored: true,
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Read')?.samples[0].data).toMatchObject({
+      filePath: '/home/user/project/src/login.ts',
+      lineStart: 11,
+      lineEnd: 30,
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Edit')?.samples[0].data).toMatchObject({
+      filePath: '/home/user/project/src/login.ts',
+      diffStats: { added: 1, removed: 1 },
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Write')?.samples[0].data).toMatchObject({
+      filePath: '/home/user/project/src/errors.ts',
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'mcp_github_get_issue')?.errorCount).toBe(1);
+
+    expect(context.filesModified).toEqual(['/home/user/project/src/login.ts', '/home/user/project/src/errors.ts']);
+    expect(context.pendingTasks).toEqual(['Use AuthError in login.ts']);
+    expect(context.sessionNotes).toMatchObject({
+      model: 'claude-sonnet-4',
+      tokenUsage: { input: 1500, output: 300 },
+    });
+    expect(context.sessionNotes?.fileChanges).toHaveLength(2);
+  });
+});
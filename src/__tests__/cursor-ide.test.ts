@@ -0,0 +1,106 @@
+/**
+ * Tests for the Cursor IDE composer adapter (src/parsers/cursor-ide.ts).
+ */
+
+import * as path from 'node:path';
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import { extractCursorIdeContext, findCursorIdeSessionFiles, parseCursorIdeSessions } from '../parsers/cursor-ide.js';
+import { adapters } from '../parsers/registry.js';
+import { createCursorIdeFixture } from './fixtures/index.js';
+
+const fixture = createCursorIdeFixture();
+const workspaceDb = path.join(fixture.root, 'Cursor', 'User', 'workspaceStorage', '9d41e7b2c6a0', 'state.vscdb');
+
+afterAll(() => fixture.cleanup());
+
+describe.skipIf(process.platform !== 'linux')('findCursorIdeSessionFiles', () => {
+  const saved = process.env.XDG_CONFIG_HOME;
+  beforeEach(() => {
+    process.env.XDG_CONFIG_HOME = fixture.root;
+  });
+  afterEach(() => {
+    if (saved === undefined) delete process.env.XDG_CONFIG_HOME;
+    else process.env.XDG_CONFIG_HOME = saved;
+  });
+
+  it('finds the state database of each workspace', async () => {
+    expect(await findCursorIdeSessionFiles()).toEqual([workspaceDb]);
+  });
+});
+
+describe('parseCursorIdeSessions', () => {
+  it('lists the composers of a workspace, newest first, skipping empty ones', async () => {
+    const [composer, inline, ...rest] = await parseCursorIdeSessions([workspaceDb]);
+
+    expect(rest).toEqual([]);
+    expect(composer).toMatchObject({
+      id: 'test-cursor-ide-session-1',
+      source: 'cursor-ide',
+      cwd: '/home/user/project',
+      summary: 'Fix auth bug',
+      model: 'claude-4-sonnet',
+      lines: 7,
+      originalPath: workspaceDb,
+    });
+    expect(composer.updatedAt).toEqual(new Date('2026-01-15T10:05:00.000Z'));
+    expect(inline).toMatchObject({ id: 'test-cursor-ide-inline-1', summary: 'What does verifyToken do?' });
+    expect(inline.model).toBeUndefined();
+  });
+});
+
+describe('extractCursorIdeContext', () => {
+  it('extracts bubbles, tool calls and token usage', async () => {
+    const [session] = await parseCursorIdeSessions([workspaceDb]);
+    const context = await extractCursorIdeContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Fix the authentication bug in login.ts'],
+      ['assistant', 'I will run the tests first.'],
+      ['assistant', 'The token validation was missing.'],
+      ['user', 'Great, please also add error handling'],
+      ['assistant', 'Done. I added an AuthError class.'],
+    ]);
+
+    expect(context.toolSummaries.find((s) => s.name === 'Bash')?.samples[0].data).toMatchObject({
+      category: 'shell',
+      command: 'npm test',
+      exitCode: 1,
+      errored: true,
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Read')?.errorCount).toBe(1);
+    expect(context.toolSummaries.find((s) => s.name === 'Edit')?.samples[0].data).toMatchObject({
+      filePath: 'src/login.ts',
+      diffStats: { added: 1, removed: 1 },
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Write')?.samples[0].data).toMatchObject({
+      filePath: 'src/errors.ts',
+    });
+
+    expect(context.filesModified).toEqual(['src/login.ts', 'src/errors.ts']);
+    expect(context.pendingTasks).toEqual(['Use AuthError in login.ts']);
+    expect(context.sessionNotes).toMatchObject({
+      model: 'claude-4-sonnet',
+      tokenUsage: { input: 2700, output: 200 },
+    });
+  });
+
+  it('reads conversations stored inline in older composers', async () => {
+    const session = (await parseCursorIdeSessions([workspaceDb])).find((s) => s.id === 'test-cursor-ide-inline-1')!;
+    const context = await extractCursorIdeContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => m.content)).toEqual([
+      'What does verifyToken do?',
+      'It checks the signature of a JWT.',
+    ]);
+  });
+});
+
+describe('cursor-ide as a handoff target', () => {
+  it('opens the project and tells the user to mention the handoff file', () => {
+    expect(adapters['cursor-ide'].crossToolArgs('Read the handoff', '/work/app')).toEqual(['/work/app']);
+    expect(adapters['cursor-ide'].handoffInstructions?.('.continues-handoff.md', '/work/app').join('\n')).toContain(
+      '@.continues-handoff.md',
+    );
+  });
+});
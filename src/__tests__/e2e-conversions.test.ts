@@ -31,6 +31,13 @@ import {
   extractRooCodeContext,
   extractKiloCodeContext,
   extractAntigravityContext,
+  extractAiderContext,
+  extractGooseContext,
+  extractContinueContext,
+  extractZedContext,
+  extractQwenContext,
+  extractCopilotChatContext,
+  extractCursorIdeContext,
   parseClaudeSessions,
   parseCodexSessions,
   parseCopilotSessions,
@@ -45,10 +52,17 @@ import {
   parseRooCodeSessions,
   parseKiloCodeSessions,
   parseAntigravitySessions,
+  parseAiderSessions,
+  parseGooseSessions,
+  parseContinueSessions,
+  parseZedSessions,
+  parseQwenSessions,
+  parseCopilotChatSessions,
+  parseCursorIdeSessions,
 } from '../parsers/index.js';
 import type { SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
 
-const ALL_SOURCES: SessionSource[] = ['claude', 'copilot', 'gemini', 'codex', 'opencode', 'droid', 'cursor', 'amp', 'kiro', 'crush', 'cline', 'roo-code', 'kilo-code', 'antigravity'];
+const ALL_SOURCES: SessionSource[] = ['claude', 'copilot', 'gemini', 'codex', 'opencode', 'droid', 'cursor', 'amp', 'kiro', 'crush', 'cline', 'roo-code', 'kilo-code', 'antigravity', 'aider', 'goose', 'continue-dev', 'zed', 'qwen', 'copilot-chat', 'cursor-ide'];
 
 const parsers: Record<SessionSource, () => Promise<UnifiedSession[]>> = {
   claude: parseClaudeSessions,
@@ -65,6 +79,13 @@ const parsers: Record<SessionSource, () => Promise<UnifiedSession[]>> = {
   'roo-code': parseRooCodeSessions,
   'kilo-code': parseKiloCodeSessions,
   antigravity: parseAntigravitySessions,
+  aider: parseAiderSessions,
+  goose: parseGooseSessions,
+  'continue-dev': parseContinueSessions,
+  zed: parseZedSessions,
+  qwen: parseQwenSessions,
+  'copilot-chat': parseCopilotChatSessions,
+  'cursor-ide': parseCursorIdeSessions,
 };
 
 const extractors: Record<SessionSource, (s: UnifiedSession) => Promise<SessionContext>> = {
@@ -82,6 +103,13 @@ const extractors: Record<SessionSource, (s: UnifiedSession) => Promise<SessionCo
   'roo-code': extractRooCodeContext,
   'kilo-code': extractKiloCodeContext,
   antigravity: extractAntigravityContext,
+  aider: extractAiderContext,
+  goose: extractGooseContext,
+  'continue-dev': extractContinueContext,
+  zed: extractZedContext,
+  qwen: extractQwenContext,
+  'copilot-chat': extractCopilotChatContext,
+  'cursor-ide': extractCursorIdeContext,
 };
 
 // Results directory
@@ -271,6 +299,13 @@ describe('E2E: 20 Cross-Tool Conversion Paths', () => {
           'roo-code': 'Roo Code',
           'kilo-code': 'Kilo Code',
           antigravity: 'Antigravity',
+          aider: 'Aider',
+          goose: 'Goose',
+          'continue-dev': 'Continue',
+          zed: 'Zed',
+          qwen: 'Qwen Code',
+          'copilot-chat': 'Copilot Chat',
+          'cursor-ide': 'Cursor IDE',
         };
         const sourceLabel = sourceLabels[source];
 
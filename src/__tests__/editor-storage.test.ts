@@ -0,0 +1,107 @@
+/**
+ * Tests for the VS Code–family storage resolver (src/utils/editor-storage.ts)
+ * and the adapters discovering through it.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getPreset, setActiveConfig } from '../config/index.js';
+import { findClineSessionFiles, findKiloCodeSessionFiles } from '../parsers/cline.js';
+import { findKiroSessionFiles } from '../parsers/kiro.js';
+import { adapters } from '../parsers/registry.js';
+import { editorBases, editorUserDirs } from '../utils/editor-storage.js';
+import { checkAdapterHealth } from '../utils/health.js';
+
+let home: string;
+const saved = { HOME: process.env.HOME, XDG_CONFIG_HOME: process.env.XDG_CONFIG_HOME };
+
+beforeEach(() => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-editor-'));
+  process.env.HOME = home;
+  delete process.env.XDG_CONFIG_HOME;
+});
+
+afterEach(() => {
+  setActiveConfig(null);
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+/** A Cline-family task under a globalStorage dir — returns its ui_messages.json */
+function writeTask(globalStorage: string, extensionId: string, taskId: string): string {
+  const taskDir = path.join(globalStorage, extensionId, 'tasks', taskId);
+  fs.mkdirSync(taskDir, { recursive: true });
+  const uiFile = path.join(taskDir, 'ui_messages.json');
+  fs.writeFileSync(uiFile, '[]');
+  return uiFile;
+}
+
+describe.skipIf(process.platform !== 'linux')('editorBases on Linux', () => {
+  it('covers the XDG config dir and the Flatpak and Snap sandboxes', () => {
+    expect(editorBases(['VSCodium'])).toEqual([
+      path.join(home, '.config', 'VSCodium'),
+      path.join(home, '.var', 'app', 'com.vscodium.codium', 'config', 'VSCodium'),
+      path.join(home, 'snap', 'codium', 'current', '.config', 'VSCodium'),
+    ]);
+    expect(editorBases(['Cursor'])).toEqual([path.join(home, '.config', 'Cursor')]);
+  });
+
+  it('honours XDG_CONFIG_HOME', () => {
+    process.env.XDG_CONFIG_HOME = path.join(home, 'xdg');
+    expect(editorUserDirs(['Code - OSS'])[0]).toBe(path.join(home, 'xdg', 'Code - OSS', 'User'));
+  });
+
+  it('adds the bases from the config', () => {
+    const config = getPreset('standard');
+    config.editorStorage = { bases: ['/opt/vscode/data/user-data', '/opt/vscode/data/user-data'] };
+    setActiveConfig(config);
+
+    expect(editorBases(['Cursor'])).toEqual([path.join(home, '.config', 'Cursor'), '/opt/vscode/data/user-data']);
+  });
+
+  it('finds Cline-family tasks in Flatpak, Snap and Windsurf installs', async () => {
+    const flatpak = writeTask(
+      path.join(home, '.var', 'app', 'com.vscodium.codium', 'config', 'VSCodium', 'User', 'globalStorage'),
+      'saoudrizwan.claude-dev',
+      'task-flatpak',
+    );
+    const snap = writeTask(
+      path.join(home, 'snap', 'code', 'current', '.config', 'Code', 'User', 'globalStorage'),
+      'saoudrizwan.claude-dev',
+      'task-snap',
+    );
+    const windsurf = writeTask(
+      path.join(home, '.config', 'Windsurf', 'User', 'globalStorage'),
+      'kilocode.kilo-code',
+      'task-windsurf',
+    );
+
+    expect((await findClineSessionFiles()).sort()).toEqual([flatpak, snap].sort());
+    expect(await findKiloCodeSessionFiles()).toEqual([windsurf]);
+  });
+
+  it('finds Kiro sessions under the XDG config dir', async () => {
+    const workspaceDir = path.join(home, '.config', 'Kiro', 'workspace-sessions', 'd29ya3NwYWNl');
+    fs.mkdirSync(workspaceDir, { recursive: true });
+    fs.writeFileSync(path.join(workspaceDir, 'sessions.json'), '[]');
+    fs.writeFileSync(path.join(workspaceDir, 'abc.json'), JSON.stringify({ sessionId: 'abc', history: [] }));
+
+    expect(await findKiroSessionFiles()).toEqual([path.join(workspaceDir, 'abc.json')]);
+  });
+
+  it('reports the probed bases in the health check', async () => {
+    fs.mkdirSync(path.join(home, '.config', 'Kiro', 'workspace-sessions'), { recursive: true });
+
+    const health = await checkAdapterHealth(adapters.kiro);
+
+    expect(health.storageBases).toEqual([
+      { path: path.join(home, '.config', 'Kiro', 'workspace-sessions'), found: true },
+    ]);
+    expect((await checkAdapterHealth(adapters.claude)).storageBases).toBeUndefined();
+  });
+});
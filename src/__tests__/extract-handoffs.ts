@@ -20,6 +20,13 @@ import {
   extractRooCodeContext,
   extractKiloCodeContext,
   extractAntigravityContext,
+  extractAiderContext,
+  extractGooseContext,
+  extractContinueContext,
+  extractZedContext,
+  extractQwenContext,
+  extractCopilotChatContext,
+  extractCursorIdeContext,
   parseClaudeSessions,
   parseCodexSessions,
   parseCopilotSessions,
@@ -34,13 +41,20 @@ import {
   parseRooCodeSessions,
   parseKiloCodeSessions,
   parseAntigravitySessions,
+  parseAiderSessions,
+  parseGooseSessions,
+  parseContinueSessions,
+  parseZedSessions,
+  parseQwenSessions,
+  parseCopilotChatSessions,
+  parseCursorIdeSessions,
 } from '../parsers/index.js';
 import type { SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
 
 const RESULTS_DIR = path.join(process.env.HOME || '~', '.continues', 'e2e-test-results');
 fs.mkdirSync(RESULTS_DIR, { recursive: true });
 
-const ALL_SOURCES: SessionSource[] = ['claude', 'copilot', 'gemini', 'codex', 'opencode', 'droid', 'cursor', 'amp', 'kiro', 'crush', 'cline', 'roo-code', 'kilo-code', 'antigravity'];
+const ALL_SOURCES: SessionSource[] = ['claude', 'copilot', 'gemini', 'codex', 'opencode', 'droid', 'cursor', 'amp', 'kiro', 'crush', 'cline', 'roo-code', 'kilo-code', 'antigravity', 'aider', 'goose', 'continue-dev', 'zed', 'qwen', 'copilot-chat', 'cursor-ide'];
 
 const parsers: Record<SessionSource, () => Promise<UnifiedSession[]>> = {
   claude: parseClaudeSessions,
@@ -57,6 +71,13 @@ const parsers: Record<SessionSource, () => Promise<UnifiedSession[]>> = {
   'roo-code': parseRooCodeSessions,
   'kilo-code': parseKiloCodeSessions,
   antigravity: parseAntigravitySessions,
+  aider: parseAiderSessions,
+  goose: parseGooseSessions,
+  'continue-dev': parseContinueSessions,
+  zed: parseZedSessions,
+  qwen: parseQwenSessions,
+  'copilot-chat': parseCopilotChatSessions,
+  'cursor-ide': parseCursorIdeSessions,
 };
 
 const extractors: Record<SessionSource, (s: UnifiedSession) => Promise<SessionContext>> = {
@@ -74,6 +95,13 @@ const extractors: Record<SessionSource, (s: UnifiedSession) => Promise<SessionCo
   'roo-code': extractRooCodeContext,
   'kilo-code': extractKiloCodeContext,
   antigravity: extractAntigravityContext,
+  aider: extractAiderContext,
+  goose: extractGooseContext,
+  'continue-dev': extractContinueContext,
+  zed: extractZedContext,
+  qwen: extractQwenContext,
+  'copilot-chat': extractCopilotChatContext,
+  'cursor-ide': extractCursorIdeContext,
 };
 
 async function main() {
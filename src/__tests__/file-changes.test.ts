@@ -0,0 +1,141 @@
+/**
+ * Tests for the per-file net change summary (src/utils/file-changes.ts).
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import type { UnifiedSession } from '../types/index.js';
+import { lineDiff } from '../utils/diff.js';
+import { opsFromCodexPatch, opsFromUnifiedDiff, summarizeFileChanges } from '../utils/file-changes.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { type AnthropicMessage, extractAnthropicToolData } from '../utils/tool-extraction.js';
+
+const edit = (filePath: string, oldText: string, newText: string) => ({
+  kind: 'edit' as const,
+  filePath,
+  oldText,
+  newText,
+});
+
+function editCall(id: string, file_path: string, old_string: string, new_string: string): AnthropicMessage {
+  return {
+    role: 'assistant',
+    content: [{ type: 'tool_use', id, name: 'Edit', input: { file_path, old_string, new_string } }],
+  };
+}
+
+describe('lineDiff', () => {
+  it('aligns unchanged lines between removals and additions', () => {
+    expect(lineDiff('a\nb\nc', 'a\nB\nc\nd')).toEqual([' a', '-b', '+B', ' c', '+d']);
+    expect(lineDiff('', 'x')).toEqual(['+x']);
+  });
+});
+
+describe('summarizeFileChanges', () => {
+  it('folds successive edits of the same region into one net hunk', () => {
+    const [change] = summarizeFileChanges([
+      edit('src/a.ts', 'const x = 1;', 'const x = 2;'),
+      edit('src/a.ts', 'const x = 2;', 'const x = 3;\nconst y = 4;'),
+      edit('src/a.ts', 'const y = 4;', 'const y = 5;'),
+    ]);
+    expect(change).toMatchObject({ filePath: 'src/a.ts', edits: 3, status: 'modified', added: 2, removed: 1 });
+    expect(change.diff).toBe('-const x = 1;\n+const x = 3;\n+const y = 5;');
+  });
+
+  it('maps an edit spanning earlier hunks back to the original text', () => {
+    const [change] = summarizeFileChanges([edit('a.ts', 'one', 'ONE'), edit('a.ts', 'ONE\ntwo', 'ONE\nTWO')]);
+    expect(change.diff).toBe('-one\n-two\n+ONE\n+TWO');
+  });
+
+  it('drops edits that cancel out', () => {
+    const [change] = summarizeFileChanges([edit('a.ts', 'foo', 'bar'), edit('a.ts', 'bar', 'foo')]);
+    expect(change).toMatchObject({ edits: 2, added: 0, removed: 0 });
+    expect(change.diff).toBeUndefined();
+  });
+
+  it('applies edits to the content of a file written in the session', () => {
+    const [created, unknown] = summarizeFileChanges([
+      { kind: 'write', filePath: 'new.ts', content: 'a\nb\n', isNewFile: true },
+      edit('new.ts', 'b', 'b2\nc'),
+      { kind: 'unknown', filePath: 'other.ts' },
+      edit('new.ts', 'missing', 'x'),
+    ]);
+    expect(created).toMatchObject({ status: 'created', edits: 3, added: 4, removed: 1, partial: true });
+    expect(created.diff).toBe('+a\n+b2\n+c\n@@\n-missing\n+x');
+    expect(unknown).toMatchObject({ status: 'modified', partial: true });
+  });
+});
+
+describe('op extraction', () => {
+  it('reads Codex apply_patch sections for every file', () => {
+    const ops = opsFromCodexPatch(
+      [
+        '*** Begin Patch',
+        '*** Add File: docs/new.md',
+        '+# New',
+        '*** Update File: src/app.ts',
+        '@@ function main() {',
+        ' const a = 1;',
+        '-const b = 2;',
+        '+const b = 3;',
+        '*** Delete File: old.txt',
+        '*** End Patch',
+      ].join('\n'),
+    );
+    expect(ops).toEqual([
+      { kind: 'write', filePath: 'docs/new.md', content: '# New', isNewFile: true },
+      {
+        kind: 'edit',
+        filePath: 'src/app.ts',
+        oldText: 'const a = 1;\nconst b = 2;',
+        newText: 'const a = 1;\nconst b = 3;',
+      },
+      { kind: 'delete', filePath: 'old.txt' },
+    ]);
+  });
+
+  it('reads unified diff hunks', () => {
+    const diff = 'Index: a.ts\n===\n--- a.ts\n+++ a.ts\n@@ -1,2 +1,2 @@\n keep\n-old\n+new\n@@ -9 +9 @@\n-x\n+y';
+    expect(opsFromUnifiedDiff('a.ts', diff)).toEqual([edit('a.ts', 'keep\nold', 'keep\nnew'), edit('a.ts', 'x', 'y')]);
+    expect(opsFromUnifiedDiff('b.ts', '--- /dev/null\n+++ b/b.ts\n+hello')).toEqual([
+      { kind: 'write', filePath: 'b.ts', content: 'hello', isNewFile: true },
+    ]);
+  });
+});
+
+describe('Changes by File section', () => {
+  it('aggregates every edit, beyond the sample cap, into the handoff', () => {
+    const messages: AnthropicMessage[] = [];
+    for (let i = 0; i < 12; i++) {
+      messages.push(editCall(`t${i}`, 'src/loop.ts', `step ${i}`, `step ${i + 1}`));
+    }
+    const { summaries, fileChanges } = extractAnthropicToolData(messages);
+    expect(summaries[0].samples.length).toBeLessThan(12);
+    expect(fileChanges).toEqual([
+      { filePath: 'src/loop.ts', edits: 12, status: 'modified', added: 1, removed: 1, diff: '-step 0\n+step 12' },
+    ]);
+
+    const session: UnifiedSession = {
+      id: 's1',
+      source: 'claude',
+      cwd: '/work',
+      lines: 1,
+      bytes: 1,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T01:00:00Z'),
+      originalPath: '/tmp/s1.jsonl',
+    };
+    const md = generateHandoffMarkdown(
+      session,
+      [],
+      ['src/loop.ts'],
+      [],
+      summaries,
+      { fileChanges },
+      getPreset('standard'),
+    );
+    expect(md).toContain('## Changes by File');
+    expect(md).toContain('| `src/loop.ts` | 12 | +1 -1 |');
+    expect(md).toContain('```diff\n-step 0\n+step 12\n```');
+  });
+});
@@ -223,6 +223,94 @@ export function createGeminiFixture(): FixtureDir {
   };
 }
 
+/**
+ * Create a temporary Qwen Code data dir — Gemini's chat format under
+ * tmp/<project-hash>/chats, plus one chat in the legacy sessions dir
+ */
+export function createQwenFixture(): FixtureDir {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-qwen-'));
+  const chatsDir = path.join(root, 'tmp', 'def456hash', 'chats');
+  const legacyDir = path.join(root, 'sessions');
+  fs.mkdirSync(chatsDir, { recursive: true });
+  fs.mkdirSync(legacyDir, { recursive: true });
+
+  const session = {
+    sessionId: 'test-qwen-session-1',
+    projectHash: 'def456hash',
+    startTime: '2026-01-15T10:00:00.000Z',
+    lastUpdated: '2026-01-15T10:05:00.000Z',
+    messages: [
+      {
+        id: 'msg-001',
+        timestamp: '2026-01-15T10:00:01.000Z',
+        type: 'user',
+        content: 'Fix the authentication bug in login.ts',
+      },
+      {
+        id: 'msg-002',
+        timestamp: '2026-01-15T10:00:05.000Z',
+        type: 'gemini',
+        content: 'I will read the file first.',
+        model: 'qwen3-coder-plus',
+        tokens: { input: 1200, output: 80, cached: 400 },
+        toolCalls: [
+          { id: 'tc-001', name: 'read_file', args: { file_path: 'src/missing.ts' }, status: 'error' },
+          { id: 'tc-002', name: 'read_file', args: { file_path: 'src/login.ts' }, status: 'success' },
+        ],
+      },
+      {
+        id: 'msg-003',
+        timestamp: '2026-01-15T10:00:08.000Z',
+        type: 'gemini',
+        content: 'The token validation was missing. I fixed it.',
+        model: 'qwen3-coder-plus',
+        tokens: { input: 1500, output: 120 },
+        toolCalls: [
+          {
+            id: 'tc-003',
+            name: 'write_file',
+            args: { file_path: 'src/login.ts', content: 'export const verified = true;\n' },
+            status: 'success',
+            resultDisplay: {
+              filePath: 'src/login.ts',
+              diffStat: { model_added_lines: 1, model_removed_lines: 1 },
+              isNewFile: false,
+            },
+          },
+        ],
+      },
+      {
+        id: 'msg-004',
+        timestamp: '2026-01-15T10:00:10.000Z',
+        type: 'user',
+        content: 'Great, please also add error handling',
+      },
+      {
+        id: 'msg-005',
+        timestamp: '2026-01-15T10:00:15.000Z',
+        type: 'gemini',
+        content: 'Done. I added try-catch blocks and proper error messages.',
+      },
+    ],
+  };
+
+  const legacy = {
+    sessionId: 'test-qwen-legacy-1',
+    projectHash: 'def456hash',
+    startTime: '2026-01-14T09:00:00.000Z',
+    lastUpdated: '2026-01-14T09:01:00.000Z',
+    messages: [{ id: 'msg-001', timestamp: '2026-01-14T09:00:01.000Z', type: 'user', content: 'Explain login.ts' }],
+  };
+
+  fs.writeFileSync(path.join(chatsDir, 'session-2026-01-15T10-00-qwen1234.json'), JSON.stringify(session, null, 2));
+  fs.writeFileSync(path.join(legacyDir, 'legacy-qwen.json'), JSON.stringify(legacy, null, 2));
+
+  return {
+    root,
+    cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+  };
+}
+
 /**
  * Create a temporary directory with Codex session fixtures
  */
@@ -876,6 +964,805 @@ export function createAntigravityFixture(): FixtureDir {
   };
 }
 
+/**
+ * Create a temporary project with an Aider chat history (two chats) and its input history
+ */
+export function createAiderFixture(): FixtureDir {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-aider-'));
+
+  const history = [
+    '',
+    '# aider chat started at 2026-01-14 09:00:00',
+    '',
+    '> aider --model gpt-4o',
+    '> Aider v0.80.0',
+    '',
+    '#### What does login.ts do?',
+    '',
+    'It validates the session token and redirects to the dashboard.',
+    '',
+    '# aider chat started at 2026-01-15 10:00:00',
+    '',
+    '> /usr/local/bin/aider --model sonnet',
+    '> Main model: anthropic/claude-sonnet-4 with diff edit format  ',
+    '> Git repo: .git with 42 files  ',
+    '',
+    '#### Fix the authentication bug in login.ts',
+    '',
+    'I found the issue in login.ts. The token validation was missing.',
+    '',
+    'src/login.ts',
+    '```typescript',
+    '<<<<<<< SEARCH',
+    'const valid = true;',
+    '=======',
+    'const valid = verifyToken(token);',
+    '>>>>>>> REPLACE',
+    '```',
+    '',
+    '> Tokens: 2.5k sent, 120 received. Cost: $0.01 message, $0.01 session.  ',
+    '> Applied edit to src/login.ts  ',
+    '> Commit 1a2b3c4 fix: Validate session token  ',
+    '',
+    '#### /run npm test',
+    '',
+    '> PASS src/login.test.ts  ',
+    '> Tests: 3 passed  ',
+    '> Add command output to the chat? (Y)es/(N)o [Yes]: y  ',
+    '',
+    '#### Great, please also add error handling',
+    '#### and log the failure',
+    '',
+    'Done. I added try-catch blocks and proper error messages.',
+    '',
+  ];
+
+  const input = [
+    '',
+    '# 2026-01-14 09:00:05.100000',
+    '+What does login.ts do?',
+    '',
+    '# 2026-01-15 10:01:00.250000',
+    '+Fix the authentication bug in login.ts',
+    '',
+    '# 2026-01-15 10:03:00.000000',
+    '+/run npm test',
+    '',
+    '# 2026-01-15 10:05:00.000000',
+    '+Great, please also add error handling',
+    '+and log the failure',
+  ];
+
+  fs.writeFileSync(path.join(root, '.aider.chat.history.md'), history.join('\n'));
+  fs.writeFileSync(path.join(root, '.aider.input.history'), input.join('\n'));
+
+  return {
+    root,
+    cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Create a temporary Goose sessions directory with one session file
+ */
+export function createGooseFixture(): FixtureDir {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-goose-'));
+  const created = Date.UTC(2026, 0, 15, 10, 0, 0) / 1000;
+
+  const toolRequest = (id: string, name: string, args: Record<string, unknown>) => ({
+    type: 'toolRequest',
+    id,
+    toolCall: { status: 'success', value: { name, arguments: args } },
+  });
+  const toolResponse = (id: string, text: string, status = 'success') => ({
+    type: 'toolResponse',
+    id,
+    toolResult:
+      status === 'error'
+        ? { status, error: text }
+        : {
+            status,
+            value: [
+              { type: 'text', text, annotations: { audience: ['assistant'] } },
+              { type: 'text', text: `(shown to user) ${text}`, annotations: { audience: ['user'] } },
+            ],
+          },
+  });
+
+  const lines = [
+    JSON.stringify({
+      working_dir: '/home/user/project',
+      description: 'Auth bug fix',
+      message_count: 8,
+      total_tokens: 5300,
+      input_tokens: 900,
+      output_tokens: 100,
+      accumulated_input_tokens: 5000,
+      accumulated_output_tokens: 300,
+    }),
+    JSON.stringify({
+      role: 'user',
+      created,
+      content: [{ type: 'text', text: 'Fix the authentication bug in login.ts' }],
+    }),
+    JSON.stringify({
+      role: 'assistant',
+      created: created + 5,
+      content: [
+        { type: 'text', text: 'I will look at the login flow first.' },
+        toolRequest('call_1', 'developer__shell', { command: 'npm test' }),
+      ],
+    }),
+    JSON.stringify({
+      role: 'user',
+      created: created + 10,
+      content: [toolResponse('call_1', 'FAIL src/login.test.ts\nTests: 1 failed')],
+    }),
+    JSON.stringify({
+      role: 'assistant',
+      created: created + 15,
+      content: [
+        toolRequest('call_2', 'developer__text_editor', {
+          command: 'str_replace',
+          path: 'src/login.ts',
+          old_str: 'const valid = true;',
+          new_str: 'const valid = verifyToken(token);',
+        }),
+        toolRequest('call_3', 'developer__text_editor', {
+          command: 'write',
+          path: 'src/errors.ts',
+          file_text: 'export class AuthError extends Error {}\n',
+        }),
+        toolRequest('call_4', 'developer__text_editor', { command: 'view', path: 'src/missing.ts' }),
+      ],
+    }),
+    JSON.stringify({
+      role: 'user',
+      created: created + 20,
+      content: [
+        toolResponse('call_2', 'The file src/login.ts has been edited'),
+        toolResponse('call_3', 'Successfully wrote to src/errors.ts'),
+        toolResponse('call_4', 'The path src/missing.ts does not exist', 'error'),
+      ],
+    }),
+    JSON.stringify({
+      role: 'assistant',
+      created: created + 25,
+      content: [{ type: 'text', text: 'The token validation was missing. I fixed it.' }],
+    }),
+    JSON.stringify({
+      role: 'user',
+      created: created + 60,
+      content: [{ type: 'text', text: 'Great, please also add error handling' }],
+    }),
+    JSON.stringify({
+      role: 'assistant',
+      created: created + 65,
+      content: [{ type: 'text', text: 'Done. I added try-catch blocks and proper error messages.' }],
+    }),
+  ];
+
+  fs.writeFileSync(path.join(root, '20260115_100000.jsonl'), lines.join('\n'));
+
+  return {
+    root,
+    cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Create a temporary Continue.dev sessions directory: sessions.json plus
+ * one titled and one untitled session
+ */
+export function createContinueFixture(): FixtureDir {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-continue-'));
+  const sessionId = 'cccccccc-1111-2222-3333-444444444444';
+  const untitledId = 'cccccccc-5555-6666-7777-888888888888';
+
+  const toolCall = (id: string, name: string, args: Record<string, unknown>) => ({
+    id,
+    type: 'function',
+    function: { name, arguments: JSON.stringify(args) },
+  });
+  const shellCall = toolCall('tc_1', 'run_terminal_command', { command: 'npm test' });
+  const editCall = toolCall('tc_2', 'single_find_and_replace', {
+    filepath: 'src/login.ts',
+    old_string: 'const valid = true;',
+    new_string: 'const valid = verifyToken(token);',
+  });
+  const createCall = toolCall('tc_3', 'create_new_file', {
+    filepath: 'src/errors.ts',
+    contents: 'export class AuthError extends Error {}\n',
+  });
+  const readCall = toolCall('tc_4', 'read_file', { filepath: 'src/missing.ts' });
+
+  const session = {
+    sessionId,
+    title: 'Fix auth bug',
+    workspaceDirectory: 'file:///home/user/project',
+    history: [
+      {
+        message: { role: 'user', content: [{ type: 'text', text: 'Fix the authentication bug in login.ts' }] },
+        contextItems: [
+          {
+            name: 'login.ts',
+            description: 'src/login.ts',
+            content: 'const valid = true;',
+            id: { providerTitle: 'file', itemId: 'ctx_1' },
+            uri: { type: 'file', value: 'file:///home/user/project/src/login.ts' },
+          },
+          {
+            name: 'Terminal',
+            description: 'Terminal contents',
+            content: 'npm ERR! 1 test failed',
+            id: { providerTitle: 'terminal', itemId: 'ctx_2' },
+          },
+        ],
+      },
+      {
+        message: {
+          role: 'assistant',
+          content: 'I will run the tests first.',
+          toolCalls: [shellCall],
+          usage: { promptTokens: 1200, completionTokens: 80 },
+        },
+        contextItems: [],
+        toolCallState: { toolCallId: 'tc_1', toolCall: shellCall, status: 'done' },
+        promptLogs: [{ modelTitle: 'Claude Sonnet 4', prompt: '', completion: '' }],
+      },
+      {
+        message: { role: 'tool', content: 'FAIL src/login.test.ts\nTests: 1 failed', toolCallId: 'tc_1' },
+        contextItems: [],
+      },
+      {
+        message: {
+          role: 'assistant',
+          content: '',
+          toolCalls: [editCall, createCall, readCall],
+          usage: { promptTokens: 1500, completionTokens: 120 },
+        },
+        contextItems: [],
+        toolCallStates: [
+          { toolCallId: 'tc_2', toolCall: editCall, status: 'done', output: [{ name: 'Edit', content: 'Applied' }] },
+          { toolCallId: 'tc_3', toolCall: createCall, status: 'done' },
+          {
+            toolCallId: 'tc_4',
+            toolCall: readCall,
+            status: 'errored',
+            output: [{ name: 'Error', content: 'File src/missing.ts does not exist' }],
+          },
+        ],
+      },
+      {
+        message: { role: 'assistant', content: 'The token validation was missing. I fixed it.' },
+        contextItems: [],
+      },
+      { message: { role: 'user', content: 'Great, please also add error handling' }, contextItems: [] },
+      {
+        message: { role: 'assistant', content: 'Done. I added try-catch blocks and proper error messages.' },
+        contextItems: [],
+      },
+    ],
+  };
+
+  const untitled = {
+    sessionId: untitledId,
+    title: 'New Session',
+    workspaceDirectory: '/home/user/project',
+    history: [{ message: { role: 'user', content: 'What does login.ts do?' }, contextItems: [] }],
+  };
+
+  const index = [
+    {
+      sessionId,
+      title: 'Fix auth bug',
+      dateCreated: String(Date.UTC(2026, 0, 15, 10, 0, 0)),
+      workspaceDirectory: 'file:///home/user/project',
+    },
+    {
+      sessionId: untitledId,
+      title: 'New Session',
+      dateCreated: String(Date.UTC(2026, 0, 14, 9, 0, 0)),
+      workspaceDirectory: '/home/user/project',
+    },
+    // Listed, but its file is gone
+    { sessionId: 'deleted', title: 'Deleted', dateCreated: '0', workspaceDirectory: '' },
+  ];
+
+  fs.writeFileSync(path.join(root, `${sessionId}.json`), JSON.stringify(session, null, 2));
+  fs.writeFileSync(path.join(root, `${untitledId}.json`), JSON.stringify(untitled, null, 2));
+  fs.writeFileSync(path.join(root, 'sessions.json'), JSON.stringify(index));
+
+  return {
+    root,
+    cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Create a temporary Zed threads.db: one thread in the original agent panel
+ * format (plain JSON) and one in the rewrite's format (zstd-compressed)
+ */
+export function createZedFixture(): FixtureDir {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-zed-'));
+  const dbPath = path.join(root, 'threads.db');
+
+  const { DatabaseSync } = require('node:sqlite');
+  const { zstdCompressSync } = require('node:zlib');
+  const db = new DatabaseSync(dbPath);
+
+  db.exec(`
+    CREATE TABLE threads (
+      id TEXT PRIMARY KEY,
+      summary TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data_type TEXT NOT NULL,
+      data BLOB NOT NULL,
+      folder_paths TEXT
+    );
+  `);
+
+  const legacy = {
+    version: '0.2.0',
+    summary: 'Fix auth bug',
+    updated_at: '2026-01-15T10:05:00Z',
+    messages: [
+      {
+        id: 0,
+        role: 'user',
+        segments: [{ type: 'text', text: 'Fix the authentication bug in login.ts' }],
+        tool_uses: [],
+        tool_results: [],
+        context: '',
+        is_hidden: false,
+      },
+      {
+        id: 1,
+        role: 'assistant',
+        segments: [{ type: 'text', text: 'I will run the tests first.' }],
+        tool_uses: [{ id: 'toolu_1', name: 'terminal', input: { command: 'npm test', cd: 'project' } }],
+        tool_results: [],
+      },
+      {
+        id: 2,
+        role: 'user',
+        segments: [],
+        tool_uses: [],
+        tool_results: [
+          {
+            tool_use_id: 'toolu_1',
+            is_error: false,
+            content: 'Command "npm test" failed with exit code 1.\n\n```\nFAIL src/login.test.ts\n```',
+            output: null,
+          },
+        ],
+      },
+      {
+        id: 3,
+        role: 'assistant',
+        segments: [
+          { type: 'thinking', text: 'The token is never checked.', signature: null },
+          { type: 'text', text: 'The token validation was missing.' },
+        ],
+        tool_uses: [
+          {
+            id: 'toolu_2',
+            name: 'edit_file',
+            input: { path: 'project/src/login.ts', display_description: 'Validate the token', mode: 'edit' },
+          },
+          { id: 'toolu_3', name: 'read_file', input: { path: 'project/src/missing.ts' } },
+        ],
+        tool_results: [],
+      },
+      {
+        id: 4,
+        role: 'user',
+        segments: [],
+        tool_uses: [],
+        tool_results: [
+          {
+            tool_use_id: 'toolu_2',
+            is_error: false,
+            content: { Text: 'Edited project/src/login.ts' },
+            output: {
+              original_path: 'src/login.ts',
+              old_text: 'const valid = true;\n',
+              new_text: 'const valid = verifyToken(token);\n',
+              diff: '@@ -1 +1 @@\n-const valid = true;\n+const valid = verifyToken(token);\n',
+            },
+          },
+          { tool_use_id: 'toolu_3', is_error: true, content: 'project/src/missing.ts not found' },
+        ],
+      },
+      {
+        id: 5,
+        role: 'assistant',
+        segments: [{ type: 'text', text: 'Done. The token is now verified.' }],
+        tool_uses: [],
+        tool_results: [],
+      },
+    ],
+    initial_project_snapshot: {
+      worktree_snapshots: [{ worktree_path: '/home/user/project', git_state: null }],
+      unsaved_buffer_paths: [],
+    },
+    cumulative_token_usage: {
+      input_tokens: 5000,
+      output_tokens: 300,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 1000,
+    },
+    model: { provider: 'zed.dev', model: 'claude-sonnet-4' },
+  };
+
+  const agent = {
+    title: 'Add error handling',
+    updated_at: '2026-01-16T09:00:00Z',
+    messages: [
+      { User: { id: 'u1', content: [{ Text: 'Please add error handling' }] } },
+      {
+        Agent: {
+          content: [
+            { Text: 'Adding an error class.' },
+            {
+              ToolUse: {
+                id: 'tu_1',
+                name: 'edit_file',
+                raw_input: '',
+                input: { path: 'other/src/errors.ts', mode: 'create', display_description: 'Create errors' },
+                is_input_complete: true,
+              },
+            },
+          ],
+          tool_results: {
+            tu_1: {
+              tool_use_id: 'tu_1',
+              tool_name: 'edit_file',
+              is_error: false,
+              content: { Text: 'Created other/src/errors.ts' },
+              output: { old_text: '', new_text: 'export class AuthError extends Error {}\n' },
+            },
+          },
+        },
+      },
+      'Resume',
+    ],
+    model: null,
+  };
+
+  const insert = db.prepare(
+    'INSERT INTO threads (id, summary, updated_at, data_type, data, folder_paths) VALUES (?, ?, ?, ?, ?, ?)',
+  );
+  insert.run('thread-legacy', 'Fix auth bug', legacy.updated_at, 'json', Buffer.from(JSON.stringify(legacy)), null);
+  insert.run(
+    'thread-agent',
+    'Add error handling',
+    agent.updated_at,
+    'zstd',
+    zstdCompressSync(Buffer.from(JSON.stringify(agent))),
+    '/home/user/other',
+  );
+  db.close();
+
+  return {
+    root,
+    cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Create a temporary VS Code config dir (use as XDG_CONFIG_HOME): one workspace
+ * with a chatSessions file, and a state.vscdb holding its title and an older
+ * chat under the legacy `interactive.sessions` key
+ */
+export function createCopilotChatFixture(): FixtureDir {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-copilot-chat-'));
+  const workspaceDir = path.join(root, 'Code', 'User', 'workspaceStorage', 'f3b9c0a1d2e4');
+  const sessionsDir = path.join(workspaceDir, 'chatSessions');
+  fs.mkdirSync(sessionsDir, { recursive: true });
+  fs.writeFileSync(path.join(workspaceDir, 'workspace.json'), JSON.stringify({ folder: 'file:///home/user/project' }));
+
+  const fileUri = (p: string) => ({ $mid: 1, fsPath: p, external: `file://${p}`, path: p, scheme: 'file' });
+  const session = {
+    version: 3,
+    sessionId: 'test-copilot-chat-session-1',
+    creationDate: Date.parse('2026-01-15T10:00:00.000Z'),
+    lastMessageDate: Date.parse('2026-01-15T10:05:00.000Z'),
+    requests: [
+      {
+        requestId: 'request_1',
+        message: { text: 'Fix the authentication bug in login.ts', parts: [] },
+        timestamp: Date.parse('2026-01-15T10:00:01.000Z'),
+        modelId: 'copilot/claude-sonnet-4',
+        response: [
+          { value: 'I will run the tests first.\n\n', supportThemeIcons: false },
+          {
+            kind: 'toolInvocationSerialized',
+            toolId: 'run_in_terminal',
+            invocationMessage: 'Running `npm test`',
+            isConfirmed: true,
+            isComplete: true,
+            toolSpecificData: {
+              kind: 'terminal',
+              commandLine: { original: 'npm test' },
+              language: 'sh',
+              terminalCommandState: { exitCode: 1 },
+              terminalCommandOutput: { text: 'FAIL src/login.test.ts' },
+            },
+          },
+          {
+            kind: 'toolInvocationSerialized',
+            toolId: 'copilot_readFile',
+            invocationMessage: { value: 'Reading [](file:///home/user/project/src/login.ts)' },
+            pastTenseMessage: { value: 'Read [](file:///home/user/project/src/login.ts)' },
+            isConfirmed: true,
+            isComplete: true,
+          },
+          { value: 'The token validation was missing in ' },
+          { kind: 'inlineReference', inlineReference: fileUri('/home/user/project/src/login.ts') },
+          { value: '.' },
+          {
+            kind: 'toolInvocationSerialized',
+            toolId: 'copilot_replaceString',
+            invocationMessage: 'Editing login.ts',
+            isConfirmed: true,
+            isComplete: true,
+          },
+          {
+            kind: 'textEditGroup',
+            uri: fileUri('/home/user/project/src/login.ts'),
+            edits: [
+              [
+                {
+                  text: '  verifyToken(token);',
+                  range: { startLineNumber: 5, startColumn: 1, endLineNumber: 5, endColumn: 22 },
+                },
+              ],
+            ],
+            done: true,
+          },
+        ],
+      },
+      {
+        requestId: 'request_2',
+        message: { text: 'Great, please also add error handling', parts: [] },
+        timestamp: Date.parse('2026-01-15T10:04:00.000Z'),
+        modelId: 'copilot/gpt-4.1',
+        response: [
+          {
+            kind: 'toolInvocationSerialized',
+            toolId: 'copilot_createFile',
+            invocationMessage: { value: 'Creating [](file:///home/user/project/src/errors.ts)' },
+            pastTenseMessage: { value: 'Created [](file:///home/user/project/src/errors.ts)' },
+            isConfirmed: true,
+            isComplete: true,
+          },
+          {
+            kind: 'textEditGroup',
+            uri: fileUri('/home/user/project/src/errors.ts'),
+            edits: [
+              [
+                {
+                  text: 'export class AuthError extends Error {}',
+                  range: { startLineNumber: 1, startColumn: 1, endLineNumber: 1, endColumn: 1 },
+                },
+              ],
+            ],
+            done: true,
+          },
+          {
+            kind: 'toolInvocationSerialized',
+            toolId: 'manage_todo_list',
+            invocationMessage: 'Updating todo list',
+            isConfirmed: true,
+            isComplete: true,
+            toolSpecificData: {
+              kind: 'todoList',
+              todoList: [
+                { id: '1', title: 'Add AuthError class', status: 'completed' },
+                { id: '2', title: 'Use AuthError in login.ts', status: 'not-started' },
+              ],
+            },
+          },
+          {
+            kind: 'toolInvocationSerialized',
+            toolId: 'mcp_github_get_issue',
+            invocationMessage: 'Running get_issue',
+            isConfirmed: true,
+            isComplete: true,
+            resultDetails: { input: '{"issue_number":42}', output: [], isError: true },
+          },
+          { value: 'Done. I added an AuthError class.' },
+        ],
+      },
+    ],
+  };
+  fs.writeFileSync(path.join(sessionsDir, `${session.sessionId}.json`), JSON.stringify(session, null, 2));
+
+  const legacy = {
+    version: 1,
+    sessionId: 'test-copilot-chat-legacy-1',
+    creationDate: Date.parse('2026-01-10T09:00:00.000Z'),
+    requests: [
+      {
+        message: { text: 'What does verifyToken do?' },
+        timestamp: Date.parse('2026-01-10T09:00:01.000Z'),
+        response: [{ value: 'It checks the signature of a JWT.' }],
+      },
+    ],
+  };
+
+  const { DatabaseSync } = require('node:sqlite');
+  const db = new DatabaseSync(path.join(workspaceDir, 'state.vscdb'));
+  db.exec('CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)');
+  const insert = db.prepare('INSERT INTO ItemTable (key, value) VALUES (?, ?)');
+  insert.run('interactive.sessions', JSON.stringify([legacy]));
+  insert.run(
+    'chat.ChatSessionStore.index',
+    JSON.stringify({
+      version: 1,
+      entries: { [session.sessionId]: { sessionId: session.sessionId, title: 'Fix auth bug' } },
+    }),
+  );
+  db.close();
+
+  return {
+    root,
+    cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Create a temporary Cursor config dir (use as XDG_CONFIG_HOME): a workspace
+ * listing its composers, whose threads live in the global cursorDiskKV store —
+ * one as separate bubble rows, one with its conversation inline, one empty
+ */
+export function createCursorIdeFixture(): FixtureDir {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-cursor-ide-'));
+  const userDir = path.join(root, 'Cursor', 'User');
+  const workspaceDir = path.join(userDir, 'workspaceStorage', '9d41e7b2c6a0');
+  const globalDir = path.join(userDir, 'globalStorage');
+  fs.mkdirSync(workspaceDir, { recursive: true });
+  fs.mkdirSync(globalDir, { recursive: true });
+  fs.writeFileSync(path.join(workspaceDir, 'workspace.json'), JSON.stringify({ folder: 'file:///home/user/project' }));
+
+  const { DatabaseSync } = require('node:sqlite');
+  const workspaceDb = new DatabaseSync(path.join(workspaceDir, 'state.vscdb'));
+  workspaceDb.exec('CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)');
+  workspaceDb.prepare('INSERT INTO ItemTable (key, value) VALUES (?, ?)').run(
+    'composer.composerData',
+    JSON.stringify({
+      allComposers: [
+        {
+          composerId: 'test-cursor-ide-session-1',
+          name: 'Fix auth bug',
+          createdAt: Date.parse('2026-01-15T10:00:00.000Z'),
+          lastUpdatedAt: Date.parse('2026-01-15T10:05:00.000Z'),
+          unifiedMode: 'agent',
+        },
+        {
+          composerId: 'test-cursor-ide-inline-1',
+          createdAt: Date.parse('2026-01-10T09:00:00.000Z'),
+          lastUpdatedAt: Date.parse('2026-01-10T09:01:00.000Z'),
+        },
+        { composerId: 'test-cursor-ide-empty', createdAt: Date.parse('2026-01-16T08:00:00.000Z') },
+      ],
+      selectedComposerIds: ['test-cursor-ide-session-1'],
+    }),
+  );
+  workspaceDb.close();
+
+  const composerId = 'test-cursor-ide-session-1';
+  const tool = (name: string, args: unknown, result: unknown, status = 'completed') => ({
+    name,
+    toolCallId: `call_${name}`,
+    status,
+    rawArgs: JSON.stringify(args),
+    result: JSON.stringify(result),
+  });
+  const bubbles = [
+    { bubbleId: 'b1', type: 1, text: 'Fix the authentication bug in login.ts' },
+    {
+      bubbleId: 'b2',
+      type: 2,
+      text: 'I will run the tests first.',
+      toolFormerData: tool(
+        'run_terminal_cmd',
+        { command: 'npm test' },
+        { output: 'FAIL src/login.test.ts', exitCode: 1 },
+      ),
+      tokenCount: { inputTokens: 1200, outputTokens: 80 },
+    },
+    {
+      bubbleId: 'b3',
+      type: 2,
+      text: '',
+      toolFormerData: tool('read_file', { target_file: 'src/missing.ts' }, { error: 'File not found' }, 'error'),
+    },
+    {
+      bubbleId: 'b4',
+      type: 2,
+      text: 'The token validation was missing.',
+      toolFormerData: tool(
+        'search_replace',
+        { file_path: 'src/login.ts', old_string: '  return true;', new_string: '  return verifyToken(token);' },
+        {},
+      ),
+      tokenCount: { inputTokens: 1500, outputTokens: 120 },
+    },
+    { bubbleId: 'b5', type: 1, text: 'Great, please also add error handling' },
+    {
+      bubbleId: 'b6',
+      type: 2,
+      text: 'Done. I added an AuthError class.',
+      toolFormerData: tool(
+        'write',
+        { file_path: 'src/errors.ts', contents: 'export class AuthError extends Error {}' },
+        {},
+      ),
+    },
+    {
+      bubbleId: 'b7',
+      type: 2,
+      text: '',
+      toolFormerData: tool(
+        'todo_write',
+        {
+          merge: false,
+          todos: [
+            { id: '1', content: 'Add AuthError class', status: 'completed' },
+            { id: '2', content: 'Use AuthError in login.ts', status: 'pending' },
+          ],
+        },
+        {},
+      ),
+    },
+  ];
+
+  const globalDb = new DatabaseSync(path.join(globalDir, 'state.vscdb'));
+  globalDb.exec('CREATE TABLE ItemTable (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)');
+  globalDb.exec('CREATE TABLE cursorDiskKV (key TEXT UNIQUE ON CONFLICT REPLACE, value BLOB)');
+  const insert = globalDb.prepare('INSERT INTO cursorDiskKV (key, value) VALUES (?, ?)');
+  insert.run(
+    `composerData:${composerId}`,
+    JSON.stringify({
+      _v: 10,
+      composerId,
+      name: 'Fix auth bug',
+      createdAt: Date.parse('2026-01-15T10:00:00.000Z'),
+      lastUpdatedAt: Date.parse('2026-01-15T10:05:00.000Z'),
+      fullConversationHeadersOnly: bubbles.map((b) => ({ bubbleId: b.bubbleId, type: b.type })),
+      modelConfig: { modelName: 'claude-4-sonnet', maxMode: false },
+    }),
+  );
+  // Bubbles are BLOBs of UTF-8 JSON, in arbitrary row order
+  for (const bubble of [...bubbles].reverse()) {
+    insert.run(`bubbleId:${composerId}:${bubble.bubbleId}`, Buffer.from(JSON.stringify({ _v: 2, ...bubble })));
+  }
+  insert.run(
+    'composerData:test-cursor-ide-inline-1',
+    JSON.stringify({
+      _v: 3,
+      composerId: 'test-cursor-ide-inline-1',
+      conversation: [
+        { bubbleId: 'i1', type: 1, text: 'What does verifyToken do?' },
+        { bubbleId: 'i2', type: 2, text: 'It checks the signature of a JWT.' },
+      ],
+      modelConfig: { modelName: 'default' },
+    }),
+  );
+  insert.run(
+    'composerData:test-cursor-ide-empty',
+    JSON.stringify({ _v: 10, composerId: 'test-cursor-ide-empty', fullConversationHeadersOnly: [] }),
+  );
+  globalDb.close();
+
+  return {
+    root,
+    cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+  };
+}
+
 /**
  * Create OpenCode JSON-only fixture (legacy format)
  */
@@ -964,3 +1851,118 @@ export function createOpenCodeJsonFixture(): FixtureDir {
     cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
   };
 }
+
+export function createCrushFixture(): FixtureDir {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'test-crush-'));
+  const dataDir = path.join(root, 'project', '.crush');
+  fs.mkdirSync(dataDir, { recursive: true });
+
+  const { DatabaseSync } = require('node:sqlite');
+  const db = new DatabaseSync(path.join(dataDir, 'crush.db'));
+  db.exec(`
+    CREATE TABLE sessions (id TEXT PRIMARY KEY, parent_session_id TEXT, title TEXT NOT NULL, message_count INTEGER NOT NULL DEFAULT 0, prompt_tokens INTEGER NOT NULL DEFAULT 0, completion_tokens INTEGER NOT NULL DEFAULT 0, cost REAL NOT NULL DEFAULT 0.0, updated_at INTEGER NOT NULL, created_at INTEGER NOT NULL);
+    CREATE TABLE messages (id TEXT PRIMARY KEY, session_id TEXT NOT NULL, role TEXT NOT NULL, parts TEXT NOT NULL DEFAULT '[]', model TEXT, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL, finished_at INTEGER, provider TEXT);
+  `);
+
+  const t0 = Date.parse('2026-01-15T10:00:00.000Z') / 1000;
+  db.prepare(
+    'INSERT INTO sessions (id, title, prompt_tokens, completion_tokens, cost, updated_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+  ).run('test-crush-session-1', 'Fix auth bug', 1500, 300, 0.02, t0 + 300, t0);
+  db.prepare('INSERT INTO sessions (id, title, updated_at, created_at) VALUES (?, ?, ?, ?)').run(
+    'test-crush-empty',
+    '',
+    t0,
+    t0,
+  );
+
+  const text = (value: string) => ({ type: 'text', data: { text: value } });
+  const call = (id: string, name: string, input: Record<string, unknown>) => ({
+    type: 'tool_call',
+    data: { id, name, input: JSON.stringify(input), finished: true },
+  });
+  const result = (id: string, name: string, content: string, isError = false) => ({
+    type: 'tool_result',
+    data: { tool_call_id: id, name, content, metadata: '', is_error: isError },
+  });
+  const messages: Array<[string, string, unknown[], number, string | null]> = [
+    ['msg-u1', 'user', [text('Fix the authentication bug in login.ts')], 0, null],
+    [
+      'msg-a1',
+      'assistant',
+      [
+        text('I will run the tests first.'),
+        call('call-1', 'bash', { command: 'npm test' }),
+        call('call-2', 'view', { file_path: '/home/user/project/src/login.ts', offset: 10, limit: 20 }),
+      ],
+      10,
+      'claude-sonnet-4',
+    ],
+    [
+      'msg-t1',
+      'tool',
+      [result('call-1', 'bash', '1 failing test', true), result('call-2', 'view', 'export function login() {}')],
+      20,
+      null,
+    ],
+    [
+      'msg-a2',
+      'assistant',
+      [
+        text('The token validation was missing.'),
+        call('call-3', 'edit', {
+          file_path: '/home/user/project/src/login.ts',
+          old_string: 'return true;',
+          new_string: 'return verifyToken(token);',
+        }),
+        call('call-4', 'write', {
+          file_path: '/home/user/project/src/errors.ts',
+          content: 'export class AuthError extends Error {}\n',
+        }),
+        call('call-5', 'todos', {
+          todos: [
+            { content: 'Fix login validation', status: 'completed' },
+            { content: 'Use AuthError in login.ts', status: 'pending' },
+          ],
+        }),
+        call('call-6', 'mcp_github_get_issue', { number: 42 }),
+      ],
+      30,
+      'claude-sonnet-4',
+    ],
+    [
+      'msg-t2',
+      'tool',
+      [
+        result('call-3', 'edit', 'ok'),
+        result('call-4', 'write', 'ok'),
+        result('call-5', 'todos', 'ok'),
+        result('call-6', 'mcp_github_get_issue', 'not found', true),
+      ],
+      40,
+      null,
+    ],
+    ['msg-u2', 'user', [text('Great, please also add error handling')], 200, null],
+    ['msg-a3', 'assistant', [text('Done. I added an AuthError class.')], 300, 'claude-sonnet-4'],
+  ];
+  const insert = db.prepare(
+    'INSERT INTO messages (id, session_id, role, parts, model, created_at, updated_at, provider) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+  );
+  for (const [id, role, parts, offset, model] of messages) {
+    insert.run(
+      id,
+      'test-crush-session-1',
+      role,
+      JSON.stringify(parts),
+      model,
+      t0 + offset,
+      t0 + offset,
+      model ? 'anthropic' : null,
+    );
+  }
+  db.close();
+
+  return {
+    root,
+    cleanup: () => fs.rmSync(root, { recursive: true, force: true }),
+  };
+}
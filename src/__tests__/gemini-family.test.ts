@@ -0,0 +1,170 @@
+/**
+ * Tests for the Gemini-family adapters (src/parsers/gemini.ts): Qwen Code and
+ * Gemini CLI forks declared in config.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPreset, loadConfig } from '../config/index.js';
+import { createGeminiFamilyParser, extractQwenContext, parseQwenSessions } from '../parsers/gemini.js';
+import { ALL_TOOLS, adapters, registerGeminiForks } from '../parsers/registry.js';
+import type { SessionSource, UnifiedSession } from '../types/index.js';
+import { buildHandoffDocument } from '../utils/handoff.js';
+import { getResumeCommand, resolveCrossToolForwarding } from '../utils/resume.js';
+import { createQwenFixture } from './fixtures/index.js';
+
+const fixture = createQwenFixture();
+const sessionFile = path.join(fixture.root, 'tmp', 'def456hash', 'chats', 'session-2026-01-15T10-00-qwen1234.json');
+
+afterAll(() => fixture.cleanup());
+
+describe('createGeminiFamilyParser', () => {
+  afterEach(() => {
+    delete process.env.TEST_FORK_HOME;
+  });
+
+  it('finds chats and legacy sessions under the data dir, newest first', async () => {
+    const parser = createGeminiFamilyParser({ source: 'qwen', dataDir: fixture.root });
+    const files = await parser.findSessionFiles();
+    expect(files).toHaveLength(2);
+
+    const sessions = await parser.parseSessions();
+    expect(sessions.map((s) => [s.id, s.source])).toEqual([
+      ['test-qwen-session-1', 'qwen'],
+      ['test-qwen-legacy-1', 'qwen'],
+    ]);
+  });
+
+  it('resolves the data dir against the env var home', async () => {
+    process.env.TEST_FORK_HOME = path.dirname(fixture.root);
+    const parser = createGeminiFamilyParser({
+      source: 'qwen',
+      dataDir: `~/${path.basename(fixture.root)}`,
+      envVar: 'TEST_FORK_HOME',
+    });
+    expect(await parser.findSessionFiles()).toHaveLength(2);
+  });
+});
+
+describe('extractQwenContext', () => {
+  it('extracts messages, tool calls and token usage', async () => {
+    const [session] = await parseQwenSessions([sessionFile]);
+    const context = await extractQwenContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Fix the authentication bug in login.ts'],
+      ['assistant', 'I will read the file first.'],
+      ['assistant', 'The token validation was missing. I fixed it.'],
+      ['user', 'Great, please also add error handling'],
+      ['assistant', 'Done. I added try-catch blocks and proper error messages.'],
+    ]);
+    expect(context.toolSummaries.find((s) => s.name === 'read_file')).toMatchObject({ count: 2, errorCount: 1 });
+    expect(context.toolSummaries.find((s) => s.name === 'write_file')?.samples[0].data).toMatchObject({
+      category: 'write',
+      filePath: 'src/login.ts',
+      diffStats: { added: 1, removed: 1 },
+    });
+    expect(context.filesModified).toEqual(['src/login.ts']);
+    expect(context.sessionNotes).toMatchObject({
+      model: 'qwen3-coder-plus',
+      tokenUsage: { input: 2700, output: 200 },
+      cacheTokens: { creation: 0, read: 400 },
+    });
+    expect(context.markdown).toContain('Qwen Code');
+  });
+});
+
+describe('qwen as a handoff target', () => {
+  it('launches and resumes like Gemini CLI', () => {
+    expect(adapters.qwen.crossToolArgs('Read the handoff', '/work/app')).toEqual(['Read the handoff']);
+    expect(adapters.qwen.resumeCommandDisplay({} as never)).toBe('qwen --continue');
+
+    const rawArgs = ['--yolo', '--model', 'qwen3-coder-plus'];
+    expect(resolveCrossToolForwarding('qwen', { rawArgs }).mappedArgs).toEqual(
+      resolveCrossToolForwarding('gemini', { rawArgs }).mappedArgs,
+    );
+  });
+});
+
+describe('registerGeminiForks', () => {
+  it('registers forks declared in config and keeps built-in tools', async () => {
+    const configDir = fs.mkdtempSync(path.join(fixture.root, 'config-'));
+    const configPath = path.join(configDir, '.continues.yml');
+    fs.writeFileSync(
+      configPath,
+      [
+        'geminiForks:',
+        '  - name: iflow',
+        '    label: iFlow CLI',
+        `    dataDir: ${fixture.root}`,
+        '  - name: gemini',
+        '    dataDir: .not-gemini',
+        'templates:',
+        '  iflow: ./iflow-handoff.md',
+      ].join('\n'),
+    );
+
+    const config = loadConfig(configPath);
+    expect(config.templates).toEqual({ iflow: path.join(configDir, 'iflow-handoff.md') });
+    const forks = config.geminiForks ?? [];
+    expect(forks.map((f) => f.name)).toEqual(['iflow', 'gemini']);
+    registerGeminiForks(forks);
+
+    const iflow = adapters['iflow' as SessionSource];
+    expect(ALL_TOOLS).toContain('iflow');
+    expect(iflow).toMatchObject({ label: 'iFlow CLI', binaryName: 'iflow', family: 'gemini' });
+    const sessions = await iflow.parseSessions();
+    expect(sessions.map((s) => s.source)).toEqual(['iflow', 'iflow']);
+    expect(adapters.gemini.storagePath).toBe('~/.gemini/tmp/*/chats/');
+
+    const doc = buildHandoffDocument(await iflow.extractContext(sessions[0], getPreset('standard')));
+    expect(doc.session).toMatchObject({ source: 'iflow', label: 'iFlow CLI' });
+  });
+});
+
+describe('sessions of unregistered forks', () => {
+  const savedHome = process.env.HOME;
+  let home: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-forks-'));
+    process.env.HOME = home;
+  });
+
+  afterEach(() => {
+    process.env.HOME = savedHome;
+    fs.rmSync(home, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  const indexed = (source: string, id: string) =>
+    JSON.stringify({
+      id,
+      source,
+      cwd: '/work/app',
+      lines: 4,
+      bytes: 100,
+      createdAt: '2026-01-15T10:00:00.000Z',
+      updatedAt: '2026-01-15T10:05:00.000Z',
+      originalPath: `/tmp/${id}.json`,
+    });
+
+  it('are left out of the cached index', async () => {
+    fs.mkdirSync(path.join(home, '.continues'));
+    fs.writeFileSync(
+      path.join(home, '.continues', 'sessions.jsonl'),
+      `${indexed('gemini', 'kept')}\n${indexed('removed-fork', 'dropped')}\n`,
+    );
+    vi.resetModules();
+    const { loadIndex } = await import('../utils/index.js');
+
+    expect(loadIndex().map((s) => s.id)).toEqual(['kept']);
+  });
+
+  it('still get a resume command', () => {
+    const session = JSON.parse(indexed('removed-fork', 'abc123')) as UnifiedSession;
+    expect(getResumeCommand(session)).toBe('continues resume abc123');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for the live repository state section (src/utils/git-state.ts).
+ */
+
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { SessionContext } from '../types/index.js';
+import { buildRepositoryStateSection, getRepositoryState } from '../utils/git-state.js';
+import { buildHandoffDocument } from '../utils/handoff.js';
+
+const session = {
+  branch: 'feature/login',
+  createdAt: new Date('2026-01-02T00:00:00Z'),
+  updatedAt: new Date('2026-01-02T01:00:00Z'),
+};
+const duringSession = new Date('2026-01-02T00:30:00Z');
+
+describe('getRepositoryState', () => {
+  let repo: string;
+
+  const git = (args: string[], date = '2026-01-01T00:00:00Z') =>
+    execFileSync('git', ['-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', ...args], {
+      cwd: repo,
+      env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+      stdio: 'pipe',
+    });
+
+  const write = (file: string, content: string, mtime?: Date) => {
+    fs.writeFileSync(path.join(repo, file), content);
+    if (mtime) fs.utimesSync(path.join(repo, file), mtime, mtime);
+  };
+
+  beforeAll(() => {
+    repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'continues-git-')));
+    git(['init', '-q', '-b', 'main']);
+    write('a.ts', 'a\n');
+    write('b.ts', 'b\n');
+    write('c.ts', 'c\n');
+    write('.gitignore', '*.log\n');
+    git(['add', '.']);
+    git(['commit', '-q', '-m', 'Initial commit']);
+
+    // The session edited a, b, c and created new.ts and gone.ts
+    write('a.ts', 'a edited\n', duringSession);
+    write('b.ts', 'b edited, then edited again after the session\n');
+    write('c.ts', 'c\n', duringSession); // back to the committed content
+    write('new.ts', 'new\n', duringSession);
+    fs.mkdirSync(path.join(repo, 'newmod'));
+    write('newmod/a.ts', 'new module\n', duringSession);
+    write('debug.log', 'ignored\n', duringSession);
+
+    // A commit landed after the session
+    write('d.ts', 'd\n');
+    git(['add', 'd.ts']);
+    git(['commit', '-q', '-m', 'Add d'], '2026-01-03T00:00:00Z');
+  });
+
+  afterAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('returns null outside a repository', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-nogit-'));
+    try {
+      expect(getRepositoryState(dir, session, ['x.ts'])).toBeNull();
+      expect(getRepositoryState(path.join(dir, 'missing'), session)).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports branch, commits since the session and uncommitted changes', () => {
+    const state = getRepositoryState(repo, session);
+    expect(state).toMatchObject({ root: repo, branch: 'main', sessionBranch: 'feature/login', commitCount: 1 });
+    expect(state?.commits.map((c) => c.subject)).toEqual(['Add d']);
+    expect(state?.dirtyFiles).toEqual(
+      expect.arrayContaining([
+        { status: ' M', path: 'a.ts' },
+        { status: ' M', path: 'b.ts' },
+        { status: '??', path: 'new.ts' },
+      ]),
+    );
+  });
+
+  it('classifies the session files as unchanged, changed or reverted', () => {
+    const files = ['a.ts', path.join(repo, 'b.ts'), 'c.ts', 'new.ts', 'gone.ts', '../outside.ts'];
+    const state = getRepositoryState(repo, session, files);
+    expect(state?.sessionFiles).toEqual([
+      { path: 'a.ts', state: 'unchanged' },
+      { path: 'b.ts', state: 'changed' },
+      { path: 'c.ts', state: 'reverted' },
+      { path: 'new.ts', state: 'unchanged' },
+      { path: 'gone.ts', state: 'reverted' },
+    ]);
+  });
+
+  it('does not mark files in new or ignored locations as reverted', () => {
+    const state = getRepositoryState(repo, session, ['newmod/a.ts', 'debug.log']);
+    expect(state?.sessionFiles).toEqual([
+      { path: 'newmod/a.ts', state: 'unchanged' },
+      { path: 'debug.log', state: 'unchanged' },
+    ]);
+  });
+
+  it('renders a Repository State section and a structured repository block', () => {
+    const state = getRepositoryState(repo, session, ['a.ts', 'c.ts']);
+    if (!state) throw new Error('expected repository state');
+
+    const section = buildRepositoryStateSection(state);
+    expect(section).toContain('## Repository State');
+    expect(section).toContain('`main` — **the session was on `feature/login`**');
+    expect(section).toContain('Add d (Dev, 2026-01-03 00:00)');
+    expect(section).toContain('`new.ts` (untracked)');
+    expect(section).toContain('`c.ts`: reverted');
+
+    const context: SessionContext = {
+      session: {
+        id: 's1',
+        source: 'claude',
+        cwd: repo,
+        lines: 1,
+        bytes: 1,
+        originalPath: '/tmp/s1.jsonl',
+        ...session,
+      },
+      recentMessages: [],
+      filesModified: ['a.ts', 'c.ts'],
+      pendingTasks: [],
+      toolSummaries: [],
+      repositoryState: state,
+      markdown: '',
+    };
+    const doc = buildHandoffDocument(context);
+    expect(doc.repository?.since).toBe('2026-01-02T01:00:00.000Z');
+    expect(doc.repository?.commits[0].date).toBe('2026-01-03T00:00:00.000Z');
+  });
+});
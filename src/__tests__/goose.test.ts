@@ -0,0 +1,87 @@
+/**
+ * Tests for the Goose session adapter (src/parsers/goose.ts).
+ */
+
+import * as path from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import { extractGooseContext, parseGooseSessions } from '../parsers/goose.js';
+import { adapters } from '../parsers/registry.js';
+import { resolveCrossToolForwarding } from '../utils/resume.js';
+import { createGooseFixture } from './fixtures/index.js';
+
+const fixture = createGooseFixture();
+const sessionFile = path.join(fixture.root, '20260115_100000.jsonl');
+
+afterAll(() => fixture.cleanup());
+
+describe('parseGooseSessions', () => {
+  it('reads the metadata line and first user message', async () => {
+    const [session] = await parseGooseSessions([sessionFile]);
+
+    expect(session).toMatchObject({
+      id: '20260115_100000',
+      source: 'goose',
+      cwd: '/home/user/project',
+      summary: 'Fix the authentication bug in login.ts',
+      lines: 9,
+    });
+    expect(session.createdAt).toEqual(new Date(Date.UTC(2026, 0, 15, 10, 0, 0)));
+  });
+});
+
+describe('extractGooseContext', () => {
+  it('extracts messages, tool calls and token usage', async () => {
+    const [session] = await parseGooseSessions([sessionFile]);
+    const context = await extractGooseContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => m.content)).toEqual([
+      'Fix the authentication bug in login.ts',
+      'I will look at the login flow first.',
+      'The token validation was missing. I fixed it.',
+      'Great, please also add error handling',
+      'Done. I added try-catch blocks and proper error messages.',
+    ]);
+
+    const shell = context.toolSummaries.find((s) => s.name === 'Bash');
+    expect(shell?.samples[0].data).toEqual({
+      category: 'shell',
+      command: 'npm test',
+      stdoutTail: 'FAIL src/login.test.ts\nTests: 1 failed',
+    });
+
+    const edit = context.toolSummaries.find((s) => s.name === 'Edit');
+    expect(edit?.samples[0].data).toMatchObject({ filePath: 'src/login.ts', diffStats: { added: 1, removed: 1 } });
+
+    const write = context.toolSummaries.find((s) => s.name === 'Write');
+    expect(write?.samples[0].data).toMatchObject({ category: 'write', filePath: 'src/errors.ts' });
+
+    const read = context.toolSummaries.find((s) => s.name === 'Read');
+    expect(read?.errorCount).toBe(1);
+
+    expect(context.filesModified).toEqual(['src/login.ts', 'src/errors.ts']);
+    expect(context.sessionNotes?.tokenUsage).toEqual({ input: 5000, output: 300 });
+    expect(context.sessionNotes?.fileChanges?.map((c) => c.filePath)).toEqual(['src/login.ts', 'src/errors.ts']);
+    expect(context.markdown).toContain('Goose');
+  });
+});
+
+describe('goose as a handoff target', () => {
+  it('starts an interactive run and maps provider and model flags', () => {
+    expect(adapters.goose.crossToolSubcommand).toEqual(['run']);
+    expect(adapters.goose.crossToolArgs('Read the handoff', '/work/app')).toEqual([
+      '--interactive',
+      '--text',
+      'Read the handoff',
+    ]);
+    expect(
+      resolveCrossToolForwarding('goose', { rawArgs: ['--provider', 'anthropic', '--model', 'claude-sonnet-4'] })
+        .mappedArgs,
+    ).toEqual(['--provider', 'anthropic', '--model', 'claude-sonnet-4']);
+  });
+
+  it('resumes natively by session name', async () => {
+    const [session] = await parseGooseSessions([sessionFile]);
+    expect(adapters.goose.nativeResumeArgs(session)).toEqual(['session', '--resume', '--name', '20260115_100000']);
+  });
+});
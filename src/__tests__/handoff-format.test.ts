@@ -0,0 +1,158 @@
+/**
+ * Tests for the structured handoff format (src/types/handoff.ts, src/utils/handoff.ts).
+ */
+
+import { describe, expect, it } from 'vitest';
+import { HANDOFF_FORMAT_VERSION, HandoffDocumentSchema, handoffJsonSchema } from '../types/handoff.js';
+import type { SessionContext } from '../types/index.js';
+import {
+  buildHandoffDocument,
+  isHandoffFormat,
+  parseHandoffDocument,
+  renderHandoff,
+  renderHandoffXml,
+} from '../utils/handoff.js';
+import { HANDOFF_DIRECTIVE } from '../utils/markdown.js';
+
+const context: SessionContext = {
+  session: {
+    id: 'sess-1',
+    source: 'claude',
+    cwd: '/work/app',
+    repo: 'acme/app',
+    branch: 'fix/login',
+    summary: 'Fix login redirect',
+    lines: 40,
+    bytes: 4000,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T01:00:00Z'),
+    originalPath: '/tmp/sess-1.jsonl',
+    parent: { source: 'codex', id: 'prev-1' },
+  },
+  recentMessages: [
+    { role: 'user', content: 'Why does <Login> loop?', timestamp: new Date('2026-01-01T00:10:00Z') },
+    {
+      role: 'assistant',
+      content: 'The guard retries & the cookie is stale.',
+      toolCalls: [{ name: 'Bash', arguments: { command: 'npm test', '--dry-run': true }, success: true }],
+    },
+  ],
+  filesModified: ['src/auth/guard.ts'],
+  pendingTasks: ['Add regression test'],
+  toolSummaries: [
+    {
+      name: 'Bash',
+      count: 3,
+      errorCount: 1,
+      samples: [
+        {
+          summary: '$ npm test → exit 1',
+          data: { category: 'shell', command: 'npm test', exitCode: 1, errored: true, errorMessage: 'FAIL' },
+        },
+        { summary: 'legacy sample without data' },
+      ],
+    },
+    {
+      name: 'Edit',
+      count: 1,
+      samples: [
+        {
+          summary: 'edit src/auth/guard.ts (+2 -1)',
+          data: { category: 'edit', filePath: 'src/auth/guard.ts', diffStats: { added: 2, removed: 1 } },
+        },
+      ],
+    },
+  ],
+  sessionNotes: { model: 'claude-sonnet', tokenUsage: { input: 1200, output: 300 } },
+  markdown: '# Session Handoff Context\n',
+};
+
+describe('buildHandoffDocument', () => {
+  const generatedAt = new Date('2026-02-01T00:00:00Z');
+
+  it('produces a schema-valid v1 document', () => {
+    const doc = buildHandoffDocument(context, generatedAt);
+    expect(HandoffDocumentSchema.safeParse(doc).success).toBe(true);
+    expect(doc.format).toBe(HANDOFF_FORMAT_VERSION);
+    expect(doc.generatedAt).toBe('2026-02-01T00:00:00.000Z');
+    expect(doc.directive).toBe(HANDOFF_DIRECTIVE);
+  });
+
+  it('carries the overview, messages, tools, files, tasks and notes', () => {
+    const doc = buildHandoffDocument(context, generatedAt);
+    expect(doc.session).toMatchObject({
+      id: 'sess-1',
+      source: 'claude',
+      repo: 'acme/app',
+      branch: 'fix/login',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      parent: { source: 'codex', id: 'prev-1' },
+    });
+    expect(doc.messages[0].timestamp).toBe('2026-01-01T00:10:00.000Z');
+    expect(doc.messages[1].toolCalls?.[0].name).toBe('Bash');
+    expect(doc.tools[0].samples[0].data).toEqual({
+      category: 'shell',
+      command: 'npm test',
+      exitCode: 1,
+      errored: true,
+      errorMessage: 'FAIL',
+    });
+    expect(doc.tools[0].samples[1].data).toBeUndefined();
+    expect(doc.files).toEqual(['src/auth/guard.ts']);
+    expect(doc.tasks).toEqual(['Add regression test']);
+    expect(doc.notes?.tokenUsage).toEqual({ input: 1200, output: 300 });
+  });
+});
+
+describe('renderHandoff', () => {
+  it('returns the markdown unchanged for the markdown format', () => {
+    expect(renderHandoff(context, 'markdown')).toBe(context.markdown);
+  });
+
+  it('round-trips JSON through parseHandoffDocument', () => {
+    const doc = parseHandoffDocument(renderHandoff(context, 'json'));
+    expect(doc.session.id).toBe('sess-1');
+    expect(doc.tools.map((t) => t.name)).toEqual(['Bash', 'Edit']);
+  });
+
+  it('rejects documents of another version', () => {
+    const json = JSON.stringify({ ...buildHandoffDocument(context), format: 'continues.handoff/v0' });
+    expect(() => parseHandoffDocument(json)).toThrow();
+  });
+});
+
+describe('renderHandoffXml', () => {
+  const xml = renderHandoffXml(buildHandoffDocument(context));
+
+  it('escapes text and names array items in the singular', () => {
+    expect(xml).toContain('<handoff format="continues.handoff/v1">');
+    expect(xml).toContain('<content>Why does &lt;Login&gt; loop?</content>');
+    expect(xml).toContain('The guard retries &amp; the cookie is stale.');
+    expect(xml).toContain('<file>src/auth/guard.ts</file>');
+    expect(xml).toContain('<task>Add regression test</task>');
+    expect(xml).toContain('<category>shell</category>');
+  });
+
+  it('keeps record keys that are not valid element names', () => {
+    expect(xml).toContain('<entry key="--dry-run">true</entry>');
+  });
+
+  it('balances every element', () => {
+    const opened = (xml.match(/<[a-zA-Z][^>]*[^/]>/g) ?? []).filter((tag) => !tag.startsWith('<?'));
+    const closed = xml.match(/<\/[^>]+>/g) ?? [];
+    expect(opened.length).toBe(closed.length);
+  });
+});
+
+describe('format helpers', () => {
+  it('recognizes supported formats', () => {
+    expect(isHandoffFormat('json')).toBe(true);
+    expect(isHandoffFormat('yaml')).toBe(false);
+  });
+
+  it('publishes a JSON Schema', () => {
+    const schema = handoffJsonSchema();
+    expect(schema.type).toBe('object');
+    expect(Object.keys(schema.properties as object)).toContain('messages');
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for the adapter health report (src/utils/health.ts).
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { logger } from '../logger.js';
+import type { ToolAdapter } from '../parsers/registry.js';
+import { checkAdapterHealth, probeFile, SCHEMA_PROBES } from '../utils/health.js';
+import { openSqlite } from '../utils/sqlite.js';
+import { createCopilotChatFixture, createCursorIdeFixture, createZedFixture } from './fixtures/index.js';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-health-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeJsonl(name: string, records: unknown[]): string {
+  const file = path.join(tmpDir, name);
+  fs.writeFileSync(file, records.map((r) => (typeof r === 'string' ? r : JSON.stringify(r))).join('\n'));
+  return file;
+}
+
+const claudeLine = (extra: Record<string, unknown> = {}) => ({
+  type: 'user',
+  uuid: 'u1',
+  timestamp: '2026-01-01T00:00:00Z',
+  message: { role: 'user', content: 'hello' },
+  ...extra,
+});
+
+describe('probeFile', () => {
+  it('reports unknown event types and fields', async () => {
+    const file = writeJsonl('drift.jsonl', [
+      claudeLine(),
+      claudeLine({ brandNewField: 1 }),
+      claudeLine({ type: 'hologram' }),
+      { type: 'summary', summary: 'x', leafUuid: 'u1' },
+    ]);
+
+    const result = await probeFile(file, SCHEMA_PROBES.claude!);
+
+    expect(result.rejected).toBe(false);
+    expect(result.invalidRecords).toBe(0);
+    expect(Object.fromEntries(result.unknownTypes)).toEqual({ hologram: 1 });
+    expect(Object.fromEntries(result.unknownFields)).toEqual({ brandNewField: 1 });
+  });
+
+  it('rejects files where no record passes the schema', async () => {
+    const file = writeJsonl('broken.jsonl', ['{not json', { type: 'user' }]);
+
+    const result = await probeFile(file, SCHEMA_PROBES.claude!);
+
+    expect(result.rejected).toBe(true);
+    expect(result.invalidRecords).toBe(2);
+  });
+
+  it('checks fields against the matching member of a union schema', async () => {
+    const file = writeJsonl('codex.jsonl', [
+      { type: 'session_meta', timestamp: 't', payload: { id: 'abc', cwd: '/w' }, novel: true },
+    ]);
+
+    const result = await probeFile(file, SCHEMA_PROBES.codex!);
+
+    expect(result.rejected).toBe(false);
+    expect([...result.unknownFields.keys()]).toEqual(['novel']);
+  });
+
+  it('validates Goose metadata and message lines', async () => {
+    const file = writeJsonl('goose.jsonl', [
+      { working_dir: '/w', description: 'x', schedule_id: null },
+      { role: 'user', created: 1, content: [{ type: 'text', text: 'hi' }], extra: 1 },
+      { role: 'user', created: 'yesterday', content: [] },
+    ]);
+
+    const result = await probeFile(file, SCHEMA_PROBES.goose!);
+
+    expect(result.rejected).toBe(false);
+    expect(result.invalidRecords).toBe(1);
+    expect([...result.unknownFields.keys()]).toEqual(['extra']);
+  });
+
+  it('validates the Continue.dev session index entry by entry', async () => {
+    const file = path.join(tmpDir, 'sessions.json');
+    fs.writeFileSync(file, JSON.stringify([{ sessionId: 'a', title: 'x' }, { title: 'no id' }]));
+    const indexProbe = SCHEMA_PROBES['continue-dev']?.also?.[0];
+
+    expect(indexProbe?.resolveFile?.(path.join(tmpDir, 'a.json'))).toBe(file);
+    const result = await probeFile(file, indexProbe!);
+
+    expect(result.rejected).toBe(false);
+    expect(result.invalidRecords).toBe(1);
+  });
+
+  it('validates the rows of Zed threads.db and the threads inside them', async () => {
+    const fixture = createZedFixture();
+    try {
+      const dbPath = path.join(fixture.root, 'threads.db');
+      const rows = await probeFile(dbPath, SCHEMA_PROBES.zed!);
+      const threads = await probeFile(dbPath, SCHEMA_PROBES.zed!.also![0]);
+
+      expect(rows).toMatchObject({ rejected: false, invalidRecords: 0 });
+      expect(rows.unknownFields.size).toBe(0);
+      expect(threads).toMatchObject({ rejected: false, invalidRecords: 0 });
+    } finally {
+      fixture.cleanup();
+    }
+  });
+
+  it('rejects a database whose rows no longer match', async () => {
+    const dbPath = path.join(tmpDir, 'threads.db');
+    const db = openSqlite(dbPath);
+    db.exec('CREATE TABLE threads (id TEXT, summary TEXT, updated_at TEXT, data_type TEXT, data TEXT)');
+    db.exec("INSERT INTO threads VALUES ('t1', 'x', '2026-01-01T00:00:00Z', 'json', '{}')");
+    db.close();
+
+    const result = await probeFile(dbPath, SCHEMA_PROBES.zed!);
+
+    expect(result).toMatchObject({ rejected: true, invalidRecords: 1 });
+  });
+
+  it('validates Copilot Chat session files', async () => {
+    const fixture = createCopilotChatFixture();
+    try {
+      const sessionsDir = path.join(fixture.root, 'Code', 'User', 'workspaceStorage', 'f3b9c0a1d2e4', 'chatSessions');
+      const [file] = fs.readdirSync(sessionsDir).map((name) => path.join(sessionsDir, name));
+      const probe = SCHEMA_PROBES['copilot-chat']!;
+
+      expect(probe.resolveFile?.(path.join(path.dirname(sessionsDir), 'state.vscdb'))).toBeNull();
+      expect(await probeFile(file, probe)).toMatchObject({ rejected: false, invalidRecords: 0 });
+    } finally {
+      fixture.cleanup();
+    }
+  });
+
+  it('validates the Cursor composer lists, composers and bubbles', async () => {
+    const fixture = createCursorIdeFixture();
+    try {
+      const workspaceDb = path.join(fixture.root, 'Cursor', 'User', 'workspaceStorage', '9d41e7b2c6a0', 'state.vscdb');
+      const probe = SCHEMA_PROBES['cursor-ide']!;
+
+      expect(await probeFile(workspaceDb, probe)).toMatchObject({ rejected: false, invalidRecords: 0 });
+      for (const store of probe.also ?? []) {
+        const globalDb = store.resolveFile?.(workspaceDb);
+        expect(globalDb).toBe(path.join(fixture.root, 'Cursor', 'User', 'globalStorage', 'state.vscdb'));
+        expect(await probeFile(globalDb!, store)).toMatchObject({ rejected: false, invalidRecords: 0 });
+      }
+    } finally {
+      fixture.cleanup();
+    }
+  });
+});
+
+describe('checkAdapterHealth', () => {
+  it('counts files and captures errors parsers only logged', async () => {
+    const good = writeJsonl('good.jsonl', [claudeLine()]);
+    const bad = writeJsonl('bad.jsonl', ['garbage']);
+
+    const adapter = {
+      name: 'claude',
+      label: 'Claude Code',
+      listSessionFiles: async () => [good, bad],
+      parseSessions: async () => {
+        logger.debug('claude: skipping unparseable session', bad, new Error('Unexpected token'));
+        return [
+          {
+            id: 'good',
+            source: 'claude',
+            cwd: '/w',
+            lines: 1,
+            bytes: 10,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            originalPath: good,
+          },
+        ];
+      },
+    } as unknown as ToolAdapter;
+
+    const health = await checkAdapterHealth(adapter);
+
+    expect(health.filesDiscovered).toBe(2);
+    expect(health.filesParsed).toBe(1);
+    expect(health.filesRejected).toBe(1);
+    expect(health.sessions).toBe(1);
+    expect(health.errorCount).toBe(2);
+    expect(health.errors.map((e) => e.filePath)).toEqual([bad, bad]);
+    expect(health.errors[0].message).toContain('Unexpected token');
+  });
+
+  it('records adapter failures instead of throwing', async () => {
+    const adapter = {
+      name: 'gemini',
+      label: 'Gemini CLI',
+      listSessionFiles: async () => [],
+      parseSessions: async () => {
+        throw new Error('boom');
+      },
+    } as unknown as ToolAdapter;
+
+    const health = await checkAdapterHealth(adapter);
+
+    expect(health.failure).toBe('boom');
+  });
+});
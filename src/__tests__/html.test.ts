@@ -0,0 +1,142 @@
+/**
+ * Tests for the standalone HTML export (src/utils/html.ts).
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { SessionContext, UnifiedSession } from '../types/index.js';
+import { isExportFormat, isHandoffFormat, renderExport } from '../utils/handoff.js';
+import { highlightCode, renderDiff, renderHtmlIndex, renderSessionHtml } from '../utils/html.js';
+
+const session: UnifiedSession = {
+  id: 'abcdef12-3456',
+  source: 'claude',
+  cwd: '/work/app',
+  repo: 'acme/app',
+  branch: 'main',
+  lines: 10,
+  bytes: 1000,
+  createdAt: new Date('2026-05-01T09:00:00Z'),
+  updatedAt: new Date('2026-05-01T10:30:00Z'),
+  originalPath: '/tmp/abcdef12.jsonl',
+  summary: 'Fix <script> injection',
+};
+
+const context: SessionContext = {
+  session,
+  recentMessages: [
+    { role: 'user', content: 'Why does <b>this</b> fail?', timestamp: new Date('2026-05-01T09:05:00Z') },
+    { role: 'assistant', content: 'Looking at it.' },
+  ],
+  filesModified: ['src/app.ts'],
+  pendingTasks: ['Add a regression test'],
+  toolSummaries: [
+    {
+      name: 'Bash',
+      count: 2,
+      errorCount: 1,
+      samples: [
+        {
+          summary: '$ npm test → exit 1',
+          data: { category: 'shell', command: 'npm test', exitCode: 1, errored: true, stdoutTail: 'FAIL app.test.ts' },
+        },
+      ],
+    },
+    {
+      name: 'Edit',
+      count: 1,
+      samples: [
+        {
+          summary: 'edit src/app.ts (+1 -1)',
+          data: { category: 'edit', filePath: 'src/app.ts', diff: '@@ -1 +1 @@\n-const x = 1;\n+const x = "two";' },
+        },
+      ],
+    },
+  ],
+  sessionNotes: {
+    subagentResults: [
+      { taskId: 't1', description: 'Search callers', status: 'completed', result: 'Found 3 callers', toolCallCount: 4 },
+    ],
+    reasoningSteps: [
+      {
+        stepNumber: 1,
+        totalSteps: 2,
+        purpose: 'analysis',
+        thought: 'The input is not escaped',
+        outcome: 'Escape it',
+        nextAction: 'Edit app.ts',
+      },
+    ],
+  },
+  markdown: '# Session Handoff Context',
+};
+
+describe('highlightCode', () => {
+  it('wraps keywords, strings, numbers and comments, escaping everything', () => {
+    expect(highlightCode('const a = "<x>"; // note')).toBe(
+      '<span class="tok-keyword">const</span> a = <span class="tok-string">&quot;&lt;x&gt;&quot;</span>; ' +
+        '<span class="tok-comment">// note</span>',
+    );
+    expect(highlightCode('return 42')).toBe(
+      '<span class="tok-keyword">return</span> <span class="tok-number">42</span>',
+    );
+  });
+});
+
+describe('renderDiff', () => {
+  it('colours each line by its kind', () => {
+    const html = renderDiff('@@ -1 +1 @@\n-old\n+added\n same\n+3 lines truncated');
+    expect(html).toContain('<span class="diff-hunk">@@ -1 +1 @@</span>');
+    expect(html).toContain('<span class="diff-del">-old</span>');
+    expect(html).toContain('<span class="diff-add">+added</span>');
+    expect(html).toContain('<span class="diff-ctx"> same</span>');
+    expect(html).toContain('<span class="diff-note">+3 lines truncated</span>');
+  });
+});
+
+describe('renderSessionHtml', () => {
+  const html = renderSessionHtml(context, new Date('2026-05-02T00:00:00Z'));
+
+  it('is a standalone page with escaped content', () => {
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Fix &lt;script&gt; injection</title>');
+    expect(html).toContain('Why does &lt;b&gt;this&lt;/b&gt; fail?');
+    expect(html).not.toContain('<b>this</b>');
+    expect(html).not.toMatch(/(?:src|href)="https?:/);
+    expect(html).not.toContain('<script>');
+  });
+
+  it('renders metadata, conversation, tools, subagents and reasoning', () => {
+    expect(html).toContain('<tr><th>Repository</th><td>acme/app @ <code>main</code></td></tr>');
+    expect(html).toContain('<summary><h2>Conversation</h2><span class="count">2 messages</span></summary>');
+    expect(html).toContain('2 calls, 1 error, 1 shown');
+    expect(html).toContain('<pre class="text">FAIL app.test.ts</pre>');
+    expect(html).toContain('<span class="diff-add">+<span class="tok-keyword">const</span> x = ');
+    expect(html).toContain('Found 3 callers');
+    expect(html).toContain('<strong>analysis</strong>');
+    expect(html).toContain('<li>Add a regression test</li>');
+  });
+});
+
+describe('renderHtmlIndex', () => {
+  it('lists sessions newest first with source and repo filters', () => {
+    const older = { ...session, id: 'older-id', source: 'codex' as const, repo: undefined, cwd: '/work/tool' };
+    const html = renderHtmlIndex([
+      { file: 'codex_older-id.html', session: { ...older, updatedAt: new Date('2026-04-01T00:00:00Z') } },
+      { file: 'claude_abcdef12-3456.html', session },
+    ]);
+    expect(html.indexOf('claude_abcdef12-3456.html')).toBeLessThan(html.indexOf('codex_older-id.html'));
+    expect(html).toContain('<option value="codex">Codex CLI</option>');
+    expect(html).toContain('<option value="tool">tool</option>');
+    expect(html).toContain('<tr data-source="claude" data-repo="acme/app">');
+    expect(html).toContain('<script>');
+  });
+});
+
+describe('export formats', () => {
+  it('accepts html for exports only', () => {
+    expect(isExportFormat('html')).toBe(true);
+    expect(isHandoffFormat('html')).toBe(false);
+    expect(renderExport(context, 'html')).toContain('<!DOCTYPE html>');
+    expect(renderExport(context, 'markdown', { config: undefined })).toBe(context.markdown);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for incremental session indexing (src/utils/incremental-index.ts).
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { UnifiedSession } from '../types/index.js';
+import { type AdapterManifest, fingerprintPath, refreshAdapterSessions } from '../utils/incremental-index.js';
+
+const tmpDirs: string[] = [];
+
+function makeTmpDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-index-'));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  tmpDirs.length = 0;
+});
+
+function sessionFor(filePath: string): UnifiedSession {
+  return {
+    id: path.basename(filePath),
+    source: 'claude',
+    cwd: '/tmp',
+    lines: 1,
+    bytes: fs.statSync(filePath).size,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    originalPath: filePath,
+  };
+}
+
+/** Fake adapter that records which files it was asked to parse */
+function makeAdapter(dir: string) {
+  const parsedBatches: string[][] = [];
+  return {
+    parsedBatches,
+    listSessionFiles: async () => fs.readdirSync(dir).map((name) => path.join(dir, name)),
+    parseSessions: async (files?: string[]) => {
+      const batch = files ?? fs.readdirSync(dir).map((name) => path.join(dir, name));
+      parsedBatches.push(batch);
+      return batch.map(sessionFor);
+    },
+  };
+}
+
+describe('fingerprintPath', () => {
+  it('returns null for missing paths', () => {
+    expect(fingerprintPath('/nonexistent/continues/file.jsonl')).toBeNull();
+  });
+
+  it('aggregates immediate files of a directory', () => {
+    const dir = makeTmpDir();
+    fs.writeFileSync(path.join(dir, 'a.json'), 'abc');
+    fs.writeFileSync(path.join(dir, 'b.json'), 'defg');
+    expect(fingerprintPath(dir)?.size).toBe(7);
+  });
+});
+
+describe('refreshAdapterSessions', () => {
+  it('parses every file when there is no previous manifest', async () => {
+    const dir = makeTmpDir();
+    fs.writeFileSync(path.join(dir, 'one.jsonl'), '1');
+    fs.writeFileSync(path.join(dir, 'two.jsonl'), '2');
+    const adapter = makeAdapter(dir);
+
+    const result = await refreshAdapterSessions(adapter, [], undefined);
+
+    expect(result.sessions).toHaveLength(2);
+    expect(result.reparsed).toBe(2);
+    expect(result.reused).toBe(0);
+    expect(Object.keys(result.files)).toHaveLength(2);
+  });
+
+  it('re-parses only changed files and drops deleted ones', async () => {
+    const dir = makeTmpDir();
+    const keep = path.join(dir, 'keep.jsonl');
+    const change = path.join(dir, 'change.jsonl');
+    const remove = path.join(dir, 'remove.jsonl');
+    for (const file of [keep, change, remove]) fs.writeFileSync(file, 'x');
+
+    const adapter = makeAdapter(dir);
+    const first = await refreshAdapterSessions(adapter, [], undefined);
+    const previous: AdapterManifest = first.files;
+
+    fs.appendFileSync(change, 'more');
+    fs.rmSync(remove);
+    fs.writeFileSync(path.join(dir, 'new.jsonl'), 'y');
+
+    const second = await refreshAdapterSessions(adapter, first.sessions, previous);
+
+    expect(adapter.parsedBatches[1].map((f) => path.basename(f)).sort()).toEqual(['change.jsonl', 'new.jsonl']);
+    expect(second.reused).toBe(1);
+    expect(second.reparsed).toBe(2);
+    expect(second.changedFiles).toBe(2);
+    expect(second.deletedFiles).toBe(1);
+    expect(second.sessions.map((s) => s.id).sort()).toEqual(['change.jsonl', 'keep.jsonl', 'new.jsonl']);
+  });
+
+  it('skips parsing entirely when nothing changed', async () => {
+    const dir = makeTmpDir();
+    fs.writeFileSync(path.join(dir, 'only.jsonl'), 'x');
+    const adapter = makeAdapter(dir);
+    const first = await refreshAdapterSessions(adapter, [], undefined);
+
+    const second = await refreshAdapterSessions(adapter, first.sessions, first.files);
+
+    expect(adapter.parsedBatches).toHaveLength(1);
+    expect(second.reused).toBe(1);
+    expect(second.reparsed).toBe(0);
+  });
+
+  it('falls back to a full parse for adapters without listSessionFiles', async () => {
+    const dir = makeTmpDir();
+    fs.writeFileSync(path.join(dir, 'a.jsonl'), 'x');
+    const { parseSessions } = makeAdapter(dir);
+
+    const result = await refreshAdapterSessions({ parseSessions }, [], {});
+
+    expect(result.reparsed).toBe(1);
+    expect(result.files).toEqual({});
+  });
+});
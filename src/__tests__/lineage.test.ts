@@ -0,0 +1,174 @@
+/**
+ * Tests for handoff lineage tracking (src/utils/lineage.ts).
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { SessionContext, UnifiedSession } from '../types/index.js';
+import {
+  buildLineageSection,
+  detectParentLink,
+  formatHandoffMarker,
+  getAncestors,
+  getLineageTree,
+  linkLineage,
+  parseHandoffMarker,
+} from '../utils/lineage.js';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-lineage-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function makeSession(id: string, overrides: Partial<UnifiedSession> = {}): UnifiedSession {
+  return {
+    id,
+    source: 'claude',
+    cwd: '/work',
+    lines: 10,
+    bytes: 1000,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T01:00:00Z'),
+    originalPath: path.join(tmpDir, `${id}.jsonl`),
+    ...overrides,
+  };
+}
+
+describe('handoff marker', () => {
+  it('round-trips through a prompt', () => {
+    const marker = formatHandoffMarker(makeSession('abc-123'));
+    expect(parseHandoffMarker(`${marker}\nI'm continuing a coding session`)).toEqual({
+      source: 'claude',
+      id: 'abc-123',
+    });
+  });
+
+  it('is found when stored JSON-escaped', () => {
+    const line = JSON.stringify({ content: formatHandoffMarker(makeSession('abc')) }).replace(/</g, '\\u003c');
+    expect(parseHandoffMarker(line)).toEqual({ source: 'claude', id: 'abc' });
+  });
+
+  it('ignores unknown sources and template placeholders', () => {
+    expect(parseHandoffMarker('continues-handoff v1 source=nope id=abc')).toBeNull();
+    // As it appears in source code that builds the marker
+    expect(parseHandoffMarker(`continues-handoff v1 source=$${'{'}session.source} id=x`)).toBeNull();
+  });
+});
+
+describe('detectParentLink', () => {
+  it('reads the parent from the head of the session file', () => {
+    const parent = makeSession('parent-1', { source: 'codex' });
+    const child = makeSession('child-1', { source: 'gemini' });
+    fs.writeFileSync(child.originalPath, JSON.stringify({ type: 'user', text: formatHandoffMarker(parent) }));
+
+    expect(detectParentLink(child)).toEqual({ source: 'codex', id: 'parent-1' });
+  });
+
+  it('only counts a marker that opens a message', () => {
+    const parent = makeSession('parent-1', { source: 'codex' });
+    const child = makeSession('child-1', { source: 'gemini' });
+    const lines = [
+      { type: 'user', text: 'How do handoffs find their parent?' },
+      { type: 'assistant', text: `The prompt starts with ${formatHandoffMarker(parent)}` },
+      { type: 'tool', output: `$ cat prompt.md\n${formatHandoffMarker(parent)}` },
+    ];
+    fs.writeFileSync(child.originalPath, lines.map((line) => JSON.stringify(line)).join('\n'));
+
+    expect(detectParentLink(child)).toBeNull();
+  });
+
+  it('reads the marker after the user prefix of a markdown history', () => {
+    const parent = makeSession('parent-1', { source: 'codex' });
+    const child = makeSession('child-1', {
+      source: 'aider',
+      originalPath: path.join(tmpDir, 'chat.md'),
+    });
+    fs.writeFileSync(
+      child.originalPath,
+      `# aider chat started at 2026-01-01 00:00:00\n\n#### ${formatHandoffMarker(parent)}\n`,
+    );
+
+    expect(detectParentLink(child)).toEqual({ source: 'codex', id: 'parent-1' });
+  });
+
+  it('skips shared databases and missing files', () => {
+    expect(detectParentLink(makeSession('x', { originalPath: path.join(tmpDir, 'opencode.db') }))).toBeNull();
+    expect(detectParentLink(makeSession('missing'))).toBeNull();
+  });
+});
+
+describe('lineage graph', () => {
+  const chain = () => {
+    const root = makeSession('root', { createdAt: new Date('2026-01-01T00:00:00Z') });
+    const middle = makeSession('middle', {
+      source: 'codex',
+      parent: { source: 'claude', id: 'root' },
+      createdAt: new Date('2026-01-02T00:00:00Z'),
+    });
+    const leaf = makeSession('leaf', {
+      source: 'gemini',
+      parent: { source: 'codex', id: 'middle' },
+      createdAt: new Date('2026-01-03T00:00:00Z'),
+    });
+    const sessions = [leaf, root, middle];
+    linkLineage(sessions);
+    return { root, middle, leaf, sessions };
+  };
+
+  it('derives children from parent links', () => {
+    const { root, middle, leaf } = chain();
+    expect(root.children).toEqual([{ source: 'codex', id: 'middle' }]);
+    expect(middle.children).toEqual([{ source: 'gemini', id: 'leaf' }]);
+    expect(leaf.children).toBeUndefined();
+  });
+
+  it('walks ancestors nearest first', () => {
+    const { sessions, leaf } = chain();
+    expect(getAncestors(sessions, leaf).map((s) => s.id)).toEqual(['middle', 'root']);
+  });
+
+  it('stops at cycles', () => {
+    const a = makeSession('a', { parent: { source: 'claude', id: 'b' } });
+    const b = makeSession('b', { parent: { source: 'claude', id: 'a' } });
+    expect(getAncestors([a, b], a).map((s) => s.id)).toEqual(['b']);
+  });
+
+  it('builds the tree from the root', () => {
+    const { sessions, middle } = chain();
+    const tree = getLineageTree(sessions, middle);
+    expect(tree.session.id).toBe('root');
+    expect(tree.children[0].session.id).toBe('middle');
+    expect(tree.children[0].children[0].session.id).toBe('leaf');
+  });
+});
+
+describe('buildLineageSection', () => {
+  it('summarizes earlier hops', () => {
+    const session = makeSession('root', { summary: 'Refactor auth' });
+    const context = {
+      session,
+      recentMessages: [{ role: 'assistant', content: 'Moved token checks into middleware.' }],
+      filesModified: ['src/auth.ts'],
+      pendingTasks: [],
+      toolSummaries: [],
+      markdown: '',
+    } as SessionContext;
+
+    const section = buildLineageSection([{ session, context }]);
+    expect(section).toContain('## Earlier Sessions in This Chain');
+    expect(section).toContain('`root`');
+    expect(section).toContain('Moved token checks into middleware.');
+    expect(section).toContain('`src/auth.ts`');
+  });
+
+  it('is empty without hops', () => {
+    expect(buildLineageSection([])).toBe('');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for merged multi-session handoffs (src/utils/merge.ts).
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import type { ConversationMessage, SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
+import { buildHandoffDocument } from '../utils/handoff.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { findProjectSessions, mergeContexts, parseDuration } from '../utils/merge.js';
+
+const config = getPreset('standard');
+
+function makeSession(id: string, source: SessionSource, updatedAt: string, cwd = '/work/app'): UnifiedSession {
+  return {
+    id,
+    source,
+    cwd,
+    lines: 10,
+    bytes: 1000,
+    createdAt: new Date(new Date(updatedAt).getTime() - 60 * 60 * 1000),
+    updatedAt: new Date(updatedAt),
+    originalPath: `/tmp/${id}.jsonl`,
+    summary: `${source} work`,
+  };
+}
+
+function makeContext(
+  session: UnifiedSession,
+  messages: ConversationMessage[],
+  extra: Partial<SessionContext> = {},
+): SessionContext {
+  const context: Omit<SessionContext, 'markdown'> = {
+    session,
+    recentMessages: messages,
+    filesModified: [],
+    pendingTasks: [],
+    toolSummaries: [],
+    ...extra,
+  };
+  return {
+    ...context,
+    markdown: generateHandoffMarkdown(
+      session,
+      context.recentMessages,
+      context.filesModified,
+      context.pendingTasks,
+      context.toolSummaries,
+      context.sessionNotes,
+      config,
+    ),
+  };
+}
+
+const at = (time: string) => new Date(`2026-03-01T${time}:00Z`);
+
+const claude = makeContext(
+  makeSession('claude-aaaaaaaa-1', 'claude', '2026-03-01T10:30:00Z'),
+  [
+    { role: 'user', content: 'start the refactor', timestamp: at('09:00') },
+    { role: 'assistant', content: 'split the parser', timestamp: at('09:10') },
+    { role: 'user', content: 'later in claude', timestamp: at('10:30') },
+  ],
+  {
+    filesModified: ['src/a.ts', 'src/b.ts'],
+    pendingTasks: ['Add tests', 'Update docs'],
+    toolSummaries: [{ name: 'Bash', count: 2, samples: [{ summary: '$ npm test' }] }],
+  },
+);
+
+const codex = makeContext(
+  makeSession('codex-bbbbbbbb-2', 'codex', '2026-03-01T11:00:00Z'),
+  [
+    { role: 'user', content: 'continue in codex', timestamp: at('10:00') },
+    { role: 'assistant', content: 'no timestamp, stays after its predecessor' },
+    { role: 'user', content: 'final codex turn', timestamp: at('11:00') },
+  ],
+  {
+    filesModified: ['src/b.ts', 'src/c.ts'],
+    pendingTasks: ['add  tests', 'Release'],
+    toolSummaries: [{ name: 'Bash', count: 1, samples: [{ summary: '$ npm run build' }] }],
+  },
+);
+
+describe('mergeContexts', () => {
+  const merged = mergeContexts([codex, claude], config);
+
+  it('interleaves the conversations by time and tags each message with its tool', () => {
+    expect(merged.recentMessages.map((m) => [m.source, m.content])).toEqual([
+      ['claude', 'start the refactor'],
+      ['claude', 'split the parser'],
+      ['codex', 'continue in codex'],
+      ['codex', 'no timestamp, stays after its predecessor'],
+      ['claude', 'later in claude'],
+      ['codex', 'final codex turn'],
+    ]);
+  });
+
+  it('unions files, dedupes pending tasks and sums tool usage', () => {
+    expect(merged.filesModified).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+    expect(merged.pendingTasks).toEqual(['add  tests', 'Release', 'Update docs']);
+    expect(merged.toolSummaries).toEqual([
+      { name: 'Bash', count: 3, samples: [{ summary: '$ npm test' }, { summary: '$ npm run build' }] },
+    ]);
+  });
+
+  it('stands in the latest session under a combined ID', () => {
+    expect(merged.session.source).toBe('codex');
+    expect(merged.session.id).toBe('claude-a+codex-bb');
+    expect(merged.session.lines).toBe(20);
+    expect(merged.session.createdAt).toEqual(claude.session.createdAt);
+    expect(merged.sessionNotes?.mergedFrom?.map((s) => s.id)).toEqual([claude.session.id, codex.session.id]);
+  });
+
+  it('lists every source session and labels the conversation turns', () => {
+    expect(merged.markdown).toContain('| **Source** | Claude Code + Codex CLI |');
+    expect(merged.markdown).toContain('## Merged Sessions');
+    expect(merged.markdown).toContain(
+      '| Claude Code | `claude-aaaaaaaa-1` | `/work/app` | 2026-03-01 10:30 | claude work |',
+    );
+    expect(merged.markdown).toContain('### User (Codex CLI)');
+    expect(merged.markdown).toContain('final codex turn');
+    expect(merged.markdown).toContain('start the refactor');
+  });
+
+  it('carries sources into the structured handoff', () => {
+    const document = buildHandoffDocument(merged, new Date('2026-03-01T12:00:00Z'));
+    expect(document.notes?.mergedFrom?.map((s) => [s.source, s.updatedAt])).toEqual([
+      ['claude', '2026-03-01T10:30:00.000Z'],
+      ['codex', '2026-03-01T11:00:00.000Z'],
+    ]);
+    expect(document.messages[0].source).toBe('claude');
+  });
+
+  it('refuses an empty list', () => {
+    expect(() => mergeContexts([], config)).toThrow('Nothing to merge');
+  });
+});
+
+describe('findProjectSessions', () => {
+  it('keeps sessions of the directory within the window, oldest first', () => {
+    const now = new Date('2026-03-02T12:00:00Z');
+    const sessions = [
+      makeSession('recent', 'codex', '2026-03-02T11:00:00Z'),
+      makeSession('other-dir', 'claude', '2026-03-02T11:30:00Z', '/work/other'),
+      makeSession('subdir', 'gemini', '2026-03-02T09:00:00Z', '/work/app/packages/core'),
+      makeSession('stale', 'claude', '2026-02-20T09:00:00Z'),
+    ];
+    expect(findProjectSessions(sessions, '/work/app', 24 * 3_600_000, now).map((s) => s.id)).toEqual([
+      'subdir',
+      'recent',
+    ]);
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads minutes, hours, days and weeks', () => {
+    expect(parseDuration('90m')).toBe(90 * 60_000);
+    expect(parseDuration('12h')).toBe(12 * 3_600_000);
+    expect(parseDuration('2d')).toBe(2 * 86_400_000);
+    expect(parseDuration('1w')).toBe(7 * 86_400_000);
+    expect(parseDuration('6')).toBe(6 * 3_600_000);
+    expect(parseDuration('soon')).toBeNull();
+    expect(parseDuration('0h')).toBeNull();
+  });
+});
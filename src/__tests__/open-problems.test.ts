@@ -0,0 +1,120 @@
+/**
+ * Tests for unresolved failure detection (src/utils/open-problems.ts).
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import type { UnifiedSession } from '../types/index.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { findOpenProblems, type ToolOutcome } from '../utils/open-problems.js';
+import { type AnthropicMessage, extractAnthropicToolData } from '../utils/tool-extraction.js';
+
+const config = { maxProblems: 5, errorLines: 2, recentToolCalls: 3 };
+
+const run = (command: string, exitCode: number, errorMessage?: string): ToolOutcome => ({
+  tool: 'Bash',
+  summary: `$ ${command}`,
+  isError: exitCode !== 0,
+  data: {
+    category: 'shell',
+    command,
+    exitCode,
+    ...(exitCode !== 0 ? { errored: true } : {}),
+    ...(errorMessage ? { errorMessage } : {}),
+  },
+});
+
+const edit = (filePath: string, isError: boolean): ToolOutcome => ({
+  tool: 'Edit',
+  summary: `edit ${filePath}`,
+  isError,
+  filePath,
+  isWrite: true,
+});
+
+const read = (isError: boolean): ToolOutcome => ({ tool: 'Read', summary: 'read missing.ts', isError });
+
+describe('findOpenProblems', () => {
+  it('keeps commands that never succeeded afterwards, most recent first', () => {
+    const problems = findOpenProblems(
+      [
+        run('npm run build', 2),
+        run('npm test', 1, 'first failure'),
+        run('npm  run build', 0),
+        run('npm test', 1, 'FAIL a.test.ts\n\nExpected 2\nReceived 3'),
+        run('npm run lint', 1),
+      ],
+      config,
+    );
+    expect(problems).toEqual([
+      { kind: 'command', tool: 'Bash', target: 'npm run lint', exitCode: 1, failures: 1 },
+      { kind: 'command', tool: 'Bash', target: 'npm test', exitCode: 1, error: 'Expected 2\nReceived 3', failures: 2 },
+    ]);
+  });
+
+  it('resolves failed edits by a later successful change to the same file', () => {
+    const problems = findOpenProblems([edit('a.ts', true), edit('b.ts', true), edit('a.ts', false)], config);
+    expect(problems).toEqual([{ kind: 'edit', tool: 'Edit', target: 'b.ts', failures: 1 }]);
+  });
+
+  it('keeps other tool errors only near the end of the session', () => {
+    const early = findOpenProblems([read(true), read(false), read(false), read(false)], config);
+    expect(early).toEqual([]);
+    const late = findOpenProblems([read(false), read(true), read(true)], config);
+    expect(late).toEqual([{ kind: 'tool', tool: 'Read', target: 'read missing.ts', failures: 2 }]);
+  });
+
+  it('caps the list and can be turned off', () => {
+    const outcomes = [run('a', 1), run('b', 1), run('c', 1)];
+    expect(findOpenProblems(outcomes, { ...config, maxProblems: 2 }).map((p) => p.target)).toEqual(['c', 'b']);
+    expect(findOpenProblems(outcomes, { ...config, maxProblems: 0 })).toEqual([]);
+  });
+});
+
+describe('Open Problems section', () => {
+  it('renders failures from tool results above the conversation', () => {
+    const call = (id: string, command: string): AnthropicMessage => ({
+      role: 'assistant',
+      content: [{ type: 'tool_use', id, name: 'Bash', input: { command } }],
+    });
+    const result = (id: string, content: string, isError: boolean): AnthropicMessage => ({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }],
+    });
+    const cfg = getPreset('standard');
+    const { summaries, openProblems } = extractAnthropicToolData(
+      [
+        call('t1', 'npm test'),
+        result('t1', 'Exit code 1\nFAIL src/app.test.ts\nTypeError: x is undefined', true),
+        call('t2', 'git status'),
+        result('t2', 'nothing to commit', false),
+      ],
+      cfg,
+    );
+    expect(openProblems).toHaveLength(1);
+
+    const session: UnifiedSession = {
+      id: 's1',
+      source: 'claude',
+      cwd: '/work',
+      lines: 1,
+      bytes: 1,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T01:00:00Z'),
+      originalPath: '/tmp/s1.jsonl',
+    };
+    const md = generateHandoffMarkdown(
+      session,
+      [{ role: 'user', content: 'fix the tests' }],
+      [],
+      [],
+      summaries,
+      { openProblems },
+      cfg,
+    );
+    expect(md).toContain('- **`$ npm test`** — exit 1, failed');
+    expect(md).toContain('```\nExit code 1\nFAIL src/app.test.ts\nTypeError: x is undefined\n```');
+    expect(md.indexOf('## Open Problems')).toBeLessThan(md.indexOf('## Tool Activity'));
+    expect(md.indexOf('## Open Problems')).toBeLessThan(md.indexOf('## Recent Conversation'));
+  });
+});
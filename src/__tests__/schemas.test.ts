@@ -17,6 +17,8 @@ import {
   CodexResponseItemSchema,
   CodexSessionMetaSchema,
   CodexTurnContextSchema,
+  ContinueHistoryItemSchema,
+  ContinueSessionIndexEntrySchema,
   CopilotEventSchema,
   CopilotWorkspaceSchema,
   CursorTranscriptLineSchema,
@@ -29,10 +31,14 @@ import {
   GeminiMessageSchema,
   GeminiSessionSchema,
   GeminiToolCallSchema,
+  GooseMessageSchema,
+  GooseSessionMetaSchema,
   OpenCodeMessageSchema,
   OpenCodeSessionSchema,
   SerializedSessionSchema,
   SqliteSessionRowSchema,
+  ZedAgentMessageSchema,
+  ZedLegacyMessageSchema,
 } from '../types/schemas.js';
 import type { SessionSource } from '../types/tool-names.js';
 import { EDIT_TOOLS, READ_TOOLS, SHELL_TOOLS, TOOL_NAMES, WRITE_TOOLS } from '../types/tool-names.js';
@@ -40,14 +46,15 @@ import { EDIT_TOOLS, READ_TOOLS, SHELL_TOOLS, TOOL_NAMES, WRITE_TOOLS } from '..
 // ── tool-names.ts ────────────────────────────────────────────────────────────
 
 describe('TOOL_NAMES', () => {
-  it('contains exactly 14 tools', () => {
-    expect(TOOL_NAMES).toHaveLength(14);
+  it('contains exactly 21 tools', () => {
+    expect(TOOL_NAMES).toHaveLength(21);
   });
 
   it('includes all known tools', () => {
     const expected: SessionSource[] = [
       'claude', 'codex', 'copilot', 'gemini', 'opencode', 'droid', 'cursor',
-      'amp', 'kiro', 'crush', 'cline', 'roo-code', 'kilo-code', 'antigravity',
+      'amp', 'kiro', 'crush', 'cline', 'roo-code', 'kilo-code', 'antigravity', 'aider',
+      'goose', 'continue-dev', 'zed', 'qwen', 'copilot-chat', 'cursor-ide',
     ];
     expect([...TOOL_NAMES]).toEqual(expected);
   });
@@ -631,6 +638,121 @@ describe('CursorTranscriptLineSchema', () => {
   });
 });
 
+// ── Goose schemas ────────────────────────────────────────────────────────────
+
+describe('GooseSessionMetaSchema', () => {
+  it('accepts a metadata line with null token counts', () => {
+    const result = GooseSessionMetaSchema.safeParse({
+      working_dir: '/home/user/project',
+      description: 'Fix login',
+      message_count: 4,
+      total_tokens: null,
+      input_tokens: null,
+      accumulated_input_tokens: 1200,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a line without working_dir', () => {
+    expect(GooseSessionMetaSchema.safeParse({ description: 'Fix login' }).success).toBe(false);
+  });
+});
+
+describe('GooseMessageSchema', () => {
+  it('accepts an assistant tool request and a user tool response', () => {
+    const request = GooseMessageSchema.safeParse({
+      role: 'assistant',
+      created: 1760000000,
+      content: [
+        {
+          type: 'toolRequest',
+          id: 'call_1',
+          toolCall: { status: 'success', value: { name: 'developer__shell', arguments: { command: 'ls' } } },
+        },
+      ],
+    });
+    const response = GooseMessageSchema.safeParse({
+      role: 'user',
+      created: 1760000001,
+      content: [
+        {
+          type: 'toolResponse',
+          id: 'call_1',
+          toolResult: { status: 'success', value: [{ type: 'text', text: 'src', annotations: { audience: ['assistant'] } }] },
+        },
+      ],
+    });
+    expect(request.success).toBe(true);
+    expect(response.success).toBe(true);
+  });
+
+  it('rejects a message without a created timestamp', () => {
+    expect(GooseMessageSchema.safeParse({ role: 'user', content: [] }).success).toBe(false);
+  });
+});
+
+// ── Continue.dev schemas ─────────────────────────────────────────────────────
+
+describe('ContinueSessionIndexEntrySchema', () => {
+  it('accepts string and numeric creation dates', () => {
+    const entry = { sessionId: 's1', title: 'Fix login', workspaceDirectory: 'file:///home/user/project' };
+    expect(ContinueSessionIndexEntrySchema.safeParse({ ...entry, dateCreated: '1760000000000' }).success).toBe(true);
+    expect(ContinueSessionIndexEntrySchema.safeParse({ ...entry, dateCreated: 1760000000000 }).success).toBe(true);
+  });
+
+  it('rejects an entry without sessionId', () => {
+    expect(ContinueSessionIndexEntrySchema.safeParse({ title: 'Fix login' }).success).toBe(false);
+  });
+});
+
+describe('ContinueHistoryItemSchema', () => {
+  it('accepts a tool call with its state and defaults contextItems', () => {
+    const toolCall = { id: 'tc_1', type: 'function', function: { name: 'read_file', arguments: '{"filepath":"a.ts"}' } };
+    const result = ContinueHistoryItemSchema.safeParse({
+      message: { role: 'assistant', content: '', toolCalls: [toolCall] },
+      toolCallState: { toolCallId: 'tc_1', toolCall, status: 'done', output: [{ name: 'a.ts', content: 'x' }] },
+    });
+    expect(result.success).toBe(true);
+    expect(result.success && result.data.contextItems).toEqual([]);
+  });
+
+  it('accepts message content as text parts', () => {
+    const result = ContinueHistoryItemSchema.safeParse({
+      message: { role: 'user', content: [{ type: 'text', text: 'hi' }, { type: 'imageUrl', imageUrl: { url: 'data:' } }] },
+      contextItems: [],
+    });
+    expect(result.success).toBe(true);
+  });
+});
+
+// ── Zed schemas ──────────────────────────────────────────────────────────────
+
+describe('ZedLegacyMessageSchema', () => {
+  it('defaults missing segments, tool uses and results', () => {
+    const result = ZedLegacyMessageSchema.safeParse({ id: 0, role: 'user' });
+    expect(result.success && result.data).toMatchObject({ segments: [], tool_uses: [], tool_results: [] });
+  });
+
+  it('rejects agent panel rewrite messages', () => {
+    expect(ZedLegacyMessageSchema.safeParse({ User: { content: [{ Text: 'hi' }] } }).success).toBe(false);
+  });
+});
+
+describe('ZedAgentMessageSchema', () => {
+  it('accepts User, Agent and Resume messages', () => {
+    expect(ZedAgentMessageSchema.safeParse({ User: { id: 'u1', content: [{ Text: 'hi' }] } }).success).toBe(true);
+    expect(
+      ZedAgentMessageSchema.safeParse({
+        Agent: {
+          content: [{ ToolUse: { id: 't1', name: 'terminal', input: { command: 'ls' } } }],
+          tool_results: { t1: { tool_use_id: 't1', is_error: false, content: { Text: 'src' } } },
+        },
+      }).success,
+    ).toBe(true);
+    expect(ZedAgentMessageSchema.safeParse('Resume').success).toBe(true);
+  });
+});
+
 // ── Serialized Session (Index) ───────────────────────────────────────────────
 
 describe('SerializedSessionSchema', () => {
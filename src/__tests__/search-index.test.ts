@@ -0,0 +1,102 @@
+/**
+ * Tests for the full-text session search index (src/utils/search-index.ts).
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import type { SessionContext, UnifiedSession } from '../types/index.js';
+import { contextToSearchDocs, openSearchDb, searchIndex, toFtsQuery } from '../utils/search-index.js';
+import type { SqliteDb } from '../utils/sqlite.js';
+
+function makeSession(id: string, source: UnifiedSession['source'] = 'claude'): UnifiedSession {
+  return {
+    id,
+    source,
+    cwd: '/home/user/project',
+    lines: 10,
+    bytes: 1000,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-02T00:00:00Z'),
+    originalPath: `/tmp/${id}.jsonl`,
+  };
+}
+
+let db: SqliteDb | null = null;
+
+afterEach(() => {
+  db?.close();
+  db = null;
+});
+
+function seed(rows: Array<[string, string, string]>): SqliteDb {
+  db = openSearchDb(':memory:');
+  const insert = db.prepare('INSERT INTO session_docs (session_key, kind, content) VALUES (?, ?, ?)');
+  for (const row of rows) insert.run(...row);
+  return db;
+}
+
+describe('toFtsQuery', () => {
+  it('quotes each term and prefix-matches the last one', () => {
+    expect(toFtsQuery('ssh tunnel')).toBe('"ssh" "tunnel"*');
+  });
+
+  it('neutralises FTS syntax in user input', () => {
+    expect(toFtsQuery('"foo" OR bar')).toBe('"foo" "OR" "bar"*');
+    expect(toFtsQuery('   ')).toBe('');
+  });
+});
+
+describe('contextToSearchDocs', () => {
+  it('collects messages, tool commands and modified files', () => {
+    const context = {
+      session: makeSession('a'),
+      recentMessages: [
+        { role: 'user', content: 'fix the ssh tunnel' },
+        { role: 'assistant', content: 'Restarting autossh' },
+        { role: 'system', content: 'ignored' },
+      ],
+      filesModified: ['src/tunnel.ts'],
+      pendingTasks: [],
+      toolSummaries: [
+        {
+          name: 'Bash',
+          count: 1,
+          samples: [{ summary: '$ autossh -M 0', data: { category: 'shell', command: 'autossh -M 0 host' } }],
+        },
+      ],
+      markdown: '',
+    } as SessionContext;
+
+    const docs = contextToSearchDocs(context);
+
+    expect(docs.map((d) => d.kind)).toEqual(['user', 'assistant', 'tool', 'file']);
+    expect(docs[2].content).toContain('autossh -M 0 host');
+    expect(docs[3].content).toBe('src/tunnel.ts');
+  });
+});
+
+describe('searchIndex', () => {
+  it('returns the best hit per session with a highlighted snippet', () => {
+    const sessions = [makeSession('one'), makeSession('two', 'codex')];
+    seed([
+      ['claude:one', 'user', 'we fixed the ssh tunnel yesterday'],
+      ['claude:one', 'assistant', 'the tunnel is stable now'],
+      ['codex:two', 'tool', 'ssh -L 8080:localhost:80 tunnel-host'],
+    ]);
+
+    const hits = searchIndex(db as SqliteDb, sessions, 'ssh tunnel');
+
+    expect(hits.map((h) => h.session.id).sort()).toEqual(['one', 'two']);
+    expect(hits.find((h) => h.session.id === 'one')?.snippet).toContain('[ssh]');
+  });
+
+  it('filters by source and ignores sessions missing from the index list', () => {
+    const sessions = [makeSession('one')];
+    seed([
+      ['claude:one', 'user', 'database migration'],
+      ['codex:gone', 'user', 'database migration'],
+    ]);
+
+    expect(searchIndex(db as SqliteDb, sessions, 'migration', { source: 'codex' })).toHaveLength(0);
+    expect(searchIndex(db as SqliteDb, sessions, 'migration')).toHaveLength(1);
+  });
+});
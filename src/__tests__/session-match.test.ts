@@ -0,0 +1,100 @@
+/**
+ * Tests for session reference resolution (src/utils/session-match.ts).
+ */
+
+import { describe, expect, it } from 'vitest';
+import { AmbiguousSessionError } from '../errors.js';
+import type { UnifiedSession } from '../types/index.js';
+import {
+  fuzzyMatchSessions,
+  fuzzySessionScore,
+  matchSessionIds,
+  matchSessions,
+  parseSessionQuery,
+} from '../utils/session-match.js';
+
+function makeSession(id: string, overrides: Partial<UnifiedSession> = {}): UnifiedSession {
+  return {
+    id,
+    source: 'claude',
+    cwd: '/work',
+    lines: 10,
+    bytes: 1000,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T01:00:00Z'),
+    originalPath: `/tmp/${id}.jsonl`,
+    ...overrides,
+  };
+}
+
+const sessions = [
+  makeSession('a1e9f000-0000', { summary: 'Refactor auth middleware', repo: 'acme/api', branch: 'feat/auth' }),
+  makeSession('a1e9c111-1111', { source: 'codex', summary: 'Fix flaky billing tests', repo: 'acme/billing' }),
+  makeSession('b2220000-2222', { source: 'gemini', summary: 'Write release notes', branch: 'release/2.0' }),
+];
+
+describe('parseSessionQuery', () => {
+  it('splits a known source prefix', () => {
+    expect(parseSessionQuery('codex:a1e9')).toEqual({ source: 'codex', needle: 'a1e9' });
+  });
+
+  it('leaves unknown prefixes as part of the needle', () => {
+    expect(parseSessionQuery('ses:abc')).toEqual({ needle: 'ses:abc' });
+  });
+});
+
+describe('matchSessions', () => {
+  it('returns every session sharing an ambiguous prefix', () => {
+    expect(matchSessions(sessions, 'a1e9').map((s) => s.id)).toEqual(['a1e9f000-0000', 'a1e9c111-1111']);
+  });
+
+  it('disambiguates with source:prefix', () => {
+    expect(matchSessions(sessions, 'codex:a1e9').map((s) => s.id)).toEqual(['a1e9c111-1111']);
+  });
+
+  it('prefers an exact ID over prefix matches', () => {
+    const withExact = [...sessions, makeSession('a1e9')];
+    expect(matchSessions(withExact, 'a1e9').map((s) => s.id)).toEqual(['a1e9']);
+  });
+
+  it('falls back to fuzzy matching on summary, repo and branch', () => {
+    expect(matchSessions(sessions, 'billing').map((s) => s.id)).toEqual(['a1e9c111-1111']);
+    expect(matchSessions(sessions, 'release/2').map((s) => s.id)).toEqual(['b2220000-2222']);
+    expect(matchSessions(sessions, 'nothing like this')).toEqual([]);
+  });
+});
+
+describe('matchSessionIds', () => {
+  it('never falls back to text matches', () => {
+    expect(matchSessionIds(sessions, 'billing')).toEqual([]);
+    expect(fuzzyMatchSessions(sessions, 'billing').map((s) => s.id)).toEqual(['a1e9c111-1111']);
+  });
+});
+
+describe('fuzzySessionScore', () => {
+  it('ranks substring hits above subsequence hits', () => {
+    const session = sessions[0];
+    expect(fuzzySessionScore(session, 'auth')).toBeGreaterThan(fuzzySessionScore(session, 'mdlwr'));
+    expect(fuzzySessionScore(session, 'mdlwr')).toBeGreaterThan(0);
+  });
+
+  it('requires every term to match', () => {
+    expect(fuzzySessionScore(sessions[0], 'auth billing')).toBe(0);
+  });
+});
+
+describe('AmbiguousSessionError', () => {
+  it('lists the candidates', () => {
+    const err = new AmbiguousSessionError('a1e9', sessions.slice(0, 2));
+    expect(err.candidates).toHaveLength(2);
+    expect(err.message).toContain('claude:a1e9f000-0000');
+    expect(err.message).toContain('codex:a1e9c111-1111');
+  });
+
+  it('asks for an ID when the candidates only match as text', () => {
+    const err = new AmbiguousSessionError('billing', sessions.slice(1, 2), true);
+    expect(err.fuzzy).toBe(true);
+    expect(err.message).toContain('No session ID matches "billing"');
+    expect(err.message).toContain('codex:a1e9c111-1111');
+  });
+});
@@ -322,7 +322,7 @@ describe('extractAnthropicToolData', () => {
       {
         role: 'assistant',
         content: [
-          { type: 'tool_use', id: 'tu1', name: 'TodoWrite', input: {} },
+          { type: 'tool_use', id: 'tu1', name: 'TaskStop', input: {} },
           { type: 'tool_use', id: 'tu2', name: 'Read', input: { file_path: '/test.ts' } },
         ],
       },
@@ -491,7 +491,7 @@ describe('classifyToolName', () => {
   });
 
   it('returns undefined for skip tools', () => {
-    expect(classifyToolName('TodoWrite')).toBeUndefined();
+    expect(classifyToolName('TaskStop')).toBeUndefined();
     expect(classifyToolName('ExitPlanMode')).toBeUndefined();
   });
 
@@ -799,8 +799,8 @@ describe('classifyToolName v2 aliases', () => {
     expect(classifyToolName('web_search_call')).toBe('search');
   });
 
-  it('skips update_plan and view_image', () => {
-    expect(classifyToolName('update_plan')).toBeUndefined();
+  it('classifies update_plan as todo and skips view_image', () => {
+    expect(classifyToolName('update_plan')).toBe('todo');
     expect(classifyToolName('view_image')).toBeUndefined();
   });
 });
@@ -0,0 +1,185 @@
+/**
+ * Tests for handoff templates (src/utils/template.ts, renderHandoffTemplate in src/utils/handoff.ts).
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getPreset, loadConfig } from '../config/index.js';
+import { TemplateError } from '../errors.js';
+import type { SessionContext } from '../types/index.js';
+import { renderHandoff, renderHandoffTemplate, resolveHandoffTemplate } from '../utils/handoff.js';
+import { compileTemplate, renderTemplate } from '../utils/template.js';
+
+const render = (source: string, data: Record<string, unknown>, helpers = {}) =>
+  renderTemplate(compileTemplate(source, 'test.tmpl', helpers), data, helpers);
+
+function templateError(fn: () => unknown): TemplateError {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof TemplateError) return err;
+    throw err;
+  }
+  throw new Error('expected a TemplateError');
+}
+
+describe('template engine', () => {
+  it('interpolates dot paths', () => {
+    expect(render('Hi {{user.name}}!', { user: { name: 'Ada' } })).toBe('Hi Ada!');
+  });
+
+  it('renders if/else and unless', () => {
+    const source = '{{#if items}}has{{else}}none{{/if}} {{#unless flag}}off{{/unless}}';
+    expect(render(source, { items: [], flag: false })).toBe('none off');
+    expect(render(source, { items: [1], flag: true })).toBe('has ');
+  });
+
+  it('loops with this, item fields and @index', () => {
+    const source = '{{#each list}}{{@index}}={{this}};{{/each}}{{#each people}}[{{name}}]{{/each}}';
+    expect(render(source, { list: ['a', 'b'], people: [{ name: 'x' }] })).toBe('0=a;1=b;[x]');
+  });
+
+  it('drops lines holding only block tags or comments', () => {
+    const source = ['# Title', '{{! note }}', '{{#each list}}', '- {{this}}', '{{/each}}', 'end'].join('\n');
+    expect(render(source, { list: ['a', 'b'] })).toBe('# Title\n- a\n- b\nend');
+  });
+
+  it('calls helpers with paths and literals', () => {
+    const helpers = { repeat: (s: unknown, n: unknown) => String(s).repeat(Number(n)) };
+    expect(render('{{repeat word 3}} {{repeat "ab" 2}}', { word: 'x' }, helpers)).toBe('xxx abab');
+  });
+
+  it('reports unclosed blocks with the line they were opened on', () => {
+    const err = templateError(() => compileTemplate('line one\n  {{#if a}}\nbody', 'handoff.md'));
+    expect(err.line).toBe(2);
+    expect(err.column).toBe(3);
+    expect(err.message).toBe('handoff.md:2:3: Unclosed "#if" block');
+  });
+
+  it('reports mismatched closing tags', () => {
+    const err = templateError(() => compileTemplate('{{#each a}}\n{{/if}}', 't'));
+    expect(err.line).toBe(2);
+    expect(err.message).toContain('opened on line 1');
+  });
+
+  it('reports unknown helpers and variables', () => {
+    expect(templateError(() => compileTemplate('\n\n{{shout name}}', 't')).line).toBe(3);
+    const err = templateError(() => render('ok\n{{sesion.id}}', { session: {} }));
+    expect(err.line).toBe(2);
+    expect(err.message).toContain('Unknown variable "sesion.id"');
+  });
+
+  it('reports failing helpers at their call site', () => {
+    const helpers = {
+      boom: () => {
+        throw new Error('nope');
+      },
+    };
+    const err = templateError(() => render('a\nb {{boom}}', {}, helpers));
+    expect([err.line, err.column]).toEqual([2, 3]);
+    expect(err.message).toContain('Helper "boom" failed: nope');
+  });
+});
+
+describe('handoff templates', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-template-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const context: SessionContext = {
+    session: {
+      id: 'sess-1',
+      source: 'claude',
+      cwd: '/work/app',
+      summary: 'Fix login redirect',
+      lines: 10,
+      bytes: 1000,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T01:00:00Z'),
+      originalPath: '/tmp/sess-1.jsonl',
+    },
+    recentMessages: [{ role: 'user', content: 'Fix the redirect loop' }],
+    filesModified: ['src/auth.ts'],
+    pendingTasks: ['Add regression test'],
+    toolSummaries: [
+      {
+        name: 'Bash',
+        count: 1,
+        samples: [{ summary: '$ npm test', data: { category: 'shell', command: 'npm test' } }],
+      },
+    ],
+    sessionNotes: {
+      reasoningSteps: [
+        { stepNumber: 1, totalSteps: 1, purpose: 'analysis', thought: 'Guard loops', outcome: '', nextAction: '' },
+      ],
+    },
+    markdown: '# Session Handoff Context\n',
+  };
+
+  const writeTemplate = (name: string, source: string) => {
+    const file = path.join(tmpDir, name);
+    fs.writeFileSync(file, source);
+    return file;
+  };
+
+  it('renders context fields and section helpers', () => {
+    const file = writeTemplate(
+      'handoff.md',
+      [
+        '# {{sourceLabel}} → {{targetLabel}}: {{session.summary}}',
+        '{{#each pendingTasks}}',
+        '- [ ] {{this}}',
+        '{{/each}}',
+        '## Tools',
+        '{{renderToolActivity toolSummaries}}',
+        '{{renderReasoningChain sessionNotes.reasoningSteps}}',
+        '{{renderSubagentResults sessionNotes.subagentResults}}',
+        '{{directive}}',
+      ].join('\n'),
+    );
+
+    const out = renderHandoffTemplate(file, context, { target: 'codex', config: getPreset('standard') });
+    expect(out).toContain('# Claude Code → Codex CLI: Fix login redirect');
+    expect(out).toContain('- [ ] Add regression test');
+    expect(out).toContain('npm test');
+    expect(out).toContain('## Reasoning Chain');
+    expect(out).not.toContain('## Subagent Results');
+    expect(out).toContain('You are continuing this session');
+  });
+
+  it('prefers a per-target template over the global one', () => {
+    const config = { ...getPreset('standard'), template: '/global.md', templates: { codex: '/codex.md' } };
+    expect(resolveHandoffTemplate(config, 'codex')).toBe('/codex.md');
+    expect(resolveHandoffTemplate(config, 'gemini')).toBe('/global.md');
+    expect(resolveHandoffTemplate(getPreset('standard'))).toBeUndefined();
+  });
+
+  it('applies the configured template to markdown handoffs only', () => {
+    const file = writeTemplate('t.md', 'Custom: {{session.id}}');
+    const config = { ...getPreset('standard'), template: file };
+    expect(renderHandoff(context, 'markdown', { config })).toBe('Custom: sess-1');
+    expect(renderHandoff(context, 'json', { config })).toContain('"format": "continues.handoff/v1"');
+  });
+
+  it('names the template file in errors', () => {
+    const file = writeTemplate('broken.md', '# Handoff\n\n{{#each filesModified}}\n- {{this}}\n');
+    const err = templateError(() => renderHandoffTemplate(file, context));
+    expect(err.message).toBe(`${file}:3:1: Unclosed "#each" block`);
+  });
+
+  it('resolves template paths relative to the config file', () => {
+    const configPath = path.join(tmpDir, 'config.yml');
+    fs.writeFileSync(configPath, 'template: ./handoff.md\ntemplates:\n  codex: templates/codex.md\n');
+    const config = loadConfig(configPath);
+    expect(config.template).toBe(path.join(tmpDir, 'handoff.md'));
+    expect(config.templates?.codex).toBe(path.join(tmpDir, 'templates', 'codex.md'));
+  });
+});
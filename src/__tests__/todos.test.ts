@@ -0,0 +1,141 @@
+/**
+ * Tests for todo/plan tool parsing (src/utils/todos.ts) and pending tasks taken from it.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { extractCodexContext } from '../parsers/codex.js';
+import type { UnifiedSession } from '../types/index.js';
+import { classifyToolName } from '../types/tool-names.js';
+import { describeTodoList, parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
+import { type AnthropicMessage, extractAnthropicToolData } from '../utils/tool-extraction.js';
+
+describe('parseTodoList', () => {
+  it('reads the list shapes of each tool', () => {
+    // Claude TodoWrite / OpenCode todowrite
+    expect(
+      parseTodoList({
+        todos: [
+          { content: 'Write parser', status: 'completed', activeForm: 'Writing parser' },
+          { content: 'Add tests', status: 'in_progress' },
+        ],
+      }),
+    ).toEqual([
+      { content: 'Write parser', status: 'completed' },
+      { content: 'Add tests', status: 'in_progress' },
+    ]);
+    // Codex update_plan
+    expect(parseTodoList({ explanation: 'x', plan: [{ step: 'Ship it', status: 'pending' }] })).toEqual([
+      { content: 'Ship it', status: 'pending' },
+    ]);
+    // Gemini write_todos and Amp todo_write statuses
+    expect(
+      parseTodoList({
+        todos: [
+          { description: 'Dropped', status: 'cancelled' },
+          { content: 'Doing', status: 'in-progress' },
+          { content: 'Later', status: 'todo' },
+        ],
+      })?.map((item) => item.status),
+    ).toEqual(['cancelled', 'in_progress', 'pending']);
+  });
+
+  it('keeps negated statuses pending', () => {
+    const statuses = ['incomplete', 'not_completed', 'Not done', 'unfinished', 'inactive', 'not-started', 'completed'];
+    expect(
+      parseTodoList({ todos: statuses.map((status) => ({ content: status, status })) })?.map((item) => item.status),
+    ).toEqual(['pending', 'pending', 'pending', 'pending', 'pending', 'pending', 'completed']);
+  });
+
+  it('reads markdown checklists and numbered status lists', () => {
+    expect(parseTodoList({ todos: '- [x] Done\n- [ ] Next\nnotes' })).toEqual([
+      { content: 'Done', status: 'completed' },
+      { content: 'Next', status: 'pending' },
+    ]);
+    expect(parseTodoList('1. [in_progress] Refactor\n2. [pending] Document')).toEqual([
+      { content: 'Refactor', status: 'in_progress' },
+      { content: 'Document', status: 'pending' },
+    ]);
+    expect(parseTodoList({ other: true })).toBeUndefined();
+  });
+});
+
+describe('pending tasks from todos', () => {
+  const items = parseTodoList({
+    todos: [
+      { content: 'A', status: 'completed' },
+      { content: 'B', status: 'in_progress' },
+      { content: 'C', status: 'pending' },
+      { content: 'D', status: 'pending' },
+    ],
+  })!;
+
+  it('keeps incomplete items and marks the one in progress', () => {
+    expect(pendingTasksFromTodos(items, 2)).toEqual(['**In progress:** B', 'C']);
+    expect(describeTodoList(items)).toBe('1/4 done, in progress: B');
+  });
+
+  it('classifies todo tools and keeps the last list written', () => {
+    expect(classifyToolName('TodoWrite')).toBe('todo');
+    const write = (id: string, todos: unknown[]): AnthropicMessage => ({
+      role: 'assistant',
+      content: [{ type: 'tool_use', id, name: 'TodoWrite', input: { todos } }],
+    });
+    const { summaries, todos } = extractAnthropicToolData([
+      write('t1', [{ content: 'Old plan', status: 'pending' }]),
+      write('t2', [
+        { content: 'Old plan', status: 'completed' },
+        { content: 'New step', status: 'in_progress' },
+      ]),
+    ]);
+    expect(summaries[0]).toMatchObject({ name: 'TodoWrite', count: 2 });
+    expect(summaries[0].samples[1].data).toMatchObject({ category: 'todo' });
+    expect(todos).toEqual([
+      { content: 'Old plan', status: 'completed' },
+      { content: 'New step', status: 'in_progress' },
+    ]);
+  });
+
+  it('fills a Codex handoff from the last update_plan call', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-todos-'));
+    try {
+      const file = path.join(dir, 'rollout.jsonl');
+      const plan = (steps: Array<[string, string]>) => ({
+        type: 'response_item',
+        payload: {
+          type: 'function_call',
+          name: 'update_plan',
+          call_id: `c${steps.length}`,
+          arguments: JSON.stringify({ plan: steps.map(([step, status]) => ({ step, status })) }),
+        },
+      });
+      const lines = [
+        plan([['Investigate', 'in_progress']]),
+        plan([
+          ['Investigate', 'completed'],
+          ['Fix bug', 'in_progress'],
+          ['Add test', 'pending'],
+        ]),
+      ];
+      fs.writeFileSync(file, lines.map((line) => JSON.stringify(line)).join('\n'));
+
+      const session: UnifiedSession = {
+        id: 'codex-1',
+        source: 'codex',
+        cwd: dir,
+        lines: 2,
+        bytes: 100,
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        updatedAt: new Date('2026-01-01T01:00:00Z'),
+        originalPath: file,
+      };
+      const context = await extractCodexContext(session);
+      expect(context.pendingTasks).toEqual(['**In progress:** Fix bug', 'Add test']);
+      expect(context.markdown).toContain('- [ ] **In progress:** Fix bug');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for token estimation and budgeted handoffs (src/utils/tokens.ts).
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import type { ConversationMessage, ToolUsageSummary, UnifiedSession } from '../types/index.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import {
+  BUDGET_NOTE,
+  type BudgetedSection,
+  estimateSectionTokens,
+  estimateTokens,
+  fitSectionsToBudget,
+  truncateLines,
+} from '../utils/tokens.js';
+
+const session: UnifiedSession = {
+  id: 'sess-1',
+  source: 'claude',
+  cwd: '/work/app',
+  repo: 'acme/app',
+  summary: 'Fix login redirect',
+  lines: 40,
+  bytes: 4000,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T01:00:00Z'),
+  originalPath: '/tmp/sess-1.jsonl',
+};
+
+const messages: ConversationMessage[] = Array.from({ length: 10 }, (_, i) => ({
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  content: `Message ${i}: ${'the redirect loop happens after the session cookie expires and the guard retries '.repeat(5)}`,
+}));
+
+const files = Array.from({ length: 30 }, (_, i) => `src/routes/module-${i}.ts`);
+
+const toolSummaries: ToolUsageSummary[] = [
+  {
+    name: 'Bash',
+    count: 12,
+    samples: Array.from({ length: 8 }, (_, i) => ({
+      summary: `$ npm test -- --grep login-${i}`,
+      data: { category: 'shell', command: `npm test -- --grep login-${i}`, exitCode: 0, stdoutTail: 'ok\nok\nok' },
+    })),
+  },
+];
+
+describe('estimateTokens', () => {
+  it('counts short words as single tokens', () => {
+    expect(estimateTokens('the cat sat on the mat')).toBe(6);
+  });
+
+  it('charges long words and punctuation runs more', () => {
+    expect(estimateTokens('internationalization')).toBeGreaterThan(1);
+    expect(estimateTokens('a')).toBeLessThan(estimateTokens('a -> b'));
+  });
+
+  it('scales roughly with text length', () => {
+    const text = 'Refactor the session parser so it streams lines. ';
+    expect(estimateTokens(text.repeat(10))).toBeGreaterThan(estimateTokens(text) * 9);
+  });
+});
+
+describe('estimateSectionTokens', () => {
+  it('splits by level-2 headings', () => {
+    const sections = estimateSectionTokens('# Title\n\n## One\nalpha beta\n\n## Two\ngamma');
+    expect(sections.map((s) => s.title)).toEqual(['(preamble)', 'One', 'Two']);
+  });
+});
+
+describe('truncateLines', () => {
+  it('closes an open code fence and adds a note', () => {
+    const lines = ['## Tool Activity', '', '```', ...Array.from({ length: 50 }, (_, i) => `line ${i}`), '```'];
+    const cut = truncateLines(lines, 40);
+    expect(cut).not.toBeNull();
+    expect(cut!.filter((l) => l === '```')).toHaveLength(2);
+    expect(cut).toContain(BUDGET_NOTE);
+  });
+});
+
+describe('fitSectionsToBudget', () => {
+  const section = (key: BudgetedSection['key'], words: number): BudgetedSection => ({
+    key,
+    lines: [`## ${key}`, '', ...Array.from({ length: words }, (_, i) => `word${i % 10} filler`)],
+  });
+
+  it('returns sections untouched when they fit', () => {
+    const sections = [section('overview', 5), section('files', 5)];
+    expect(fitSectionsToBudget(sections, 10_000)).toBe(sections);
+  });
+
+  it('serves higher-priority sections first and keeps document order', () => {
+    const sections = [section('overview', 20), section('reasoning', 300), section('pendingTasks', 20)];
+    const fitted = fitSectionsToBudget(sections, 200);
+
+    expect(fitted.map((s) => s.key)).toEqual(['overview', 'reasoning', 'pendingTasks']);
+    expect(fitted[0].lines).toEqual(sections[0].lines);
+    expect(fitted[2].lines).toEqual(sections[2].lines);
+    expect(fitted[1].lines).toContain(BUDGET_NOTE);
+  });
+});
+
+describe('generateHandoffMarkdown with maxTokens', () => {
+  const render = (maxTokens: number) =>
+    generateHandoffMarkdown(session, messages, files, ['Add regression test'], toolSummaries, undefined, {
+      ...getPreset('standard'),
+      maxTokens,
+    });
+
+  it('is unchanged without a budget', () => {
+    expect(render(0)).toBe(generateHandoffMarkdown(session, messages, files, ['Add regression test'], toolSummaries));
+  });
+
+  it.each([400, 800, 1500])('stays within a budget of %i tokens', (budget) => {
+    const full = render(0);
+    expect(estimateTokens(full)).toBeGreaterThan(budget);
+
+    const markdown = render(budget);
+    expect(estimateTokens(markdown)).toBeLessThanOrEqual(budget);
+    expect(markdown).toContain('## Session Overview');
+    expect(markdown).toContain('## Pending Tasks');
+    expect(markdown).toContain('You are continuing this session');
+  });
+
+  it('fits extra handoff-time sections into the budget', () => {
+    const repositoryState: BudgetedSection = {
+      key: 'repositoryState',
+      lines: ['## Repository State', '', ...files.map((file) => `- \`${file}\` (modified)`), ''],
+    };
+    const withState = (maxTokens: number) =>
+      generateHandoffMarkdown(
+        session,
+        messages,
+        files,
+        ['Add regression test'],
+        toolSummaries,
+        undefined,
+        { ...getPreset('standard'), maxTokens },
+        'inline',
+        [repositoryState],
+      );
+
+    expect(withState(0)).toMatch(/## Repository State[\s\S]*You are continuing this session/);
+    const markdown = withState(800);
+    expect(estimateTokens(markdown)).toBeLessThanOrEqual(800);
+    expect(markdown).toContain('## Pending Tasks');
+  });
+
+  it('shortens messages first, then drops the oldest', () => {
+    expect(render(1500)).toContain('Message 0:');
+    const markdown = render(400);
+    expect(markdown).toContain('Message 9:');
+    expect(markdown).not.toContain('Message 0:');
+  });
+});
@@ -10,19 +10,26 @@ import { afterAll, beforeAll, describe, expect, it } from 'vitest';
 import type { ConversationMessage, SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
 import { generateHandoffMarkdown, getSourceLabels } from '../utils/markdown.js';
 import {
+  createAiderFixture,
   createAmpFixture,
   createAntigravityFixture,
   createClaudeFixture,
   createClineFixture,
   createCodexFixture,
+  createContinueFixture,
+  createCopilotChatFixture,
   createCopilotFixture,
   createCursorFixture,
+  createCursorIdeFixture,
   createDroidFixture,
   createGeminiFixture,
+  createGooseFixture,
   createKiloCodeFixture,
   createKiroFixture,
   createOpenCodeSqliteFixture,
+  createQwenFixture,
   createRooCodeFixture,
+  createZedFixture,
   type FixtureDir,
 } from './fixtures/index.js';
 
@@ -331,6 +338,55 @@ function parseAntigravityFixtureMessages(filePath: string): ConversationMessage[
   return messages;
 }
 
+function parseAiderFixtureMessages(filePath: string): ConversationMessage[] {
+  // Last chat only — each `# aider chat started at` header begins a new session
+  const chats = fs.readFileSync(filePath, 'utf8').split(/^# aider chat started at .*$/m);
+  const messages: ConversationMessage[] = [];
+
+  for (const line of chats[chats.length - 1].split('\n')) {
+    const last = messages[messages.length - 1];
+    if (line.startsWith('#### ')) {
+      const text = line.slice(5);
+      if (text.startsWith('/')) continue;
+      if (last?.role === 'user') last.content += `\n${text}`;
+      else messages.push({ role: 'user', content: text });
+    } else if (line.trim() && !line.startsWith('>')) {
+      if (last?.role === 'assistant') last.content += `\n${line}`;
+      else messages.push({ role: 'assistant', content: line });
+    }
+  }
+  return messages;
+}
+
+function parseGooseFixtureMessages(filePath: string): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+    const parsed = JSON.parse(line);
+    if (!parsed.role) continue;
+    const text = parsed.content
+      .filter((c: { type: string; text?: string }) => c.type === 'text' && c.text)
+      .map((c: { text: string }) => c.text)
+      .join('\n');
+    if (text) messages.push({ role: parsed.role, content: text });
+  }
+  return messages;
+}
+
+function parseContinueFixtureMessages(filePath: string): ConversationMessage[] {
+  const { history } = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const messages: ConversationMessage[] = [];
+  for (const item of history) {
+    const { role, content } = item.message;
+    if (role !== 'user' && role !== 'assistant') continue;
+    const text =
+      typeof content === 'string'
+        ? content
+        : content.map((part: { text?: string }) => part.text ?? '').join('\n');
+    if (text) messages.push({ role, content: text });
+  }
+  return messages;
+}
+
 // ─── Fixture Data ────────────────────────────────────────────────────────────
 
 // Derive from registry — automatically picks up new tools
@@ -356,6 +412,13 @@ beforeAll(() => {
   fixtures['roo-code'] = createRooCodeFixture();
   fixtures['kilo-code'] = createKiloCodeFixture();
   fixtures.antigravity = createAntigravityFixture();
+  fixtures.aider = createAiderFixture();
+  fixtures.goose = createGooseFixture();
+  fixtures['continue-dev'] = createContinueFixture();
+  fixtures.zed = createZedFixture();
+  fixtures.qwen = createQwenFixture();
+  fixtures['copilot-chat'] = createCopilotChatFixture();
+  fixtures['cursor-ide'] = createCursorIdeFixture();
 
   // Build contexts from fixtures
   const now = new Date();
@@ -745,6 +808,199 @@ beforeAll(() => {
     toolSummaries: [],
     markdown: generateHandoffMarkdown(antigravitySession, antigravityMsgs, [], [], []),
   };
+
+  // Aider
+  const aiderFile = path.join(fixtures.aider.root, '.aider.chat.history.md');
+  const aiderSession: UnifiedSession = {
+    id: 'test-aider-session-1',
+    source: 'aider',
+    cwd: '/home/user/project',
+    repo: 'user/project',
+    lines: 36,
+    bytes: 900,
+    createdAt: now,
+    updatedAt: now,
+    originalPath: aiderFile,
+    summary: 'Fix auth bug',
+    model: 'anthropic/claude-sonnet-4',
+  };
+  const aiderMsgs = parseAiderFixtureMessages(aiderFile);
+  contexts.aider = {
+    session: aiderSession,
+    recentMessages: aiderMsgs,
+    filesModified: [],
+    pendingTasks: [],
+    toolSummaries: [],
+    markdown: generateHandoffMarkdown(aiderSession, aiderMsgs, [], [], []),
+  };
+
+  // Goose
+  const gooseFile = path.join(fixtures.goose.root, '20260115_100000.jsonl');
+  const gooseSession: UnifiedSession = {
+    id: 'test-goose-session-1',
+    source: 'goose',
+    cwd: '/home/user/project',
+    repo: 'user/project',
+    lines: 9,
+    bytes: 2500,
+    createdAt: now,
+    updatedAt: now,
+    originalPath: gooseFile,
+    summary: 'Fix auth bug',
+  };
+  const gooseMsgs = parseGooseFixtureMessages(gooseFile);
+  contexts.goose = {
+    session: gooseSession,
+    recentMessages: gooseMsgs,
+    filesModified: [],
+    pendingTasks: [],
+    toolSummaries: [],
+    markdown: generateHandoffMarkdown(gooseSession, gooseMsgs, [], [], []),
+  };
+
+  // Continue.dev
+  const continueFile = path.join(fixtures['continue-dev'].root, 'cccccccc-1111-2222-3333-444444444444.json');
+  const continueSession: UnifiedSession = {
+    id: 'test-continue-session-1',
+    source: 'continue-dev',
+    cwd: '/home/user/project',
+    repo: 'user/project',
+    lines: 180,
+    bytes: 4000,
+    createdAt: now,
+    updatedAt: now,
+    originalPath: continueFile,
+    summary: 'Fix auth bug',
+  };
+  const continueMsgs = parseContinueFixtureMessages(continueFile);
+  contexts['continue-dev'] = {
+    session: continueSession,
+    recentMessages: continueMsgs,
+    filesModified: [],
+    pendingTasks: [],
+    toolSummaries: [],
+    markdown: generateHandoffMarkdown(continueSession, continueMsgs, [], [], []),
+  };
+
+  // Zed — messages written out, the threads are stored as database blobs
+  const zedSession: UnifiedSession = {
+    id: 'test-zed-session-1',
+    source: 'zed',
+    cwd: '/home/user/project',
+    repo: 'user/project',
+    lines: 6,
+    bytes: 3000,
+    createdAt: now,
+    updatedAt: now,
+    originalPath: path.join(fixtures.zed.root, 'threads.db'),
+    summary: 'Fix auth bug',
+    model: 'claude-sonnet-4',
+  };
+  const zedMsgs: ConversationMessage[] = [
+    { role: 'user', content: 'Fix the authentication bug in login.ts' },
+    { role: 'assistant', content: 'I will run the tests first.' },
+    { role: 'assistant', content: 'The token validation was missing.' },
+    { role: 'assistant', content: 'Done. The token is now verified.' },
+  ];
+  contexts.zed = {
+    session: zedSession,
+    recentMessages: zedMsgs,
+    filesModified: [],
+    pendingTasks: [],
+    toolSummaries: [],
+    markdown: generateHandoffMarkdown(zedSession, zedMsgs, [], [], []),
+  };
+
+  // Qwen Code — Gemini's chat format
+  const qwenFile = path.join(fixtures.qwen.root, 'tmp', 'def456hash', 'chats', 'session-2026-01-15T10-00-qwen1234.json');
+  const qwenSession: UnifiedSession = {
+    id: 'test-qwen-session-1',
+    source: 'qwen',
+    cwd: '',
+    repo: '',
+    lines: 60,
+    bytes: 2000,
+    createdAt: now,
+    updatedAt: now,
+    originalPath: qwenFile,
+    summary: 'Fix auth bug',
+  };
+  const qwenMsgs = parseGeminiFixtureMessages(qwenFile);
+  contexts.qwen = {
+    session: qwenSession,
+    recentMessages: qwenMsgs,
+    filesModified: [],
+    pendingTasks: [],
+    toolSummaries: [],
+    markdown: generateHandoffMarkdown(qwenSession, qwenMsgs, [], [], []),
+  };
+
+  // VS Code Copilot Chat — cwd from the workspace's workspace.json
+  const copilotChatSession: UnifiedSession = {
+    id: 'test-copilot-chat-session-1',
+    source: 'copilot-chat',
+    cwd: '/home/user/project',
+    repo: 'user/project',
+    lines: 2,
+    bytes: 4000,
+    createdAt: now,
+    updatedAt: now,
+    originalPath: path.join(
+      fixtures['copilot-chat'].root,
+      'Code',
+      'User',
+      'workspaceStorage',
+      'f3b9c0a1d2e4',
+      'chatSessions',
+      'test-copilot-chat-session-1.json',
+    ),
+    summary: 'Fix auth bug',
+    model: 'gpt-4.1',
+  };
+  const copilotChatMsgs: ConversationMessage[] = [
+    { role: 'user', content: 'Fix the authentication bug in login.ts' },
+    { role: 'assistant', content: 'I will run the tests first.\n\nThe token validation was missing in `login.ts`.' },
+    { role: 'user', content: 'Great, please also add error handling' },
+    { role: 'assistant', content: 'Done. I added an AuthError class.' },
+  ];
+  contexts['copilot-chat'] = {
+    session: copilotChatSession,
+    recentMessages: copilotChatMsgs,
+    filesModified: [],
+    pendingTasks: [],
+    toolSummaries: [],
+    markdown: generateHandoffMarkdown(copilotChatSession, copilotChatMsgs, [], [], []),
+  };
+
+  // Cursor IDE — composer bubbles are stored in the global state.vscdb
+  const cursorIdeSession: UnifiedSession = {
+    id: 'test-cursor-ide-session-1',
+    source: 'cursor-ide',
+    cwd: '/home/user/project',
+    repo: 'user/project',
+    lines: 7,
+    bytes: 600,
+    createdAt: now,
+    updatedAt: now,
+    originalPath: path.join(fixtures['cursor-ide'].root, 'Cursor', 'User', 'workspaceStorage', '9d41e7b2c6a0', 'state.vscdb'),
+    summary: 'Fix auth bug',
+    model: 'claude-4-sonnet',
+  };
+  const cursorIdeMsgs: ConversationMessage[] = [
+    { role: 'user', content: 'Fix the authentication bug in login.ts' },
+    { role: 'assistant', content: 'I will run the tests first.' },
+    { role: 'assistant', content: 'The token validation was missing.' },
+    { role: 'user', content: 'Great, please also add error handling' },
+    { role: 'assistant', content: 'Done. I added an AuthError class.' },
+  ];
+  contexts['cursor-ide'] = {
+    session: cursorIdeSession,
+    recentMessages: cursorIdeMsgs,
+    filesModified: [],
+    pendingTasks: [],
+    toolSummaries: [],
+    markdown: generateHandoffMarkdown(cursorIdeSession, cursorIdeMsgs, [], [], []),
+  };
 });
 
 afterAll(() => {
@@ -912,8 +1168,8 @@ describe('Shared generateHandoffMarkdown', () => {
   it('includes working directory', () => {
     for (const source of ALL_SOURCES) {
       const ctx = contexts[source];
-      if (source === 'gemini') {
-        // Gemini has no cwd data
+      if (source === 'gemini' || source === 'qwen') {
+        // Gemini-family chats have no cwd data
         expect(ctx.session.cwd).toBe('');
       } else {
         expect(ctx.markdown).toContain('/home/user/project');
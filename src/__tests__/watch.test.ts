@@ -0,0 +1,108 @@
+/**
+ * Tests for the session watcher helpers (src/utils/watch.ts).
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ToolAdapter } from '../parsers/registry.js';
+import type { UnifiedSession } from '../types/index.js';
+import { diffSessions, resolveWatchRoots } from '../utils/watch.js';
+
+function makeSession(id: string, overrides: Partial<UnifiedSession> = {}): UnifiedSession {
+  return {
+    id,
+    source: 'codex',
+    cwd: '/work',
+    lines: 4,
+    bytes: 400,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T01:00:00Z'),
+    originalPath: `/tmp/${id}.jsonl`,
+    ...overrides,
+  };
+}
+
+describe('diffSessions', () => {
+  it('reports created, updated and deleted sessions', () => {
+    const before = [makeSession('same'), makeSession('grows'), makeSession('gone')];
+    const after = [
+      makeSession('same'),
+      makeSession('grows', { bytes: 900, updatedAt: new Date('2026-01-01T02:00:00Z') }),
+      makeSession('fresh'),
+    ];
+
+    const events = diffSessions(before, after).map((e) => `${e.type}:${e.id}`);
+
+    expect(events.sort()).toEqual(['session-created:fresh', 'session-deleted:gone', 'session-updated:grows']);
+  });
+
+  it('treats the same id from different tools as different sessions', () => {
+    const events = diffSessions([makeSession('x')], [makeSession('x', { source: 'claude' })]);
+    expect(events.map((e) => e.type).sort()).toEqual(['session-created', 'session-deleted']);
+  });
+
+  it('returns nothing for identical snapshots', () => {
+    expect(diffSessions([makeSession('a')], [makeSession('a')])).toEqual([]);
+  });
+});
+
+describe('resolveWatchRoots', () => {
+  const savedHome = process.env.HOME;
+  let home: string;
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'continues-watch-'));
+    process.env.HOME = home;
+    fs.mkdirSync(path.join(home, '.config'));
+  });
+
+  afterEach(() => {
+    process.env.HOME = savedHome;
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  function makeAdapter(storagePath: string, files: string[] = []): ToolAdapter {
+    return {
+      name: 'codex',
+      label: 'Test',
+      color: (s) => s,
+      storagePath,
+      binaryName: 'test',
+      parseSessions: async () => [],
+      listSessionFiles: async () => files,
+      extractContext: async () => {
+        throw new Error('unused');
+      },
+      nativeResumeArgs: () => [],
+      crossToolArgs: () => [],
+      resumeCommandDisplay: () => '',
+    };
+  }
+
+  it('skips storage that does not exist instead of watching its parent', async () => {
+    expect(await resolveWatchRoots(makeAdapter('~/.config/Tool/workspaceStorage/*/chats/'))).toEqual([]);
+    expect(await resolveWatchRoots(makeAdapter('~/.local/share/tool/threads.db'))).toEqual([]);
+  });
+
+  it('watches the storage directory, or the folder of a database file', async () => {
+    const dir = path.join(home, '.tool', 'sessions');
+    fs.mkdirSync(dir, { recursive: true });
+    expect(await resolveWatchRoots(makeAdapter('~/.tool/sessions/'))).toEqual([dir]);
+
+    fs.writeFileSync(path.join(dir, 'tool.db'), '');
+    expect(await resolveWatchRoots(makeAdapter('~/.tool/sessions/tool.db'))).toEqual([dir]);
+  });
+
+  it('adds the folders of listed session files, collapsing nested ones', async () => {
+    const dir = path.join(home, '.tool', 'sessions');
+    const elsewhere = path.join(home, 'custom');
+    fs.mkdirSync(path.join(dir, '2026'), { recursive: true });
+    fs.mkdirSync(elsewhere);
+    const files = [path.join(dir, '2026', 'a.jsonl'), path.join(elsewhere, 'b.jsonl')];
+    for (const file of files) fs.writeFileSync(file, '');
+
+    expect((await resolveWatchRoots(makeAdapter('~/.tool/sessions/', files))).sort()).toEqual([dir, elsewhere].sort());
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for the Zed agent thread adapter (src/parsers/zed.ts).
+ */
+
+import * as path from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { getPreset } from '../config/index.js';
+import { adapters } from '../parsers/registry.js';
+import { extractZedContext, parseZedSessions } from '../parsers/zed.js';
+import { createZedFixture } from './fixtures/index.js';
+
+const fixture = createZedFixture();
+const dbPath = path.join(fixture.root, 'threads.db');
+
+afterAll(() => fixture.cleanup());
+
+describe('parseZedSessions', () => {
+  it('reads both thread formats, newest first', async () => {
+    const [agent, legacy] = await parseZedSessions([dbPath]);
+
+    expect(agent).toMatchObject({
+      id: 'thread-agent',
+      source: 'zed',
+      cwd: '/home/user/other',
+      summary: 'Add error handling',
+      originalPath: dbPath,
+    });
+    expect(legacy).toMatchObject({
+      id: 'thread-legacy',
+      cwd: '/home/user/project',
+      summary: 'Fix auth bug',
+      model: 'claude-sonnet-4',
+    });
+    expect(legacy.updatedAt).toEqual(new Date('2026-01-15T10:05:00Z'));
+  });
+});
+
+describe('extractZedContext', () => {
+  it('extracts messages, terminal runs, edits and token usage', async () => {
+    const session = (await parseZedSessions([dbPath])).find((s) => s.id === 'thread-legacy')!;
+    const context = await extractZedContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Fix the authentication bug in login.ts'],
+      ['assistant', 'I will run the tests first.'],
+      ['assistant', 'The token validation was missing.'],
+      ['assistant', 'Done. The token is now verified.'],
+    ]);
+
+    const shell = context.toolSummaries.find((s) => s.name === 'Bash');
+    expect(shell?.samples[0].data).toMatchObject({
+      category: 'shell',
+      command: 'npm test',
+      exitCode: 1,
+      errored: true,
+    });
+
+    const edit = context.toolSummaries.find((s) => s.name === 'Edit');
+    expect(edit?.samples[0].data).toMatchObject({
+      filePath: 'project/src/login.ts',
+      diffStats: { added: 1, removed: 1 },
+    });
+    expect(context.toolSummaries.find((s) => s.name === 'Read')?.errorCount).toBe(1);
+
+    expect(context.filesModified).toEqual(['project/src/login.ts']);
+    expect(context.sessionNotes).toMatchObject({
+      model: 'claude-sonnet-4',
+      tokenUsage: { input: 5000, output: 300 },
+      cacheTokens: { creation: 0, read: 1000 },
+    });
+  });
+
+  it('decodes zstd-compressed threads of the rewritten agent panel', async () => {
+    const session = (await parseZedSessions([dbPath])).find((s) => s.id === 'thread-agent')!;
+    const context = await extractZedContext(session, getPreset('standard'));
+
+    expect(context.recentMessages.map((m) => m.content)).toEqual([
+      'Please add error handling',
+      'Adding an error class.',
+    ]);
+    expect(context.toolSummaries.find((s) => s.name === 'Write')?.samples[0].data).toMatchObject({
+      category: 'write',
+      filePath: 'other/src/errors.ts',
+      isNewFile: true,
+    });
+    expect(context.sessionNotes?.fileChanges?.[0]).toMatchObject({
+      filePath: 'other/src/errors.ts',
+      status: 'created',
+    });
+  });
+});
+
+describe('zed as a handoff target', () => {
+  it('opens the project and tells the user to mention the handoff file', () => {
+    expect(adapters.zed.crossToolArgs('Read the handoff', '/work/app')).toEqual(['/work/app']);
+    expect(adapters.zed.handoffInstructions?.('.continues-handoff.md', '/work/app').join('\n')).toContain(
+      '@.continues-handoff.md',
+    );
+    expect(adapters['continue-dev'].crossToolArgs('Read the handoff', '/work/app')).toBeNull();
+  });
+});
@@ -13,16 +13,19 @@ import * as clack from '@clack/prompts';
 import { Command } from 'commander';
 import { getExtraCommandArgs } from './commands/_shared.js';
 import { listCommand } from './commands/list.js';
+import { lineageCommand } from './commands/lineage.js';
 import { interactivePick } from './commands/pick.js';
 import { resumeBySource } from './commands/quick-resume.js';
 import { rebuildCommand } from './commands/rebuild.js';
 import { resumeCommand } from './commands/resume-cmd.js';
 import { inspectSession } from './commands/inspect.js';
 import { scanCommand } from './commands/scan.js';
+import { searchCommand } from './commands/search.js';
+import { watchCommand } from './commands/watch.js';
 import { dumpCommand } from './commands/dump.js';
-import { loadConfig, getPreset, mergeConfig } from './config/index.js';
-import { setLogLevel } from './logger.js';
-import { ALL_TOOLS, adapters, SOURCE_HELP } from './parsers/registry.js';
+import { applyPreset, loadConfig, mergeConfig, setActiveConfig, type VerbosityConfig } from './config/index.js';
+import { logger, setLogLevel } from './logger.js';
+import { ALL_TOOLS, adapters, registerGeminiForks, SOURCE_HELP } from './parsers/registry.js';
 
 function splitTailArgs(args: string[]): { commandArgs: string[]; tailArgs: string[] } {
   const separator = args.indexOf('--');
@@ -67,24 +70,49 @@ process.on('SIGTERM', () => {
   }
 });
 
+/**
+ * Handoff config from global flags: an explicit --preset replaces the config
+ * file's verbosity (its other settings stay), and --max-tokens and
+ * --no-redact win over both.
+ */
+function resolveCliConfig(): VerbosityConfig {
+  const opts = program.opts();
+  let config = loadConfig(opts.config);
+  if (program.getOptionValueSource('preset') === 'cli') {
+    try {
+      config = applyPreset(config, opts.preset);
+    } catch (err) {
+      logger.warn((err as Error).message);
+    }
+  }
+  if (opts.maxTokens !== undefined && !Number.isNaN(opts.maxTokens)) config.maxTokens = opts.maxTokens;
+  if (opts.redact === false) config.redaction = { disable: [], patterns: [], ...config.redaction, enabled: false };
+  return config;
+}
+
 /**
  * Configure CLI program
  */
 program
   .name('continues')
   .description(
-    'Never lose context. Resume any AI coding session across Claude Code, Codex, Copilot, Gemini CLI, Cursor, Amp, Cline, Roo Code, Kilo Code, Kiro, Crush, OpenCode, Droid & Antigravity.',
+    'Never lose context. Resume any AI coding session across Claude Code, Codex, Copilot, Gemini CLI, Cursor, Amp, Cline, Roo Code, Kilo Code, Kiro, Crush, OpenCode, Droid, Antigravity, Aider, Goose, Continue, Zed, Qwen Code, Copilot Chat & Cursor IDE.',
   )
   .version(VERSION)
   .option('--verbose', 'Show info-level logs')
   .option('--debug', 'Show debug-level logs')
   .option('--config <path>', 'Path to .continues.yml config file')
   .option('--preset <name>', 'Verbosity preset: minimal, standard, verbose, full', 'standard')
+  .option('--max-tokens <n>', 'Token budget for the generated handoff (sections trimmed by priority)', parseInt)
+  .option('--no-redact', 'Keep secrets (API keys, tokens, .env values) in handoffs')
   .helpOption('-h, --help', 'Display help for command')
   .hook('preAction', () => {
     const opts = program.opts();
     if (opts.debug) setLogLevel('debug');
     else if (opts.verbose) setLogLevel('info');
+    const config = resolveCliConfig();
+    setActiveConfig(config);
+    registerGeminiForks(config.geminiForks ?? []);
   })
   .addHelpText(
     'after',
@@ -94,9 +122,19 @@ Examples:
   $ continues list                 # List all sessions
   $ continues list --source claude # Filter by source
   $ continues list --json          # JSON output for scripting
+  $ continues search ssh tunnel    # Full-text search across sessions
   $ continues resume abc123        # Resume by ID
   $ continues resume abc123 --in gemini  # Cross-tool handoff
+  $ continues --max-tokens 4000 resume abc123 --in codex  # Fit the handoff in 4k tokens
+  $ continues resume abc123 --in codex --format json  # Structured continues.handoff/v1 handoff
+  $ continues resume abc123 --in claude --since-last  # Only what is new since the last handoff
+  $ continues resume --merge abc123,def456 --in claude  # One handoff from several sessions
+  $ continues resume --project --within 2d  # Merge this directory's sessions from the last 2 days
+  $ continues inspect abc123 --format json  # Print the JSON handoff for tooling
+  $ continues dump all ./share --format html  # Standalone HTML pages + index.html for review
+  $ continues lineage abc123       # Show the handoff chain of a session
   $ continues scan                 # Show session discovery stats
+  $ continues scan --health        # Diagnose parser errors and schema drift per tool
 
 Short aliases:
   cont (binary alias)
@@ -139,18 +177,37 @@ program
     await listCommand(options, cliContext);
   });
 
+// Full-text search across sessions
+program
+  .command('search <query...>')
+  .description('Full-text search across messages, tool commands and modified files')
+  .option('-s, --source <source>', SOURCE_HELP)
+  .option('-n, --limit <number>', 'Limit number of results', '20')
+  .option('--json', 'Output as JSON array')
+  .option('--resume', 'Resume the best match (pick from matches in a TTY)')
+  .option('-i, --in <cli-tool>', `Target CLI tool for --resume (${ALL_TOOLS.join(', ')})`)
+  .option('--rebuild', 'Force rebuild session index')
+  .action(async (queryParts: string[], options) => {
+    await searchCommand(queryParts.join(' '), options, cliContext, { tailArgs });
+  });
+
 // Resume a specific session
 program
-  .command('resume <session-id>')
+  .command('resume [session-id]')
   .alias('r')
-  .description('Resume a session by ID or short ID')
+  .description('Resume a session by ID, ID prefix, source:prefix or summary text')
   .option('-i, --in <cli-tool>', `Target CLI tool (${ALL_TOOLS.join(', ')})`)
   .option('--reference', 'Use file reference instead of inline context (for very large sessions)')
   .option('--no-tui', 'Disable interactive prompts')
+  .option('--format <format>', 'Handoff format: markdown, json (continues.handoff/v1), xml', 'markdown')
+  .option('--merge [ids]', 'Merge several sessions into one handoff (comma-separated IDs; pick them without IDs)')
+  .option('--project', 'Merge all sessions of the current directory active within --within')
+  .option('--within <duration>', 'Time window for --project, e.g. 90m, 12h, 2d, 1w (default: 24h)')
+  .option('--since-last', "Hand off only what happened since this session's previous handoff")
   .allowUnknownOption(true)
   .allowExcessArguments(true)
-  .action(async (sessionId, options, command: Command) => {
-    const rawForwardArgs = getExtraCommandArgs(command, 1);
+  .action(async (sessionId: string | undefined, options, command: Command) => {
+    const rawForwardArgs = getExtraCommandArgs(command, sessionId ? 1 : 0);
     await resumeCommand(sessionId, options, cliContext, { rawArgs: rawForwardArgs, tailArgs });
   });
 
@@ -159,6 +216,9 @@ program
   .command('scan')
   .description('Show session discovery statistics')
   .option('--rebuild', 'Force rebuild session index')
+  .option('--health', 'Per-tool health report: timings, parse errors, schema rejections and drift')
+  .option('--json', 'Output the health report as JSON (with --health)')
+  .option('--max-errors <n>', 'Parse errors to show per tool (with --health)', '5')
   .action(async (options) => {
     await scanCommand(options, cliContext);
   });
@@ -171,12 +231,36 @@ program
     await rebuildCommand(cliContext);
   });
 
+// Show the handoff chain a session belongs to
+program
+  .command('lineage <session-id>')
+  .description('Show the chain of cross-tool handoffs a session belongs to')
+  .option('--json', 'Output the handoff tree as JSON')
+  .action(async (sessionId: string, options) => {
+    await lineageCommand(sessionId, options, cliContext);
+  });
+
+// Keep the index hot in the background
+program
+  .command('watch')
+  .description('Watch session storage, keep the index up to date and report changes')
+  .option('--jsonl', 'Emit JSONL change events (session-created, session-updated, session-deleted) on stdout')
+  .option('--debounce <ms>', 'Quiet period before re-indexing a changed tool', '500')
+  .action(async (options) => {
+    await watchCommand(options, cliContext);
+  });
+
 // Dump sessions to directory
 program
   .command('dump <source|all> <directory>')
-  .description('Bulk export sessions to markdown or JSON files')
-  .option('--preset <name>', 'Verbosity preset: minimal, standard, verbose, full', 'standard')
-  .option('--json', 'Output as JSON instead of markdown')
+  .description('Bulk export sessions to markdown, JSON, XML or HTML files')
+  .option('--preset <name>', 'Verbosity preset: minimal, standard, verbose, full (default: from the config)')
+  .option('--json', 'Export raw session metadata as JSON instead of handoffs')
+  .option(
+    '--format <format>',
+    'Export format: markdown, json (continues.handoff/v1), xml, html (standalone pages + index.html)',
+    'markdown',
+  )
   .option('--limit <number>', 'Limit number of sessions')
   .option('--rebuild', 'Force rebuild session index')
   .action(async (sourceOrAll, directory, options) => {
@@ -189,10 +273,10 @@ program
   .description('Inspect a session and show parsing diagnostics')
   .option('--truncate <n>', 'Compact output truncated to N chars per line', parseInt)
   .option('--write-md [path]', 'Write markdown output to file')
-  .action(async (sessionId: string, opts: { truncate?: number; writeMd?: string | boolean }) => {
-    // Inherit --preset from global options (subcommand duplication causes Commander scoping bug)
-    const globalPreset = program.opts().preset as string | undefined;
-    await inspectSession(sessionId, { ...opts, preset: globalPreset });
+  .option('--format <format>', 'Print the handoff (markdown, json, xml) or an HTML page instead of diagnostics')
+  .action(async (sessionId: string, opts: { truncate?: number; writeMd?: string | boolean; format?: string }) => {
+    // Global --preset and --max-tokens reach inspect through the active config
+    await inspectSession(sessionId, opts, cliContext);
   });
 
 // Quick resume commands for each tool — generated from the adapter registry
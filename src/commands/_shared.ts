@@ -1,7 +1,8 @@
 import * as clack from '@clack/prompts';
 import chalk from 'chalk';
 import type { Command } from 'commander';
-import { sourceColors } from '../display/format.js';
+import { formatSessionForSelect, sourceColors } from '../display/format.js';
+import type { AmbiguousSessionError } from '../errors.js';
 import { ALL_TOOLS } from '../parsers/registry.js';
 import type { SessionSource, UnifiedSession } from '../types/index.js';
 import { getAvailableTools } from '../utils/resume.js';
@@ -34,14 +35,14 @@ export async function selectTargetTool(
       (t) => t.charAt(0).toUpperCase() + t.slice(1),
     );
     clack.log.warn(
-      `Only ${sourceColors[session.source](session.source)} is installed. ` +
+      `Only ${(sourceColors[session.source] || chalk.white)(session.source)} is installed. ` +
         `Install at least one more (${missing.join(', ')}) to enable cross-tool handoff.`,
     );
     return null;
   }
 
   const targetTool = (await clack.select({
-    message: `Continue ${sourceColors[session.source](session.source)} session in:`,
+    message: `Continue ${(sourceColors[session.source] || chalk.white)(session.source)} session in:`,
     options: targetOptions,
     ...(exclude ? {} : { initialValue: session.source }),
   })) as SessionSource;
@@ -54,6 +55,59 @@ export async function selectTargetTool(
   return targetTool;
 }
 
+/**
+ * Let the user pick one of the sessions an ambiguous or text-only reference
+ * matched. Returns null if the user cancels.
+ */
+export async function selectAmbiguousSession(error: AmbiguousSessionError): Promise<UnifiedSession | null> {
+  const selected = await clack.select({
+    message: error.fuzzy
+      ? `No session ID matches "${error.query}" — did you mean one of these?`
+      : `"${error.query}" matches ${error.candidates.length} sessions — which one?`,
+    options: error.candidates.map((s, i) => ({
+      value: i,
+      label: formatSessionForSelect(s),
+      hint: `${s.source}:${s.id.slice(0, 12)}${s.branch ? ` (${s.branch})` : ''}`,
+    })),
+  });
+
+  if (clack.isCancel(selected)) {
+    clack.cancel('Cancelled');
+    return null;
+  }
+
+  return error.candidates[selected as number];
+}
+
+/**
+ * Let the user tick the sessions to merge into one handoff (at least two).
+ * Returns them oldest first, or null if the user cancels.
+ */
+export async function selectSessionsToMerge(sessions: UnifiedSession[]): Promise<UnifiedSession[] | null> {
+  const selected = await clack.multiselect({
+    message: 'Select the sessions to merge (space to toggle, enter to confirm)',
+    options: sessions.slice(0, 500).map((s, i) => ({
+      value: i,
+      label: formatSessionForSelect(s),
+      hint: s.id.slice(0, 8),
+    })),
+    maxItems: 15,
+    required: true,
+  });
+
+  if (clack.isCancel(selected)) {
+    clack.cancel('Cancelled');
+    return null;
+  }
+
+  const picked = (selected as number[]).map((i) => sessions[i]);
+  if (picked.length < 2) {
+    clack.log.warn('Select at least two sessions to merge');
+    return null;
+  }
+  return picked.sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime());
+}
+
 /**
  * Check if only the native tool is available and auto-resume if so.
  * Returns true if it handled the auto-resume (caller should return).
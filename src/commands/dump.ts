@@ -4,12 +4,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
-import ora from 'ora';
-import { getPreset, loadConfig } from '../config/index.js';
+import ora, { type Ora } from 'ora';
+import { applyPreset, getActiveConfig } from '../config/index.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { adapters, ALL_TOOLS } from '../parsers/registry.js';
 import type { SessionSource, UnifiedSession } from '../types/index.js';
+import { EXPORT_FORMATS, handoffExtension, isExportFormat, renderExport } from '../utils/handoff.js';
+import { type HtmlIndexEntry, renderHtmlIndex } from '../utils/html.js';
 import { getAllSessions, getSessionsBySource } from '../utils/index.js';
+import { createRedactionReport, formatRedactionReport, redactContext } from '../utils/redact.js';
 
 /**
  * Dump sessions to files in a directory.
@@ -20,11 +23,13 @@ export async function dumpCommand(
   options: {
     preset?: string;
     json?: boolean;
+    format?: string;
     limit?: string;
     rebuild?: boolean;
   },
   context: { isTTY: boolean },
 ): Promise<void> {
+  let spinner: Ora | null = null;
   try {
     // Validate source
     const isAll = sourceOrAll === 'all';
@@ -35,8 +40,16 @@ export async function dumpCommand(
       return;
     }
 
+    const format = options.format ?? 'markdown';
+    if (!isExportFormat(format)) {
+      console.error(chalk.red(`Invalid format: ${format}`));
+      console.error(chalk.gray(`Valid formats: ${EXPORT_FORMATS.join(', ')}`));
+      process.exitCode = 1;
+      return;
+    }
+
     // Get sessions
-    const spinner = context.isTTY ? ora('Loading sessions...').start() : null;
+    spinner = context.isTTY ? ora('Loading sessions...').start() : null;
 
     let sessions: UnifiedSession[];
     if (isAll) {
@@ -74,13 +87,14 @@ export async function dumpCommand(
       return;
     }
 
-    // Get preset config
-    const presetName = options.preset || 'standard';
-    let config: VerbosityConfig;
-    try {
-      config = getPreset(presetName);
-    } catch {
-      config = loadConfig();
+    // --preset on dump picks the verbosity only; the rest of the config stays
+    let config: VerbosityConfig = getActiveConfig();
+    if (options.preset) {
+      try {
+        config = applyPreset(config, options.preset);
+      } catch (err) {
+        console.error(chalk.yellow((err as Error).message));
+      }
     }
 
     // Export sessions
@@ -88,6 +102,8 @@ export async function dumpCommand(
     let errorCount = 0;
     const startTime = Date.now();
     const successBySource: Record<string, number> = {};
+    const redactions = createRedactionReport();
+    const htmlPages: HtmlIndexEntry[] = [];
 
     for (let i = 0; i < sessions.length; i++) {
       const session = sessions[i];
@@ -97,23 +113,24 @@ export async function dumpCommand(
         process.stdout.write(`\r${chalk.gray(progress)} Exporting: ${session.source}/${session.id.slice(0, 8)}...`);
       }
 
-      const ext = options.json ? 'json' : 'md';
+      const ext = options.json ? 'json' : handoffExtension(format);
       const filename = `${session.source}_${session.id}.${ext}`;
       const filepath = path.join(targetDir, filename);
 
       try {
         if (options.json) {
-          // JSON export
+          // Raw session metadata export
           const json = JSON.stringify(session, null, 2);
           fs.writeFileSync(filepath, json, 'utf8');
         } else {
-          // Markdown export - reuse adapter's extractContext
+          // Handoff export - reuse adapter's extractContext
           const adapter = adapters[session.source];
           if (!adapter) {
             throw new Error(`No adapter found for source: ${session.source}`);
           }
-          const ctx = await adapter.extractContext(session, config);
-          fs.writeFileSync(filepath, ctx.markdown, 'utf8');
+          const { context: ctx } = redactContext(await adapter.extractContext(session, config), config, redactions);
+          fs.writeFileSync(filepath, renderExport(ctx, format, { config }), 'utf8');
+          if (format === 'html') htmlPages.push({ file: filename, session: ctx.session });
         }
         successCount++;
         successBySource[session.source] = (successBySource[session.source] || 0) + 1;
@@ -130,6 +147,11 @@ export async function dumpCommand(
       process.stdout.write('\r' + ' '.repeat(80) + '\r');
     }
 
+    // HTML pages get an index listing them all
+    if (htmlPages.length > 0) {
+      fs.writeFileSync(path.join(targetDir, 'index.html'), renderHtmlIndex(htmlPages), 'utf8');
+    }
+
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
     console.log(chalk.green.bold('Dump complete:'));
@@ -137,7 +159,13 @@ export async function dumpCommand(
     if (errorCount > 0) {
       console.log(`  ${chalk.red(`Errors:     ${errorCount} failed`)}`);
     }
+    if (redactions.total > 0) {
+      console.log(`  ${formatRedactionReport(redactions)}`);
+    }
     console.log(`  Directory: ${targetDir}`);
+    if (htmlPages.length > 0) {
+      console.log(`  Index:     ${path.join(targetDir, 'index.html')}`);
+    }
     console.log(`  Time:      ${elapsed}s`);
 
     // Count by source (only successful exports)
@@ -8,17 +8,22 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import chalk from 'chalk';
-import { getPreset, loadConfig } from '../config/index.js';
+import { applyPreset, getActiveConfig } from '../config/index.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { adapters } from '../parsers/registry.js';
-import type { SessionContext, ReasoningStep, UnifiedSession } from '../types/index.js';
+import type { FileChangeSummary, OpenProblem, SessionContext, ReasoningStep, UnifiedSession } from '../types/index.js';
+import { AmbiguousSessionError } from '../errors.js';
 import { classifyToolName } from '../types/tool-names.js';
+import { EXPORT_FORMATS, isExportFormat, renderExport } from '../utils/handoff.js';
 import { findSession } from '../utils/index.js';
 import { readJsonlFile } from '../utils/jsonl.js';
+import { formatRedactionReport, redactContext } from '../utils/redact.js';
+import { estimateSectionTokens, estimateTokens } from '../utils/tokens.js';
+import { selectAmbiguousSession } from './_shared.js';
 
 // ── Format Detection ────────────────────────────────────────────────────────
 
-type SessionFormat = 'jsonl' | 'json' | 'sqlite' | 'yaml';
+type SessionFormat = 'jsonl' | 'json' | 'sqlite' | 'yaml' | 'markdown';
 
 function getSessionFormat(source: string): SessionFormat {
   switch (source) {
@@ -34,12 +39,17 @@ function getSessionFormat(source: string): SessionFormat {
     case 'cline':
     case 'roo-code':
     case 'kilo-code':
+    case 'copilot-chat':
       return 'json';
     case 'crush':
     case 'opencode':
+    case 'zed':
+    case 'cursor-ide':
       return 'sqlite';
     case 'copilot':
       return 'yaml';
+    case 'aider':
+      return 'markdown';
     default:
       return 'jsonl';
   }
@@ -276,6 +286,8 @@ interface MarkdownStats {
   reasoningSteps: number;
   pendingTasks: number;
   filesModified: number;
+  estimatedTokens: number;
+  sectionTokens: Array<{ title: string; tokens: number }>;
 }
 
 function computeMarkdownStats(ctx: SessionContext): MarkdownStats {
@@ -292,6 +304,8 @@ function computeMarkdownStats(ctx: SessionContext): MarkdownStats {
     reasoningSteps: ctx.sessionNotes?.reasoningSteps?.length || 0,
     pendingTasks: ctx.pendingTasks.length,
     filesModified: ctx.filesModified.length,
+    estimatedTokens: estimateTokens(md),
+    sectionTokens: estimateSectionTokens(md),
   };
 }
 
@@ -458,6 +472,42 @@ function renderReasoningChain(steps: ReasoningStep[]): string {
   return lines.join('\n');
 }
 
+function renderFileChanges(changes: FileChangeSummary[]): string {
+  const edits = changes.reduce((sum, c) => sum + c.edits, 0);
+  const lines: string[] = [chalk.cyan.bold(`📁 Files (${changes.length} changed, ${edits} edits)`)];
+  const width = Math.min(Math.max(...changes.map((c) => c.filePath.length), 4), 50);
+
+  for (const change of changes) {
+    const file = change.filePath.length > width ? `…${change.filePath.slice(-(width - 1))}` : change.filePath;
+    let net: string;
+    if (change.status === 'deleted') net = chalk.red('deleted');
+    else if (change.status === 'modified' && !change.diff) net = chalk.gray(change.partial ? 'not recorded' : 'no net change');
+    else net = `${chalk.green(`+${change.added}`)} ${chalk.red(`-${change.removed}`)}`;
+    const status = change.status === 'created' || change.status === 'written' ? ` ${change.status}` : '';
+    const partial = change.partial && change.diff ? chalk.gray(' (partial)') : '';
+    lines.push(`  ${pad(file, width)} ${rpad(change.edits, 4)} ${change.edits === 1 ? 'edit ' : 'edits'}  ${net}${status}${partial}`);
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+function renderOpenProblems(problems: OpenProblem[]): string {
+  const lines: string[] = [chalk.red.bold(`⚠️  Open Problems (${problems.length})`)];
+  for (const problem of problems) {
+    const target = problem.kind === 'command' ? `$ ${problem.target}` : problem.target;
+    const exit = problem.exitCode !== undefined ? ` exit ${problem.exitCode}` : '';
+    const times = problem.failures > 1 ? chalk.gray(` ×${problem.failures}`) : '';
+    const label = problem.kind === 'command' ? '' : `${problem.tool} `;
+    lines.push(`  ${label}${target.length > 70 ? `${target.slice(0, 67)}...` : target}${chalk.red(exit)}${times}`);
+    const lastLine = problem.error?.split('\n').pop();
+    if (lastLine) lines.push(chalk.gray(`    ${lastLine.length > 80 ? `${lastLine.slice(0, 77)}...` : lastLine}`));
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
 function renderMarkdownOutput(stats: MarkdownStats, presetName: string): string {
   const lines: string[] = [
     chalk.cyan.bold(`📝 Markdown Output (preset: ${presetName})`),
@@ -476,6 +526,21 @@ function renderMarkdownOutput(stats: MarkdownStats, presetName: string): string
   return lines.join('\n');
 }
 
+function renderTokenEstimates(stats: MarkdownStats, maxTokens: number): string {
+  const budget = maxTokens > 0 ? ` of ${maxTokens.toLocaleString()} budget` : '';
+  const lines: string[] = [
+    chalk.cyan.bold(`🔢 Estimated Tokens (~${stats.estimatedTokens.toLocaleString()}${budget}, offline approximation)`),
+  ];
+  const widest = Math.max(...stats.sectionTokens.map((s) => s.tokens), 1);
+  for (const section of stats.sectionTokens) {
+    lines.push(
+      `  ${pad(section.title, 28)} ${rpad(section.tokens.toLocaleString(), 7)}  ${chalk.gray(bar(section.tokens / widest, 20))}`,
+    );
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
 function renderConversionSummary(
   mainSize: number,
   subagentFiles: SubagentFileInfo[],
@@ -595,6 +660,10 @@ function renderTruncated(
     ),
   );
 
+  // TOKENS line
+  const tokenParts = markdownStats.sectionTokens.map((s) => `${s.title}=${s.tokens}`);
+  lines.push(truncateLine(`TOKENS:  ~${markdownStats.estimatedTokens} | ${tokenParts.join(' ')}`, maxLen));
+
   // RATIO line
   const markdownBytes = Buffer.byteLength(context.markdown, 'utf8');
   const rawInput = mainSize + toolResultFiles.reduce((s, f) => s + f.size, 0);
@@ -620,33 +689,78 @@ function renderTruncated(
  * Inspect a session and display detailed parsing diagnostics.
  *
  * @param sessionIdOrShort - Full or short session ID
- * @param opts.preset - Verbosity preset name (default: 'standard')
+ * @param opts.preset - Verbosity preset name (default: the active config's)
  * @param opts.truncate - If set, output compact one-liner per section truncated to N chars
  * @param opts.writeMd - If set, write markdown output to file (true = auto-name, string = path)
+ * @param opts.maxTokens - Token budget for the generated markdown (0/undefined = preset limits only)
+ * @param opts.format - If set, print the handoff (or the HTML page) in this format instead of the diagnostics
+ * @param cliContext.isTTY - Prompt to choose when the ID is ambiguous
  */
 export async function inspectSession(
   sessionIdOrShort: string,
-  opts: { preset?: string; truncate?: number; writeMd?: string | boolean },
+  opts: { preset?: string; truncate?: number; writeMd?: string | boolean; maxTokens?: number; format?: string },
+  cliContext: { isTTY: boolean } = { isTTY: false },
 ): Promise<void> {
+  if (opts.format !== undefined && !isExportFormat(opts.format)) {
+    console.error(chalk.red(`Invalid format: ${opts.format}`));
+    console.error(chalk.gray(`Valid formats: ${EXPORT_FORMATS.join(', ')}`));
+    process.exitCode = 1;
+    return;
+  }
+
   // 1. Find session
-  const session = await findSession(sessionIdOrShort);
+  let session: UnifiedSession | null;
+  try {
+    session = await findSession(sessionIdOrShort);
+  } catch (err) {
+    if (!(err instanceof AmbiguousSessionError)) throw err;
+    if (!cliContext.isTTY) {
+      console.error(chalk.red(err.message));
+      process.exitCode = 1;
+      return;
+    }
+    session = await selectAmbiguousSession(err);
+    if (!session) return;
+  }
   if (!session) {
     console.error(chalk.red(`Session not found: ${sessionIdOrShort}`));
     process.exitCode = 1;
     return;
   }
+  if (!adapters[session.source]) {
+    console.error(chalk.red(`Unknown session source: ${session.source}`));
+    process.exitCode = 1;
+    return;
+  }
 
-  const presetName = opts.preset || 'standard';
-  let config: VerbosityConfig;
-  try {
-    config = getPreset(presetName);
-  } catch {
-    // Fall back to loaded config if preset name is invalid
-    config = loadConfig();
+  let config: VerbosityConfig = getActiveConfig();
+  if (opts.preset) {
+    try {
+      config = applyPreset(config, opts.preset);
+    } catch {
+      // Keep the active config if the preset name is invalid
+    }
+  }
+  if (opts.maxTokens) config.maxTokens = opts.maxTokens;
+  const presetName = config.preset;
+
+  // Handoff only — skip the raw-file analysis entirely
+  if (isExportFormat(opts.format)) {
+    const { context, report } = redactContext(await adapters[session.source].extractContext(session, config), config);
+    try {
+      console.log(renderExport(context, opts.format));
+      // stderr, so the handoff on stdout stays machine-readable
+      if (report.total > 0) console.error(chalk.gray(formatRedactionReport(report)));
+    } catch (err) {
+      // Template mistakes carry file:line:column — no stack trace needed
+      console.error(chalk.red('Error:'), (err as Error).message);
+      process.exitCode = 1;
+    }
+    return;
   }
 
   // 2. Read raw events (format-aware)
-  const format = getSessionFormat(session.source);
+  const format = getSessionFormat(adapters[session.source].family ?? session.source);
   let rawMessages: Array<Record<string, unknown>> = [];
   let rawEventNote = '';
 
@@ -664,6 +778,8 @@ export async function inspectSession(
     rawEventNote = '(raw event analysis not available for SQLite sessions)';
   } else if (format === 'yaml') {
     rawEventNote = '(raw event analysis not available for YAML sessions)';
+  } else if (format === 'markdown') {
+    rawEventNote = '(raw event analysis not available for Markdown sessions)';
   }
 
   const { events, blocks, tools, model } = analyzeRawMessages(rawMessages);
@@ -700,8 +816,10 @@ export async function inspectSession(
       typeof opts.writeMd === 'string'
         ? opts.writeMd
         : `inspect-${session.id.slice(0, 8)}.md`;
-    fs.writeFileSync(mdPath, context.markdown, 'utf8');
+    const { context: redacted, report } = redactContext(context, config);
+    fs.writeFileSync(mdPath, redacted.markdown, 'utf8');
     console.log(chalk.green(`Markdown written to ${mdPath}`));
+    if (report.total > 0) console.log(chalk.gray(formatRedactionReport(report)));
   }
 
   // 7. Render output
@@ -756,7 +874,16 @@ export async function inspectSession(
     output.push(renderReasoningChain(context.sessionNotes.reasoningSteps));
   }
 
+  if (context.sessionNotes?.fileChanges) {
+    output.push(renderFileChanges(context.sessionNotes.fileChanges));
+  }
+
+  if (context.sessionNotes?.openProblems) {
+    output.push(renderOpenProblems(context.sessionNotes.openProblems));
+  }
+
   output.push(renderMarkdownOutput(markdownStats, presetName));
+  output.push(renderTokenEstimates(markdownStats, config.maxTokens));
   output.push(
     renderConversionSummary(
       mainSize,
@@ -0,0 +1,80 @@
+import chalk from 'chalk';
+import { formatSessionColored } from '../display/format.js';
+import { AmbiguousSessionError } from '../errors.js';
+import type { UnifiedSession } from '../types/index.js';
+import { findSession, getAllSessions } from '../utils/index.js';
+import { getLineageTree, type LineageNode } from '../utils/lineage.js';
+import { selectAmbiguousSession } from './_shared.js';
+
+function renderTree(node: LineageNode, current: UnifiedSession, prefix = '', isLast = true, isRoot = true): string[] {
+  const connector = isRoot ? '' : isLast ? '└─ ' : '├─ ';
+  const isCurrent = node.session.source === current.source && node.session.id === current.id;
+  const marker = isCurrent ? chalk.bold.yellow('  ◀ this session') : '';
+  const lines = [`${prefix}${connector}${formatSessionColored(node.session)}${marker}`];
+  const childPrefix = isRoot ? prefix : `${prefix}${isLast ? '   ' : '│  '}`;
+  node.children.forEach((child, i) => {
+    lines.push(...renderTree(child, current, childPrefix, i === node.children.length - 1, false));
+  });
+  return lines;
+}
+
+function toJson(node: LineageNode): Record<string, unknown> {
+  const { parent: _parent, children: _children, ...session } = node.session;
+  return {
+    ...session,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    children: node.children.map(toJson),
+  };
+}
+
+function countNodes(node: LineageNode): number {
+  return 1 + node.children.reduce((sum, child) => sum + countNodes(child), 0);
+}
+
+/**
+ * Lineage command — show the chain of cross-tool handoffs a session belongs to
+ */
+export async function lineageCommand(
+  sessionId: string,
+  options: { json?: boolean },
+  context: { isTTY: boolean },
+): Promise<void> {
+  try {
+    let session: UnifiedSession | null;
+    try {
+      session = await findSession(sessionId);
+    } catch (error) {
+      if (!(error instanceof AmbiguousSessionError) || !context.isTTY || options.json) throw error;
+      session = await selectAmbiguousSession(error);
+      if (!session) return;
+    }
+
+    if (!session) {
+      console.error(chalk.red(`Session not found: ${sessionId}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const tree = getLineageTree(await getAllSessions(), session);
+
+    if (options.json) {
+      console.log(JSON.stringify(toJson(tree), null, 2));
+      return;
+    }
+
+    const total = countNodes(tree);
+    if (total === 1) {
+      console.log(chalk.gray('No handoffs recorded for this session.'));
+      console.log(formatSessionColored(session));
+      return;
+    }
+
+    console.log(chalk.bold(`Handoff chain (${total} sessions):`));
+    console.log();
+    for (const line of renderTree(tree, session)) console.log(line);
+  } catch (error) {
+    console.error(chalk.red('Error:'), (error as Error).message);
+    process.exitCode = 1;
+  }
+}
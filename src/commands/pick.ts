@@ -127,7 +127,7 @@ export async function interactivePick(
             .sort((a, b) => b[1] - a[1])
             .map(([source, count]) => ({
               value: source,
-              label: `${sourceColors[source as SessionSource](source.charAt(0).toUpperCase() + source.slice(1))} (${count})`,
+              label: `${(sourceColors[source as SessionSource] || chalk.white)(source.charAt(0).toUpperCase() + source.slice(1))} (${count})`,
             })),
         );
 
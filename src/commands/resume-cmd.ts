@@ -2,24 +2,73 @@ import * as clack from '@clack/prompts';
 import chalk from 'chalk';
 import ora from 'ora';
 import { formatSessionColored } from '../display/format.js';
-import type { SessionSource } from '../types/index.js';
+import { AmbiguousSessionError } from '../errors.js';
+import type { SessionSource, UnifiedSession } from '../types/index.js';
 import type { HandoffForwardingOptions } from '../utils/forward-flags.js';
+import { HANDOFF_FORMATS, type HandoffFormat, isHandoffFormat } from '../utils/handoff.js';
 import { findSession, formatSession, getAllSessions } from '../utils/index.js';
-import { getResumeCommand, resolveCrossToolForwarding, resume } from '../utils/resume.js';
-import { selectTargetTool, showForwardingWarnings } from './_shared.js';
+import { DEFAULT_PROJECT_WINDOW_MS, findProjectSessions, parseDuration } from '../utils/merge.js';
+import { getResumeCommand, mergedResume, resolveCrossToolForwarding, resume } from '../utils/resume.js';
+import { matchesCwd } from '../utils/slug.js';
+import { selectAmbiguousSession, selectSessionsToMerge, selectTargetTool, showForwardingWarnings } from './_shared.js';
+
+export interface ResumeCommandOptions {
+  in?: string;
+  reference?: boolean;
+  noTui?: boolean;
+  format?: string;
+  /** Comma-separated session references, or true to pick them interactively */
+  merge?: string | boolean;
+  /** Merge every session of the current directory within `within` */
+  project?: boolean;
+  within?: string;
+  /** Hand off only what happened since the session's previous handoff */
+  sinceLast?: boolean;
+}
 
 /**
- * Resume a specific session by ID
+ * Resume a specific session by ID, or several sessions as one merged handoff
  */
 export async function resumeCommand(
-  sessionId: string,
-  options: { in?: string; reference?: boolean; noTui?: boolean },
+  sessionId: string | undefined,
+  options: ResumeCommandOptions,
   context: { isTTY: boolean },
   forwarding?: HandoffForwardingOptions,
 ): Promise<void> {
   try {
+    const format = options.format ?? 'markdown';
+    if (!isHandoffFormat(format)) {
+      console.error(chalk.red(`Invalid format: ${format}`));
+      console.error(chalk.gray(`Valid formats: ${HANDOFF_FORMATS.join(', ')}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    if (options.merge || options.project) {
+      if (options.sinceLast) {
+        console.error(chalk.red('--since-last cannot be combined with --merge or --project'));
+        process.exitCode = 1;
+        return;
+      }
+      await resumeMerged(sessionId, options, format, context, forwarding);
+      return;
+    }
+    if (!sessionId) {
+      console.error(chalk.red('Missing session ID. Pass one, or use --merge <ids> / --project to merge sessions.'));
+      process.exitCode = 1;
+      return;
+    }
+
     const spinner = context.isTTY && !options.noTui ? ora('Finding session...').start() : null;
-    const session = await findSession(sessionId);
+    let session: UnifiedSession | null;
+    try {
+      session = await findSession(sessionId);
+    } catch (error) {
+      if (spinner) spinner.stop();
+      if (!(error instanceof AmbiguousSessionError) || !context.isTTY || options.noTui) throw error;
+      session = await selectAmbiguousSession(error);
+      if (!session) return;
+    }
     if (spinner) spinner.stop();
 
     if (!session) {
@@ -63,11 +112,11 @@ export async function resumeCommand(
       }
 
       console.log(chalk.gray('Session: ') + formatSession(session));
-      console.log(chalk.gray('Command: ') + chalk.cyan(getResumeCommand(session, target, effectiveForwarding)));
+      console.log(chalk.gray('Command: ') + chalk.cyan(getResumeCommand(session, target, effectiveForwarding, format)));
       console.log();
 
       if (session.cwd) process.chdir(session.cwd);
-      await resume(session, target, mode, effectiveForwarding);
+      await resume(session, target, mode, effectiveForwarding, format, options.sinceLast);
       return;
     }
 
@@ -91,7 +140,7 @@ export async function resumeCommand(
       clack.outro(`Launching ${selectedTarget}`);
 
       if (session.cwd) process.chdir(session.cwd);
-      await resume(session, selectedTarget, mode, effectiveForwarding);
+      await resume(session, selectedTarget, mode, effectiveForwarding, format, options.sinceLast);
     } else {
       // Target specified, just resume
       const effectiveForwarding = forwardingFor(target);
@@ -101,11 +150,11 @@ export async function resumeCommand(
       }
 
       console.log(chalk.gray('Session: ') + formatSession(session));
-      console.log(chalk.gray('Command: ') + chalk.cyan(getResumeCommand(session, target, effectiveForwarding)));
+      console.log(chalk.gray('Command: ') + chalk.cyan(getResumeCommand(session, target, effectiveForwarding, format)));
       console.log();
 
       if (session.cwd) process.chdir(session.cwd);
-      await resume(session, target, mode, effectiveForwarding);
+      await resume(session, target, mode, effectiveForwarding, format, options.sinceLast);
     }
   } catch (error) {
     if (clack.isCancel(error)) {
@@ -116,3 +165,109 @@ export async function resumeCommand(
     process.exitCode = 1;
   }
 }
+
+/**
+ * Resolve one reference for --merge, letting the user choose when it is ambiguous
+ */
+async function findMergeSession(ref: string, interactive: boolean): Promise<UnifiedSession | null> {
+  try {
+    return await findSession(ref);
+  } catch (error) {
+    if (!(error instanceof AmbiguousSessionError) || !interactive) throw error;
+    return selectAmbiguousSession(error);
+  }
+}
+
+/**
+ * Collect the sessions for `--merge` / `--project` and hand them off as one merged handoff
+ */
+async function resumeMerged(
+  sessionId: string | undefined,
+  options: ResumeCommandOptions,
+  format: HandoffFormat,
+  context: { isTTY: boolean },
+  forwarding?: HandoffForwardingOptions,
+): Promise<void> {
+  const interactive = context.isTTY && !options.noTui;
+  const windowMs = options.within ? parseDuration(options.within) : DEFAULT_PROJECT_WINDOW_MS;
+  if (windowMs === null) {
+    console.error(chalk.red(`Invalid --within: ${options.within}`));
+    console.error(chalk.gray('Use a duration like 90m, 12h, 2d or 1w'));
+    process.exitCode = 1;
+    return;
+  }
+
+  const refs = [
+    ...(sessionId ? [sessionId] : []),
+    ...(typeof options.merge === 'string' ? options.merge.split(',') : []),
+  ]
+    .map((ref) => ref.trim())
+    .filter(Boolean);
+
+  const sessions: UnifiedSession[] = [];
+  for (const ref of refs) {
+    const session = await findMergeSession(ref, interactive);
+    if (!session) {
+      console.error(chalk.red(`Session not found: ${ref}`));
+      process.exitCode = 1;
+      return;
+    }
+    sessions.push(session);
+  }
+  if (options.project) {
+    sessions.push(...findProjectSessions(await getAllSessions(), process.cwd(), windowMs));
+  }
+
+  // `--merge` with no IDs: tick them in a picker, this directory's sessions first
+  if (options.merge === true && refs.length === 0 && !options.project) {
+    if (!interactive) {
+      console.error(chalk.red('--merge needs session IDs (e.g. --merge abc123,def456) without a TTY'));
+      process.exitCode = 1;
+      return;
+    }
+    const all = await getAllSessions();
+    const cwd = process.cwd();
+    const inCwd = all.filter((s) => matchesCwd(s.cwd, cwd));
+    const picked = await selectSessionsToMerge(inCwd.length >= 2 ? inCwd : all);
+    if (!picked) return;
+    sessions.push(...picked);
+  }
+
+  const unique = [...new Map(sessions.map((s) => [`${s.source}:${s.id}`, s])).values()].sort(
+    (a, b) => a.updatedAt.getTime() - b.updatedAt.getTime(),
+  );
+  if (unique.length < 2) {
+    const where = options.project ? ` in ${process.cwd()} within ${options.within ?? '24h'}` : '';
+    console.error(
+      chalk.red(`Nothing to merge: found ${unique.length} session${unique.length === 1 ? '' : 's'}${where}`),
+    );
+    if (unique.length === 1) console.error(chalk.gray(`Resume it on its own: continues resume ${unique[0].id}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const latest = unique[unique.length - 1];
+  let target = options.in as SessionSource | undefined;
+  if (!target && interactive) {
+    clack.intro(chalk.bold(`Merge ${unique.length} sessions`));
+    for (const session of unique) console.log(formatSessionColored(session));
+    console.log();
+    target = (await selectTargetTool(latest, { excludeSource: false })) ?? undefined;
+    if (!target) return;
+    clack.outro(`Launching ${target}`);
+  } else {
+    console.log(chalk.gray(`Merging ${unique.length} sessions:`));
+    for (const session of unique) console.log(`  ${formatSession(session)}`);
+    console.log();
+  }
+  target ??= latest.source;
+
+  if (forwarding) {
+    const resolved = resolveCrossToolForwarding(target, forwarding);
+    await showForwardingWarnings(resolved.warnings, context);
+  }
+
+  const mode = options.reference ? ('reference' as const) : ('inline' as const);
+  if (latest.cwd) process.chdir(latest.cwd);
+  await mergedResume(unique, target, mode, forwarding, format);
+}
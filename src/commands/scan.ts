@@ -3,13 +3,89 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { sourceColors } from '../display/format.js';
 import type { SessionSource } from '../types/index.js';
-import { getAllSessions } from '../utils/index.js';
+import { type AdapterHealth, runHealthCheck } from '../utils/health.js';
+import { getAllSessions, getLastIndexStats } from '../utils/index.js';
+
+/** Bases that exist; when none do, every probed location so the user sees where we looked */
+function printStorageBases(bases: NonNullable<AdapterHealth['storageBases']>): void {
+  const found = bases.filter((base) => base.found);
+  console.log(chalk.gray(`  ${found.length} of ${bases.length} storage bases found`));
+  for (const base of found.length > 0 ? found : bases) {
+    console.log(base.found ? chalk.gray(`    ${chalk.green('✓')} ${base.path}`) : chalk.gray(`    · ${base.path}`));
+  }
+}
+
+function printHealth(report: AdapterHealth[]): void {
+  for (const health of report) {
+    const colorFn = sourceColors[health.source] || chalk.white;
+    const status = health.failure
+      ? chalk.red('failed')
+      : health.errorCount > 0 || health.filesRejected > 0
+        ? chalk.yellow('degraded')
+        : health.drift.length > 0
+          ? chalk.yellow('drift')
+          : chalk.green('ok');
+    console.log(`${colorFn(health.label.padEnd(20))} ${status}  ${chalk.gray(`${health.durationMs}ms`)}`);
+    const rejected = health.schemaChecked ? `, ${health.filesRejected} rejected by schema` : '';
+    console.log(
+      chalk.gray(
+        `  ${health.filesDiscovered} files discovered, ${health.filesParsed} parsed${rejected} → ${health.sessions} sessions (discover ${health.discoverMs}ms, parse ${health.parseMs}ms)`,
+      ),
+    );
+    if (health.storageBases) printStorageBases(health.storageBases);
+    if (health.failure) console.log(chalk.red(`  adapter failed: ${health.failure}`));
+    for (const err of health.errors) console.log(chalk.red(`  ✗ ${err.message}`));
+    if (health.errorCount > health.errors.length) {
+      console.log(chalk.gray(`  … ${health.errorCount - health.errors.length} more errors`));
+    }
+    for (const warning of health.drift) console.log(chalk.yellow(`  ⚠ ${warning}`));
+  }
+}
+
+/**
+ * scan --health — run every adapter with diagnostics and print the report
+ */
+async function healthScan(options: { json?: boolean; maxErrors?: string }, context: { isTTY: boolean }) {
+  const spinner = context.isTTY && !options.json ? ora('Checking session parsers...').start() : null;
+  const report = await runHealthCheck({ maxErrors: parseInt(options.maxErrors ?? '5', 10) });
+  if (spinner) spinner.stop();
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        report.map((health) => ({
+          ...health,
+          errors: health.errors.map((err) => ({ filePath: err.filePath, message: err.message })),
+        })),
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+
+  if (context.isTTY) clack.intro(chalk.bold('Session Parser Health'));
+  console.log();
+  printHealth(report);
+  if (context.isTTY) {
+    console.log();
+    clack.outro(chalk.gray('Run with --json for machine-readable output'));
+  }
+}
 
 /**
  * Scan command - show session discovery stats
  */
-export async function scanCommand(options: { rebuild?: boolean }, context: { isTTY: boolean }): Promise<void> {
+export async function scanCommand(
+  options: { rebuild?: boolean; health?: boolean; json?: boolean; maxErrors?: string },
+  context: { isTTY: boolean },
+): Promise<void> {
   try {
+    if (options.health) {
+      await healthScan(options, context);
+      return;
+    }
+
     const spinner = context.isTTY ? ora('Scanning session directories...').start() : null;
 
     const sessions = await getAllSessions(options.rebuild);
@@ -30,6 +106,16 @@ export async function scanCommand(options: { rebuild?: boolean }, context: { isT
 
     console.log();
     console.log(chalk.bold(`Total sessions: ${sessions.length}`));
+
+    const stats = getLastIndexStats();
+    if (stats) {
+      const mode = stats.full ? 'full rebuild' : 'incremental';
+      console.log(
+        chalk.gray(
+          `Index (${mode}): ${stats.reused} reused, ${stats.reparsed} re-parsed from ${stats.changedFiles} changed files, ${stats.deletedFiles} deleted files dropped`,
+        ),
+      );
+    }
     console.log();
 
     for (const [source, count] of Object.entries(bySource).sort((a, b) => b[1] - a[1])) {
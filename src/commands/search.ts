@@ -0,0 +1,96 @@
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import ora from 'ora';
+import { formatSessionForSelect, sourceColors } from '../display/format.js';
+import type { SessionSource } from '../types/index.js';
+import type { HandoffForwardingOptions } from '../utils/forward-flags.js';
+import { getAllSessions, getSessionsBySource } from '../utils/index.js';
+import { type SearchHit, searchSessions } from '../utils/search-index.js';
+import { resumeCommand } from './resume-cmd.js';
+
+/**
+ * Highlight the [bracketed] FTS match markers in a snippet
+ */
+function highlightSnippet(snippet: string): string {
+  return snippet.replace(/\[([^\]]*)\]/g, (_m, term: string) => chalk.yellow.bold(term));
+}
+
+function formatHit(hit: SearchHit): string {
+  const { session } = hit;
+  const colorFn = sourceColors[session.source] || chalk.white;
+  const date = session.updatedAt.toISOString().slice(0, 16).replace('T', ' ');
+  const header = `${colorFn(`[${session.source}]`)} ${chalk.gray(date)}  ${chalk.cyan(session.cwd || '(no cwd)')}  ${chalk.gray(session.id)}`;
+  return `${header}\n  ${chalk.gray(`${hit.kind}:`)} ${highlightSnippet(hit.snippet)}`;
+}
+
+/**
+ * Search command — full-text search across all indexed sessions
+ */
+export async function searchCommand(
+  query: string,
+  options: { source?: string; limit: string; json?: boolean; resume?: boolean; in?: string; rebuild?: boolean },
+  context: { isTTY: boolean },
+  forwarding?: HandoffForwardingOptions,
+): Promise<void> {
+  try {
+    const spinner = context.isTTY && !options.json ? ora('Searching sessions...').start() : null;
+
+    const sessions = options.source
+      ? await getSessionsBySource(options.source as SessionSource, options.rebuild)
+      : await getAllSessions(options.rebuild);
+    const hits = await searchSessions(sessions, query, {
+      source: options.source as SessionSource | undefined,
+      limit: parseInt(options.limit, 10),
+    });
+
+    if (spinner) spinner.stop();
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(
+          hits.map((hit) => ({ ...hit.session, match: { kind: hit.kind, snippet: hit.snippet, rank: hit.rank } })),
+          null,
+          2,
+        ),
+      );
+      return;
+    }
+
+    if (hits.length === 0) {
+      console.log(chalk.yellow(`No sessions match "${query}".`));
+      process.exitCode = 1;
+      return;
+    }
+
+    if (options.resume) {
+      let chosen = hits[0];
+      if (context.isTTY && hits.length > 1) {
+        const selected = await clack.select({
+          message: `${hits.length} sessions match "${query}" — resume which?`,
+          options: hits.map((hit, i) => ({
+            value: i,
+            label: formatSessionForSelect(hit.session),
+            hint: hit.snippet.slice(0, 60),
+          })),
+        });
+        if (clack.isCancel(selected)) {
+          clack.cancel('Cancelled');
+          return;
+        }
+        chosen = hits[selected as number];
+      }
+      await resumeCommand(chosen.session.id, { in: options.in }, context, forwarding);
+      return;
+    }
+
+    console.log(chalk.gray(`${hits.length} matching sessions:`));
+    console.log();
+    for (const hit of hits) {
+      console.log(formatHit(hit));
+      console.log();
+    }
+  } catch (error) {
+    console.error(chalk.red('Error:'), (error as Error).message);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,70 @@
+import chalk from 'chalk';
+import { sourceColors } from '../display/format.js';
+import { buildIndex } from '../utils/index.js';
+import { type SessionChangeEvent, watchSessions } from '../utils/watch.js';
+
+const EVENT_LABELS: Record<SessionChangeEvent['type'], string> = {
+  'session-created': chalk.green('created'),
+  'session-updated': chalk.yellow('updated'),
+  'session-deleted': chalk.red('deleted'),
+};
+
+/**
+ * Watch command — keep the session index hot and report session changes
+ */
+export async function watchCommand(
+  options: { jsonl?: boolean; debounce: string },
+  context: { isTTY: boolean },
+): Promise<void> {
+  try {
+    await buildIndex();
+
+    const watcher = await watchSessions({
+      debounceMs: parseInt(options.debounce, 10),
+      onEvent: (event) => {
+        if (options.jsonl) {
+          const { session } = event;
+          console.log(
+            JSON.stringify({
+              type: event.type,
+              source: event.source,
+              id: event.id,
+              timestamp: new Date().toISOString(),
+              session: {
+                ...session,
+                createdAt: session.createdAt.toISOString(),
+                updatedAt: session.updatedAt.toISOString(),
+              },
+            }),
+          );
+          return;
+        }
+        const colorFn = sourceColors[event.source] || chalk.white;
+        const time = chalk.gray(new Date().toISOString().slice(11, 19));
+        const summary = (event.session.summary || '').slice(0, 50);
+        console.log(
+          `${time} ${EVENT_LABELS[event.type]} ${colorFn(`[${event.source}]`)} ${event.id.slice(0, 12)}  ${summary}`,
+        );
+      },
+      onError: (err) => console.error(chalk.red('Error:'), (err as Error).message),
+    });
+
+    if (!options.jsonl) {
+      const watched = Object.entries(watcher.roots).filter(([, roots]) => roots && roots.length > 0);
+      console.log(chalk.bold(`Watching ${watched.length} tools for session changes`) + chalk.gray(' (Ctrl+C to stop)'));
+      if (context.isTTY) {
+        for (const [source, roots] of watched) {
+          console.log(chalk.gray(`  ${source.padEnd(12)} ${roots?.join(', ')}`));
+        }
+      }
+    }
+
+    // Closing the watchers lets the event loop drain and the process exit
+    const stop = () => watcher.close();
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  } catch (error) {
+    console.error(chalk.red('Error:'), (error as Error).message);
+    process.exitCode = 1;
+  }
+}
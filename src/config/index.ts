@@ -1,5 +1,13 @@
 /**
  * Config module — re-exports verbosity configuration system.
  */
-export type { PresetName, VerbosityConfig } from './verbosity.js';
-export { VerbosityConfigSchema, getPreset, loadConfig, mergeConfig } from './verbosity.js';
+export type { GeminiForkConfig, PresetName, VerbosityConfig } from './verbosity.js';
+export {
+  VerbosityConfigSchema,
+  applyPreset,
+  getActiveConfig,
+  getPreset,
+  loadConfig,
+  mergeConfig,
+  setActiveConfig,
+} from './verbosity.js';
@@ -17,8 +17,8 @@
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-import { z } from 'zod';
 import YAML from 'yaml';
+import { z } from 'zod';
 import { logger } from '../logger.js';
 
 // ── Zod Schema ──────────────────────────────────────────────────────────────
@@ -92,6 +92,15 @@ const PendingTasksConfigSchema = z.object({
   maxTasks: z.number().int().min(0).default(10),
 });
 
+const OpenProblemsConfigSchema = z.object({
+  /** Problems listed in the Open Problems section (0 = no section) */
+  maxProblems: z.number().int().min(0).default(5),
+  /** Lines of error output kept per problem */
+  errorLines: z.number().int().min(0).default(15),
+  /** Other tool errors count only within this many final tool calls */
+  recentToolCalls: z.number().int().min(0).default(20),
+});
+
 const ClaudeAgentConfigSchema = z.object({
   filterProgressEvents: z.boolean().default(true),
   parseSubagents: z.boolean().default(true),
@@ -107,10 +116,63 @@ const AgentsConfigSchema = z
   })
   .catchall(AgentFlagsSchema.optional());
 
+function isValidPattern(pattern: { pattern: string; flags?: string }): boolean {
+  try {
+    new RegExp(pattern.pattern, pattern.flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const RedactionPatternSchema = z
+  .object({
+    name: z.string().min(1),
+    pattern: z.string().min(1),
+    flags: z
+      .string()
+      .regex(/^[gimsu]*$/)
+      .optional(),
+  })
+  .refine(isValidPattern, { message: 'Invalid redaction pattern' });
+
+const RedactionConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Built-in detectors to turn off, e.g. `[high-entropy]` */
+  disable: z.array(z.string()).default([]),
+  /** Extra detectors: `{ name, pattern, flags? }` */
+  patterns: z.array(RedactionPatternSchema).default([]),
+});
+
+const AiderConfigSchema = z.object({
+  /** Directories searched a few levels deep for Aider chat histories, besides the cwd and its ancestors */
+  searchRoots: z.array(z.string()).default([]),
+});
+
+const EditorStorageConfigSchema = z.object({
+  /** Extra editor config directories (the folder holding `User/`), e.g. a portable install's `data/user-data` */
+  bases: z.array(z.string()).default([]),
+});
+
+const GeminiForkSchema = z.object({
+  /** Source name shown in listings and taken by `--in`, e.g. `iflow` */
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/),
+  /** Display label — defaults to the name */
+  label: z.string().optional(),
+  /** Directory holding `tmp/<project-hash>/chats`, relative to the home directory (e.g. `.iflow`) */
+  dataDir: z.string(),
+  /** Environment variable that replaces the home directory */
+  envVar: z.string().optional(),
+  /** CLI binary to launch — defaults to the name */
+  binary: z.string().optional(),
+});
+
 const PresetNameSchema = z.enum(['minimal', 'standard', 'verbose', 'full']);
 
 export const VerbosityConfigSchema = z.object({
   preset: PresetNameSchema.default('standard'),
+  /** Global token budget for the generated handoff (0 = unlimited) */
+  maxTokens: z.number().int().min(0).default(0),
   recentMessages: z.number().int().min(0).default(10),
   maxMessageChars: z.number().int().min(0).default(500),
   shell: ShellConfigSchema,
@@ -123,19 +185,37 @@ export const VerbosityConfigSchema = z.object({
   thinking: ThinkingConfigSchema,
   compactSummary: CompactSummaryConfigSchema,
   pendingTasks: PendingTasksConfigSchema,
+  openProblems: OpenProblemsConfigSchema,
   agents: AgentsConfigSchema,
+  /** Handoff template file replacing the built-in markdown layout */
+  template: z.string().optional(),
+  /**
+   * Per-target-tool templates, e.g. `{ codex: ./codex-handoff.md }` — win over `template`.
+   * Keyed by any tool name so config-declared forks can have one too.
+   */
+  templates: z.record(z.string(), z.string()).optional(),
+  /** Secret redaction before a handoff is written — on unless `enabled: false` */
+  redaction: RedactionConfigSchema.optional(),
+  /** Where to look for Aider's per-project chat histories */
+  aider: AiderConfigSchema.optional(),
+  /** Where VS Code–family editors keep extension and chat storage, besides the built-in locations */
+  editorStorage: EditorStorageConfigSchema.optional(),
+  /** Gemini CLI forks that write Gemini's chat format under their own home */
+  geminiForks: z.array(GeminiForkSchema).optional(),
 });
 
 // ── TypeScript Type ─────────────────────────────────────────────────────────
 
 export type PresetName = z.infer<typeof PresetNameSchema>;
 export type VerbosityConfig = z.infer<typeof VerbosityConfigSchema>;
+export type GeminiForkConfig = z.infer<typeof GeminiForkSchema>;
 
 // ── Presets ──────────────────────────────────────────────────────────────────
 
 /** Low output (~2KB). Essentials only. */
 const MINIMAL_PRESET: VerbosityConfig = {
   preset: 'minimal',
+  maxTokens: 0,
   recentMessages: 3,
   maxMessageChars: 200,
   shell: {
@@ -195,6 +275,11 @@ const MINIMAL_PRESET: VerbosityConfig = {
     extractFromSubagents: false,
     maxTasks: 5,
   },
+  openProblems: {
+    maxProblems: 3,
+    errorLines: 5,
+    recentToolCalls: 10,
+  },
   agents: {
     claude: {
       filterProgressEvents: true,
@@ -208,6 +293,7 @@ const MINIMAL_PRESET: VerbosityConfig = {
 /** Current behavior improved (~8KB). Good default for most handoffs. */
 const STANDARD_PRESET: VerbosityConfig = {
   preset: 'standard',
+  maxTokens: 0,
   recentMessages: 10,
   maxMessageChars: 500,
   shell: {
@@ -267,6 +353,11 @@ const STANDARD_PRESET: VerbosityConfig = {
     extractFromSubagents: true,
     maxTasks: 10,
   },
+  openProblems: {
+    maxProblems: 5,
+    errorLines: 15,
+    recentToolCalls: 20,
+  },
   agents: {
     claude: {
       filterProgressEvents: true,
@@ -280,6 +371,7 @@ const STANDARD_PRESET: VerbosityConfig = {
 /** Rich context (~30KB). Useful for complex multi-file tasks. */
 const VERBOSE_PRESET: VerbosityConfig = {
   preset: 'verbose',
+  maxTokens: 0,
   recentMessages: 20,
   maxMessageChars: 2000,
   shell: {
@@ -339,6 +431,11 @@ const VERBOSE_PRESET: VerbosityConfig = {
     extractFromSubagents: true,
     maxTasks: 20,
   },
+  openProblems: {
+    maxProblems: 10,
+    errorLines: 40,
+    recentToolCalls: 50,
+  },
   agents: {
     claude: {
       filterProgressEvents: true,
@@ -352,6 +449,7 @@ const VERBOSE_PRESET: VerbosityConfig = {
 /** Everything (~unlimited). Full session data, no truncation. */
 const FULL_PRESET: VerbosityConfig = {
   preset: 'full',
+  maxTokens: 0,
   recentMessages: 50,
   maxMessageChars: 10000,
   shell: {
@@ -411,6 +509,11 @@ const FULL_PRESET: VerbosityConfig = {
     extractFromSubagents: true,
     maxTasks: 100,
   },
+  openProblems: {
+    maxProblems: 50,
+    errorLines: 200,
+    recentToolCalls: 200,
+  },
   agents: {
     claude: {
       filterProgressEvents: false,
@@ -469,6 +572,34 @@ export function getPreset(name: string): VerbosityConfig {
   return structuredClone(preset);
 }
 
+/** Config-file settings that are not about verbosity — kept when a preset is applied on top */
+const NON_VERBOSITY_KEYS = [
+  'maxTokens',
+  'template',
+  'templates',
+  'redaction',
+  'aider',
+  'editorStorage',
+  'geminiForks',
+] as const satisfies ReadonlyArray<keyof VerbosityConfig>;
+
+/**
+ * Switch `config` to a built-in preset's verbosity, keeping its templates,
+ * redaction rules, storage locations, forks, token budget and per-tool
+ * forward flags. Throws on unknown preset.
+ */
+export function applyPreset(config: VerbosityConfig, name: string): VerbosityConfig {
+  const preset = getPreset(name);
+  const kept = Object.fromEntries(
+    NON_VERBOSITY_KEYS.filter((key) => config[key] !== undefined).map((key) => [key, structuredClone(config[key])]),
+  );
+  return {
+    ...preset,
+    ...kept,
+    agents: { ...structuredClone(config.agents), claude: preset.agents.claude },
+  };
+}
+
 /** Deep-merge user overrides onto a base config. */
 export function mergeConfig(base: VerbosityConfig, overrides: Partial<VerbosityConfig>): VerbosityConfig {
   return deepMerge(base, overrides as Record<string, unknown>);
@@ -498,10 +629,27 @@ function parseUserConfig(raw: unknown): VerbosityConfig {
   }
 
   // Validation failed — log issues and return the base preset
-  logger.warn('Config validation errors, falling back to preset defaults:', result.error.issues.map((i) => i.message).join('; '));
+  logger.warn(
+    'Config validation errors, falling back to preset defaults:',
+    result.error.issues.map((i) => i.message).join('; '),
+  );
   return base;
 }
 
+/** Template paths, Aider search roots and editor bases in a config file are relative to that file */
+function resolveConfigPaths(config: VerbosityConfig, baseDir: string): VerbosityConfig {
+  const resolve = (p: string) => (p.startsWith('~/') ? path.join(os.homedir(), p.slice(2)) : path.resolve(baseDir, p));
+  if (config.template) config.template = resolve(config.template);
+  if (config.templates) {
+    for (const [tool, p] of Object.entries(config.templates)) {
+      config.templates[tool as keyof typeof config.templates] = resolve(p);
+    }
+  }
+  if (config.aider) config.aider.searchRoots = config.aider.searchRoots.map(resolve);
+  if (config.editorStorage) config.editorStorage.bases = config.editorStorage.bases.map(resolve);
+  return config;
+}
+
 /**
  * Load verbosity config from disk using the resolution chain:
  *   1. Explicit path (from `--config` CLI flag)
@@ -532,7 +680,7 @@ export function loadConfig(configPath?: string): VerbosityConfig {
       const content = fs.readFileSync(filePath, 'utf8');
       const raw = YAML.parse(content) as unknown;
       logger.info('Loaded config from', filePath);
-      return parseUserConfig(raw);
+      return resolveConfigPaths(parseUserConfig(raw), path.dirname(filePath));
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       logger.warn(`Failed to read config at ${filePath}: ${msg}`);
@@ -543,3 +691,20 @@ export function loadConfig(configPath?: string): VerbosityConfig {
   logger.debug('No config file found, using standard preset');
   return getPreset('standard');
 }
+
+// ── Active Config ───────────────────────────────────────────────────────────
+
+let activeConfig: VerbosityConfig | null = null;
+
+/**
+ * Set the config used for handoffs when callers don't pass one explicitly.
+ * The CLI sets this once from `--config`, `--preset` and `--max-tokens`.
+ */
+export function setActiveConfig(config: VerbosityConfig | null): void {
+  activeConfig = config;
+}
+
+/** The config set via `setActiveConfig`, or the `standard` preset. */
+export function getActiveConfig(): VerbosityConfig {
+  return activeConfig ? structuredClone(activeConfig) : getPreset('standard');
+}
@@ -43,7 +43,7 @@ export function showBanner(version: string, supportsColor: boolean): void {
     console.log(line);
   }
   console.log();
-  console.log('  ' + chalk.bold.white('v' + version) + chalk.gray(' — never lose context across ') + chalk.cyan('14 AI coding agents'));
+  console.log('  ' + chalk.bold.white('v' + version) + chalk.gray(' — never lose context across ') + chalk.cyan('21 AI coding agents'));
   console.log();
   console.log('  ' + chalk.gray('🔄 Cross-tool handoff') + chalk.gray(' · ') + chalk.gray('🔎 Inspect mode') + chalk.gray(' · ') + chalk.gray('⚙️  YAML config') + chalk.gray(' · ') + chalk.gray('🌍 Env var overrides'));
   console.log('  ' + chalk.gray('💡 cont <n> or continues <tool> to quick-resume'));
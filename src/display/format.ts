@@ -3,12 +3,12 @@ import { adapters } from '../parsers/registry.js';
 import type { SessionSource, UnifiedSession } from '../types/index.js';
 
 /**
- * Source-specific colors for consistent branding -- derived from the adapter registry
+ * Source-specific colors for consistent branding -- read from the adapter registry
+ * on access, so tools registered from config have colors too
  */
-export const sourceColors = Object.fromEntries(Object.values(adapters).map((a) => [a.name, a.color])) as Record<
-  SessionSource,
-  (s: string) => string
->;
+export const sourceColors = new Proxy({} as Record<SessionSource, (s: string) => string>, {
+  get: (_target, name) => adapters[name as SessionSource]?.color,
+});
 
 /**
  * Format session with colors in columnar layout
@@ -2,6 +2,7 @@
  * Typed error hierarchy for continues.
  * Replaces anonymous Error throws with machine-readable error types.
  */
+import type { UnifiedSession } from './types/index.js';
 
 /**
  * Base error for all continues errors.
@@ -35,6 +36,27 @@ export class SessionNotFoundError extends ContinuesError {
   }
 }
 
+/** Thrown when a session ID prefix or query matches more than one session. */
+export class AmbiguousSessionError extends ContinuesError {
+  override readonly name = 'AmbiguousSessionError';
+  constructor(
+    public readonly query: string,
+    public readonly candidates: UnifiedSession[],
+    /** No session ID matched — the candidates only match the reference as text */
+    public readonly fuzzy = false,
+  ) {
+    const listed = candidates
+      .slice(0, 10)
+      .map((s) => `  ${s.source}:${s.id}  ${(s.summary || '(no summary)').slice(0, 50)}`);
+    if (candidates.length > 10) listed.push(`  … and ${candidates.length - 10} more`);
+    super(
+      fuzzy
+        ? `No session ID matches "${query}" — pass the ID of the session you mean:\n${listed.join('\n')}`
+        : `"${query}" matches ${candidates.length} sessions — use a longer prefix or source:prefix:\n${listed.join('\n')}`,
+    );
+  }
+}
+
 /** Thrown when a tool binary is not available on PATH. */
 export class ToolNotAvailableError extends ContinuesError {
   override readonly name = 'ToolNotAvailableError';
@@ -70,3 +92,17 @@ export class StorageError extends ContinuesError {
     super(`${message}: ${filePath}`, options);
   }
 }
+
+/** Thrown when a handoff template fails to parse or render. */
+export class TemplateError extends ContinuesError {
+  override readonly name = 'TemplateError';
+  constructor(
+    public readonly templatePath: string,
+    public readonly line: number,
+    public readonly column: number,
+    message: string,
+    options?: { cause?: unknown },
+  ) {
+    super(`${templatePath}:${line}:${column}: ${message}`, options);
+  }
+}
@@ -16,35 +16,56 @@
 
 // ── Errors ───────────────────────────────────────────────────────────
 export {
+  AmbiguousSessionError,
   ContinuesError,
   IndexError,
   ParseError,
   SessionNotFoundError,
   StorageError,
+  TemplateError,
   ToolNotAvailableError,
   UnknownSourceError,
 } from './errors.js';
 // ── Logger ───────────────────────────────────────────────────────────
-export type { LogLevel } from './logger.js';
-export { getLogLevel, logger, setLogLevel } from './logger.js';
+export type { LogLevel, LogSink } from './logger.js';
+export { addLogSink, getLogLevel, logger, setLogLevel } from './logger.js';
 
 // ── Registry ─────────────────────────────────────────────────────────
 export type { ToolAdapter } from './parsers/registry.js';
 export { ALL_TOOLS, adapters, SOURCE_HELP } from './parsers/registry.js';
 export type { ContentBlock, TextBlock, ThinkingBlock, ToolResultBlock, ToolUseBlock } from './types/content-blocks.js';
+// ── Handoff Format ───────────────────────────────────────────────────
+export type { HandoffDocument, HandoffMessage, HandoffTool } from './types/handoff.js';
+export {
+  HANDOFF_FORMAT_VERSION,
+  HandoffDocumentSchema,
+  HandoffRepositorySchema,
+  handoffJsonSchema,
+  StructuredToolSampleSchema,
+} from './types/handoff.js';
 // ── Types ────────────────────────────────────────────────────────────
 export type {
   AskSampleData,
   ConversationMessage,
   EditSampleData,
   FetchSampleData,
+  FileChangeStatus,
+  FileChangeSummary,
   GlobSampleData,
   GrepSampleData,
+  HandoffCursor,
   HandoffOptions,
+  HandoffRecap,
   McpSampleData,
+  OpenProblem,
+  OpenProblemKind,
   ReadSampleData,
+  RepositoryCommit,
+  RepositoryState,
   SearchSampleData,
   SessionContext,
+  SessionFileState,
+  SessionLink,
   SessionNotes,
   SessionSource,
   ShellSampleData,
@@ -58,6 +79,9 @@ export type {
   WriteSampleData,
 } from './types/index.js';
 export { classifyToolName, TOOL_NAMES } from './types/tool-names.js';
+// ── File Changes ─────────────────────────────────────────────────────
+export type { FileChangeOp } from './utils/file-changes.js';
+export { opsFromCodexPatch, opsFromUnifiedDiff, summarizeFileChanges } from './utils/file-changes.js';
 export type {
   CanonicalFlagKey,
   FlagOccurrence,
@@ -67,7 +91,31 @@ export type {
   ParsedForwardFlags,
 } from './utils/forward-flags.js';
 export { parseForwardFlags, resolveForwardingArgs } from './utils/forward-flags.js';
+// ── Repository State ─────────────────────────────────────────────────
+export { buildRepositoryStateSection, getRepositoryState } from './utils/git-state.js';
+// ── Handoff Rendering ────────────────────────────────────────────────
+export type { ExportFormat, HandoffFormat, HandoffRenderOptions } from './utils/handoff.js';
+export {
+  buildHandoffDocument,
+  EXPORT_FORMATS,
+  HANDOFF_FORMATS,
+  parseHandoffDocument,
+  renderExport,
+  renderHandoff,
+  renderHandoffTemplate,
+  renderHandoffXml,
+  resolveHandoffTemplate,
+} from './utils/handoff.js';
+// ── Health ───────────────────────────────────────────────────────────
+export type { AdapterHealth, FileProbeResult } from './utils/health.js';
+export { checkAdapterHealth, runHealthCheck } from './utils/health.js';
+// ── HTML Export ──────────────────────────────────────────────────────
+export type { HtmlIndexEntry } from './utils/html.js';
+export { renderHtmlIndex, renderSessionHtml } from './utils/html.js';
+// ── Incremental Handoffs ─────────────────────────────────────────────
+export { contextSince, createHandoffCursor, historyConfig } from './utils/incremental.js';
 // ── Session Operations ───────────────────────────────────────────────
+export type { AdapterRefreshResult, IndexStats } from './utils/incremental-index.js';
 export {
   buildIndex,
   ensureDirectories,
@@ -76,20 +124,72 @@ export {
   formatSession,
   getAllSessions,
   getCachedContext,
+  getHandoffCursor,
+  getLastIndexStats,
   getSessionsBySource,
   indexNeedsRebuild,
   loadIndex,
+  refreshIndex,
   saveContext,
+  saveHandoffCursor,
   sessionsToJsonl,
 } from './utils/index.js';
+// ── Lineage ──────────────────────────────────────────────────────────
+export type { LineageNode } from './utils/lineage.js';
+export {
+  formatHandoffMarker,
+  getAncestors,
+  getLineageTree,
+  linkLineage,
+  parseHandoffMarker,
+} from './utils/lineage.js';
 // ── Markdown ─────────────────────────────────────────────────────────
-export { generateHandoffMarkdown, getSourceLabels } from './utils/markdown.js';
+export { generateHandoffMarkdown, getSourceLabels, HANDOFF_DIRECTIVE } from './utils/markdown.js';
+// ── Merged Handoffs ──────────────────────────────────────────────────
+export { DEFAULT_PROJECT_WINDOW_MS, findProjectSessions, mergeContexts, parseDuration } from './utils/merge.js';
+// ── Open Problems ────────────────────────────────────────────────────
+export type { ToolOutcome } from './utils/open-problems.js';
+export { findOpenProblems } from './utils/open-problems.js';
+// ── Redaction ────────────────────────────────────────────────────────
+export type { RedactionReport, RedactionRule } from './utils/redact.js';
+export {
+  BUILTIN_REDACTION_RULES,
+  createRedactionReport,
+  formatRedactionReport,
+  redactContext,
+  redactText,
+  resolveRedactionRules,
+  shannonEntropy,
+} from './utils/redact.js';
 // ── Resume ───────────────────────────────────────────────────────────
 export {
   crossToolResume,
   getAvailableTools,
   getResumeCommand,
+  handoffFileName,
+  mergedResume,
   nativeResume,
   resolveCrossToolForwarding,
   resume,
 } from './utils/resume.js';
+// ── Search ───────────────────────────────────────────────────────────
+export type { SearchDocKind, SearchHit, SearchOptions } from './utils/search-index.js';
+export { searchSessions } from './utils/search-index.js';
+// ── Session Lookup ───────────────────────────────────────────────────
+export type { SessionQuery } from './utils/session-match.js';
+export {
+  fuzzyMatchSessions,
+  fuzzySessionScore,
+  matchSessionIds,
+  matchSessions,
+  parseSessionQuery,
+} from './utils/session-match.js';
+// ── Templates ────────────────────────────────────────────────────────
+export type { CompiledTemplate, TemplateHelper } from './utils/template.js';
+export { compileTemplate, renderTemplate } from './utils/template.js';
+// ── Tokens ───────────────────────────────────────────────────────────
+export type { BudgetedSection, HandoffSectionKey } from './utils/tokens.js';
+export { estimateSectionTokens, estimateTokens, fitSectionsToBudget, SECTION_PRIORITY } from './utils/tokens.js';
+// ── Watch ────────────────────────────────────────────────────────────
+export type { SessionChangeEvent, SessionChangeType, SessionWatcher, WatchOptions } from './utils/watch.js';
+export { diffSessions, watchSessions } from './utils/watch.js';
@@ -43,30 +43,51 @@ function shouldLog(level: LogLevel): boolean {
   return LEVELS[level] <= LEVELS[currentLevel];
 }
 
+/** Receives every log call regardless of level (e.g. to surface swallowed parse errors in diagnostics). */
+export type LogSink = (level: Exclude<LogLevel, 'silent'>, args: unknown[]) => void;
+
+const sinks = new Set<LogSink>();
+
+/** Register a log sink. Returns a function that removes it again. */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+function emit(level: Exclude<LogLevel, 'silent'>, args: unknown[]): void {
+  for (const sink of sinks) sink(level, args);
+}
+
 function formatArgs(args: unknown[]): string {
   return args.map((a) => (typeof a === 'string' ? a : JSON.stringify(a))).join(' ');
 }
 
 export const logger = {
   error(...args: unknown[]): void {
+    emit('error', args);
     if (shouldLog('error')) {
       console.error(`[continues:error] ${formatArgs(args)}`);
     }
   },
 
   warn(...args: unknown[]): void {
+    emit('warn', args);
     if (shouldLog('warn')) {
       console.warn(`[continues:warn] ${formatArgs(args)}`);
     }
   },
 
   info(...args: unknown[]): void {
+    emit('info', args);
     if (shouldLog('info')) {
       console.info(`[continues:info] ${formatArgs(args)}`);
     }
   },
 
   debug(...args: unknown[]): void {
+    emit('debug', args);
     if (shouldLog('debug')) {
       console.debug(`[continues:debug] ${formatArgs(args)}`);
     }
@@ -0,0 +1,442 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { VerbosityConfig } from '../config/index.js';
+import { getActiveConfig, getPreset } from '../config/index.js';
+import { logger } from '../logger.js';
+import type { ConversationMessage, SessionContext, SessionNotes, UnifiedSession } from '../types/index.js';
+import { countDiffStats, extractStdoutTail, formatEditDiff, formatNewFileDiff } from '../utils/diff.js';
+import { ancestors, listSubdirectories } from '../utils/fs-helpers.js';
+import { parseHandoffPrompt } from '../utils/lineage.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { cleanSummary, extractRepoFromCwd } from '../utils/parser-helpers.js';
+import { fileSummary, SummaryCollector, shellSummary } from '../utils/tool-summarizer.js';
+
+// ⚠️  FORMAT NOTE: Aider keeps no session store of its own. Each project holds a
+// markdown transcript, `.aider.chat.history.md`, appended to by every run and
+// split here into one session per `# aider chat started at` header:
+//   #### <line of user input>      — slash commands included (/run, /ask, ...)
+//   > <line of aider output>       — edits applied, shell commands, token use
+//   anything else                  — the model's reply, SEARCH/REPLACE blocks included
+// `.aider.input.history` next to it timestamps each input (`# <time>` then `+<line>`).
+
+const HISTORY_FILE = '.aider.chat.history.md';
+const INPUT_HISTORY_FILE = '.aider.input.history';
+
+/** Levels below each search root holding projects, e.g. ~/code/<org>/<repo> */
+const SEARCH_DEPTH = 3;
+
+const CHAT_HEADER = /^# aider chat started at (\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})/;
+
+/** One run of aider — the lines under a `# aider chat started at` header */
+interface AiderChat {
+  /** Header timestamp as written (local time) */
+  startedAt: string;
+  lines: string[];
+}
+
+/** Consecutive lines of the same kind */
+interface AiderBlock {
+  kind: 'input' | 'output' | 'reply';
+  lines: string[];
+}
+
+/** One entry of `.aider.input.history` */
+interface AiderInput {
+  at: Date;
+  text: string;
+}
+
+/** A SEARCH/REPLACE block proposed for a file, recorded once aider applies it */
+interface EditBlock {
+  search: string;
+  replace: string;
+}
+
+// ── Discovery ───────────────────────────────────────────────────────────────
+
+/** `root` and the directories below it, skipping hidden ones and node_modules */
+function projectDirs(root: string, depth = SEARCH_DEPTH): string[] {
+  const dirs = [root];
+  if (depth === 0) return dirs;
+  for (const dir of listSubdirectories(root)) {
+    const name = path.basename(dir);
+    if (name.startsWith('.') || name === 'node_modules') continue;
+    dirs.push(...projectDirs(dir, depth - 1));
+  }
+  return dirs;
+}
+
+/**
+ * Find Aider chat histories: in the configured `aider.searchRoots`
+ * and the projects below them, then in the current directory and its ancestors.
+ */
+export async function findAiderSessionFiles(): Promise<string[]> {
+  const searchRoots = getActiveConfig().aider?.searchRoots ?? [];
+  const dirs = [...searchRoots.flatMap((root) => projectDirs(path.resolve(root))), ...ancestors(process.cwd())];
+
+  const files = new Set<string>();
+  for (const dir of dirs) {
+    const file = path.join(dir, HISTORY_FILE);
+    if (fs.existsSync(file)) files.add(file);
+  }
+  return [...files];
+}
+
+// ── History Parsing ─────────────────────────────────────────────────────────
+
+/** Aider writes local times: `2025-03-14 09:26:53` or, in the input history, `2025-03-14 09:26:53.123456` */
+function parseLocalTime(value: string): Date | undefined {
+  const m = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?/.exec(value);
+  if (!m) return undefined;
+  const [, year, month, day, hour, minute, second, fraction = '0'] = m;
+  return new Date(+year, +month - 1, +day, +hour, +minute, +second, +fraction.padEnd(3, '0'));
+}
+
+function splitChats(content: string): AiderChat[] {
+  const chats: AiderChat[] = [];
+  for (const line of content.split('\n')) {
+    const header = CHAT_HEADER.exec(line);
+    if (header) chats.push({ startedAt: header[1], lines: [] });
+    else chats[chats.length - 1]?.lines.push(line);
+  }
+  return chats;
+}
+
+function readChats(filePath: string): AiderChat[] {
+  try {
+    return splitChats(fs.readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    logger.debug('aider: failed to read chat history', filePath, err);
+    return [];
+  }
+}
+
+/** Stable ID for a chat: its history file plus its start time */
+function chatId(filePath: string, chat: AiderChat): string {
+  return createHash('sha256').update(`${filePath}\n${chat.startedAt}`).digest('hex').slice(0, 16);
+}
+
+/** Group a chat's lines into user input, aider output and model replies */
+function splitBlocks(lines: string[]): AiderBlock[] {
+  const blocks: AiderBlock[] = [];
+  for (const raw of lines) {
+    const line = raw.replace(/\r$/, '');
+    let kind: AiderBlock['kind'];
+    let text: string;
+    if (line === '####' || line.startsWith('#### ')) {
+      kind = 'input';
+      text = line.slice(5);
+    } else if (line === '>' || line.startsWith('> ')) {
+      kind = 'output';
+      // Aider ends output lines with two spaces (a markdown line break)
+      text = line.slice(2).trimEnd();
+    } else {
+      // Blank lines only matter inside a reply
+      if (!line.trim() && blocks[blocks.length - 1]?.kind !== 'reply') continue;
+      kind = 'reply';
+      text = line;
+    }
+    const last = blocks[blocks.length - 1];
+    if (last?.kind === kind) last.lines.push(text);
+    else blocks.push({ kind, lines: [text] });
+  }
+  return blocks;
+}
+
+/** Inputs from `.aider.input.history` next to the chat history, oldest first */
+function readInputHistory(historyFile: string): AiderInput[] {
+  const inputFile = path.join(path.dirname(historyFile), INPUT_HISTORY_FILE);
+  if (!fs.existsSync(inputFile)) return [];
+
+  const inputs: AiderInput[] = [];
+  try {
+    let current: { at: Date; lines: string[] } | undefined;
+    const flush = () => {
+      if (current) inputs.push({ at: current.at, text: current.lines.join('\n').trim() });
+    };
+    for (const line of fs.readFileSync(inputFile, 'utf8').split('\n')) {
+      const at = line.startsWith('# ') ? parseLocalTime(line.slice(2)) : undefined;
+      if (at) {
+        flush();
+        current = { at, lines: [] };
+      } else if (line.startsWith('+') && current) {
+        current.lines.push(line.slice(1));
+      }
+    }
+    flush();
+  } catch (err) {
+    logger.debug('aider: failed to read input history', inputFile, err);
+  }
+  return inputs;
+}
+
+/** SEARCH/REPLACE blocks in a reply, by the file named just above each */
+function parseEditBlocks(reply: string[]): Map<string, EditBlock[]> {
+  const edits = new Map<string, EditBlock[]>();
+  for (let i = 0; i < reply.length; i++) {
+    if (!/^<{5,9} SEARCH\s*$/.test(reply[i])) continue;
+
+    let file = '';
+    for (let j = i - 1; j >= 0 && !file; j--) {
+      const candidate = reply[j].trim();
+      if (candidate && !candidate.startsWith('```')) file = candidate.replace(/^[*`]+|[*`:]+$/g, '');
+    }
+
+    const search: string[] = [];
+    const replace: string[] = [];
+    let target = search;
+    for (i++; i < reply.length && !/^>{5,9} REPLACE\s*$/.test(reply[i]); i++) {
+      if (target === search && /^={5,9}\s*$/.test(reply[i])) target = replace;
+      else target.push(reply[i]);
+    }
+    if (file) edits.set(file, [...(edits.get(file) ?? []), { search: search.join('\n'), replace: replace.join('\n') }]);
+  }
+  return edits;
+}
+
+/** `3.2k` → 3200 */
+function parseTokenCount(value: string): number {
+  const m = /^([\d.]+)([km]?)$/i.exec(value);
+  if (!m) return 0;
+  const scale = { '': 1, k: 1_000, m: 1_000_000 }[m[2].toLowerCase() as '' | 'k' | 'm'];
+  return Math.round(parseFloat(m[1]) * scale);
+}
+
+/** Slash commands whose argument is a message to the model */
+const MESSAGE_COMMANDS = /^\/(?:ask|code|architect|context)\s+/;
+
+/** Aider prompts and notices that are not part of a command's output */
+const OUTPUT_NOISE =
+  /^(?:Add (?:command )?output to the chat\?|Run shell commands?\?|Added \d+ lines? of output|Tokens: )/;
+
+interface AiderChatData {
+  messages: ConversationMessage[];
+  collector: SummaryCollector;
+  model?: string;
+  tokenUsage?: { input: number; output: number };
+}
+
+/**
+ * Walk one chat: user turns (timestamped from the input history), model
+ * replies, `/run` and `!` commands with their output, and every edit aider
+ * applied — with its diff when the reply holds the SEARCH/REPLACE block.
+ */
+function readChat(chat: AiderChat, inputs: AiderInput[], config: VerbosityConfig): AiderChatData {
+  const collector = new SummaryCollector(config);
+  const messages: ConversationMessage[] = [];
+  let model: string | undefined;
+  let tokenUsage: { input: number; output: number } | undefined;
+  let pendingEdits = new Map<string, EditBlock[]>();
+  let shell: { command: string; output: string[] } | undefined;
+  let nextInput = 0;
+
+  const flushShell = () => {
+    if (!shell) return;
+    const output = extractStdoutTail(shell.output.join('\n'), config.shell.stdoutLines);
+    collector.add('Bash', shellSummary(shell.command, output || undefined), {
+      data: { category: 'shell', command: shell.command, ...(output ? { stdoutTail: output } : {}) },
+    });
+    shell = undefined;
+  };
+
+  const recordEdit = (filePath: string) => {
+    const blocks = pendingEdits.get(filePath) ?? [];
+    pendingEdits.delete(filePath);
+    if (blocks.length === 0) {
+      collector.add('Edit', fileSummary('edit', filePath), {
+        data: { category: 'edit', filePath },
+        filePath,
+        isWrite: true,
+      });
+      return;
+    }
+    for (const { search, replace } of blocks) {
+      if (!search.trim()) {
+        const { diff } = formatNewFileDiff(replace, filePath, config.write.diffLines);
+        collector.add('Write', fileSummary('write', filePath, undefined, true), {
+          data: { category: 'write', filePath, isNewFile: true, diff, diffStats: countDiffStats(diff) },
+          filePath,
+          isWrite: true,
+          changes: [{ kind: 'write', filePath, content: replace, isNewFile: true }],
+        });
+      } else {
+        const { diff } = formatEditDiff(search, replace, filePath, config.edit.diffLines);
+        const diffStats = countDiffStats(diff);
+        collector.add('Edit', fileSummary('edit', filePath, diffStats), {
+          data: { category: 'edit', filePath, diff, diffStats },
+          filePath,
+          isWrite: true,
+          changes: [{ kind: 'edit', filePath, oldText: search, newText: replace }],
+        });
+      }
+    }
+  };
+
+  for (const block of splitBlocks(chat.lines)) {
+    if (block.kind === 'input') {
+      flushShell();
+      const text = block.lines.join('\n').trim();
+      const index = inputs.findIndex((input, i) => i >= nextInput && input.text === text);
+      if (index >= 0) nextInput = index + 1;
+      const timestamp = index >= 0 ? inputs[index].at : undefined;
+
+      const command = /^(?:\/run\s+|!)([\s\S]+)/.exec(text);
+      if (command) {
+        shell = { command: command[1].trim(), output: [] };
+      } else if (text && (!text.startsWith('/') || MESSAGE_COMMANDS.test(text))) {
+        messages.push({
+          role: 'user',
+          content: text.replace(MESSAGE_COMMANDS, ''),
+          ...(timestamp ? { timestamp } : {}),
+        });
+      }
+    } else if (block.kind === 'reply') {
+      flushShell();
+      const content = block.lines.join('\n').trim();
+      if (!content) continue;
+      messages.push({ role: 'assistant', content });
+      pendingEdits = parseEditBlocks(block.lines);
+    } else {
+      for (const line of block.lines) {
+        const applied = /^Applied edit to (.+)$/.exec(line);
+        const running = /^Running (.+)$/.exec(line);
+        const modelLine = /^(?:Main model|Models?): (\S+)/.exec(line);
+        const tokens = /^Tokens: ([\d.]+[km]?) sent, ([\d.]+[km]?) received/i.exec(line);
+        if (applied) {
+          recordEdit(applied[1].trim());
+        } else if (running) {
+          flushShell();
+          shell = { command: running[1].trim(), output: [] };
+        } else if (modelLine) {
+          model = modelLine[1];
+        } else if (tokens) {
+          tokenUsage = {
+            input: (tokenUsage?.input ?? 0) + parseTokenCount(tokens[1]),
+            output: (tokenUsage?.output ?? 0) + parseTokenCount(tokens[2]),
+          };
+        } else if (shell && !OUTPUT_NOISE.test(line)) {
+          shell.output.push(line);
+        }
+      }
+    }
+  }
+  flushShell();
+
+  return { messages, collector, model, tokenUsage };
+}
+
+/** Inputs typed between a chat's start and the next chat's */
+function inputsDuring(inputs: AiderInput[], start: Date, end?: Date): AiderInput[] {
+  return inputs.filter((input) => input.at >= start && (!end || input.at < end));
+}
+
+// ── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Parse all Aider chat histories into the unified format, one session per chat.
+ */
+export async function parseAiderSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findAiderSessionFiles());
+  const sessions: UnifiedSession[] = [];
+  const config = getPreset('standard');
+
+  for (const filePath of files) {
+    try {
+      const chats = readChats(filePath);
+      if (chats.length === 0) continue;
+
+      const fileStats = fs.statSync(filePath);
+      const inputs = readInputHistory(filePath);
+      const cwd = path.dirname(filePath);
+
+      chats.forEach((chat, i) => {
+        const createdAt = parseLocalTime(chat.startedAt) ?? fileStats.mtime;
+        const next = chats[i + 1] ? parseLocalTime(chats[i + 1].startedAt) : undefined;
+        const { messages, collector, model } = readChat(chat, inputsDuring(inputs, createdAt, next), config);
+        if (messages.length === 0 && collector.getSummaries().length === 0) return;
+
+        const lastInput = messages.reduce<Date | undefined>((latest, m) => m.timestamp ?? latest, undefined);
+        const firstUserMessage = messages.find((m) => m.role === 'user')?.content ?? '';
+        // One history holds many chats, so each is linked from its own first message
+        const parent = parseHandoffPrompt(firstUserMessage);
+
+        sessions.push({
+          id: chatId(filePath, chat),
+          source: 'aider',
+          cwd,
+          repo: extractRepoFromCwd(cwd),
+          lines: chat.lines.length,
+          bytes: Buffer.byteLength(chat.lines.join('\n')),
+          createdAt,
+          // Only the last chat is still being written to; earlier ones end at their last input
+          updatedAt: next ? (lastInput ?? createdAt) : fileStats.mtime,
+          originalPath: filePath,
+          summary: cleanSummary(firstUserMessage) || path.basename(cwd),
+          model,
+          ...(parent ? { parent } : {}),
+        });
+      });
+    } catch (err) {
+      logger.debug('aider: skipping unparseable chat history', filePath, err);
+    }
+  }
+
+  return sessions
+    .filter((s) => s.summary && s.summary.length > 0)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * Extract context from an Aider chat for cross-tool continuation.
+ */
+export async function extractAiderContext(session: UnifiedSession, config?: VerbosityConfig): Promise<SessionContext> {
+  const cfg = config ?? getPreset('standard');
+  const chats = readChats(session.originalPath);
+  const index = chats.findIndex((chat) => chatId(session.originalPath, chat) === session.id);
+
+  let data: AiderChatData = { messages: [], collector: new SummaryCollector(cfg) };
+  if (index >= 0) {
+    const start = parseLocalTime(chats[index].startedAt) ?? session.createdAt;
+    const next = chats[index + 1] ? parseLocalTime(chats[index + 1].startedAt) : undefined;
+    data = readChat(chats[index], inputsDuring(readInputHistory(session.originalPath), start, next), cfg);
+  } else {
+    logger.debug('aider: chat not found in history', session.originalPath, session.id);
+  }
+
+  const { messages, collector, model, tokenUsage } = data;
+  const trimmed = messages.slice(-cfg.recentMessages);
+  const toolSummaries = collector.getSummaries();
+  const filesModified = collector.getFilesModified();
+  const fileChanges = collector.getFileChanges();
+  const openProblems = collector.getOpenProblems();
+  const pendingTasks: string[] = [];
+
+  const sessionNotes: SessionNotes = {};
+  if (model) sessionNotes.model = model;
+  if (tokenUsage) sessionNotes.tokenUsage = tokenUsage;
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+
+  const enrichedSession = model ? { ...session, model } : session;
+
+  const markdown = generateHandoffMarkdown(
+    enrichedSession,
+    trimmed,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    cfg,
+  );
+
+  return {
+    session: enrichedSession,
+    recentMessages: trimmed,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    markdown,
+  };
+}
@@ -5,14 +5,17 @@ import type {
   ConversationMessage,
   SessionContext,
   SessionNotes,
+  TodoItem,
   ToolUsageSummary,
   UnifiedSession,
 } from '../types/index.js';
+import { TODO_TOOLS } from '../types/tool-names.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
 import { cleanSummary, homeDir } from '../utils/parser-helpers.js';
 import { findFiles } from '../utils/fs-helpers.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
+import { parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
 import { truncate } from '../utils/tool-summarizer.js';
 
 // ── Amp Thread JSON shape ───────────────────────────────────────────────────
@@ -22,6 +25,9 @@ interface AmpContentBlock {
   type: string;
   text?: string;
   provider?: string;
+  /** tool_use blocks */
+  name?: string;
+  input?: unknown;
 }
 
 interface AmpMessage {
@@ -61,7 +67,7 @@ const AMP_BASE_DIR = process.env.XDG_DATA_HOME
 /**
  * Find all Amp thread JSON files
  */
-function findSessionFiles(): string[] {
+export function findAmpSessionFiles(): string[] {
   return findFiles(AMP_BASE_DIR, {
     match: (entry) => entry.name.endsWith('.json'),
     recursive: false,
@@ -101,6 +107,21 @@ function extractMessageText(message: AmpMessage): string {
     .trim();
 }
 
+/**
+ * The task list from the thread's last todo_write call
+ */
+function extractTodos(thread: AmpThread): TodoItem[] | undefined {
+  let todos: TodoItem[] | undefined;
+  for (const msg of thread.messages) {
+    for (const block of msg.content ?? []) {
+      if (block.type === 'tool_use' && block.name && TODO_TOOLS.has(block.name)) {
+        todos = parseTodoList(block.input) ?? todos;
+      }
+    }
+  }
+  return todos;
+}
+
 /**
  * Extract the first real user message for use as a session summary
  */
@@ -169,8 +190,8 @@ function extractSessionNotes(thread: AmpThread): SessionNotes {
 /**
  * Parse all Amp sessions
  */
-export async function parseAmpSessions(): Promise<UnifiedSession[]> {
-  const files = findSessionFiles();
+export async function parseAmpSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? findAmpSessionFiles();
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
@@ -239,8 +260,10 @@ export async function extractAmpContext(session: UnifiedSession, config?: Verbos
       }
     }
 
-    // Scan last few assistant messages for pending-task signals
-    const assistantMessages = thread.messages.filter((m) => m.role === 'assistant');
+    // The todo list is the real plan; without one, scan the last few assistant messages for pending-task signals
+    const todos = extractTodos(thread);
+    if (todos) pendingTasks.push(...pendingTasksFromTodos(todos, cfg.pendingTasks.maxTasks));
+    const assistantMessages = todos ? [] : thread.messages.filter((m) => m.role === 'assistant');
     for (const msg of assistantMessages.slice(-3)) {
       if (pendingTasks.length >= 5) break;
       const text = extractMessageText(msg).toLowerCase();
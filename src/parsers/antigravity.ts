@@ -99,7 +99,7 @@ function parseTimestamp(ts: string, fallback: Date): Date {
 }
 
 /** Find all *.jsonl session files under the code_tracker project dirs */
-async function findSessionFiles(): Promise<string[]> {
+export async function findAntigravitySessionFiles(): Promise<string[]> {
   if (!fs.existsSync(ANTIGRAVITY_BASE_DIR)) return [];
 
   const results: string[] = [];
@@ -128,8 +128,8 @@ function projectNameFromPath(filePath: string): string {
 /**
  * Parse all Antigravity sessions from ~/.gemini/antigravity/code_tracker/
  */
-export async function parseAntigravitySessions(): Promise<UnifiedSession[]> {
-  const files = await findSessionFiles();
+export async function parseAntigravitySessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findAntigravitySessionFiles());
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
@@ -14,6 +14,7 @@ import {
   extractThinkingHighlights,
   isThinkingTool,
 } from '../utils/tool-extraction.js';
+import { pendingTasksFromTodos } from '../utils/todos.js';
 import { truncate } from '../utils/tool-summarizer.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
@@ -25,7 +26,7 @@ const CLAUDE_PROJECTS_DIR = process.env.CLAUDE_CONFIG_DIR
 /**
  * Find all Claude session files recursively
  */
-async function findSessionFiles(): Promise<string[]> {
+export async function findClaudeSessionFiles(): Promise<string[]> {
   return findFiles(CLAUDE_PROJECTS_DIR, {
     match: (entry) =>
       entry.name.endsWith('.jsonl') &&
@@ -73,8 +74,8 @@ async function parseSessionInfo(filePath: string): Promise<{
 /**
  * Parse all Claude sessions
  */
-export async function parseClaudeSessions(): Promise<UnifiedSession[]> {
-  const files = await findSessionFiles();
+export async function parseClaudeSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findClaudeSessionFiles());
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
@@ -369,9 +370,15 @@ export async function extractClaudeContext(
       content: m.message!.content as Array<{ type: string; [key: string]: unknown }>,
     }));
 
-  const { summaries: toolSummaries, filesModified } = extractAnthropicToolData(anthropicMsgs, cfg);
+  const { summaries: toolSummaries, filesModified, fileChanges, todos, openProblems } = extractAnthropicToolData(
+    anthropicMsgs,
+    cfg,
+  );
   const sessionNotes = extractSessionNotes(messages, cfg);
-  const pendingTasks: string[] = [];
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+  // The last TodoWrite list is the real remaining plan
+  const pendingTasks: string[] = todos ? pendingTasksFromTodos(todos, cfg.pendingTasks.maxTasks) : [];
 
   // ── Extract reasoning steps from thinking tool blocks ─────────────────
   if (cfg.mcp.thinkingTools.extractReasoning) {
@@ -398,8 +405,8 @@ export async function extractClaudeContext(
     }
   }
 
-  // ── Gap 5: Extract pending tasks from thinking tools ──────────────────
-  if (cfg.pendingTasks.extractFromThinking) {
+  // ── Gap 5: Extract pending tasks from thinking tools (when no todo list) ──
+  if (cfg.pendingTasks.extractFromThinking && !todos) {
     const thinkingTasks = extractPendingFromThinking(messages, cfg.pendingTasks.maxTasks);
     pendingTasks.push(...thinkingTasks);
   }
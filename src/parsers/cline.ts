@@ -8,8 +8,10 @@ import type {
   UnifiedSession,
 } from '../types/index.js';
 import type { SessionSource } from '../types/tool-names.js';
+import { editorUserDirs, VSCODE_FAMILY } from '../utils/editor-storage.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
-import { cleanSummary, homeDir } from '../utils/parser-helpers.js';
+import { cleanSummary } from '../utils/parser-helpers.js';
+import { parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
 import { truncate } from '../utils/tool-summarizer.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
@@ -54,37 +56,12 @@ interface ApiReqMeta {
 // ── Path Discovery ──────────────────────────────────────────────────────────
 
 /**
- * Build candidate globalStorage base directories for the current platform.
- * Covers VS Code, VS Code Insiders, and Cursor on macOS / Linux / Windows.
+ * Candidate globalStorage directories: one per VS Code–family product install
+ * (VS Code, Insiders, VSCodium, Code - OSS, Cursor, Windsurf, Kiro — with
+ * Flatpak and Snap installs on Linux) and per configured editor base.
  */
-function getGlobalStorageBases(): string[] {
-  const home = homeDir();
-  const bases: string[] = [];
-
-  if (process.platform === 'darwin') {
-    const appSupport = path.join(home, 'Library', 'Application Support');
-    bases.push(
-      path.join(appSupport, 'Code', 'User', 'globalStorage'),
-      path.join(appSupport, 'Code - Insiders', 'User', 'globalStorage'),
-      path.join(appSupport, 'Cursor', 'User', 'globalStorage'),
-      path.join(appSupport, 'Windsurf', 'User', 'globalStorage'),
-    );
-  } else if (process.platform === 'linux') {
-    bases.push(
-      path.join(home, '.config', 'Code', 'User', 'globalStorage'),
-      path.join(home, '.config', 'Code - Insiders', 'User', 'globalStorage'),
-      path.join(home, '.config', 'Cursor', 'User', 'globalStorage'),
-    );
-  } else if (process.platform === 'win32') {
-    const appData = process.env.APPDATA || path.join(home, 'AppData', 'Roaming');
-    bases.push(
-      path.join(appData, 'Code', 'User', 'globalStorage'),
-      path.join(appData, 'Code - Insiders', 'User', 'globalStorage'),
-      path.join(appData, 'Cursor', 'User', 'globalStorage'),
-    );
-  }
-
-  return bases;
+export function getGlobalStorageBases(): string[] {
+  return editorUserDirs(VSCODE_FAMILY).map((userDir) => path.join(userDir, 'globalStorage'));
 }
 
 /**
@@ -277,10 +254,19 @@ function extractReasoning(messages: ClineRawMessage[], max: number): string[] {
 }
 
 /**
- * Extract pending tasks from the last assistant message.
- * Looks for TODO, NEXT, REMAINING patterns in completion results.
+ * Extract pending tasks from the last focus-chain checklist (`task_progress`)
+ * or, without one, from the last assistant message — looking for TODO, NEXT,
+ * REMAINING patterns in completion results.
  */
 function extractPendingTasks(messages: ClineRawMessage[], max: number): string[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.type !== 'say' || msg.say !== 'task_progress' || !msg.text) continue;
+    const todos = parseTodoList(msg.text);
+    if (todos) return pendingTasksFromTodos(todos, max);
+    break;
+  }
+
   const tasks: string[] = [];
 
   // Walk backwards to find the last completion_result or assistant text
@@ -312,12 +298,22 @@ function extractPendingTasks(messages: ClineRawMessage[], max: number): string[]
 
 // ── Session Parsing (shared) ────────────────────────────────────────────────
 
+/**
+ * List the ui_messages.json files of every task for one Cline-family extension.
+ */
+function findUiFilesForSource(filterSource: ClineSource): string[] {
+  return discoverTaskDirs()
+    .filter(({ source }) => source === filterSource)
+    .map(({ taskDir }) => path.join(taskDir, 'ui_messages.json'));
+}
+
 /**
  * Discover and parse sessions for all Cline-family extensions, optionally
- * filtering to a single source variant.
+ * filtering to a single source variant and/or a subset of ui_messages.json files.
  */
-async function parseSessionsForSource(filterSource?: ClineSource): Promise<UnifiedSession[]> {
+async function parseSessionsForSource(filterSource?: ClineSource, uiFiles?: string[]): Promise<UnifiedSession[]> {
   const taskEntries = discoverTaskDirs();
+  const wanted = uiFiles ? new Set(uiFiles) : null;
   const sessions: UnifiedSession[] = [];
 
   for (const { taskDir, taskId, source } of taskEntries) {
@@ -325,6 +321,7 @@ async function parseSessionsForSource(filterSource?: ClineSource): Promise<Unifi
 
     try {
       const uiFile = path.join(taskDir, 'ui_messages.json');
+      if (wanted && !wanted.has(uiFile)) continue;
       const messages = readUiMessages(uiFile);
       if (messages.length === 0) continue;
 
@@ -414,8 +411,13 @@ async function extractContextShared(
 // ── Public API: Cline ───────────────────────────────────────────────────────
 
 /** Discover sessions for Cline only */
-export async function parseClineSessions(): Promise<UnifiedSession[]> {
-  return parseSessionsForSource('cline');
+export async function parseClineSessions(uiFiles?: string[]): Promise<UnifiedSession[]> {
+  return parseSessionsForSource('cline', uiFiles);
+}
+
+/** List the task files backing Cline sessions */
+export async function findClineSessionFiles(): Promise<string[]> {
+  return findUiFilesForSource('cline');
 }
 
 /** Extract context from a Cline session */
@@ -429,8 +431,13 @@ export async function extractClineContext(
 // ── Public API: Roo Code ────────────────────────────────────────────────────
 
 /** Discover sessions for Roo Code only */
-export async function parseRooCodeSessions(): Promise<UnifiedSession[]> {
-  return parseSessionsForSource('roo-code');
+export async function parseRooCodeSessions(uiFiles?: string[]): Promise<UnifiedSession[]> {
+  return parseSessionsForSource('roo-code', uiFiles);
+}
+
+/** List the task files backing Roo Code sessions */
+export async function findRooCodeSessionFiles(): Promise<string[]> {
+  return findUiFilesForSource('roo-code');
 }
 
 /** Extract context from a Roo Code session (delegates to shared implementation) */
@@ -444,8 +451,13 @@ export async function extractRooCodeContext(
 // ── Public API: Kilo Code ───────────────────────────────────────────────────
 
 /** Discover sessions for Kilo Code only */
-export async function parseKiloCodeSessions(): Promise<UnifiedSession[]> {
-  return parseSessionsForSource('kilo-code');
+export async function parseKiloCodeSessions(uiFiles?: string[]): Promise<UnifiedSession[]> {
+  return parseSessionsForSource('kilo-code', uiFiles);
+}
+
+/** List the task files backing Kilo Code sessions */
+export async function findKiloCodeSessionFiles(): Promise<string[]> {
+  return findUiFilesForSource('kilo-code');
 }
 
 /** Extract context from a Kilo Code session (delegates to shared implementation) */
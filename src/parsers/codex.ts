@@ -3,8 +3,11 @@ import * as path from 'path';
 import { logger } from '../logger.js';
 import type {
   ConversationMessage,
+  FileChangeSummary,
+  OpenProblem,
   SessionContext,
   SessionNotes,
+  TodoItem,
   ToolUsageSummary,
   UnifiedSession,
 } from '../types/index.js';
@@ -14,6 +17,8 @@ import { getFileStats, readJsonlFile, scanJsonlHead } from '../utils/jsonl.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
 import { cleanSummary, extractRepo, homeDir } from '../utils/parser-helpers.js';
 import { countDiffStats, extractStdoutTail } from '../utils/diff.js';
+import { opsFromCodexPatch } from '../utils/file-changes.js';
+import { describeTodoList, parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
 import {
@@ -33,7 +38,7 @@ const CODEX_SESSIONS_DIR = process.env.CODEX_HOME
 /**
  * Find all Codex session files recursively
  */
-async function findSessionFiles(): Promise<string[]> {
+export async function findCodexSessionFiles(): Promise<string[]> {
   return findFiles(CODEX_SESSIONS_DIR, {
     match: (entry) => entry.name.startsWith('rollout-') && entry.name.endsWith('.jsonl'),
   });
@@ -90,8 +95,8 @@ function parseFilename(filename: string): { timestamp: Date; id: string } | null
 /**
  * Parse all Codex sessions
  */
-export async function parseCodexSessions(): Promise<UnifiedSession[]> {
-  const files = await findSessionFiles();
+export async function parseCodexSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findCodexSessionFiles());
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
@@ -198,7 +203,16 @@ function trackShellFileWrites(cmd: string, collector: SummaryCollector): void {
 /**
  * Extract tool usage summaries and files modified using shared SummaryCollector
  */
-function extractToolData(messages: CodexMessage[], config?: VerbosityConfig): { summaries: ToolUsageSummary[]; filesModified: string[] } {
+function extractToolData(
+  messages: CodexMessage[],
+  config?: VerbosityConfig,
+): {
+  summaries: ToolUsageSummary[];
+  filesModified: string[];
+  fileChanges: FileChangeSummary[];
+  todos?: TodoItem[];
+  openProblems: OpenProblem[];
+} {
   const collector = new SummaryCollector(config);
   const outputsById = new Map<string, string>();
 
@@ -262,7 +276,10 @@ function extractToolData(messages: CodexMessage[], config?: VerbosityConfig): {
               data: { category: 'ask', question },
             });
           } else if (name === 'update_plan') {
-            collector.add('plan', `plan: "${truncate(String(args.explanation || ''), 60)}"`);
+            const items = parseTodoList(args);
+            collector.add('plan', `plan: "${truncate(String(args.explanation || (items ? describeTodoList(items) : '')), 60)}"`, {
+              ...(items ? { data: { category: 'todo' as const, items } } : {}),
+            });
           } else if (name === 'view_image') {
             collector.add('view_image', `image: ${truncate(String(args.path || args.url || ''), 60)}`);
           } else if (name.startsWith('mcp__') || name.includes('-')) {
@@ -310,6 +327,7 @@ function extractToolData(messages: CodexMessage[], config?: VerbosityConfig): {
             },
             filePath: files[0],
             isWrite: true,
+            changes: opsFromCodexPatch(input),
           });
           for (const f of files) collector.trackFile(f);
         } else {
@@ -341,7 +359,13 @@ function extractToolData(messages: CodexMessage[], config?: VerbosityConfig): {
     }
   }
 
-  return { summaries: collector.getSummaries(), filesModified: collector.getFilesModified() };
+  return {
+    summaries: collector.getSummaries(),
+    filesModified: collector.getFilesModified(),
+    fileChanges: collector.getFileChanges(),
+    todos: collector.getTodos(),
+    openProblems: collector.getOpenProblems(),
+  };
 }
 
 /**
@@ -391,9 +415,14 @@ export async function extractCodexContext(session: UnifiedSession, config?: Verb
   const resolvedConfig = config ?? getPreset('standard');
   const messages = await readAllMessages(session.originalPath);
 
-  const { summaries: toolSummaries, filesModified } = extractToolData(messages, resolvedConfig);
+  const { summaries: toolSummaries, filesModified, fileChanges, todos, openProblems } = extractToolData(
+    messages,
+    resolvedConfig,
+  );
   const sessionNotes = extractSessionNotes(messages);
-  const pendingTasks: string[] = [];
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+  const pendingTasks = todos ? pendingTasksFromTodos(todos, resolvedConfig.pendingTasks.maxTasks) : [];
 
   // Codex sessions contain both response_item and event_msg for the same conversation turns.
   // Collect from both sources separately to avoid duplicates, then merge preferring response_item.
@@ -0,0 +1,420 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { VerbosityConfig } from '../config/index.js';
+import { getPreset } from '../config/index.js';
+import { logger } from '../logger.js';
+import type { ConversationMessage, SessionContext, SessionNotes, UnifiedSession } from '../types/index.js';
+import type {
+  ContinueContextItem,
+  ContinueHistoryItem,
+  ContinueSession,
+  ContinueSessionIndexEntry,
+  ContinueToolCallState,
+} from '../types/schemas.js';
+import { ContinueSessionIndexEntrySchema, ContinueSessionSchema } from '../types/schemas.js';
+import { countDiffStats, formatEditDiff, formatNewFileDiff } from '../utils/diff.js';
+import { getFileStats } from '../utils/jsonl.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { cleanSummary, extractRepoFromCwd, homeDir } from '../utils/parser-helpers.js';
+import {
+  fetchSummary,
+  fileSummary,
+  globSummary,
+  grepSummary,
+  mcpSummary,
+  SummaryCollector,
+  searchSummary,
+  shellSummary,
+  truncate,
+} from '../utils/tool-summarizer.js';
+
+const CONTINUE_SESSIONS_DIR = path.join(
+  process.env.CONTINUE_GLOBAL_DIR || path.join(homeDir(), '.continue'),
+  'sessions',
+);
+
+/** Title Continue gives a session until the first reply names it */
+const UNTITLED = 'New Session';
+
+/** Workspace folders and file paths are stored as paths or `file://` URIs */
+function toPath(value: string | undefined): string {
+  if (!value) return '';
+  if (!value.startsWith('file://')) return value;
+  try {
+    return fileURLToPath(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read the session index, ~/.continue/sessions/sessions.json.
+ * Entries that don't match the schema are skipped.
+ */
+function readSessionIndex(sessionsDir = CONTINUE_SESSIONS_DIR): ContinueSessionIndexEntry[] {
+  const indexPath = path.join(sessionsDir, 'sessions.json');
+  if (!fs.existsSync(indexPath)) return [];
+  try {
+    const raw = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((entry) => {
+      const parsed = ContinueSessionIndexEntrySchema.safeParse(entry);
+      return parsed.success ? [parsed.data] : [];
+    });
+  } catch (err) {
+    logger.debug('continue-dev: failed to read session index', indexPath, err);
+    return [];
+  }
+}
+
+function sessionFilePath(sessionId: string): string {
+  return path.join(CONTINUE_SESSIONS_DIR, `${sessionId}.json`);
+}
+
+/**
+ * Find the session files listed in the index.
+ * Structure: ~/.continue/sessions/<sessionId>.json, indexed by sessions.json
+ */
+export async function findContinueSessionFiles(): Promise<string[]> {
+  return readSessionIndex()
+    .map((entry) => sessionFilePath(entry.sessionId))
+    .filter((filePath) => fs.existsSync(filePath));
+}
+
+function readSessionFile(filePath: string): ContinueSession | null {
+  try {
+    const parsed = ContinueSessionSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    if (parsed.success) return parsed.data;
+    logger.debug('continue-dev: session validation failed', filePath, parsed.error.message);
+  } catch (err) {
+    logger.debug('continue-dev: failed to read session', filePath, err);
+  }
+  return null;
+}
+
+/** Text of a history item's message; image parts are left out */
+function messageText(item: ContinueHistoryItem): string {
+  const { content } = item.message;
+  if (typeof content === 'string') return content.trim();
+  return content
+    .filter((part) => part.type === 'text' && part.text)
+    .map((part) => part.text)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Parse Continue.dev sessions from the index: titles, workspace folders and
+ * creation dates come from sessions.json, so session files are only opened
+ * for sessions still titled "New Session".
+ */
+export async function parseContinueSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findContinueSessionFiles());
+  const sessions: UnifiedSession[] = [];
+
+  // Each sessions directory has its own index, keyed by session id
+  const indexes = new Map<string, Map<string, ContinueSessionIndexEntry>>();
+  const indexFor = (dir: string) => {
+    let index = indexes.get(dir);
+    if (!index) {
+      index = new Map(readSessionIndex(dir).map((entry) => [entry.sessionId, entry]));
+      indexes.set(dir, index);
+    }
+    return index;
+  };
+
+  for (const filePath of files) {
+    try {
+      const entry = indexFor(path.dirname(filePath)).get(path.basename(filePath, '.json'));
+      if (!entry) continue;
+
+      let summary = entry.title && entry.title !== UNTITLED ? cleanSummary(entry.title) : '';
+      if (!summary) {
+        const firstUser = readSessionFile(filePath)?.history.find((item) => item.message.role === 'user');
+        summary = firstUser ? cleanSummary(messageText(firstUser)) : '';
+      }
+      if (!summary) continue;
+
+      const fileStats = fs.statSync(filePath);
+      const { lines, bytes } = await getFileStats(filePath);
+      const cwd = toPath(entry.workspaceDirectory);
+      const created = Number(entry.dateCreated);
+
+      sessions.push({
+        id: entry.sessionId,
+        source: 'continue-dev',
+        cwd,
+        repo: extractRepoFromCwd(cwd),
+        lines,
+        bytes,
+        createdAt: Number.isFinite(created) && created > 0 ? new Date(created) : fileStats.birthtime,
+        updatedAt: fileStats.mtime,
+        originalPath: filePath,
+        summary,
+      });
+    } catch (err) {
+      logger.debug('continue-dev: skipping unparseable session', filePath, err);
+    }
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/** Tool call arguments are a JSON string in the OpenAI function-call shape */
+function parseArgs(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Record one tool call. Continue's built-in tools get their own categories;
+ * anything else (MCP servers, custom tools) is an MCP call.
+ */
+function addToolCall(
+  collector: SummaryCollector,
+  state: ContinueToolCallState,
+  output: string,
+  config: VerbosityConfig,
+): void {
+  const name = state.toolCall.function.name;
+  const args = parseArgs(state.toolCall.function.arguments);
+  const isError = state.status === 'errored';
+  const filePath = toPath(str(args.filepath));
+
+  switch (name) {
+    case 'run_terminal_command': {
+      const command = str(args.command);
+      collector.add('Bash', shellSummary(command, output || undefined), {
+        data: {
+          category: 'shell',
+          command,
+          ...(output ? { stdoutTail: output.slice(-500) } : {}),
+          ...(isError ? { errored: true, errorMessage: output.slice(0, 200) } : {}),
+        },
+        isError,
+      });
+      return;
+    }
+    case 'read_file':
+    case 'read_file_range':
+      collector.add('Read', fileSummary('read', filePath), {
+        data: {
+          category: 'read',
+          filePath,
+          ...(typeof args.startLine === 'number' ? { lineStart: args.startLine } : {}),
+          ...(typeof args.endLine === 'number' ? { lineEnd: args.endLine } : {}),
+        },
+        filePath,
+        isError,
+      });
+      return;
+    case 'create_new_file': {
+      const contents = str(args.contents);
+      const { diff } = formatNewFileDiff(contents, filePath, config.write.diffLines);
+      const diffStats = countDiffStats(diff);
+      collector.add('Write', fileSummary('write', filePath, diffStats, true), {
+        data: { category: 'write', filePath, isNewFile: true, diff, diffStats },
+        filePath,
+        isWrite: true,
+        isError,
+        changes: [{ kind: 'write', filePath, content: contents }],
+      });
+      return;
+    }
+    case 'single_find_and_replace':
+    case 'multi_edit': {
+      const edits =
+        name === 'multi_edit' && Array.isArray(args.edits)
+          ? (args.edits as Record<string, unknown>[])
+          : [{ old_string: args.old_string, new_string: args.new_string }];
+      const diffs = edits.map(
+        (e) => formatEditDiff(str(e.old_string), str(e.new_string), filePath, config.edit.diffLines).diff,
+      );
+      const diff = diffs.join('\n');
+      const diffStats = countDiffStats(diff);
+      collector.add('Edit', fileSummary('edit', filePath, diffStats), {
+        data: {
+          category: 'edit',
+          filePath,
+          diff,
+          diffStats,
+          ...(isError ? { errorMessage: output.slice(0, 200) } : {}),
+        },
+        filePath,
+        isWrite: true,
+        isError,
+        changes: edits.map((e) => ({
+          kind: 'edit' as const,
+          filePath,
+          oldText: str(e.old_string),
+          newText: str(e.new_string),
+        })),
+      });
+      return;
+    }
+    case 'edit_existing_file':
+      // `changes` is a sketch with "// ... existing code ..." markers, not a replayable edit
+      collector.add('Edit', fileSummary('edit', filePath), {
+        data: { category: 'edit', filePath },
+        filePath,
+        isWrite: true,
+        isError,
+      });
+      return;
+    case 'grep_search':
+      collector.add('Grep', grepSummary(str(args.query)), {
+        data: { category: 'grep', pattern: str(args.query) },
+        isError,
+      });
+      return;
+    case 'file_glob_search':
+      collector.add('Glob', globSummary(str(args.pattern)), {
+        data: { category: 'glob', pattern: str(args.pattern) },
+        isError,
+      });
+      return;
+    case 'search_web':
+      collector.add('WebSearch', searchSummary(str(args.query)), {
+        data: {
+          category: 'search',
+          query: str(args.query),
+          ...(output ? { resultPreview: output.slice(0, 100) } : {}),
+        },
+        isError,
+      });
+      return;
+    case 'fetch_url_content':
+      collector.add('WebFetch', fetchSummary(str(args.url)), {
+        data: { category: 'fetch', url: str(args.url), ...(output ? { resultPreview: output.slice(0, 100) } : {}) },
+        isError,
+      });
+      return;
+    default: {
+      const argsStr = truncate(JSON.stringify(args), config.mcp.paramChars);
+      collector.add(name, mcpSummary(name, argsStr, output || undefined), {
+        data: { category: 'mcp', toolName: name, params: argsStr, ...(output ? { result: output.slice(0, 100) } : {}) },
+        isError,
+      });
+    }
+  }
+}
+
+/**
+ * Context the user attached to a message: files become reads, other
+ * providers (`@terminal`, `@docs`, `@codebase`, …) are listed under Context.
+ */
+function addContextItem(collector: SummaryCollector, item: ContinueContextItem): void {
+  if (item.uri?.type === 'file') {
+    const filePath = toPath(item.uri.value);
+    collector.add('Read', fileSummary('read', filePath), { data: { category: 'read', filePath }, filePath });
+    return;
+  }
+  const provider = item.id?.providerTitle ?? 'context';
+  collector.add('Context', `@${provider}${item.name ? ` ${item.name}` : ''}`);
+}
+
+function toolCallStates(item: ContinueHistoryItem): ContinueToolCallState[] {
+  if (item.toolCallStates) return item.toolCallStates;
+  if (item.toolCallState) return [item.toolCallState];
+  // Older sessions: calls on the message, results in the following `tool` messages
+  return (item.message.toolCalls ?? []).map((toolCall) => ({ toolCallId: toolCall.id, toolCall, status: 'done' }));
+}
+
+function extractToolData(history: ContinueHistoryItem[], config: VerbosityConfig): SummaryCollector {
+  const collector = new SummaryCollector(config);
+
+  const toolMessages = new Map<string, string>();
+  for (const item of history) {
+    if (item.message.role === 'tool' && item.message.toolCallId) {
+      toolMessages.set(item.message.toolCallId, messageText(item));
+    }
+  }
+
+  for (const item of history) {
+    if (item.message.role === 'user') {
+      for (const contextItem of item.contextItems) addContextItem(collector, contextItem);
+    }
+    if (item.message.role !== 'assistant') continue;
+
+    for (const state of toolCallStates(item)) {
+      if (state.status === 'canceled') continue;
+      const output =
+        state.output?.map((o) => o.content ?? '').join('\n') ||
+        (state.toolCallId ? toolMessages.get(state.toolCallId) : undefined) ||
+        '';
+      addToolCall(collector, state, output.trim(), config);
+    }
+  }
+
+  return collector;
+}
+
+/**
+ * Extract context from a Continue.dev session for cross-tool continuation.
+ */
+export async function extractContinueContext(
+  session: UnifiedSession,
+  config?: VerbosityConfig,
+): Promise<SessionContext> {
+  const cfg = config ?? getPreset('standard');
+  const history = readSessionFile(session.originalPath)?.history ?? [];
+
+  const recentMessages: ConversationMessage[] = [];
+  let model: string | undefined;
+  let input = 0;
+  let output = 0;
+  for (const item of history) {
+    const { role, usage } = item.message;
+    for (const log of item.promptLogs ?? []) model = log.modelTitle ?? model;
+    input += usage?.promptTokens ?? 0;
+    output += usage?.completionTokens ?? 0;
+
+    if (role !== 'user' && role !== 'assistant') continue;
+    const content = messageText(item);
+    if (content) recentMessages.push({ role, content });
+  }
+  const trimmed = recentMessages.slice(-cfg.recentMessages);
+
+  const collector = extractToolData(history, cfg);
+  const toolSummaries = collector.getSummaries();
+  const filesModified = collector.getFilesModified();
+  const fileChanges = collector.getFileChanges();
+  const openProblems = collector.getOpenProblems();
+  const pendingTasks: string[] = [];
+
+  const sessionNotes: SessionNotes = {};
+  if (model) sessionNotes.model = model;
+  if (input || output) sessionNotes.tokenUsage = { input, output };
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+
+  const markdown = generateHandoffMarkdown(
+    session,
+    trimmed,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    cfg,
+  );
+
+  return {
+    session,
+    recentMessages: trimmed,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    markdown,
+  };
+}
@@ -0,0 +1,472 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { VerbosityConfig } from '../config/index.js';
+import { getPreset } from '../config/index.js';
+import { logger } from '../logger.js';
+import type { ConversationMessage, SessionContext, SessionNotes, UnifiedSession } from '../types/index.js';
+import type { CopilotChatRequest, CopilotChatResponsePart, CopilotChatSession } from '../types/schemas.js';
+import { CopilotChatSessionIndexSchema, CopilotChatSessionSchema } from '../types/schemas.js';
+import { formatNewFileDiff } from '../utils/diff.js';
+import {
+  editorUserDirs,
+  fileUriToPath,
+  listWorkspaceStorage,
+  openStateDb,
+  readStateValue,
+  readWorkspaceFolder,
+} from '../utils/editor-storage.js';
+import { findFiles } from '../utils/fs-helpers.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { cleanSummary, extractRepoFromCwd } from '../utils/parser-helpers.js';
+import { describeTodoList, parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
+import {
+  fetchSummary,
+  fileSummary,
+  globSummary,
+  grepSummary,
+  mcpSummary,
+  SummaryCollector,
+  shellSummary,
+  truncate,
+} from '../utils/tool-summarizer.js';
+
+/** VS Code builds whose chat history is read */
+const VSCODE_PRODUCTS = ['Code', 'Code - Insiders'];
+
+/** Key of the pre-chatSessions store: every chat of the workspace as one JSON array */
+const LEGACY_SESSIONS_KEY = 'interactive.sessions';
+
+/** Key of the title index of the chatSessions files */
+const SESSION_INDEX_KEY = 'chat.ChatSessionStore.index';
+
+/** `User` directories of the VS Code builds, one per install */
+export function getCopilotChatUserDirs(): string[] {
+  return editorUserDirs(VSCODE_PRODUCTS);
+}
+
+/**
+ * Find Copilot Chat session stores.
+ * Structure: <User>/workspaceStorage/<hash>/chatSessions/<sessionId>.json, the
+ * workspace's state.vscdb (older chats), and globalStorage/emptyWindowChatSessions/
+ * for windows without a folder
+ */
+export async function findCopilotChatSessionFiles(): Promise<string[]> {
+  const isJson = (entry: fs.Dirent) => entry.name.endsWith('.json');
+  const userDirs = getCopilotChatUserDirs();
+  const results: string[] = [];
+
+  for (const workspace of listWorkspaceStorage(userDirs)) {
+    results.push(...findFiles(path.join(workspace.dir, 'chatSessions'), { match: isJson, recursive: false }));
+    const stateDb = path.join(workspace.dir, 'state.vscdb');
+    if (fs.existsSync(stateDb)) results.push(stateDb);
+  }
+  for (const userDir of userDirs) {
+    const emptyWindowDir = path.join(userDir, 'globalStorage', 'emptyWindowChatSessions');
+    results.push(...findFiles(emptyWindowDir, { match: isJson, recursive: false }));
+  }
+
+  return results;
+}
+
+// ── Session Stores ──────────────────────────────────────────────────────────
+
+function isStateDb(filePath: string): boolean {
+  return path.basename(filePath) === 'state.vscdb';
+}
+
+/** The `workspaceStorage/<hash>` folder a store belongs to, or null for empty windows */
+function workspaceDirOf(filePath: string): string | null {
+  if (isStateDb(filePath)) return path.dirname(filePath);
+  const parent = path.dirname(filePath);
+  return path.basename(parent) === 'chatSessions' ? path.dirname(parent) : null;
+}
+
+function readSessionFile(filePath: string): CopilotChatSession | null {
+  try {
+    const parsed = CopilotChatSessionSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    if (parsed.success) return parsed.data;
+    logger.debug('copilot-chat: session validation failed', filePath, parsed.error.message);
+  } catch (err) {
+    logger.debug('copilot-chat: failed to read session', filePath, err);
+  }
+  return null;
+}
+
+/** Chats in a workspace's state.vscdb, plus the titles of its chatSessions files */
+function readStateDb(dbPath: string): { sessions: CopilotChatSession[]; titles: Map<string, string> } {
+  const sessions: CopilotChatSession[] = [];
+  const titles = new Map<string, string>();
+  const db = openStateDb(dbPath);
+  if (!db) return { sessions, titles };
+
+  try {
+    const legacy = readStateValue(db, 'ItemTable', LEGACY_SESSIONS_KEY);
+    if (Array.isArray(legacy)) {
+      for (const raw of legacy) {
+        const parsed = CopilotChatSessionSchema.safeParse(raw);
+        if (parsed.success) sessions.push(parsed.data);
+      }
+    }
+    const index = CopilotChatSessionIndexSchema.safeParse(readStateValue(db, 'ItemTable', SESSION_INDEX_KEY));
+    if (index.success) {
+      for (const [id, entry] of Object.entries(index.data.entries)) {
+        if (entry.title) titles.set(id, entry.title);
+      }
+    }
+  } finally {
+    db.close();
+  }
+
+  return { sessions, titles };
+}
+
+/** Sessions of one store: a chatSessions file holds one, a state.vscdb any number */
+function readStore(filePath: string): CopilotChatSession[] {
+  if (isStateDb(filePath)) return readStateDb(filePath).sessions;
+  const session = readSessionFile(filePath);
+  return session ? [session] : [];
+}
+
+/** `copilot/gpt-4.1` → `gpt-4.1` */
+function modelName(modelId: string | undefined): string | undefined {
+  return modelId ? modelId.slice(modelId.lastIndexOf('/') + 1) : undefined;
+}
+
+/**
+ * Parse VS Code Copilot Chat sessions into the unified format. The working
+ * directory is the workspace folder, from the storage dir's workspace.json.
+ */
+export async function parseCopilotChatSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findCopilotChatSessionFiles());
+  const sessions: UnifiedSession[] = [];
+
+  // Titles of chatSessions files are kept in the workspace's state.vscdb
+  const titlesByWorkspace = new Map<string, Map<string, string>>();
+  const titlesFor = (workspaceDir: string) => {
+    let titles = titlesByWorkspace.get(workspaceDir);
+    if (!titles) {
+      const stateDb = path.join(workspaceDir, 'state.vscdb');
+      titles = fs.existsSync(stateDb) ? readStateDb(stateDb).titles : new Map<string, string>();
+      titlesByWorkspace.set(workspaceDir, titles);
+    }
+    return titles;
+  };
+
+  for (const filePath of files) {
+    try {
+      const workspaceDir = workspaceDirOf(filePath);
+      const cwd = workspaceDir ? readWorkspaceFolder(workspaceDir) : '';
+      const stats = fs.statSync(filePath);
+
+      for (const chat of readStore(filePath)) {
+        const firstText = chat.requests.find((r) => r.message.text?.trim())?.message.text ?? '';
+        const title = chat.customTitle || (workspaceDir ? titlesFor(workspaceDir).get(chat.sessionId) : undefined);
+        const summary = cleanSummary(title || firstText);
+        if (!summary) continue;
+
+        const timestamps = chat.requests.map((r) => r.timestamp).filter((t): t is number => typeof t === 'number');
+        const createdAt = new Date(chat.creationDate ?? timestamps[0] ?? stats.mtimeMs);
+        const updatedAt = new Date(chat.lastMessageDate ?? timestamps[timestamps.length - 1] ?? stats.mtimeMs);
+        const model = modelName(chat.requests[chat.requests.length - 1]?.modelId);
+
+        sessions.push({
+          id: chat.sessionId,
+          source: 'copilot-chat',
+          cwd,
+          repo: extractRepoFromCwd(cwd),
+          lines: chat.requests.length,
+          bytes: isStateDb(filePath) ? JSON.stringify(chat).length : stats.size,
+          createdAt,
+          updatedAt,
+          originalPath: filePath,
+          summary,
+          ...(model ? { model } : {}),
+        });
+      }
+    } catch (err) {
+      logger.debug('copilot-chat: skipping unreadable session store', filePath, err);
+    }
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+// ── Response Parts ──────────────────────────────────────────────────────────
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/** Invocation messages are plain strings or `{ value: markdown }` */
+function markdownText(message: unknown): string {
+  return typeof message === 'string' ? message : str(asRecord(message).value);
+}
+
+/** Path of a serialized URI: `{ fsPath, path, scheme }` */
+function uriPath(uri: unknown): string {
+  const record = asRecord(uri);
+  return str(record.fsPath) || str(record.path);
+}
+
+/** First `file://` link in an invocation message, e.g. "Read [](file:///src/login.ts)" */
+function firstFileLink(text: string): string {
+  const match = text.match(/file:\/\/[^\s)\]]+/);
+  return match ? fileUriToPath(match[0]) : '';
+}
+
+/** First `code` span of an invocation message (search patterns are quoted this way) */
+function firstCodeSpan(text: string): string {
+  return text.match(/`([^`]+)`/)?.[1] ?? '';
+}
+
+/** Assistant text of a response: markdown parts and inline file references */
+function responseText(parts: CopilotChatResponsePart[]): string {
+  let text = '';
+  for (const part of parts) {
+    if (!part.kind || part.kind === 'markdownContent') {
+      text += part.kind ? markdownText(part.content) : markdownText(part.value);
+    } else if (part.kind === 'inlineReference') {
+      const reference = asRecord(part.inlineReference);
+      const name = str(part.name) || path.basename(uriPath(reference.uri ?? reference) || str(reference.name));
+      if (name) text += `\`${name}\``;
+    }
+  }
+  return text.trim();
+}
+
+// ── Tool Extraction ─────────────────────────────────────────────────────────
+
+/** Tool ids with the `copilot_` prefix of the built-in tools removed */
+function toolKey(toolId: string): string {
+  return toolId.replace(/^copilot_/, '');
+}
+
+/** Built-in editing tools — their edits arrive as the `textEditGroup` parts that follow */
+const EDIT_TOOLS = new Set([
+  'insertEdit',
+  'insert_edit_into_file',
+  'replaceString',
+  'replace_string_in_file',
+  'multiReplaceString',
+  'multi_replace_string_in_file',
+  'applyPatch',
+  'apply_patch',
+  'editFile',
+  'editNotebook',
+]);
+
+function addToolInvocation(
+  collector: SummaryCollector,
+  part: CopilotChatResponsePart,
+  created: Set<string>,
+  config: VerbosityConfig,
+): void {
+  const toolId = str(part.toolId);
+  const message = markdownText(part.pastTenseMessage) || markdownText(part.invocationMessage);
+  const specific = asRecord(part.toolSpecificData);
+  const details = asRecord(part.resultDetails);
+  const isError = part.isConfirmed === false || details.isError === true;
+  const key = toolKey(toolId);
+
+  if (specific.kind === 'terminal' || key === 'runInTerminal' || key === 'run_in_terminal') {
+    const commandLine = asRecord(specific.commandLine);
+    const command = str(commandLine.toolEdited) || str(commandLine.original) || str(specific.command) || message;
+    const exitCode = asRecord(specific.terminalCommandState).exitCode;
+    const output = str(asRecord(specific.terminalCommandOutput).text);
+    const failed = isError || (typeof exitCode === 'number' && exitCode !== 0);
+    collector.add('Bash', shellSummary(command, output || undefined), {
+      data: {
+        category: 'shell',
+        command,
+        ...(typeof exitCode === 'number' ? { exitCode } : {}),
+        ...(output ? { stdoutTail: output.slice(-500) } : {}),
+        ...(failed ? { errored: true } : {}),
+      },
+      isError: failed,
+    });
+    return;
+  }
+
+  if (specific.kind === 'todoList') {
+    const items = parseTodoList({ todos: specific.todoList });
+    if (items) {
+      collector.add('TodoWrite', `todo: ${truncate(describeTodoList(items), 80)}`, {
+        data: { category: 'todo', items },
+      });
+    }
+    return;
+  }
+
+  switch (key) {
+    case 'readFile':
+    case 'read_file': {
+      const filePath = firstFileLink(message);
+      collector.add('Read', fileSummary('read', filePath), {
+        data: { category: 'read', filePath },
+        filePath,
+        isError,
+      });
+      return;
+    }
+    case 'createFile':
+    case 'create_file': {
+      const filePath = firstFileLink(message);
+      if (filePath) created.add(filePath);
+      return;
+    }
+    case 'findTextInFiles':
+    case 'grep_search': {
+      const pattern = firstCodeSpan(message) || message;
+      collector.add('Grep', grepSummary(pattern), { data: { category: 'grep', pattern }, isError });
+      return;
+    }
+    case 'findFiles':
+    case 'file_search': {
+      const pattern = firstCodeSpan(message) || message;
+      collector.add('Glob', globSummary(pattern), { data: { category: 'glob', pattern }, isError });
+      return;
+    }
+    case 'fetchWebPage':
+    case 'fetch_webpage': {
+      const url = message.match(/https?:\/\/[^\s)\]]+/)?.[0] ?? message;
+      collector.add('WebFetch', fetchSummary(url), { data: { category: 'fetch', url }, isError });
+      return;
+    }
+  }
+
+  if (EDIT_TOOLS.has(key)) return;
+
+  // MCP and extension tools keep their input in toolSpecificData or resultDetails
+  const input = specific.kind === 'input' ? specific.rawInput : details.input;
+  const params = truncate(
+    typeof input === 'string' ? input : input ? JSON.stringify(input) : message,
+    config.mcp.paramChars,
+  );
+  collector.add(toolId, mcpSummary(toolId, params), {
+    data: { category: 'mcp', toolName: toolId, params },
+    isError,
+  });
+}
+
+/**
+ * A `textEditGroup` part: the edits applied to one file. A file created by
+ * `createFile` earlier in the response is a write of the edits' text.
+ */
+function addTextEdits(
+  collector: SummaryCollector,
+  part: CopilotChatResponsePart,
+  created: Set<string>,
+  config: VerbosityConfig,
+): void {
+  const filePath = uriPath(part.uri);
+  if (!filePath) return;
+  const edits = (Array.isArray(part.edits) ? part.edits.flat() : []).map(asRecord);
+  const inserted = edits.map((edit) => str(edit.text)).filter(Boolean);
+
+  if (created.has(filePath)) {
+    created.delete(filePath);
+    const content = inserted.join('');
+    const { diff } = formatNewFileDiff(content, filePath, config.write.diffLines);
+    const diffStats = { added: content.split('\n').length, removed: 0 };
+    collector.add('Write', fileSummary('write', filePath, diffStats, true), {
+      data: { category: 'write', filePath, isNewFile: true, diff, diffStats },
+      filePath,
+      isWrite: true,
+      changes: [{ kind: 'write', filePath, content, isNewFile: true }],
+    });
+    return;
+  }
+
+  // Only the new text is kept, so line counts come from the replaced ranges
+  const added = inserted.reduce((n, text) => n + text.split('\n').length, 0);
+  const removed = edits.reduce((n, edit) => {
+    const range = asRecord(edit.range);
+    const start = range.startLineNumber;
+    const end = range.endLineNumber;
+    if (typeof start !== 'number' || typeof end !== 'number') return n;
+    const empty = start === end && range.startColumn === range.endColumn;
+    return empty ? n : n + end - start + 1;
+  }, 0);
+  collector.add('Edit', fileSummary('edit', filePath, { added, removed }), {
+    data: { category: 'edit', filePath, diffStats: { added, removed } },
+    filePath,
+    isWrite: true,
+    changes: [{ kind: 'unknown', filePath }],
+  });
+}
+
+function extractToolData(requests: CopilotChatRequest[], config: VerbosityConfig): SummaryCollector {
+  const collector = new SummaryCollector(config);
+
+  for (const request of requests) {
+    const created = new Set<string>();
+    for (const part of request.response) {
+      if (part.kind === 'toolInvocationSerialized' || part.kind === 'toolInvocation') {
+        addToolInvocation(collector, part, created, config);
+      } else if (part.kind === 'textEditGroup') {
+        addTextEdits(collector, part, created, config);
+      }
+    }
+  }
+
+  return collector;
+}
+
+/**
+ * Extract context from a Copilot Chat session for cross-tool continuation.
+ */
+export async function extractCopilotChatContext(
+  session: UnifiedSession,
+  config?: VerbosityConfig,
+): Promise<SessionContext> {
+  const cfg = config ?? getPreset('standard');
+  const chat = readStore(session.originalPath).find((s) => s.sessionId === session.id);
+  const requests = chat?.requests.filter((r) => !r.isCanceled || r.response.length > 0) ?? [];
+
+  const messages: ConversationMessage[] = [];
+  for (const request of requests) {
+    const timestamp = request.timestamp ? new Date(request.timestamp) : undefined;
+    const userText = request.message.text?.trim();
+    if (userText) messages.push({ role: 'user', content: userText, ...(timestamp ? { timestamp } : {}) });
+    const reply = responseText(request.response);
+    if (reply) messages.push({ role: 'assistant', content: reply });
+  }
+  const recentMessages = messages.slice(-cfg.recentMessages);
+
+  const collector = extractToolData(requests, cfg);
+  const toolSummaries = collector.getSummaries();
+  const filesModified = collector.getFilesModified();
+  const fileChanges = collector.getFileChanges();
+  const openProblems = collector.getOpenProblems();
+  const todos = collector.getTodos();
+  const pendingTasks = todos ? pendingTasksFromTodos(todos, cfg.pendingTasks.maxTasks) : [];
+
+  const sessionNotes: SessionNotes = {};
+  if (session.model) sessionNotes.model = session.model;
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+
+  const markdown = generateHandoffMarkdown(
+    session,
+    recentMessages,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    cfg,
+  );
+
+  return {
+    session,
+    recentMessages,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    markdown,
+  };
+}
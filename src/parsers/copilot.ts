@@ -2,13 +2,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import YAML from 'yaml';
 import { logger } from '../logger.js';
-import type { ConversationMessage, SessionContext, ToolUsageSummary, UnifiedSession } from '../types/index.js';
+import type { ConversationMessage, SessionContext, TodoItem, ToolUsageSummary, UnifiedSession } from '../types/index.js';
 import { classifyToolName } from '../types/tool-names.js';
 import type { CopilotEvent, CopilotWorkspace } from '../types/schemas.js';
 import { listSubdirectories } from '../utils/fs-helpers.js';
 import { getFileStats, readJsonlFile, scanJsonlHead } from '../utils/jsonl.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
 import { homeDir } from '../utils/parser-helpers.js';
+import { parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
 
@@ -17,7 +18,7 @@ const COPILOT_SESSIONS_DIR = path.join(homeDir(), '.copilot', 'session-state');
 /**
  * Find all Copilot session directories
  */
-async function findSessionDirs(): Promise<string[]> {
+export async function findCopilotSessionDirs(): Promise<string[]> {
   return listSubdirectories(COPILOT_SESSIONS_DIR).filter((dir) => fs.existsSync(path.join(dir, 'workspace.yaml')));
 }
 
@@ -55,8 +56,8 @@ async function extractModel(eventsPath: string): Promise<string | undefined> {
 /**
  * Parse all Copilot sessions
  */
-export async function parseCopilotSessions(): Promise<UnifiedSession[]> {
-  const dirs = await findSessionDirs();
+export async function parseCopilotSessions(sourceDirs?: string[]): Promise<UnifiedSession[]> {
+  const dirs = sourceDirs ?? (await findCopilotSessionDirs());
   const sessions: UnifiedSession[] = [];
 
   for (const sessionDir of dirs) {
@@ -160,7 +161,8 @@ export async function extractCopilotContext(session: UnifiedSession, config?: Ve
   }
 
   // Extract tool summaries and file modifications from toolRequests across all events
-  const { summaries: toolSummaries, filesModified } = extractCopilotToolSummaries(events, resolvedConfig);
+  const { summaries: toolSummaries, filesModified, todos } = extractCopilotToolSummaries(events, resolvedConfig);
+  if (todos) pendingTasks.push(...pendingTasksFromTodos(todos, resolvedConfig.pendingTasks.maxTasks));
 
   const trimmed = recentMessages.slice(-resolvedConfig.recentMessages);
 
@@ -181,9 +183,13 @@ export async function extractCopilotContext(session: UnifiedSession, config?: Ve
  * Extract tool usage summaries from Copilot events' toolRequests arrays.
  * Copilot doesn't provide tool results, so we capture names and arguments only.
  */
-function extractCopilotToolSummaries(events: CopilotEvent[], config: VerbosityConfig): { summaries: ToolUsageSummary[]; filesModified: string[] } {
+function extractCopilotToolSummaries(
+  events: CopilotEvent[],
+  config: VerbosityConfig,
+): { summaries: ToolUsageSummary[]; filesModified: string[]; todos?: TodoItem[] } {
   const toolCounts = new Map<string, { count: number; samples: Array<{ summary: string; data?: import('../types/index.js').StructuredToolSample }> }>();
   const files = new Set<string>();
+  let todos: TodoItem[] | undefined;
   const defaultSampleLimit = config.mcp.maxSamplesPerNamespace;
 
   for (const event of events) {
@@ -207,6 +213,8 @@ function extractCopilotToolSummaries(events: CopilotEvent[], config: VerbosityCo
       if ((category === 'write' || category === 'edit') && fp) {
         files.add(fp);
       }
+      // Each plan update carries the whole list; the last one wins
+      if (category === 'todo') todos = parseTodoList(args) ?? todos;
 
       if (entry.samples.length < defaultSampleLimit) {
         const data = buildCopilotSampleData(category, name, args);
@@ -225,7 +233,7 @@ function extractCopilotToolSummaries(events: CopilotEvent[], config: VerbosityCo
     samples,
   }));
 
-  return { summaries, filesModified: Array.from(files) };
+  return { summaries, filesModified: Array.from(files), todos };
 }
 
 /** Build the correct StructuredToolSample for a Copilot tool request based on its classified category */
@@ -260,6 +268,11 @@ function buildCopilotSampleData(
       return { category: 'task', description: (args.description as string) || '' };
     case 'ask':
       return { category: 'ask', question: ((args.question as string) || '').slice(0, 80) };
+    case 'todo': {
+      const items = parseTodoList(args);
+      if (items) return { category: 'todo', items };
+      return { category: 'mcp', toolName: name };
+    }
     default:
       return {
         category: 'mcp',
@@ -1,4 +1,3 @@
-import { execFileSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import { logger } from '../logger.js';
@@ -9,17 +8,38 @@ import type {
   UnifiedSession,
 } from '../types/index.js';
 import type { SessionSource } from '../types/tool-names.js';
+import { countDiffStats, formatEditDiff, formatNewFileDiff } from '../utils/diff.js';
+import type { FileChangeOp } from '../utils/file-changes.js';
+import { ancestors } from '../utils/fs-helpers.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
-import { cleanSummary, homeDir } from '../utils/parser-helpers.js';
+import { cleanSummary, extractRepoFromCwd, homeDir } from '../utils/parser-helpers.js';
+import { openSqlite, type SqliteDb } from '../utils/sqlite.js';
+import { describeTodoList, parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
+import {
+  fetchSummary,
+  fileSummary,
+  globSummary,
+  grepSummary,
+  mcpSummary,
+  SummaryCollector,
+  searchSummary,
+  shellSummary,
+  subagentSummary,
+  truncate,
+} from '../utils/tool-summarizer.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
 
 // 'crush' is not yet in TOOL_NAMES — use a type assertion until registration is added.
 const CRUSH_SOURCE: SessionSource = 'crush';
 
-const CRUSH_DB_PATH = path.join(homeDir(), '.crush', 'crush.db');
+/** Database of older Crush releases, shared by every project */
+const CRUSH_GLOBAL_DB_PATH = path.join(homeDir(), '.crush', 'crush.db');
 
-// ── SQLite CLI Helper ───────────────────────────────────────────────────────
+/** Per-project data directory, relative to the project root */
+const PROJECT_DATA_DIR = '.crush';
+
+// ── Database Access ─────────────────────────────────────────────────────────
 
 /** Row shape returned by the session-listing query */
 interface CrushSessionRow {
@@ -43,46 +63,104 @@ interface CrushMessageRow {
 }
 
 /**
- * Execute a read-only SQLite query via the `sqlite3` CLI and return parsed JSON rows.
- * Uses execFileSync (no shell) to avoid injection risks with paths.
+ * Open a Crush database read-only through node:sqlite, or null if it can't be opened.
  */
-function querySqlite<T = Record<string, unknown>>(dbPath: string, query: string): T[] {
+function openCrushDb(dbPath: string): SqliteDb | null {
   try {
-    const raw = execFileSync('sqlite3', [dbPath, '-json', query], {
-      encoding: 'utf8',
-      timeout: 5000,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-    if (!raw.trim()) return [];
-    return JSON.parse(raw) as T[];
+    return openSqlite(dbPath, { readOnly: true });
   } catch (err) {
-    logger.debug('crush: sqlite3 query failed', dbPath, err);
-    return [];
+    logger.debug('crush: failed to open database', dbPath, err);
+    return null;
   }
 }
 
+/** Crush writes `strftime('%s')` seconds; millisecond values are kept as-is */
+function fromEpoch(value: number): Date {
+  return new Date(value < 1e12 ? value * 1000 : value);
+}
+
+// ── Discovery ───────────────────────────────────────────────────────────────
+
+/** Crush's global data directory, holding `projects.json` */
+function crushDataDir(): string {
+  if (process.env.CRUSH_GLOBAL_DATA) return process.env.CRUSH_GLOBAL_DATA;
+  const dataHome = process.env.XDG_DATA_HOME || path.join(homeDir(), '.local', 'share');
+  return path.join(dataHome, 'crush');
+}
+
 /**
- * Check if the Crush database exists and the sqlite3 binary is available.
+ * Project databases Crush has recorded in `projects.json`:
+ * `{ projects: [{ path, data_dir }] }`, with `data_dir` absolute or relative to the project.
  */
-function isCrushAvailable(): boolean {
-  if (!fs.existsSync(CRUSH_DB_PATH)) return false;
+function knownProjectDbs(): string[] {
+  const projectsFile = path.join(crushDataDir(), 'projects.json');
+  if (!fs.existsSync(projectsFile)) return [];
   try {
-    execFileSync('sqlite3', ['--version'], {
-      encoding: 'utf8',
-      timeout: 2000,
-      stdio: ['pipe', 'pipe', 'pipe'],
+    const raw = JSON.parse(fs.readFileSync(projectsFile, 'utf8')) as { projects?: unknown };
+    if (!Array.isArray(raw.projects)) return [];
+    return raw.projects.flatMap((project: { path?: unknown; data_dir?: unknown }) => {
+      if (typeof project?.path !== 'string') return [];
+      const dataDir = typeof project.data_dir === 'string' ? project.data_dir : PROJECT_DATA_DIR;
+      return [path.join(path.resolve(project.path, dataDir), 'crush.db')];
     });
-    return true;
-  } catch {
-    return false;
+  } catch (err) {
+    logger.debug('crush: failed to read projects.json', projectsFile, err);
+    return [];
   }
 }
 
+/**
+ * List the Crush databases backing sessions: the projects Crush has recorded,
+ * `.crush/crush.db` in the current directory and its ancestors, and the
+ * global database of older releases.
+ */
+export async function findCrushSessionFiles(): Promise<string[]> {
+  const candidates = [
+    ...knownProjectDbs(),
+    ...ancestors(process.cwd()).map((dir) => path.join(dir, PROJECT_DATA_DIR, 'crush.db')),
+    CRUSH_GLOBAL_DB_PATH,
+  ];
+  return [...new Set(candidates)].filter((dbPath) => fs.existsSync(dbPath));
+}
+
+/** Project folder of a per-project database (`<project>/.crush/crush.db`), or '' for the global one */
+function projectDirOf(dbPath: string): string {
+  if (path.resolve(dbPath) === path.resolve(CRUSH_GLOBAL_DB_PATH)) return '';
+  const dataDir = path.dirname(dbPath);
+  return path.basename(dataDir) === PROJECT_DATA_DIR ? path.dirname(dataDir) : '';
+}
+
 // ── Parts Parsing ───────────────────────────────────────────────────────────
 
 interface CrushPart {
   type: string;
-  data?: { text?: string };
+  data?: Record<string, unknown>;
+}
+
+/** A `tool_call` part: input is a JSON-encoded string */
+interface CrushToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/** A `tool_result` part, on a message with role `tool` */
+interface CrushToolResult {
+  content: string;
+  isError: boolean;
+}
+
+function parseParts(partsJson: string): CrushPart[] {
+  try {
+    const parts = JSON.parse(partsJson);
+    return Array.isArray(parts) ? (parts as CrushPart[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
 }
 
 /**
@@ -90,79 +168,281 @@ interface CrushPart {
  * Format: [{"type": "text", "data": {"text": "..."}}]
  */
 function extractTextFromParts(partsJson: string): string {
+  return parseParts(partsJson)
+    .filter((p) => p.type === 'text' && str(p.data?.text))
+    .map((p) => str(p.data?.text))
+    .join('\n');
+}
+
+function parseToolInput(input: unknown): Record<string, unknown> {
+  if (input && typeof input === 'object') return input as Record<string, unknown>;
   try {
-    const parts: CrushPart[] = JSON.parse(partsJson);
-    if (!Array.isArray(parts)) return '';
-    return parts
-      .filter((p) => p.type === 'text' && p.data?.text)
-      .map((p) => p.data!.text!)
-      .join('\n');
+    const parsed = JSON.parse(str(input));
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
   } catch {
-    return '';
+    return {};
   }
 }
 
-/**
- * Escape a string for safe embedding in a SQL single-quoted literal.
- */
-function sqlEscape(value: string): string {
-  return value.replace(/'/g, "''");
-}
-
 // ── Session Listing ─────────────────────────────────────────────────────────
 
 /**
  * Get the text of the first user message in a session (for summary fallback).
  */
-function getFirstUserMessage(sessionId: string): string {
-  const rows = querySqlite<CrushMessageRow>(
-    CRUSH_DB_PATH,
-    `SELECT role, parts, created_at, model, provider FROM messages WHERE session_id = '${sqlEscape(sessionId)}' AND role = 'user' ORDER BY created_at ASC LIMIT 1`,
-  );
-  if (rows.length === 0) return '';
-  return extractTextFromParts(rows[0].parts);
+function getFirstUserMessage(db: SqliteDb, sessionId: string): string {
+  const row = db
+    .prepare(
+      `SELECT parts FROM messages WHERE session_id = ? AND role = 'user' ORDER BY created_at ASC LIMIT 1`,
+    )
+    .get(sessionId) as { parts: string } | undefined;
+  return row ? extractTextFromParts(row.parts) : '';
+}
+
+function parseDbSessions(dbPath: string): UnifiedSession[] {
+  const db = openCrushDb(dbPath);
+  if (!db) return [];
+
+  const cwd = projectDirOf(dbPath);
+  const sessions: UnifiedSession[] = [];
+
+  try {
+    const rows = db
+      .prepare(
+        `SELECT s.id, s.title, s.prompt_tokens, s.completion_tokens, s.cost, MIN(m.created_at) AS first_msg_at, MAX(m.created_at) AS last_msg_at, COUNT(m.rowid) AS msg_count FROM sessions s LEFT JOIN messages m ON m.session_id = s.id GROUP BY s.id ORDER BY last_msg_at DESC`,
+      )
+      .all() as CrushSessionRow[];
+
+    for (const row of rows) {
+      if (!row.msg_count || row.msg_count === 0) continue;
+
+      let summary = row.title || '';
+      if (!summary) {
+        summary = getFirstUserMessage(db, row.id);
+      }
+      summary = cleanSummary(summary);
+      if (!summary) continue;
+
+      const createdAt = row.first_msg_at ? fromEpoch(row.first_msg_at) : new Date();
+      const updatedAt = row.last_msg_at ? fromEpoch(row.last_msg_at) : createdAt;
+
+      sessions.push({
+        id: row.id,
+        source: CRUSH_SOURCE,
+        cwd,
+        repo: extractRepoFromCwd(cwd),
+        lines: row.msg_count,
+        bytes: 0, // SQLite — no per-session file size
+        createdAt,
+        updatedAt,
+        originalPath: dbPath,
+        summary,
+      });
+    }
+  } catch (err) {
+    logger.debug('crush: failed to list sessions', dbPath, err);
+  } finally {
+    db.close();
+  }
+
+  return sessions;
 }
 
 /**
- * Parse all Crush sessions from the SQLite database.
+ * Parse all Crush sessions from the global and per-project databases.
  */
-export async function parseCrushSessions(): Promise<UnifiedSession[]> {
-  if (!isCrushAvailable()) return [];
+export async function parseCrushSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findCrushSessionFiles());
+  const sessions = files.flatMap((dbPath) => parseDbSessions(dbPath));
+  return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
 
-  const rows = querySqlite<CrushSessionRow>(
-    CRUSH_DB_PATH,
-    `SELECT s.id, s.title, s.prompt_tokens, s.completion_tokens, s.cost, MIN(m.created_at) AS first_msg_at, MAX(m.created_at) AS last_msg_at, COUNT(m.rowid) AS msg_count FROM sessions s LEFT JOIN messages m ON m.session_id = s.id GROUP BY s.id ORDER BY last_msg_at DESC`,
-  );
+// ── Tool Extraction ─────────────────────────────────────────────────────────
+
+function addToolCall(
+  collector: SummaryCollector,
+  call: CrushToolCall,
+  result: CrushToolResult | undefined,
+  config: VerbosityConfig,
+): void {
+  const input = call.input;
+  const output = result?.content ?? '';
+  const isError = result?.isError ?? false;
+  const filePath = str(input.file_path) || str(input.path);
+
+  switch (call.name) {
+    case 'bash': {
+      const command = str(input.command);
+      collector.add('Bash', shellSummary(command, output || undefined), {
+        data: {
+          category: 'shell',
+          command,
+          ...(output ? { stdoutTail: output.slice(-500) } : {}),
+          ...(isError ? { errored: true, errorMessage: output.slice(0, 200) } : {}),
+        },
+        isError,
+      });
+      return;
+    }
+    case 'view': {
+      const offset = typeof input.offset === 'number' ? input.offset : undefined;
+      const limit = typeof input.limit === 'number' ? input.limit : undefined;
+      collector.add('Read', fileSummary('read', filePath), {
+        data: {
+          category: 'read',
+          filePath,
+          ...(offset !== undefined ? { lineStart: offset + 1 } : {}),
+          ...(offset !== undefined && limit !== undefined ? { lineEnd: offset + limit } : {}),
+        },
+        filePath,
+        isError,
+      });
+      return;
+    }
+    case 'write': {
+      const content = str(input.content);
+      const { diff } = formatNewFileDiff(content, filePath, config.write.diffLines);
+      const diffStats = countDiffStats(diff);
+      collector.add('Write', fileSummary('write', filePath, diffStats), {
+        data: { category: 'write', filePath, diff, diffStats },
+        filePath,
+        isWrite: true,
+        isError,
+        changes: [{ kind: 'write', filePath, content }],
+      });
+      return;
+    }
+    case 'edit':
+    case 'multiedit': {
+      const edits =
+        call.name === 'multiedit' && Array.isArray(input.edits)
+          ? (input.edits as Array<Record<string, unknown>>)
+          : [input];
+      const pairs = edits.map((edit) => ({ oldText: str(edit.old_string), newText: str(edit.new_string) }));
+
+      // An edit with an empty old_string creates the file
+      if (pairs.length === 1 && !pairs[0].oldText) {
+        const content = pairs[0].newText;
+        const { diff } = formatNewFileDiff(content, filePath, config.write.diffLines);
+        const diffStats = countDiffStats(diff);
+        collector.add('Write', fileSummary('write', filePath, diffStats, true), {
+          data: { category: 'write', filePath, isNewFile: true, diff, diffStats },
+          filePath,
+          isWrite: true,
+          isError,
+          changes: [{ kind: 'write', filePath, content, isNewFile: true }],
+        });
+        return;
+      }
 
-  const sessions: UnifiedSession[] = [];
+      const diff = pairs
+        .map((pair) => formatEditDiff(pair.oldText, pair.newText, filePath, config.edit.diffLines).diff)
+        .join('\n');
+      const diffStats = countDiffStats(diff);
+      const changes: FileChangeOp[] = pairs.map((pair) => ({ kind: 'edit', filePath, ...pair }));
+      collector.add('Edit', fileSummary('edit', filePath, diffStats), {
+        data: {
+          category: 'edit',
+          filePath,
+          diff,
+          diffStats,
+          ...(isError ? { errorMessage: output.slice(0, 200) } : {}),
+        },
+        filePath,
+        isWrite: true,
+        isError,
+        changes,
+      });
+      return;
+    }
+    case 'grep':
+    case 'rg': {
+      const pattern = str(input.pattern);
+      const targetPath = str(input.path) || str(input.include);
+      collector.add('Grep', grepSummary(pattern, targetPath || undefined), {
+        data: { category: 'grep', pattern, ...(targetPath ? { targetPath } : {}) },
+        isError,
+      });
+      return;
+    }
+    case 'glob':
+    case 'ls': {
+      const pattern = str(input.pattern) || str(input.path) || '.';
+      collector.add('Glob', globSummary(pattern), { data: { category: 'glob', pattern }, isError });
+      return;
+    }
+    case 'fetch':
+    case 'download': {
+      const url = str(input.url);
+      collector.add('WebFetch', fetchSummary(url), {
+        data: { category: 'fetch', url, ...(output ? { resultPreview: output.slice(0, 100) } : {}) },
+        isError,
+      });
+      return;
+    }
+    case 'sourcegraph': {
+      const query = str(input.query);
+      collector.add('WebSearch', searchSummary(query), { data: { category: 'search', query }, isError });
+      return;
+    }
+    case 'agent': {
+      const description = truncate(str(input.prompt), 80);
+      collector.add('Task', subagentSummary(description), {
+        data: {
+          category: 'task',
+          description,
+          ...(output ? { resultSummary: output.slice(0, 100) } : {}),
+        },
+        isError,
+      });
+      return;
+    }
+    case 'todos': {
+      const items = parseTodoList(input);
+      if (items) {
+        collector.add('TodoWrite', `todo: ${truncate(describeTodoList(items), 80)}`, {
+          data: { category: 'todo', items },
+        });
+      }
+      return;
+    }
+    default: {
+      const params = truncate(JSON.stringify(input), config.mcp.paramChars);
+      const resultPreview = output ? truncate(output, 100) : undefined;
+      collector.add(call.name, mcpSummary(call.name, params, resultPreview), {
+        data: {
+          category: 'mcp',
+          toolName: call.name,
+          params,
+          ...(resultPreview ? { result: resultPreview } : {}),
+        },
+        isError,
+      });
+    }
+  }
+}
 
-  for (const row of rows) {
-    if (!row.msg_count || row.msg_count === 0) continue;
+/**
+ * Pair each `tool_call` part with the `tool_result` part answering it and
+ * summarize the calls in conversation order.
+ */
+function extractToolData(rows: CrushMessageRow[], config: VerbosityConfig): SummaryCollector {
+  const calls: CrushToolCall[] = [];
+  const results = new Map<string, CrushToolResult>();
 
-    let summary = row.title || '';
-    if (!summary) {
-      summary = getFirstUserMessage(row.id);
+  for (const row of rows) {
+    for (const part of parseParts(row.parts)) {
+      const data = part.data ?? {};
+      if (part.type === 'tool_call' && str(data.name)) {
+        calls.push({ id: str(data.id), name: str(data.name), input: parseToolInput(data.input) });
+      } else if (part.type === 'tool_result' && str(data.tool_call_id)) {
+        results.set(str(data.tool_call_id), { content: str(data.content), isError: data.is_error === true });
+      }
     }
-    summary = cleanSummary(summary);
-    if (!summary) continue;
-
-    const createdAt = row.first_msg_at ? new Date(row.first_msg_at) : new Date();
-    const updatedAt = row.last_msg_at ? new Date(row.last_msg_at) : createdAt;
-
-    sessions.push({
-      id: row.id,
-      source: CRUSH_SOURCE,
-      cwd: '',
-      lines: row.msg_count,
-      bytes: 0, // SQLite — no per-session file size
-      createdAt,
-      updatedAt,
-      originalPath: CRUSH_DB_PATH,
-      summary,
-    });
   }
 
-  return sessions;
+  const collector = new SummaryCollector(config);
+  for (const call of calls) addToolCall(collector, call, results.get(call.id), config);
+  return collector;
 }
 
 // ── Context Extraction ──────────────────────────────────────────────────────
@@ -176,21 +456,37 @@ export async function extractCrushContext(
 ): Promise<SessionContext> {
   const resolvedConfig = config ?? getPreset('standard');
 
-  const msgRows = querySqlite<CrushMessageRow>(
-    CRUSH_DB_PATH,
-    `SELECT role, parts, created_at, model, provider FROM messages WHERE session_id = '${sqlEscape(session.id)}' ORDER BY created_at ASC`,
-  );
+  let msgRows: CrushMessageRow[] = [];
+  let sessionRow: { prompt_tokens: number | null; completion_tokens: number | null } | undefined;
+  const db = openCrushDb(session.originalPath);
+  if (db) {
+    try {
+      msgRows = db
+        .prepare(
+          'SELECT role, parts, created_at, model, provider FROM messages WHERE session_id = ? ORDER BY created_at ASC',
+        )
+        .all(session.id) as CrushMessageRow[];
+      sessionRow = db
+        .prepare('SELECT prompt_tokens, completion_tokens FROM sessions WHERE id = ?')
+        .get(session.id) as typeof sessionRow;
+    } catch (err) {
+      logger.debug('crush: failed to read session', session.originalPath, err);
+    } finally {
+      db.close();
+    }
+  }
 
   const allMessages: ConversationMessage[] = [];
   let model: string | undefined;
 
   for (const row of msgRows) {
+    // Tool results are stored as messages of their own
+    if (row.role === 'tool') continue;
     const content = extractTextFromParts(row.parts);
     if (!content) continue;
 
     const role: 'user' | 'assistant' = row.role === 'user' ? 'user' : 'assistant';
-    // Crush stores created_at as millisecond epoch
-    const timestamp = new Date(row.created_at);
+    const timestamp = fromEpoch(row.created_at);
 
     allMessages.push({ role, content, timestamp });
 
@@ -199,24 +495,25 @@ export async function extractCrushContext(
     }
   }
 
-  // Get token usage from the session row
-  const sessionRows = querySqlite<{ prompt_tokens: number | null; completion_tokens: number | null }>(
-    CRUSH_DB_PATH,
-    `SELECT prompt_tokens, completion_tokens FROM sessions WHERE id = '${sqlEscape(session.id)}'`,
-  );
+  const collector = extractToolData(msgRows, resolvedConfig);
+  const toolSummaries = collector.getSummaries();
+  const filesModified = collector.getFilesModified();
+  const fileChanges = collector.getFileChanges();
+  const openProblems = collector.getOpenProblems();
+  const todos = collector.getTodos();
+  const pendingTasks = todos ? pendingTasksFromTodos(todos, resolvedConfig.pendingTasks.maxTasks) : [];
 
-  let tokenInput = 0;
-  let tokenOutput = 0;
-  if (sessionRows.length > 0) {
-    tokenInput = sessionRows[0].prompt_tokens ?? 0;
-    tokenOutput = sessionRows[0].completion_tokens ?? 0;
-  }
+  // Token usage comes from the session row
+  const tokenInput = sessionRow?.prompt_tokens ?? 0;
+  const tokenOutput = sessionRow?.completion_tokens ?? 0;
 
-  const hasNotes = model || tokenInput || tokenOutput;
+  const hasNotes = model || tokenInput || tokenOutput || fileChanges.length > 0 || openProblems.length > 0;
   const sessionNotes: SessionNotes | undefined = hasNotes
     ? {
         ...(model ? { model } : {}),
         ...(tokenInput || tokenOutput ? { tokenUsage: { input: tokenInput, output: tokenOutput } } : {}),
+        ...(fileChanges.length > 0 ? { fileChanges } : {}),
+        ...(openProblems.length > 0 ? { openProblems } : {}),
       }
     : undefined;
 
@@ -226,9 +523,9 @@ export async function extractCrushContext(
   const markdown = generateHandoffMarkdown(
     enrichedSession,
     trimmed,
-    [], // filesModified — not tracked in Crush's schema
-    [], // pendingTasks — not tracked in Crush's schema
-    [], // toolSummaries — not tracked in Crush's schema
+    filesModified,
+    pendingTasks,
+    toolSummaries,
     sessionNotes,
     resolvedConfig,
   );
@@ -236,9 +533,9 @@ export async function extractCrushContext(
   return {
     session: enrichedSession,
     recentMessages: trimmed,
-    filesModified: [],
-    pendingTasks: [],
-    toolSummaries: [],
+    filesModified,
+    pendingTasks,
+    toolSummaries,
     sessionNotes,
     markdown,
   };
@@ -0,0 +1,419 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { VerbosityConfig } from '../config/index.js';
+import { getPreset } from '../config/index.js';
+import { logger } from '../logger.js';
+import type { ConversationMessage, SessionContext, SessionNotes, UnifiedSession } from '../types/index.js';
+import type { CursorBubble, CursorComposerData } from '../types/schemas.js';
+import { CursorBubbleSchema, CursorComposerDataSchema, CursorWorkspaceComposersSchema } from '../types/schemas.js';
+import { countDiffStats, formatEditDiff, formatNewFileDiff } from '../utils/diff.js';
+import {
+  decodeStateValue,
+  editorUserDirs,
+  listWorkspaceStorage,
+  openStateDb,
+  readStateValue,
+  readWorkspaceFolder,
+} from '../utils/editor-storage.js';
+import type { FileChangeOp } from '../utils/file-changes.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { cleanSummary, extractRepoFromCwd } from '../utils/parser-helpers.js';
+import type { SqliteDb } from '../utils/sqlite.js';
+import { describeTodoList, parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
+import {
+  fileSummary,
+  globSummary,
+  grepSummary,
+  mcpSummary,
+  SummaryCollector,
+  searchSummary,
+  shellSummary,
+  truncate,
+} from '../utils/tool-summarizer.js';
+
+/** Key of a workspace's composer list in its state.vscdb */
+const COMPOSERS_KEY = 'composer.composerData';
+
+/** Bubble types */
+const USER_BUBBLE = 1;
+const AI_BUBBLE = 2;
+
+/** `User` directories of Cursor, one per install */
+export function getCursorIdeUserDirs(): string[] {
+  return editorUserDirs(['Cursor']);
+}
+
+/**
+ * Find the workspace databases listing Cursor composer threads.
+ * Structure: <User>/workspaceStorage/<hash>/state.vscdb — the composer list of
+ * one workspace; the threads themselves live in <User>/globalStorage/state.vscdb
+ */
+export async function findCursorIdeSessionFiles(): Promise<string[]> {
+  return listWorkspaceStorage(getCursorIdeUserDirs())
+    .map((workspace) => path.join(workspace.dir, 'state.vscdb'))
+    .filter((dbPath) => fs.existsSync(dbPath));
+}
+
+// ── Composer Store ──────────────────────────────────────────────────────────
+
+/** The global state.vscdb next to a workspace's: <User>/globalStorage/state.vscdb */
+function globalDbFor(workspaceDb: string): string {
+  return path.resolve(path.dirname(workspaceDb), '..', '..', 'globalStorage', 'state.vscdb');
+}
+
+/** Composer ids, names and dates listed for a workspace */
+function readWorkspaceComposers(workspaceDb: string) {
+  const db = openStateDb(workspaceDb);
+  if (!db) return [];
+  try {
+    const parsed = CursorWorkspaceComposersSchema.safeParse(readStateValue(db, 'ItemTable', COMPOSERS_KEY));
+    return parsed.success ? parsed.data.allComposers : [];
+  } finally {
+    db.close();
+  }
+}
+
+/** `composerData:<id>` from the global store — null for composers Cursor kept inline */
+function readComposerData(globalDb: SqliteDb | null, composerId: string): CursorComposerData | null {
+  if (!globalDb) return null;
+  const parsed = CursorComposerDataSchema.safeParse(
+    readStateValue(globalDb, 'cursorDiskKV', `composerData:${composerId}`),
+  );
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Bubbles of a composer in conversation order: inline in older composers,
+ * otherwise one `bubbleId:<composerId>:<bubbleId>` row each
+ */
+function readBubbles(globalDb: SqliteDb, data: CursorComposerData): CursorBubble[] {
+  if (data.conversation?.length) return data.conversation;
+  const headers = data.fullConversationHeadersOnly ?? [];
+  if (headers.length === 0) return [];
+
+  const rows = globalDb
+    .prepare('SELECT key, value FROM cursorDiskKV WHERE key LIKE ?')
+    .all(`bubbleId:${data.composerId}:%`) as { key: string; value: unknown }[];
+  const byId = new Map<string, CursorBubble>();
+  for (const row of rows) {
+    const parsed = CursorBubbleSchema.safeParse(decodeStateValue(row.value));
+    if (parsed.success) byId.set(row.key.slice(row.key.lastIndexOf(':') + 1), parsed.data);
+  }
+  return headers.flatMap((header) => {
+    const bubble = byId.get(header.bubbleId);
+    return bubble ? [bubble] : [];
+  });
+}
+
+/** First user message of a composer, reading only that bubble */
+function firstUserText(globalDb: SqliteDb, data: CursorComposerData): string {
+  const inline = data.conversation?.find((b) => b.type === USER_BUBBLE && b.text?.trim());
+  if (inline) return inline.text ?? '';
+  const header = data.fullConversationHeadersOnly?.find((h) => h.type === USER_BUBBLE);
+  if (!header) return '';
+  const bubble = CursorBubbleSchema.safeParse(
+    readStateValue(globalDb, 'cursorDiskKV', `bubbleId:${data.composerId}:${header.bubbleId}`),
+  );
+  return bubble.success ? (bubble.data.text ?? '') : '';
+}
+
+/**
+ * Parse Cursor composer threads (chat, agent and edit modes) into the unified
+ * format. Each workspace lists its composers; the working directory is the
+ * workspace folder from workspace.json.
+ */
+export async function parseCursorIdeSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findCursorIdeSessionFiles());
+  const sessions: UnifiedSession[] = [];
+  const globalDbs = new Map<string, SqliteDb | null>();
+
+  try {
+    for (const workspaceDb of files) {
+      try {
+        const globalPath = globalDbFor(workspaceDb);
+        if (!globalDbs.has(globalPath)) {
+          globalDbs.set(globalPath, fs.existsSync(globalPath) ? openStateDb(globalPath) : null);
+        }
+        const globalDb = globalDbs.get(globalPath) ?? null;
+        const cwd = readWorkspaceFolder(path.dirname(workspaceDb));
+
+        for (const header of readWorkspaceComposers(workspaceDb)) {
+          const inline = CursorComposerDataSchema.safeParse(header);
+          const data = readComposerData(globalDb, header.composerId) ?? (inline.success ? inline.data : null);
+          if (!data) continue;
+          const messageCount = data.fullConversationHeadersOnly?.length ?? data.conversation?.length ?? 0;
+          if (messageCount === 0) continue;
+
+          const name = header.name || data.name;
+          const summary = cleanSummary(name || (globalDb ? firstUserText(globalDb, data) : ''));
+          if (!summary) continue;
+
+          const createdAt = new Date(header.createdAt ?? data.createdAt ?? 0);
+          const updatedAt = new Date(header.lastUpdatedAt ?? data.lastUpdatedAt ?? createdAt.getTime());
+          const model = data.modelConfig?.modelName;
+          sessions.push({
+            id: header.composerId,
+            source: 'cursor-ide',
+            cwd,
+            repo: extractRepoFromCwd(cwd),
+            lines: messageCount,
+            bytes: JSON.stringify(data).length,
+            createdAt,
+            updatedAt,
+            originalPath: workspaceDb,
+            summary,
+            ...(model && model !== 'default' ? { model } : {}),
+          });
+        }
+      } catch (err) {
+        logger.debug('cursor-ide: skipping unreadable workspace', workspaceDb, err);
+      }
+    }
+  } finally {
+    for (const db of globalDbs.values()) db?.close();
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+// ── Tool Extraction ─────────────────────────────────────────────────────────
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/** Tool inputs and results are stored as JSON strings */
+function parseJson(value: string | null | undefined): Record<string, unknown> {
+  if (!value) return {};
+  try {
+    return asRecord(JSON.parse(value));
+  } catch {
+    return {};
+  }
+}
+
+/** `edit_file` results carry Cursor's own diff as hunks */
+function chunkDiff(filePath: string, result: Record<string, unknown>, maxLines: number): string {
+  const chunks = asRecord(result.diff).chunks;
+  if (!Array.isArray(chunks)) return '';
+  const body = chunks
+    .map((chunk) => str(asRecord(chunk).diffString))
+    .filter(Boolean)
+    .join('\n');
+  if (!body) return '';
+  const lines = body.split('\n');
+  const capped =
+    lines.length > maxLines ? [...lines.slice(0, maxLines), `+${lines.length - maxLines} lines truncated`] : lines;
+  return `--- a/${filePath}\n+++ b/${filePath}\n${capped.join('\n')}`;
+}
+
+function addBubbleTool(collector: SummaryCollector, bubble: CursorBubble, config: VerbosityConfig): void {
+  const tool = bubble.toolFormerData;
+  if (!tool?.name) return;
+  const name = tool.name;
+  const args = parseJson(tool.rawArgs || tool.params);
+  const result = parseJson(tool.result);
+  const isError = tool.status === 'error';
+  const filePath = str(args.target_file) || str(args.file_path) || str(args.targetFile) || str(args.path);
+
+  switch (name) {
+    case 'run_terminal_cmd':
+    case 'run_terminal_command':
+    case 'run_terminal_command_v2': {
+      const command = str(args.command);
+      const output = str(result.output) || str(result.stdout);
+      const exitCode = typeof result.exitCode === 'number' ? result.exitCode : result.exitCodeV2;
+      const failed = isError || (typeof exitCode === 'number' && exitCode !== 0);
+      collector.add('Bash', shellSummary(command, output || undefined), {
+        data: {
+          category: 'shell',
+          command,
+          ...(typeof exitCode === 'number' ? { exitCode } : {}),
+          ...(output ? { stdoutTail: output.slice(-500) } : {}),
+          ...(failed ? { errored: true } : {}),
+        },
+        isError: failed,
+      });
+      return;
+    }
+    case 'read_file':
+    case 'read_file_v2': {
+      const start = args.start_line_one_indexed;
+      const end = args.end_line_one_indexed_inclusive;
+      collector.add('Read', fileSummary('read', filePath), {
+        data: {
+          category: 'read',
+          filePath,
+          ...(typeof start === 'number' ? { lineStart: start } : {}),
+          ...(typeof end === 'number' ? { lineEnd: end } : {}),
+        },
+        filePath,
+        isError,
+      });
+      return;
+    }
+    case 'write': {
+      const content = str(args.contents) || str(args.content);
+      const { diff } = formatNewFileDiff(content, filePath, config.write.diffLines);
+      const diffStats = countDiffStats(diff);
+      collector.add('Write', fileSummary('write', filePath, diffStats), {
+        data: { category: 'write', filePath, diff, diffStats },
+        filePath,
+        isWrite: true,
+        isError,
+        changes: [{ kind: 'write', filePath, content }],
+      });
+      return;
+    }
+    case 'search_replace':
+    case 'edit_file':
+    case 'edit_file_v2': {
+      const oldText = str(args.old_string);
+      const newText = str(args.new_string);
+      const diff =
+        oldText || newText
+          ? formatEditDiff(oldText, newText, filePath, config.edit.diffLines).diff
+          : chunkDiff(filePath, result, config.edit.diffLines);
+      const diffStats = diff ? countDiffStats(diff) : undefined;
+      const changes: FileChangeOp[] =
+        oldText || newText ? [{ kind: 'edit', filePath, oldText, newText }] : [{ kind: 'unknown', filePath }];
+      collector.add('Edit', fileSummary('edit', filePath, diffStats), {
+        data: { category: 'edit', filePath, ...(diff ? { diff, diffStats } : {}) },
+        filePath,
+        isWrite: true,
+        isError,
+        changes,
+      });
+      return;
+    }
+    case 'delete_file':
+      collector.add('Delete', `delete ${filePath}`, {
+        filePath,
+        isWrite: true,
+        isError,
+        changes: [{ kind: 'delete', filePath }],
+      });
+      return;
+    case 'grep_search':
+    case 'grep':
+    case 'codebase_search': {
+      const pattern = str(args.query) || str(args.pattern);
+      const include = str(args.include_pattern) || str(args.path);
+      collector.add('Grep', grepSummary(pattern, include || undefined), {
+        data: { category: 'grep', pattern, ...(include ? { targetPath: include } : {}) },
+        isError,
+      });
+      return;
+    }
+    case 'file_search':
+    case 'glob_file_search':
+    case 'list_dir': {
+      const pattern = str(args.query) || str(args.glob_pattern) || str(args.relative_workspace_path) || '.';
+      collector.add('Glob', globSummary(pattern), { data: { category: 'glob', pattern }, isError });
+      return;
+    }
+    case 'web_search': {
+      const query = str(args.search_term) || str(args.query);
+      collector.add('WebSearch', searchSummary(query), { data: { category: 'search', query }, isError });
+      return;
+    }
+    case 'todo_write': {
+      const items = parseTodoList(args);
+      if (items) {
+        collector.add('TodoWrite', `todo: ${truncate(describeTodoList(items), 80)}`, {
+          data: { category: 'todo', items },
+        });
+      }
+      return;
+    }
+    default: {
+      const params = truncate(JSON.stringify(args), config.mcp.paramChars);
+      const output = tool.result ? truncate(tool.result, 100) : undefined;
+      collector.add(name, mcpSummary(name, params, output), {
+        data: { category: 'mcp', toolName: name, params, ...(output ? { result: output } : {}) },
+        isError,
+      });
+    }
+  }
+}
+
+/**
+ * Extract context from a Cursor composer thread for cross-tool continuation.
+ */
+export async function extractCursorIdeContext(
+  session: UnifiedSession,
+  config?: VerbosityConfig,
+): Promise<SessionContext> {
+  const cfg = config ?? getPreset('standard');
+
+  let bubbles: CursorBubble[] = [];
+  let data: CursorComposerData | null = null;
+  const globalPath = globalDbFor(session.originalPath);
+  const globalDb = fs.existsSync(globalPath) ? openStateDb(globalPath) : null;
+  try {
+    data = readComposerData(globalDb, session.id);
+    if (!data) {
+      const header = readWorkspaceComposers(session.originalPath).find((c) => c.composerId === session.id);
+      const inline = CursorComposerDataSchema.safeParse(header);
+      data = inline.success ? inline.data : null;
+    }
+    if (data) bubbles = globalDb ? readBubbles(globalDb, data) : (data.conversation ?? []);
+  } catch (err) {
+    logger.debug('cursor-ide: failed to read composer', session.id, err);
+  } finally {
+    globalDb?.close();
+  }
+
+  const recentMessages: ConversationMessage[] = bubbles
+    .filter((b) => (b.type === USER_BUBBLE || b.type === AI_BUBBLE) && b.text?.trim())
+    .map((b) => ({
+      role: b.type === USER_BUBBLE ? ('user' as const) : ('assistant' as const),
+      content: b.text!.trim(),
+    }))
+    .slice(-cfg.recentMessages);
+
+  const collector = new SummaryCollector(cfg);
+  for (const bubble of bubbles) addBubbleTool(collector, bubble, cfg);
+  const toolSummaries = collector.getSummaries();
+  const filesModified = collector.getFilesModified();
+  const fileChanges = collector.getFileChanges();
+  const openProblems = collector.getOpenProblems();
+  const todos = collector.getTodos();
+  const pendingTasks = todos ? pendingTasksFromTodos(todos, cfg.pendingTasks.maxTasks) : [];
+
+  const sessionNotes: SessionNotes = {};
+  if (session.model) sessionNotes.model = session.model;
+  let input = 0;
+  let output = 0;
+  for (const bubble of bubbles) {
+    input += bubble.tokenCount?.inputTokens ?? 0;
+    output += bubble.tokenCount?.outputTokens ?? 0;
+  }
+  if (input || output) sessionNotes.tokenUsage = { input, output };
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+
+  const markdown = generateHandoffMarkdown(
+    session,
+    recentMessages,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    cfg,
+  );
+
+  return {
+    session,
+    recentMessages,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    markdown,
+  };
+}
@@ -9,6 +9,7 @@ import { getFileStats, readJsonlFile, scanJsonlHead } from '../utils/jsonl.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
 import { cleanSummary, extractRepoFromCwd, homeDir } from '../utils/parser-helpers.js';
 import { cwdFromSlug } from '../utils/slug.js';
+import { pendingTasksFromTodos } from '../utils/todos.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
 import {
@@ -23,7 +24,7 @@ const CURSOR_PROJECTS_DIR = path.join(homeDir(), '.cursor', 'projects');
  * Find all Cursor agent-transcript JSONL files.
  * Structure: ~/.cursor/projects/<project-slug>/agent-transcripts/<uuid>/<uuid>.jsonl
  */
-async function findTranscriptFiles(): Promise<string[]> {
+export async function findCursorSessionFiles(): Promise<string[]> {
   if (!fs.existsSync(CURSOR_PROJECTS_DIR)) return [];
 
   const files: string[] = [];
@@ -98,8 +99,8 @@ async function parseSessionInfo(filePath: string): Promise<{
 /**
  * Parse all Cursor sessions
  */
-export async function parseCursorSessions(): Promise<UnifiedSession[]> {
-  const files = await findTranscriptFiles();
+export async function parseCursorSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findCursorSessionFiles());
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
@@ -146,12 +147,17 @@ export async function extractCursorContext(session: UnifiedSession, config?: Ver
     content: l.message.content,
   }));
 
-  const { summaries: toolSummaries, filesModified } = extractAnthropicToolData(anthropicMsgs, resolvedConfig);
+  const { summaries: toolSummaries, filesModified, fileChanges, todos, openProblems } = extractAnthropicToolData(
+    anthropicMsgs,
+    resolvedConfig,
+  );
 
   // Extract session notes (thinking highlights + token usage)
   const sessionNotes: SessionNotes = {};
   const reasoning = extractThinkingHighlights(anthropicMsgs);
   if (reasoning.length > 0) sessionNotes.reasoning = reasoning;
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
 
   // Aggregate token usage, cache tokens, and model from passthrough fields.
   // Cursor CLI agent-transcripts use Anthropic API format — the schema's
@@ -185,7 +191,7 @@ export async function extractCursorContext(session: UnifiedSession, config?: Ver
     }
   }
 
-  const pendingTasks: string[] = [];
+  const pendingTasks = todos ? pendingTasksFromTodos(todos, resolvedConfig.pendingTasks.maxTasks) : [];
 
   for (const line of lines) {
     const textParts: string[] = [];
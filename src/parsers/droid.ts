@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { logger } from '../logger.js';
-import type { ConversationMessage, SessionContext, SessionNotes, UnifiedSession } from '../types/index.js';
+import type { ConversationMessage, SessionContext, SessionNotes, TodoItem, UnifiedSession } from '../types/index.js';
 import type {
   DroidCompactionState,
   DroidEvent,
@@ -17,6 +17,7 @@ import { getFileStats, readJsonlFile, scanJsonlHead } from '../utils/jsonl.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
 import { cleanSummary, extractRepoFromCwd, homeDir } from '../utils/parser-helpers.js';
 import { cwdFromSlug } from '../utils/slug.js';
+import { parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
 import {
@@ -32,7 +33,7 @@ const DROID_SESSIONS_DIR = path.join(homeDir(), '.factory', 'sessions');
  * Find all Droid session JSONL files.
  * Structure: ~/.factory/sessions/<workspace-slug>/<uuid>.jsonl
  */
-async function findSessionFiles(): Promise<string[]> {
+export async function findDroidSessionFiles(): Promise<string[]> {
   const files: string[] = [];
   for (const wsPath of listSubdirectories(DROID_SESSIONS_DIR)) {
     try {
@@ -116,8 +117,8 @@ async function parseSessionInfo(filePath: string): Promise<{
 /**
  * Parse all Droid sessions
  */
-export async function parseDroidSessions(): Promise<UnifiedSession[]> {
-  const files = await findSessionFiles();
+export async function parseDroidSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findDroidSessionFiles());
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
@@ -206,11 +207,9 @@ function extractSessionNotes(events: DroidEvent[], settings: DroidSettings | nul
 }
 
 /**
- * Extract pending tasks from the most recent todo_state event
+ * The todo list from the most recent todo_state event
  */
-function extractPendingTasks(events: DroidEvent[]): string[] {
-  const tasks: string[] = [];
-
+function extractTodoState(events: DroidEvent[]): TodoItem[] | undefined {
   let lastTodo: DroidTodoState | null = null;
   for (const event of events) {
     if (event.type === 'todo_state') {
@@ -218,19 +217,10 @@ function extractPendingTasks(events: DroidEvent[]): string[] {
     }
   }
 
-  if (!lastTodo) return tasks;
+  if (!lastTodo) return undefined;
 
   const todosText = typeof lastTodo.todos === 'string' ? lastTodo.todos : lastTodo.todos?.todos || '';
-  if (!todosText) return tasks;
-
-  for (const line of todosText.split('\n')) {
-    const match = line.match(/^\d+\.\s*\[(in_progress|pending)\]\s+(.+)/);
-    if (match && tasks.length < 5) {
-      tasks.push(match[2].trim());
-    }
-  }
-
-  return tasks;
+  return todosText ? parseTodoList(todosText) : undefined;
 }
 
 /**
@@ -246,9 +236,14 @@ export async function extractDroidContext(session: UnifiedSession, config?: Verb
     .filter((e): e is DroidMessageEvent => e.type === 'message')
     .map((e) => ({ role: e.message.role, content: e.message.content }));
 
-  const { summaries: toolSummaries, filesModified } = extractAnthropicToolData(anthropicMsgs, resolvedConfig);
+  const { summaries: toolSummaries, filesModified, fileChanges, todos, openProblems } = extractAnthropicToolData(
+    anthropicMsgs,
+    resolvedConfig,
+  );
   const sessionNotes = extractSessionNotes(events, settings);
-  const pendingTasks = extractPendingTasks(events);
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+  const pendingTasks = pendingTasksFromTodos(extractTodoState(events) ?? todos ?? [], resolvedConfig.pendingTasks.maxTasks);
 
   // Collect conversation messages (text content only)
   const recentMessages: ConversationMessage[] = [];
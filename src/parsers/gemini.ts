@@ -3,8 +3,12 @@ import * as path from 'path';
 import { logger } from '../logger.js';
 import type {
   ConversationMessage,
+  FileChangeSummary,
+  OpenProblem,
   SessionContext,
   SessionNotes,
+  SessionSource,
+  TodoItem,
   ToolUsageSummary,
   UnifiedSession,
 } from '../types/index.js';
@@ -17,21 +21,49 @@ import { cleanSummary, homeDir } from '../utils/parser-helpers.js';
 import { classifyToolName } from '../types/tool-names.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
+import { describeTodoList, parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
 import { fileSummary, mcpSummary, shellSummary, SummaryCollector, truncate } from '../utils/tool-summarizer.js';
 
-const geminiHome = process.env.GEMINI_CLI_HOME || homeDir();
-const GEMINI_BASE_DIR = path.join(geminiHome, '.gemini', 'tmp');
-const GEMINI_LEGACY_DIR = path.join(geminiHome, '.gemini', 'sessions');
+/**
+ * Where a Gemini-family CLI keeps its chats. Forks of Gemini CLI (Qwen Code
+ * and others) write the same chat format under their own home directory.
+ */
+export interface GeminiFamilyOptions {
+  /** Source recorded on parsed sessions */
+  source: SessionSource;
+  /** Data directory relative to the home directory (e.g. `.gemini`), or an absolute path */
+  dataDir: string;
+  /** Environment variable that replaces the home directory (e.g. `GEMINI_CLI_HOME`) */
+  envVar?: string;
+}
+
+/** Discovery, indexing and context extraction bound to one Gemini-family tool */
+export interface GeminiFamilyParser {
+  findSessionFiles: () => Promise<string[]>;
+  parseSessions: (sourceFiles?: string[]) => Promise<UnifiedSession[]>;
+  extractContext: (session: UnifiedSession, config?: VerbosityConfig) => Promise<SessionContext>;
+}
 
 /**
- * Find all Gemini session files (new and legacy storage formats)
+ * Resolve the data directory of a Gemini-family tool — a leading `~/` is
+ * allowed, since fork data dirs come from user config
  */
-async function findSessionFiles(): Promise<string[]> {
+function resolveDataDir(options: GeminiFamilyOptions): string {
+  const home = (options.envVar && process.env[options.envVar]) || homeDir();
+  return path.resolve(home, options.dataDir.replace(/^~[/\\]/, ''));
+}
+
+/**
+ * Find all session files under a Gemini-family data dir (new and legacy storage formats)
+ */
+function findSessionFiles(dataDir: string): string[] {
   const results: string[] = [];
+  const baseDir = path.join(dataDir, 'tmp');
+  const legacyDir = path.join(dataDir, 'sessions');
 
   // New format: ~/.gemini/tmp/<project-hash>/chats/session-*.json
-  if (fs.existsSync(GEMINI_BASE_DIR)) {
-    for (const projectDir of listSubdirectories(GEMINI_BASE_DIR)) {
+  if (fs.existsSync(baseDir)) {
+    for (const projectDir of listSubdirectories(baseDir)) {
       if (path.basename(projectDir) === 'bin') continue;
       const chatsDir = path.join(projectDir, 'chats');
       results.push(
@@ -44,9 +76,9 @@ async function findSessionFiles(): Promise<string[]> {
   }
 
   // Legacy format: ~/.gemini/sessions/*.json
-  if (fs.existsSync(GEMINI_LEGACY_DIR)) {
+  if (fs.existsSync(legacyDir)) {
     results.push(
-      ...findFiles(GEMINI_LEGACY_DIR, {
+      ...findFiles(legacyDir, {
         match: (entry) => entry.name.endsWith('.json'),
         recursive: false,
       }),
@@ -59,15 +91,15 @@ async function findSessionFiles(): Promise<string[]> {
 /**
  * Parse a single Gemini session file
  */
-function parseSessionFile(filePath: string): GeminiSession | null {
+function parseSessionFile(filePath: string, source: SessionSource): GeminiSession | null {
   try {
     const content = fs.readFileSync(filePath, 'utf8');
     const result = GeminiSessionSchema.safeParse(JSON.parse(content));
     if (result.success) return result.data;
-    logger.debug('gemini: session validation failed', filePath, result.error.message);
+    logger.debug(`${source}: session validation failed`, filePath, result.error.message);
     return null;
   } catch (err) {
-    logger.debug('gemini: failed to parse session file', filePath, err);
+    logger.debug(`${source}: failed to parse session file`, filePath, err);
     return null;
   }
 }
@@ -94,7 +126,16 @@ function extractFirstUserMessage(session: GeminiSession): string {
 /**
  * Extract tool usage summaries and files modified using shared SummaryCollector
  */
-function extractToolData(sessionData: GeminiSession, config?: VerbosityConfig): { summaries: ToolUsageSummary[]; filesModified: string[] } {
+function extractToolData(
+  sessionData: GeminiSession,
+  config?: VerbosityConfig,
+): {
+  summaries: ToolUsageSummary[];
+  filesModified: string[];
+  fileChanges: FileChangeSummary[];
+  todos?: TodoItem[];
+  openProblems: OpenProblem[];
+} {
   const collector = new SummaryCollector(config);
 
   for (const msg of sessionData.messages) {
@@ -136,6 +177,9 @@ function extractToolData(sessionData: GeminiSession, config?: VerbosityConfig):
             filePath: fp,
             isWrite: true,
             isError,
+            ...(typeof args?.content === 'string'
+              ? { changes: [{ kind: 'write' as const, filePath: fp, content: args.content, isNewFile }] }
+              : {}),
           });
           break;
         }
@@ -232,6 +276,16 @@ function extractToolData(sessionData: GeminiSession, config?: VerbosityConfig):
           });
           break;
         }
+        case 'todo': {
+          const items = parseTodoList(args);
+          if (items) {
+            collector.add(name, `todo: ${truncate(describeTodoList(items), 80)}`, {
+              data: { category: 'todo', items },
+              isError,
+            });
+          }
+          break;
+        }
         default: {
           // mcp — fallback to compact format
           const argsStr = args ? JSON.stringify(args).slice(0, 100) : '';
@@ -249,7 +303,13 @@ function extractToolData(sessionData: GeminiSession, config?: VerbosityConfig):
     }
   }
 
-  return { summaries: collector.getSummaries(), filesModified: collector.getFilesModified() };
+  return {
+    summaries: collector.getSummaries(),
+    filesModified: collector.getFilesModified(),
+    fileChanges: collector.getFileChanges(),
+    todos: collector.getTodos(),
+    openProblems: collector.getOpenProblems(),
+  };
 }
 
 /**
@@ -293,15 +353,14 @@ function extractSessionNotes(sessionData: GeminiSession): SessionNotes {
 }
 
 /**
- * Parse all Gemini sessions
+ * Parse Gemini-family session files into sessions of the given source
  */
-export async function parseGeminiSessions(): Promise<UnifiedSession[]> {
-  const files = await findSessionFiles();
+function parseSessions(files: string[], source: SessionSource): UnifiedSession[] {
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
     try {
-      const session = parseSessionFile(filePath);
+      const session = parseSessionFile(filePath, source);
       if (!session || !session.sessionId) continue;
 
       // Get cwd from parent directory structure (project hash dir)
@@ -320,7 +379,7 @@ export async function parseGeminiSessions(): Promise<UnifiedSession[]> {
 
       sessions.push({
         id: session.sessionId,
-        source: 'gemini',
+        source,
         cwd,
         repo: '',
         lines,
@@ -331,7 +390,7 @@ export async function parseGeminiSessions(): Promise<UnifiedSession[]> {
         summary: summary || undefined,
       });
     } catch (err) {
-      logger.debug('gemini: skipping unparseable session', filePath, err);
+      logger.debug(`${source}: skipping unparseable session`, filePath, err);
       // Skip files we can't parse
     }
   }
@@ -345,9 +404,9 @@ export async function parseGeminiSessions(): Promise<UnifiedSession[]> {
 /**
  * Extract context from a Gemini session for cross-tool continuation
  */
-export async function extractGeminiContext(session: UnifiedSession, config?: VerbosityConfig): Promise<SessionContext> {
+function extractContext(session: UnifiedSession, config?: VerbosityConfig): SessionContext {
   const resolvedConfig = config ?? getPreset('standard');
-  const sessionData = parseSessionFile(session.originalPath);
+  const sessionData = parseSessionFile(session.originalPath, session.source);
   const recentMessages: ConversationMessage[] = [];
   let filesModified: string[] = [];
   const pendingTasks: string[] = [];
@@ -359,10 +418,15 @@ export async function extractGeminiContext(session: UnifiedSession, config?: Ver
     toolSummaries = toolData.summaries;
     filesModified = toolData.filesModified;
     sessionNotes = extractSessionNotes(sessionData);
+    if (toolData.fileChanges.length > 0) sessionNotes.fileChanges = toolData.fileChanges;
+    if (toolData.openProblems.length > 0) sessionNotes.openProblems = toolData.openProblems;
+    if (toolData.todos) {
+      pendingTasks.push(...pendingTasksFromTodos(toolData.todos, resolvedConfig.pendingTasks.maxTasks));
+    }
 
     for (const msg of sessionData.messages.slice(-resolvedConfig.recentMessages * 2)) {
-      // Extract pending tasks from thoughts
-      if (msg.type === 'gemini' && msg.thoughts && pendingTasks.length < 5) {
+      // Extract pending tasks from thoughts, unless the session kept a todo list
+      if (msg.type === 'gemini' && msg.thoughts && !toolData.todos && pendingTasks.length < 5) {
         for (const thought of msg.thoughts) {
           if (pendingTasks.length >= 5) break;
           const subject = thought.subject?.toLowerCase() || '';
@@ -423,4 +487,38 @@ export async function extractGeminiContext(session: UnifiedSession, config?: Ver
   };
 }
 
+/**
+ * Create the parser for a Gemini-family tool
+ */
+export function createGeminiFamilyParser(options: GeminiFamilyOptions): GeminiFamilyParser {
+  return {
+    findSessionFiles: async () => findSessionFiles(resolveDataDir(options)),
+    parseSessions: async (sourceFiles) =>
+      parseSessions(sourceFiles ?? findSessionFiles(resolveDataDir(options)), options.source),
+    extractContext: async (session, config) => extractContext(session, config),
+  };
+}
+
+const gemini = createGeminiFamilyParser({ source: 'gemini', dataDir: '.gemini', envVar: 'GEMINI_CLI_HOME' });
+
+/** Find all Gemini CLI session files */
+export const findGeminiSessionFiles = gemini.findSessionFiles;
+
+/** Parse all Gemini CLI sessions, or just the given session files */
+export const parseGeminiSessions = gemini.parseSessions;
+
+/** Extract context from a Gemini CLI session for cross-tool continuation */
+export const extractGeminiContext = gemini.extractContext;
+
+const qwen = createGeminiFamilyParser({ source: 'qwen', dataDir: '.qwen' });
+
+/** Find all Qwen Code session files */
+export const findQwenSessionFiles = qwen.findSessionFiles;
+
+/** Parse all Qwen Code sessions, or just the given session files */
+export const parseQwenSessions = qwen.parseSessions;
+
+/** Extract context from a Qwen Code session for cross-tool continuation */
+export const extractQwenContext = qwen.extractContext;
+
 // generateHandoffMarkdown is imported from ../utils/markdown.js
@@ -0,0 +1,272 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { VerbosityConfig } from '../config/index.js';
+import { getPreset } from '../config/index.js';
+import { logger } from '../logger.js';
+import type { ConversationMessage, SessionContext, SessionNotes, UnifiedSession } from '../types/index.js';
+import type { GooseContent, GooseMessage, GooseSessionMeta } from '../types/schemas.js';
+import { GooseMessageSchema, GooseSessionMetaSchema } from '../types/schemas.js';
+import { countDiffStats, formatEditDiff, formatNewFileDiff } from '../utils/diff.js';
+import { findFiles } from '../utils/fs-helpers.js';
+import { getFileStats, readJsonlFile, scanJsonlHead } from '../utils/jsonl.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { cleanSummary, extractRepoFromCwd, homeDir } from '../utils/parser-helpers.js';
+import { fileSummary, mcpSummary, SummaryCollector, shellSummary, truncate } from '../utils/tool-summarizer.js';
+
+const GOOSE_SESSIONS_DIR = path.join(
+  process.env.XDG_DATA_HOME || path.join(homeDir(), '.local', 'share'),
+  'goose',
+  'sessions',
+);
+
+/**
+ * Find all Goose session files.
+ * Structure: ~/.local/share/goose/sessions/<session-name>.jsonl
+ */
+export async function findGooseSessionFiles(): Promise<string[]> {
+  return findFiles(GOOSE_SESSIONS_DIR, {
+    match: (entry) => entry.name.endsWith('.jsonl'),
+    recursive: false,
+  });
+}
+
+/** Goose sessions are resumed by name — the file name without `.jsonl` */
+function sessionName(filePath: string): string {
+  return path.basename(filePath, '.jsonl');
+}
+
+/**
+ * Read a session file: the metadata line (absent in old versions) and the
+ * messages after it. Lines that match neither shape are skipped.
+ */
+async function readSessionFile(filePath: string): Promise<{ meta: GooseSessionMeta | null; messages: GooseMessage[] }> {
+  let meta: GooseSessionMeta | null = null;
+  const messages: GooseMessage[] = [];
+
+  for (const line of await readJsonlFile<unknown>(filePath)) {
+    const message = GooseMessageSchema.safeParse(line);
+    if (message.success) {
+      messages.push(message.data);
+      continue;
+    }
+    const metaLine = GooseSessionMetaSchema.safeParse(line);
+    if (metaLine.success && !meta) meta = metaLine.data;
+    else logger.debug('goose: skipping unrecognized line', filePath);
+  }
+  return { meta, messages };
+}
+
+/** Text parts of a message, tool requests and responses left out */
+function messageText(message: GooseMessage): string {
+  return message.content
+    .filter((c) => c.type === 'text' && c.text)
+    .map((c) => c.text)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Parse all Goose sessions into the unified format.
+ */
+export async function parseGooseSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findGooseSessionFiles());
+  const sessions: UnifiedSession[] = [];
+
+  for (const filePath of files) {
+    try {
+      let meta: GooseSessionMeta | null = null;
+      let firstUserMessage = '';
+      let firstCreated: number | undefined;
+
+      await scanJsonlHead(filePath, 200, (parsed) => {
+        const message = GooseMessageSchema.safeParse(parsed);
+        if (!message.success) {
+          const metaLine = GooseSessionMetaSchema.safeParse(parsed);
+          if (metaLine.success && !meta) meta = metaLine.data;
+          return 'continue';
+        }
+        firstCreated ??= message.data.created;
+        if (!firstUserMessage && message.data.role === 'user') firstUserMessage = messageText(message.data);
+        return 'continue';
+      });
+
+      const sessionMeta = meta as GooseSessionMeta | null;
+      if (!sessionMeta && firstCreated === undefined) continue;
+
+      const fileStats = fs.statSync(filePath);
+      const { lines, bytes } = await getFileStats(filePath);
+      const cwd = sessionMeta?.working_dir ?? '';
+      const summary = cleanSummary(firstUserMessage) || cleanSummary(sessionMeta?.description ?? '');
+
+      sessions.push({
+        id: sessionName(filePath),
+        source: 'goose',
+        cwd,
+        repo: extractRepoFromCwd(cwd),
+        lines,
+        bytes,
+        createdAt: firstCreated !== undefined ? new Date(firstCreated * 1000) : fileStats.birthtime,
+        updatedAt: fileStats.mtime,
+        originalPath: filePath,
+        summary,
+      });
+    } catch (err) {
+      logger.debug('goose: skipping unparseable session', filePath, err);
+    }
+  }
+
+  return sessions
+    .filter((s) => s.summary && s.summary.length > 0)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/** Output of a tool response — the parts meant for the model, when tagged */
+function toolOutput(response: GooseContent['toolResult']): string {
+  if (!response) return '';
+  if (response.error) return response.error;
+  const parts = (response.value ?? []).filter((v) => v.type === 'text' && v.text);
+  const forModel = parts.filter((v) => !v.annotations?.audience || v.annotations.audience.includes('assistant'));
+  return (forModel.length > 0 ? forModel : parts).map((v) => v.text).join('\n');
+}
+
+/**
+ * Tool calls from `toolRequest` parts, paired with the `toolResponse` parts
+ * that answer them. `developer__shell` and `developer__text_editor` get the
+ * shell, read, write and edit categories; other extensions' tools are MCP calls.
+ */
+function extractToolData(messages: GooseMessage[], config: VerbosityConfig): SummaryCollector {
+  const collector = new SummaryCollector(config);
+
+  const responses = new Map<string, NonNullable<GooseContent['toolResult']>>();
+  for (const message of messages) {
+    for (const part of message.content) {
+      if (part.type === 'toolResponse' && part.id && part.toolResult) responses.set(part.id, part.toolResult);
+    }
+  }
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') continue;
+    for (const part of message.content) {
+      if (part.type !== 'toolRequest' || !part.toolCall?.value) continue;
+      const { name, arguments: args = {} } = part.toolCall.value;
+      const response = part.id ? responses.get(part.id) : undefined;
+      const isError = part.toolCall.status === 'error' || response?.status === 'error';
+      const output = toolOutput(response);
+      const tool = name.split('__').pop() ?? name;
+      const filePath = typeof args.path === 'string' ? args.path : '';
+
+      if (tool === 'shell') {
+        const command = typeof args.command === 'string' ? args.command : '';
+        collector.add('Bash', shellSummary(command, output || undefined), {
+          data: {
+            category: 'shell',
+            command,
+            ...(output ? { stdoutTail: output.slice(-500) } : {}),
+            ...(isError ? { errored: true, errorMessage: output.slice(0, 200) } : {}),
+          },
+          isError,
+        });
+      } else if (tool === 'text_editor' && args.command === 'view') {
+        collector.add('Read', fileSummary('read', filePath), {
+          data: { category: 'read', filePath },
+          filePath,
+          isError,
+        });
+      } else if (tool === 'text_editor' && args.command === 'write' && typeof args.file_text === 'string') {
+        const { diff } = formatNewFileDiff(args.file_text, filePath, config.write.diffLines);
+        const diffStats = countDiffStats(diff);
+        collector.add('Write', fileSummary('write', filePath, diffStats), {
+          data: { category: 'write', filePath, diff, diffStats },
+          filePath,
+          isWrite: true,
+          isError,
+          changes: [{ kind: 'write', filePath, content: args.file_text }],
+        });
+      } else if (tool === 'text_editor' && args.command === 'str_replace') {
+        const oldText = typeof args.old_str === 'string' ? args.old_str : '';
+        const newText = typeof args.new_str === 'string' ? args.new_str : '';
+        const { diff } = formatEditDiff(oldText, newText, filePath, config.edit.diffLines);
+        const diffStats = countDiffStats(diff);
+        collector.add('Edit', fileSummary('edit', filePath, diffStats), {
+          data: {
+            category: 'edit',
+            filePath,
+            diff,
+            diffStats,
+            ...(isError ? { errorMessage: output.slice(0, 200) } : {}),
+          },
+          filePath,
+          isWrite: true,
+          isError,
+          changes: [{ kind: 'edit', filePath, oldText, newText }],
+        });
+      } else if (tool === 'text_editor') {
+        // insert / undo_edit: the file changed, but not by a replayable edit
+        collector.add('Edit', fileSummary('edit', filePath), {
+          data: { category: 'edit', filePath },
+          filePath,
+          isWrite: true,
+          isError,
+        });
+      } else {
+        const argsStr = truncate(JSON.stringify(args), config.mcp.paramChars);
+        collector.add(name, mcpSummary(name, argsStr, output || undefined), {
+          data: { category: 'mcp', toolName: name, params: argsStr, ...(output ? { result: output } : {}) },
+          isError,
+        });
+      }
+    }
+  }
+
+  return collector;
+}
+
+/**
+ * Extract context from a Goose session for cross-tool continuation.
+ */
+export async function extractGooseContext(session: UnifiedSession, config?: VerbosityConfig): Promise<SessionContext> {
+  const cfg = config ?? getPreset('standard');
+  const { meta, messages } = await readSessionFile(session.originalPath);
+
+  const recentMessages: ConversationMessage[] = [];
+  for (const message of messages) {
+    const content = messageText(message);
+    if (!content) continue;
+    recentMessages.push({ role: message.role, content, timestamp: new Date(message.created * 1000) });
+  }
+  const trimmed = recentMessages.slice(-cfg.recentMessages);
+
+  const collector = extractToolData(messages, cfg);
+  const toolSummaries = collector.getSummaries();
+  const filesModified = collector.getFilesModified();
+  const fileChanges = collector.getFileChanges();
+  const openProblems = collector.getOpenProblems();
+  const pendingTasks: string[] = [];
+
+  const sessionNotes: SessionNotes = {};
+  const input = meta?.accumulated_input_tokens ?? meta?.input_tokens;
+  const output = meta?.accumulated_output_tokens ?? meta?.output_tokens;
+  if (input || output) sessionNotes.tokenUsage = { input: input ?? 0, output: output ?? 0 };
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+
+  const markdown = generateHandoffMarkdown(
+    session,
+    trimmed,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    cfg,
+  );
+
+  return {
+    session,
+    recentMessages: trimmed,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    markdown,
+  };
+}
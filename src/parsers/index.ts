@@ -3,7 +3,13 @@ export { extractCodexContext, parseCodexSessions } from './codex.js';
 export { extractCopilotContext, parseCopilotSessions } from './copilot.js';
 export { extractCursorContext, parseCursorSessions } from './cursor.js';
 export { extractDroidContext, parseDroidSessions } from './droid.js';
-export { extractGeminiContext, parseGeminiSessions } from './gemini.js';
+export {
+  createGeminiFamilyParser,
+  extractGeminiContext,
+  extractQwenContext,
+  parseGeminiSessions,
+  parseQwenSessions,
+} from './gemini.js';
 export { extractOpenCodeContext, parseOpenCodeSessions } from './opencode.js';
 export { extractAmpContext, parseAmpSessions } from './amp.js';
 export { extractKiroContext, parseKiroSessions } from './kiro.js';
@@ -14,5 +20,11 @@ export {
   extractKiloCodeContext, parseKiloCodeSessions,
 } from './cline.js';
 export { extractAntigravityContext, parseAntigravitySessions } from './antigravity.js';
+export { extractAiderContext, parseAiderSessions } from './aider.js';
+export { extractGooseContext, parseGooseSessions } from './goose.js';
+export { extractContinueContext, parseContinueSessions } from './continue-dev.js';
+export { extractZedContext, parseZedSessions } from './zed.js';
+export { extractCopilotChatContext, parseCopilotChatSessions } from './copilot-chat.js';
+export { extractCursorIdeContext, parseCursorIdeSessions } from './cursor-ide.js';
 export type { ToolAdapter } from './registry.js';
 export { ALL_TOOLS, adapters, SOURCE_HELP } from './registry.js';
@@ -7,9 +7,10 @@ import type {
   UnifiedSession,
 } from '../types/index.js';
 import { extractTextFromBlocks } from '../utils/content.js';
+import { editorBases } from '../utils/editor-storage.js';
 import { findFiles, listSubdirectories } from '../utils/fs-helpers.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
-import { cleanSummary, homeDir } from '../utils/parser-helpers.js';
+import { cleanSummary } from '../utils/parser-helpers.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
 
@@ -34,30 +35,30 @@ interface KiroSession {
 }
 
 // ── Base Path ───────────────────────────────────────────────────────────────
-// macOS: ~/Library/Application Support/Kiro/workspace-sessions/
-const KIRO_BASE_DIR = path.join(
-  homeDir(),
-  'Library',
-  'Application Support',
-  'Kiro',
-  'workspace-sessions',
-);
+// <config dir>/Kiro/workspace-sessions/ — ~/Library/Application Support on macOS,
+// $XDG_CONFIG_HOME (or ~/.config) on Linux, %APPDATA% on Windows
+
+/** Candidate workspace-sessions directories, one per Kiro config directory */
+export function getKiroSessionDirs(): string[] {
+  return editorBases(['Kiro']).map((base) => path.join(base, 'workspace-sessions'));
+}
 
 /**
  * Find all Kiro session JSON files.
  * Walks workspace subdirectories, skips the `sessions.json` index file.
  */
-async function findSessionFiles(): Promise<string[]> {
-  if (!fs.existsSync(KIRO_BASE_DIR)) return [];
-
+export async function findKiroSessionFiles(): Promise<string[]> {
   const results: string[] = [];
-  for (const workspaceDir of listSubdirectories(KIRO_BASE_DIR)) {
-    results.push(
-      ...findFiles(workspaceDir, {
-        match: (entry) => entry.name.endsWith('.json') && entry.name !== 'sessions.json',
-        recursive: false,
-      }),
-    );
+  for (const baseDir of getKiroSessionDirs()) {
+    if (!fs.existsSync(baseDir)) continue;
+    for (const workspaceDir of listSubdirectories(baseDir)) {
+      results.push(
+        ...findFiles(workspaceDir, {
+          match: (entry) => entry.name.endsWith('.json') && entry.name !== 'sessions.json',
+          recursive: false,
+        }),
+      );
+    }
   }
   return results;
 }
@@ -114,8 +115,8 @@ function deriveProjectName(session: KiroSession): string {
 /**
  * Parse all Kiro sessions into the unified format.
  */
-export async function parseKiroSessions(): Promise<UnifiedSession[]> {
-  const files = await findSessionFiles();
+export async function parseKiroSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findKiroSessionFiles());
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
@@ -3,7 +3,7 @@ import { createRequire } from 'module';
 import * as path from 'path';
 import { z } from 'zod';
 import { logger } from '../logger.js';
-import type { ConversationMessage, SessionContext, ToolUsageSummary, UnifiedSession } from '../types/index.js';
+import type { ConversationMessage, SessionContext, TodoItem, ToolUsageSummary, UnifiedSession } from '../types/index.js';
 import type {
   OpenCodeProject,
   OpenCodeSession,
@@ -21,6 +21,7 @@ import {
 import { findFiles, listSubdirectories } from '../utils/fs-helpers.js';
 import { generateHandoffMarkdown } from '../utils/markdown.js';
 import { extractRepoFromCwd, homeDir } from '../utils/parser-helpers.js';
+import { parseTodoList, pendingTasksFromTodos } from '../utils/todos.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
 
@@ -71,9 +72,9 @@ function openDb(): { db: SqliteDatabase; close: () => void } | null {
 }
 
 /**
- * Find all OpenCode session files
+ * Find all OpenCode legacy JSON session files
  */
-async function findSessionFiles(): Promise<string[]> {
+async function findJsonSessionFiles(): Promise<string[]> {
   const sessionDir = path.join(OPENCODE_STORAGE_DIR, 'session');
   const results: string[] = [];
   for (const projectDir of listSubdirectories(sessionDir)) {
@@ -189,18 +190,26 @@ function countSessionLines(sessionId: string): number {
   }
 }
 
+/**
+ * List the SQLite database (if present) plus legacy JSON session files
+ */
+export async function findOpenCodeSessionFiles(): Promise<string[]> {
+  const jsonFiles = await findJsonSessionFiles();
+  return hasSqliteDb() ? [OPENCODE_DB_PATH, ...jsonFiles] : jsonFiles;
+}
+
 /**
  * Parse all OpenCode sessions - SQLite first, then JSON fallback
  */
-export async function parseOpenCodeSessions(): Promise<UnifiedSession[]> {
+export async function parseOpenCodeSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
   // Try SQLite database first (newer OpenCode versions)
-  if (hasSqliteDb()) {
+  if (hasSqliteDb() && (!sourceFiles || sourceFiles.includes(OPENCODE_DB_PATH))) {
     const sessions = parseSessionsFromSqlite();
     if (sessions.length > 0) return sessions;
   }
 
   // Fallback to JSON files (older OpenCode versions)
-  return parseSessionsFromJson();
+  return parseSessionsFromJson(sourceFiles?.filter((f) => f !== OPENCODE_DB_PATH));
 }
 
 /**
@@ -280,8 +289,8 @@ function parseSessionsFromSqlite(): UnifiedSession[] {
 /**
  * Parse sessions from JSON files (legacy)
  */
-async function parseSessionsFromJson(): Promise<UnifiedSession[]> {
-  const files = await findSessionFiles();
+async function parseSessionsFromJson(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const files = sourceFiles ?? (await findJsonSessionFiles());
   const sessions: UnifiedSession[] = [];
 
   for (const filePath of files) {
@@ -495,6 +504,36 @@ function extractOpenCodeToolSummaries(sessionId: string): ToolUsageSummary[] {
   return summaries;
 }
 
+/**
+ * The session's todo list as last written by `todowrite`. OpenCode keeps it
+ * in a `todo` table (SQLite) or `storage/todo/<sessionId>.json` (legacy).
+ */
+function readTodos(sessionId: string): TodoItem[] | undefined {
+  if (hasSqliteDb()) {
+    const handle = openDb();
+    if (handle) {
+      try {
+        const rows = handle.db
+          .prepare('SELECT content, status FROM todo WHERE session_id = ? ORDER BY position ASC')
+          .all(sessionId);
+        if (rows.length > 0) return parseTodoList(rows);
+      } catch (err) {
+        logger.debug('opencode: todo query failed for session', sessionId, err);
+      } finally {
+        handle.close();
+      }
+    }
+  }
+
+  const todoFile = path.join(OPENCODE_STORAGE_DIR, 'todo', `${sessionId}.json`);
+  try {
+    return fs.existsSync(todoFile) ? parseTodoList(JSON.parse(fs.readFileSync(todoFile, 'utf8'))) : undefined;
+  } catch (err) {
+    logger.debug('opencode: failed to read todo file', todoFile, err);
+    return undefined;
+  }
+}
+
 /**
  * Extract context from an OpenCode session for cross-tool continuation
  */
@@ -502,7 +541,8 @@ export async function extractOpenCodeContext(session: UnifiedSession, config?: V
   const resolvedConfig = config ?? getPreset('standard');
   const recentMessages = readAllMessages(session.id);
   const filesModified: string[] = [];
-  const pendingTasks: string[] = [];
+  const todos = readTodos(session.id);
+  const pendingTasks = todos ? pendingTasksFromTodos(todos, resolvedConfig.pendingTasks.maxTasks) : [];
   const toolSummaries = extractOpenCodeToolSummaries(session.id);
 
   const trimmed = recentMessages.slice(-resolvedConfig.recentMessages);
@@ -1,6 +1,7 @@
 import chalk from 'chalk';
+import { logger } from '../logger.js';
 import type { SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
-import type { VerbosityConfig } from '../config/index.js';
+import type { GeminiForkConfig, VerbosityConfig } from '../config/index.js';
 import { TOOL_NAMES } from '../types/tool-names.js';
 import {
   type FlagOccurrence,
@@ -9,22 +10,37 @@ import {
   type ForwardMapResult,
   normalizeAgentSandbox,
 } from '../utils/forward-flags.js';
-import { extractClaudeContext, parseClaudeSessions } from './claude.js';
-import { extractCodexContext, parseCodexSessions } from './codex.js';
-import { extractCopilotContext, parseCopilotSessions } from './copilot.js';
-import { extractCursorContext, parseCursorSessions } from './cursor.js';
-import { extractDroidContext, parseDroidSessions } from './droid.js';
-import { extractGeminiContext, parseGeminiSessions } from './gemini.js';
-import { extractOpenCodeContext, parseOpenCodeSessions } from './opencode.js';
-import { extractAmpContext, parseAmpSessions } from './amp.js';
-import { extractKiroContext, parseKiroSessions } from './kiro.js';
-import { extractCrushContext, parseCrushSessions } from './crush.js';
+import { extractClaudeContext, findClaudeSessionFiles, parseClaudeSessions } from './claude.js';
+import { extractCodexContext, findCodexSessionFiles, parseCodexSessions } from './codex.js';
+import { extractCopilotContext, findCopilotSessionDirs, parseCopilotSessions } from './copilot.js';
+import { extractCursorContext, findCursorSessionFiles, parseCursorSessions } from './cursor.js';
+import { extractDroidContext, findDroidSessionFiles, parseDroidSessions } from './droid.js';
 import {
-  extractClineContext, parseClineSessions,
-  extractRooCodeContext, parseRooCodeSessions,
-  extractKiloCodeContext, parseKiloCodeSessions,
+  createGeminiFamilyParser, type GeminiFamilyParser,
+  extractGeminiContext, findGeminiSessionFiles, parseGeminiSessions,
+  extractQwenContext, findQwenSessionFiles, parseQwenSessions,
+} from './gemini.js';
+import { extractOpenCodeContext, findOpenCodeSessionFiles, parseOpenCodeSessions } from './opencode.js';
+import { extractAmpContext, findAmpSessionFiles, parseAmpSessions } from './amp.js';
+import { extractKiroContext, findKiroSessionFiles, getKiroSessionDirs, parseKiroSessions } from './kiro.js';
+import { extractCrushContext, findCrushSessionFiles, parseCrushSessions } from './crush.js';
+import {
+  extractClineContext, findClineSessionFiles, parseClineSessions,
+  extractRooCodeContext, findRooCodeSessionFiles, parseRooCodeSessions,
+  extractKiloCodeContext, findKiloCodeSessionFiles, parseKiloCodeSessions,
+  getGlobalStorageBases,
 } from './cline.js';
-import { extractAntigravityContext, parseAntigravitySessions } from './antigravity.js';
+import { extractAntigravityContext, findAntigravitySessionFiles, parseAntigravitySessions } from './antigravity.js';
+import { extractAiderContext, findAiderSessionFiles, parseAiderSessions } from './aider.js';
+import { extractGooseContext, findGooseSessionFiles, parseGooseSessions } from './goose.js';
+import { extractContinueContext, findContinueSessionFiles, parseContinueSessions } from './continue-dev.js';
+import { extractZedContext, findZedSessionFiles, parseZedSessions } from './zed.js';
+import {
+  extractCopilotChatContext, findCopilotChatSessionFiles, getCopilotChatUserDirs, parseCopilotChatSessions,
+} from './copilot-chat.js';
+import {
+  extractCursorIdeContext, findCursorIdeSessionFiles, getCursorIdeUserDirs, parseCursorIdeSessions,
+} from './cursor-ide.js';
 
 /**
  * Adapter interface — single contract for all supported CLI tools.
@@ -43,18 +59,33 @@ export interface ToolAdapter {
   envVar?: string;
   /** CLI binary name for availability checks and spawning */
   binaryName: string;
-  /** Discover and index all sessions */
-  parseSessions: () => Promise<UnifiedSession[]>;
+  /** Discover and index sessions — restricted to the given source files when provided */
+  parseSessions: (files?: string[]) => Promise<UnifiedSession[]>;
+  /** List the source files/directories/databases backing sessions (enables incremental indexing) */
+  listSessionFiles?: () => Promise<string[]>;
   /** Extract full context for cross-tool handoff */
   extractContext: (session: UnifiedSession, config?: VerbosityConfig) => Promise<SessionContext>;
   /** CLI args to resume a session natively */
   nativeResumeArgs: (session: UnifiedSession) => string[];
-  /** CLI args to start with a handoff prompt */
-  crossToolArgs: (prompt: string, cwd: string) => string[];
+  /** Subcommand that starts a handoff, placed before any forwarded flags (e.g. goose `run`) */
+  crossToolSubcommand?: string[];
+  /** CLI args to start with a handoff prompt, or null when the tool isn't launched for a handoff */
+  crossToolArgs: (prompt: string, cwd: string) => string[] | null;
   /** Display string for the native resume command */
   resumeCommandDisplay: (session: UnifiedSession) => string;
+  /**
+   * Steps printed once the handoff file is written, for IDE targets that
+   * can't take the handoff prompt from the command line
+   */
+  handoffInstructions?: (handoffFile: string, cwd: string) => string[];
   /** Adapter-level mapping for interactive handoff launch flags */
   mapHandoffFlags?: ForwardFlagMapper;
+  /** Tool whose session format this one shares (e.g. `gemini` for Gemini CLI forks) */
+  family?: SessionSource;
+  /** Candidate storage directories searched on this machine — listed by `scan --health` */
+  storageBases?: () => string[];
+  /** Session files sit in project folders — `watch` follows each file instead of the whole repository */
+  watchFiles?: boolean;
 }
 
 /**
@@ -261,6 +292,42 @@ function mapClaudeFlags(context: ForwardFlagMapContext): ForwardMapResult {
   return { mappedArgs: args, warnings };
 }
 
+function mapAiderFlags(context: ForwardFlagMapContext): ForwardMapResult {
+  const args: string[] = [];
+
+  const autoOccurrences = collectAutoApproveOccurrences(context);
+  if (autoOccurrences.length > 0) {
+    context.consume(...autoOccurrences);
+    args.push('--yes-always');
+  }
+
+  const model = context.latestString('model');
+  if (model) {
+    context.consumeKeys('model');
+    args.push('--model', model);
+  }
+
+  return { mappedArgs: args };
+}
+
+function mapGooseFlags(context: ForwardFlagMapContext): ForwardMapResult {
+  const args: string[] = [];
+
+  const provider = context.latestString('provider');
+  if (provider) {
+    context.consumeKeys('provider');
+    args.push('--provider', provider);
+  }
+
+  const model = context.latestString('model');
+  if (model) {
+    context.consumeKeys('model');
+    args.push('--model', model);
+  }
+
+  return { mappedArgs: args };
+}
+
 function mapDroidFlags(_context: ForwardFlagMapContext): ForwardMapResult {
   return { mappedArgs: [] };
 }
@@ -392,6 +459,7 @@ register({
   envVar: 'CLAUDE_CONFIG_DIR',
   binaryName: 'claude',
   parseSessions: parseClaudeSessions,
+  listSessionFiles: findClaudeSessionFiles,
   extractContext: extractClaudeContext,
   nativeResumeArgs: (s) => ['--resume', s.id],
   crossToolArgs: (prompt) => [prompt],
@@ -408,6 +476,7 @@ register({
   envVar: 'CODEX_HOME',
   binaryName: 'codex',
   parseSessions: parseCodexSessions,
+  listSessionFiles: findCodexSessionFiles,
   extractContext: extractCodexContext,
   nativeResumeArgs: (s) => ['-c', `experimental_resume=${s.originalPath}`],
   crossToolArgs: (prompt) => [prompt],
@@ -423,6 +492,7 @@ register({
   storagePath: '~/.copilot/session-state/',
   binaryName: 'copilot',
   parseSessions: parseCopilotSessions,
+  listSessionFiles: findCopilotSessionDirs,
   extractContext: extractCopilotContext,
   nativeResumeArgs: (s) => ['--resume', s.id],
   crossToolArgs: (prompt) => ['-i', prompt],
@@ -431,20 +501,42 @@ register({
 });
 
 // ── Gemini CLI ───────────────────────────────────────────────────────
-register({
-  name: 'gemini',
-  label: 'Gemini CLI',
-  color: chalk.cyan,
-  storagePath: '~/.gemini/tmp/*/chats/',
-  envVar: 'GEMINI_CLI_HOME',
-  binaryName: 'gemini',
-  parseSessions: parseGeminiSessions,
-  extractContext: extractGeminiContext,
-  nativeResumeArgs: () => ['--continue'],
-  crossToolArgs: (prompt) => [prompt],
-  resumeCommandDisplay: () => `gemini --continue`,
-  mapHandoffFlags: mapGeminiFlags,
-});
+// Forks of Gemini CLI keep its chat format and flags, so they all share
+// one parser and launch the same way.
+function geminiFamilyAdapter(
+  tool: Pick<ToolAdapter, 'name' | 'label' | 'color' | 'storagePath' | 'envVar' | 'binaryName'>,
+  parser: GeminiFamilyParser,
+): ToolAdapter {
+  return {
+    ...tool,
+    family: 'gemini',
+    parseSessions: parser.parseSessions,
+    listSessionFiles: parser.findSessionFiles,
+    extractContext: parser.extractContext,
+    nativeResumeArgs: () => ['--continue'],
+    crossToolArgs: (prompt) => [prompt],
+    resumeCommandDisplay: () => `${tool.binaryName} --continue`,
+    mapHandoffFlags: mapGeminiFlags,
+  };
+}
+
+register(
+  geminiFamilyAdapter(
+    {
+      name: 'gemini',
+      label: 'Gemini CLI',
+      color: chalk.cyan,
+      storagePath: '~/.gemini/tmp/*/chats/',
+      envVar: 'GEMINI_CLI_HOME',
+      binaryName: 'gemini',
+    },
+    {
+      findSessionFiles: findGeminiSessionFiles,
+      parseSessions: parseGeminiSessions,
+      extractContext: extractGeminiContext,
+    },
+  ),
+);
 
 // ── OpenCode ─────────────────────────────────────────────────────────
 register({
@@ -455,6 +547,7 @@ register({
   envVar: 'XDG_DATA_HOME',
   binaryName: 'opencode',
   parseSessions: parseOpenCodeSessions,
+  listSessionFiles: findOpenCodeSessionFiles,
   extractContext: extractOpenCodeContext,
   nativeResumeArgs: (s) => ['--session', s.id],
   crossToolArgs: (prompt) => ['--prompt', prompt],
@@ -470,6 +563,7 @@ register({
   storagePath: '~/.factory/sessions/',
   binaryName: 'droid',
   parseSessions: parseDroidSessions,
+  listSessionFiles: findDroidSessionFiles,
   extractContext: extractDroidContext,
   nativeResumeArgs: (s) => ['-s', s.id],
   crossToolArgs: (prompt) => ['exec', prompt],
@@ -485,6 +579,7 @@ register({
   storagePath: '~/.cursor/projects/*/agent-transcripts/',
   binaryName: 'agent',
   parseSessions: parseCursorSessions,
+  listSessionFiles: findCursorSessionFiles,
   extractContext: extractCursorContext,
   nativeResumeArgs: (s) => ['--resume', s.id],
   crossToolArgs: (prompt) => [prompt],
@@ -501,6 +596,7 @@ register({
   envVar: 'XDG_DATA_HOME',
   binaryName: 'amp',
   parseSessions: parseAmpSessions,
+  listSessionFiles: async () => findAmpSessionFiles(),
   extractContext: extractAmpContext,
   nativeResumeArgs: (s) => ['--thread', s.id],
   crossToolArgs: (prompt) => [prompt],
@@ -515,6 +611,8 @@ register({
   storagePath: '~/Library/Application Support/Kiro/workspace-sessions/',
   binaryName: 'kiro',
   parseSessions: parseKiroSessions,
+  listSessionFiles: findKiroSessionFiles,
+  storageBases: getKiroSessionDirs,
   extractContext: extractKiroContext,
   nativeResumeArgs: () => [],
   crossToolArgs: (prompt) => [prompt],
@@ -529,6 +627,7 @@ register({
   storagePath: '~/.crush/crush.db',
   binaryName: 'crush',
   parseSessions: parseCrushSessions,
+  listSessionFiles: findCrushSessionFiles,
   extractContext: extractCrushContext,
   nativeResumeArgs: (s) => ['--session', s.id],
   crossToolArgs: (prompt) => [prompt],
@@ -543,6 +642,8 @@ register({
   storagePath: '~/Library/Application Support/Code/User/globalStorage/saoudrizwan.claude-dev/tasks/',
   binaryName: 'code',
   parseSessions: parseClineSessions,
+  listSessionFiles: findClineSessionFiles,
+  storageBases: getGlobalStorageBases,
   extractContext: extractClineContext,
   nativeResumeArgs: () => [],
   crossToolArgs: (prompt) => [prompt],
@@ -557,6 +658,8 @@ register({
   storagePath: '~/Library/Application Support/Code/User/globalStorage/rooveterinaryinc.roo-cline/tasks/',
   binaryName: 'code',
   parseSessions: parseRooCodeSessions,
+  listSessionFiles: findRooCodeSessionFiles,
+  storageBases: getGlobalStorageBases,
   extractContext: extractRooCodeContext,
   nativeResumeArgs: () => [],
   crossToolArgs: (prompt) => [prompt],
@@ -571,6 +674,8 @@ register({
   storagePath: '~/Library/Application Support/Code/User/globalStorage/kilocode.kilo-code/tasks/',
   binaryName: 'code',
   parseSessions: parseKiloCodeSessions,
+  listSessionFiles: findKiloCodeSessionFiles,
+  storageBases: getGlobalStorageBases,
   extractContext: extractKiloCodeContext,
   nativeResumeArgs: () => [],
   crossToolArgs: (prompt) => [prompt],
@@ -586,12 +691,156 @@ register({
   envVar: 'GEMINI_CLI_HOME',
   binaryName: 'antigravity',
   parseSessions: parseAntigravitySessions,
+  listSessionFiles: findAntigravitySessionFiles,
   extractContext: extractAntigravityContext,
   nativeResumeArgs: () => [],
   crossToolArgs: (prompt) => [prompt],
   resumeCommandDisplay: () => `antigravity`,
 });
 
+// ── Aider ────────────────────────────────────────────────────────────
+// Sessions are chats in each project's .aider.chat.history.md; aider answers
+// a --message and exits, so the handoff prompt gets a one-shot reply.
+register({
+  name: 'aider',
+  label: 'Aider',
+  color: chalk.hex('#14B014'),
+  storagePath: '<project>/.aider.chat.history.md',
+  binaryName: 'aider',
+  parseSessions: parseAiderSessions,
+  listSessionFiles: findAiderSessionFiles,
+  extractContext: extractAiderContext,
+  nativeResumeArgs: () => ['--restore-chat-history'],
+  crossToolArgs: (prompt) => ['--message', prompt],
+  resumeCommandDisplay: () => `aider --restore-chat-history`,
+  mapHandoffFlags: mapAiderFlags,
+  watchFiles: true,
+});
+
+// ── Goose ────────────────────────────────────────────────────────────
+// Sessions are named JSONL files; `goose run --interactive` sends the
+// handoff prompt and stays in the session afterwards.
+register({
+  name: 'goose',
+  label: 'Goose',
+  color: chalk.hex('#FF6B35'),
+  storagePath: '~/.local/share/goose/sessions/',
+  envVar: 'XDG_DATA_HOME',
+  binaryName: 'goose',
+  parseSessions: parseGooseSessions,
+  listSessionFiles: findGooseSessionFiles,
+  extractContext: extractGooseContext,
+  nativeResumeArgs: (s) => ['session', '--resume', '--name', s.id],
+  crossToolSubcommand: ['run'],
+  crossToolArgs: (prompt) => ['--interactive', '--text', prompt],
+  resumeCommandDisplay: (s) => `goose session --resume --name ${s.id}`,
+  mapHandoffFlags: mapGooseFlags,
+});
+
+// ── Continue.dev ─────────────────────────────────────────────────────
+// An IDE extension: a handoff is written to the project and attached in the
+// Continue chat by hand, so no binary is launched for it.
+register({
+  name: 'continue-dev',
+  label: 'Continue',
+  color: chalk.hex('#BE1E55'),
+  storagePath: '~/.continue/sessions/',
+  envVar: 'CONTINUE_GLOBAL_DIR',
+  binaryName: 'code',
+  parseSessions: parseContinueSessions,
+  listSessionFiles: findContinueSessionFiles,
+  extractContext: extractContinueContext,
+  nativeResumeArgs: () => [],
+  crossToolArgs: () => null,
+  resumeCommandDisplay: () => `code`,
+  handoffInstructions: (handoffFile, cwd) => [
+    `Open ${cwd} in VS Code or JetBrains with the Continue extension.`,
+    `In the Continue chat, attach ${handoffFile} with @Files (or paste it), then ask to continue the work.`,
+  ],
+});
+
+// ── Zed ──────────────────────────────────────────────────────────────
+// Threads live in threads.db; the zed binary only opens the project, so the
+// handoff is mentioned in the agent panel by hand.
+register({
+  name: 'zed',
+  label: 'Zed',
+  color: chalk.hex('#084CCF'),
+  storagePath: '~/.local/share/zed/threads/threads.db',
+  envVar: 'XDG_DATA_HOME',
+  binaryName: 'zed',
+  parseSessions: parseZedSessions,
+  listSessionFiles: findZedSessionFiles,
+  extractContext: extractZedContext,
+  nativeResumeArgs: (s) => [s.cwd || '.'],
+  crossToolArgs: (_prompt, cwd) => [cwd],
+  resumeCommandDisplay: (s) => `zed ${s.cwd || '.'}`,
+  handoffInstructions: (handoffFile) => [
+    `In Zed's agent panel, start a new thread and mention @${handoffFile} (or paste it), then ask to continue the work.`,
+  ],
+});
+
+// ── Qwen Code ────────────────────────────────────────────────────────
+register(
+  geminiFamilyAdapter(
+    {
+      name: 'qwen',
+      label: 'Qwen Code',
+      color: chalk.hex('#615CED'),
+      storagePath: '~/.qwen/tmp/*/chats/',
+      binaryName: 'qwen',
+    },
+    {
+      findSessionFiles: findQwenSessionFiles,
+      parseSessions: parseQwenSessions,
+      extractContext: extractQwenContext,
+    },
+  ),
+);
+
+// ── VS Code Copilot Chat ─────────────────────────────────────────────
+// Chats are per workspace in VS Code's workspaceStorage; `code chat` opens
+// the chat view of the current window with the handoff prompt.
+register({
+  name: 'copilot-chat',
+  label: 'Copilot Chat',
+  color: chalk.hex('#8957E5'),
+  storagePath: '~/.config/Code/User/workspaceStorage/*/chatSessions/',
+  envVar: 'XDG_CONFIG_HOME',
+  binaryName: 'code',
+  parseSessions: parseCopilotChatSessions,
+  listSessionFiles: findCopilotChatSessionFiles,
+  storageBases: getCopilotChatUserDirs,
+  extractContext: extractCopilotChatContext,
+  nativeResumeArgs: (s) => [s.cwd || '.'],
+  crossToolSubcommand: ['chat'],
+  crossToolArgs: (prompt) => [prompt],
+  resumeCommandDisplay: (s) => `code ${s.cwd || '.'}`,
+});
+
+// ── Cursor IDE ───────────────────────────────────────────────────────
+// Composer threads of the Cursor editor (the CLI agent is `cursor` above).
+// The cursor binary only opens the project, so the handoff is mentioned in
+// a new chat by hand.
+register({
+  name: 'cursor-ide',
+  label: 'Cursor IDE',
+  color: chalk.hex('#6E6E73'),
+  storagePath: '~/.config/Cursor/User/workspaceStorage/*/state.vscdb',
+  envVar: 'XDG_CONFIG_HOME',
+  binaryName: 'cursor',
+  parseSessions: parseCursorIdeSessions,
+  listSessionFiles: findCursorIdeSessionFiles,
+  storageBases: getCursorIdeUserDirs,
+  extractContext: extractCursorIdeContext,
+  nativeResumeArgs: (s) => [s.cwd || '.'],
+  crossToolArgs: (_prompt, cwd) => [cwd],
+  resumeCommandDisplay: (s) => `cursor ${s.cwd || '.'}`,
+  handoffInstructions: (handoffFile) => [
+    `In Cursor, open a new chat (Cmd/Ctrl+L) and mention @${handoffFile} (or paste it), then ask to continue the work.`,
+  ],
+});
+
 // ── Completeness assertion ──────────────────────────────────────────
 // Runs at module load — if a new tool is added to TOOL_NAMES but not
 // registered here, this throws immediately with a clear message.
@@ -605,8 +854,43 @@ if (missing.length > 0) {
 /** Type-safe adapter lookup — completeness proven by runtime assertion above */
 export const adapters: Readonly<Record<SessionSource, ToolAdapter>> = _adapters as Record<SessionSource, ToolAdapter>;
 
-/** Ordered list of all tool names — derived from the canonical TOOL_NAMES array */
-export const ALL_TOOLS: readonly SessionSource[] = TOOL_NAMES;
+const _tools: SessionSource[] = [...TOOL_NAMES];
+
+/**
+ * Ordered list of all tool names — the canonical TOOL_NAMES array, followed
+ * by any Gemini forks registered from config
+ */
+export const ALL_TOOLS: readonly SessionSource[] = _tools;
 
 /** Formatted help string for --source options */
 export const SOURCE_HELP = `Filter by source (${ALL_TOOLS.join(', ')})`;
+
+/**
+ * Register the Gemini CLI forks declared under `geminiForks` in the config.
+ * Their names aren't in TOOL_NAMES, so a fork can't replace a built-in tool.
+ */
+export function registerGeminiForks(forks: readonly GeminiForkConfig[]): void {
+  for (const fork of forks) {
+    if (fork.name in _adapters) {
+      logger.warn(`Ignoring Gemini fork "${fork.name}": a tool with that name is already registered`);
+      continue;
+    }
+    // Not a member of the SessionSource union — only known at runtime
+    const name = fork.name as SessionSource;
+    const dataDir = fork.dataDir.replace(/^~\//, '');
+    register(
+      geminiFamilyAdapter(
+        {
+          name,
+          label: fork.label ?? fork.name,
+          color: chalk.cyan,
+          storagePath: `${dataDir.startsWith('/') ? '' : '~/'}${dataDir}/tmp/*/chats/`,
+          envVar: fork.envVar,
+          binaryName: fork.binary ?? fork.name,
+        },
+        createGeminiFamilyParser({ source: name, dataDir: fork.dataDir, envVar: fork.envVar }),
+      ),
+    );
+    _tools.push(name);
+  }
+}
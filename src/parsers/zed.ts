@@ -0,0 +1,477 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as zlib from 'node:zlib';
+import type { VerbosityConfig } from '../config/index.js';
+import { getPreset } from '../config/index.js';
+import { logger } from '../logger.js';
+import type { ConversationMessage, SessionContext, SessionNotes, UnifiedSession } from '../types/index.js';
+import type { ZedThread, ZedThreadRow } from '../types/schemas.js';
+import {
+  ZedAgentMessageSchema,
+  ZedLegacyMessageSchema,
+  ZedThreadRowSchema,
+  ZedThreadSchema,
+} from '../types/schemas.js';
+import { countDiffStats, formatEditDiff, formatNewFileDiff } from '../utils/diff.js';
+import type { FileChangeOp } from '../utils/file-changes.js';
+import { generateHandoffMarkdown } from '../utils/markdown.js';
+import { cleanSummary, extractRepoFromCwd, homeDir } from '../utils/parser-helpers.js';
+import { openSqlite, type SqliteDb } from '../utils/sqlite.js';
+import {
+  extractExitCode,
+  fetchSummary,
+  fileSummary,
+  globSummary,
+  grepSummary,
+  mcpSummary,
+  SummaryCollector,
+  searchSummary,
+  shellSummary,
+  truncate,
+} from '../utils/tool-summarizer.js';
+
+/** Zed's data directory, per platform */
+function zedDataDir(): string {
+  const home = homeDir();
+  if (process.platform === 'darwin') return path.join(home, 'Library', 'Application Support', 'Zed');
+  if (process.platform === 'win32') {
+    return path.join(process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local'), 'Zed');
+  }
+  return path.join(process.env.XDG_DATA_HOME || path.join(home, '.local', 'share'), 'zed');
+}
+
+const ZED_THREADS_DB = path.join(zedDataDir(), 'threads', 'threads.db');
+
+/**
+ * Find Zed's agent thread database.
+ * Structure: ~/.local/share/zed/threads/threads.db (one row per thread)
+ */
+export async function findZedSessionFiles(): Promise<string[]> {
+  return fs.existsSync(ZED_THREADS_DB) ? [ZED_THREADS_DB] : [];
+}
+
+// ── Thread Decoding ─────────────────────────────────────────────────────────
+
+/** A thread message, in the same shape for both of Zed's thread formats */
+interface ZedTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  toolUses: { id: string; name: string; input: Record<string, unknown> }[];
+}
+
+/** Result of a tool use, keyed by tool use id */
+interface ZedToolResult {
+  isError: boolean;
+  text: string;
+  output?: Record<string, unknown>;
+}
+
+function openThreadsDb(dbPath: string): SqliteDb | null {
+  try {
+    return openSqlite(dbPath, { readOnly: true });
+  } catch (err) {
+    logger.debug('zed: cannot open threads database', dbPath, err);
+    return null;
+  }
+}
+
+/** Columns of the `threads` table — newer Zed versions add `created_at` and `folder_paths` */
+function threadColumns(db: SqliteDb): Set<string> {
+  const rows = db.prepare('PRAGMA table_info(threads)').all() as { name: string }[];
+  return new Set(rows.map((r) => r.name));
+}
+
+/** Raw JSON of a row's `data` column — plain or zstd-compressed — or undefined when it can't be decompressed */
+export function decodeZedThreadData(row: ZedThreadRow): unknown {
+  if (row.data_type !== 'zstd') return JSON.parse(Buffer.from(row.data).toString('utf8'));
+  // zlib gained zstd in Node 22.15
+  const decompress = (zlib as { zstdDecompressSync?: (buf: Uint8Array) => Buffer }).zstdDecompressSync;
+  if (!decompress) {
+    logger.debug('zed: zstd-compressed thread needs Node 22.15 or newer', row.id);
+    return undefined;
+  }
+  return JSON.parse(decompress(row.data).toString('utf8'));
+}
+
+/** Decode and validate a row's `data` column */
+function decodeThread(row: ZedThreadRow): ZedThread | null {
+  const raw = decodeZedThreadData(row);
+  if (raw === undefined) return null;
+
+  const parsed = ZedThreadSchema.safeParse(raw);
+  if (parsed.success) return parsed.data;
+  logger.debug('zed: thread validation failed', row.id, parsed.error.message);
+  return null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+/** Tool result content is a string or `{ "Text": … }` */
+function resultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  const text = asRecord(content).Text;
+  return typeof text === 'string' ? text : '';
+}
+
+/** Messages and tool results of a thread, from either thread format */
+function readTurns(thread: ZedThread): { turns: ZedTurn[]; results: Map<string, ZedToolResult> } {
+  const turns: ZedTurn[] = [];
+  const results = new Map<string, ZedToolResult>();
+  const addResult = (result: { tool_use_id: string; is_error: boolean; content?: unknown; output?: unknown }) => {
+    results.set(result.tool_use_id, {
+      isError: result.is_error,
+      text: resultText(result.content).trim(),
+      ...(result.output ? { output: asRecord(result.output) } : {}),
+    });
+  };
+
+  for (const raw of thread.messages) {
+    const legacy = ZedLegacyMessageSchema.safeParse(raw);
+    if (legacy.success) {
+      const message = legacy.data;
+      for (const result of message.tool_results) addResult(result);
+      if (message.role === 'system' || message.is_hidden) continue;
+      turns.push({
+        role: message.role,
+        text: message.segments
+          .filter((s) => s.type === 'text' && s.text)
+          .map((s) => s.text)
+          .join('\n')
+          .trim(),
+        toolUses: message.tool_uses.map((use) => ({ id: use.id, name: use.name, input: asRecord(use.input) })),
+      });
+      continue;
+    }
+
+    const agent = ZedAgentMessageSchema.safeParse(raw);
+    if (!agent.success || agent.data === 'Resume') continue;
+    if ('User' in agent.data) {
+      const text = agent.data.User.content.map((c) => (typeof c.Text === 'string' ? c.Text : '')).join('');
+      turns.push({ role: 'user', text: text.trim(), toolUses: [] });
+      continue;
+    }
+    const { content, tool_results } = agent.data.Agent;
+    for (const result of Object.values(tool_results)) addResult(result);
+    const text = content.map((c) => (typeof c.Text === 'string' ? c.Text : '')).join('');
+    const toolUses = content
+      .map((c) => asRecord(c.ToolUse))
+      .filter((use) => typeof use.id === 'string' && typeof use.name === 'string')
+      .map((use) => ({ id: use.id as string, name: use.name as string, input: asRecord(use.input) }));
+    turns.push({ role: 'assistant', text: text.trim(), toolUses });
+  }
+
+  return { turns, results };
+}
+
+/** Project folder of a thread: its first worktree */
+function threadCwd(thread: ZedThread, folderPaths?: string | null): string {
+  const fromColumn = folderPaths?.split('\n').find(Boolean);
+  return fromColumn ?? thread.initial_project_snapshot?.worktree_snapshots[0]?.worktree_path ?? '';
+}
+
+// ── Session Parsing ─────────────────────────────────────────────────────────
+
+interface ZedRow extends ZedThreadRow {
+  created_at?: string | null;
+  folder_paths?: string | null;
+}
+
+/** All rows of the threads table, validated, with the optional newer columns */
+function readThreadRows(db: SqliteDb, id?: string): ZedRow[] {
+  const columns = threadColumns(db);
+  const optional = ['created_at', 'folder_paths'].filter((c) => columns.has(c));
+  const select = ['id', 'summary', 'updated_at', 'data_type', 'data', ...optional].join(', ');
+  const rows = id
+    ? db.prepare(`SELECT ${select} FROM threads WHERE id = ?`).all(id)
+    : db.prepare(`SELECT ${select} FROM threads`).all();
+
+  return rows.flatMap((row) => {
+    const parsed = ZedThreadRowSchema.safeParse(row);
+    if (!parsed.success) return [];
+    const extra = row as { created_at?: string | null; folder_paths?: string | null };
+    return [{ ...parsed.data, created_at: extra.created_at, folder_paths: extra.folder_paths }];
+  });
+}
+
+/**
+ * Parse all Zed agent threads into the unified format.
+ */
+export async function parseZedSessions(sourceFiles?: string[]): Promise<UnifiedSession[]> {
+  const dbPaths = sourceFiles ?? (await findZedSessionFiles());
+  const sessions: UnifiedSession[] = [];
+
+  for (const dbPath of dbPaths) {
+    const db = openThreadsDb(dbPath);
+    if (!db) continue;
+    try {
+      for (const row of readThreadRows(db)) {
+        try {
+          const thread = decodeThread(row);
+          if (!thread) continue;
+          const { turns } = readTurns(thread);
+          const firstUser = turns.find((t) => t.role === 'user' && t.text);
+          const summary = cleanSummary(row.summary) || cleanSummary(firstUser?.text ?? '');
+          if (!summary) continue;
+
+          const cwd = threadCwd(thread, row.folder_paths);
+          const updatedAt = new Date(row.updated_at);
+          sessions.push({
+            id: row.id,
+            source: 'zed',
+            cwd,
+            repo: extractRepoFromCwd(cwd),
+            lines: turns.length,
+            bytes: row.data.byteLength,
+            createdAt: row.created_at ? new Date(row.created_at) : updatedAt,
+            updatedAt,
+            originalPath: dbPath,
+            summary,
+            ...(thread.model ? { model: thread.model.model } : {}),
+          });
+        } catch (err) {
+          logger.debug('zed: skipping unreadable thread', row.id, err);
+        }
+      }
+    } catch (err) {
+      logger.debug('zed: failed to read threads', dbPath, err);
+    } finally {
+      db.close();
+    }
+  }
+
+  return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+// ── Tool Extraction ─────────────────────────────────────────────────────────
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/** Cap a unified diff the way formatEditDiff does */
+function capDiff(diff: string, maxLines: number): string {
+  const lines = diff.split('\n');
+  if (lines.length <= maxLines) return diff;
+  return `${lines.slice(0, maxLines).join('\n')}\n+${lines.length - maxLines} lines truncated`;
+}
+
+/**
+ * `edit_file` runs a sub-agent; the result's output carries the whole file
+ * before and after, plus Zed's own diff of the two.
+ */
+function addEdit(
+  collector: SummaryCollector,
+  input: Record<string, unknown>,
+  result: ZedToolResult | undefined,
+  config: VerbosityConfig,
+): void {
+  const filePath = str(input.path);
+  const isError = result?.isError ?? false;
+  const output = result?.output ?? {};
+  const oldText = str(output.old_text);
+  const newText = str(output.new_text);
+
+  if (input.mode === 'create' || (input.mode === 'overwrite' && !oldText)) {
+    const { diff } = formatNewFileDiff(newText, filePath, config.write.diffLines);
+    const diffStats = countDiffStats(diff);
+    collector.add('Write', fileSummary('write', filePath, diffStats, true), {
+      data: { category: 'write', filePath, isNewFile: true, diff, diffStats },
+      filePath,
+      isWrite: true,
+      isError,
+      changes: [{ kind: 'write', filePath, content: newText, isNewFile: true }],
+    });
+    return;
+  }
+
+  const diff = str(output.diff)
+    ? capDiff(`--- a/${filePath}\n+++ b/${filePath}\n${str(output.diff)}`, config.edit.diffLines)
+    : formatEditDiff(oldText, newText, filePath, config.edit.diffLines).diff;
+  const diffStats = countDiffStats(diff);
+  const changes: FileChangeOp[] =
+    oldText || newText ? [{ kind: 'edit', filePath, oldText, newText }] : [{ kind: 'unknown', filePath }];
+  collector.add('Edit', fileSummary('edit', filePath, diffStats), {
+    data: {
+      category: 'edit',
+      filePath,
+      diff,
+      diffStats,
+      ...(isError ? { errorMessage: result?.text.slice(0, 200) } : {}),
+    },
+    filePath,
+    isWrite: true,
+    isError,
+    changes,
+  });
+}
+
+function extractToolData(
+  turns: ZedTurn[],
+  results: Map<string, ZedToolResult>,
+  config: VerbosityConfig,
+): SummaryCollector {
+  const collector = new SummaryCollector(config);
+
+  for (const turn of turns) {
+    for (const { id, name, input } of turn.toolUses) {
+      const result = results.get(id);
+      const isError = result?.isError ?? false;
+      const output = result?.text ?? '';
+
+      switch (name) {
+        case 'terminal': {
+          const command = str(input.command);
+          const exitCode = extractExitCode(output);
+          collector.add('Bash', shellSummary(command, output || undefined), {
+            data: {
+              category: 'shell',
+              command,
+              ...(exitCode !== undefined ? { exitCode } : {}),
+              ...(output ? { stdoutTail: output.slice(-500) } : {}),
+              ...(isError || (exitCode ?? 0) !== 0 ? { errored: true, errorMessage: output.slice(0, 200) } : {}),
+            },
+            isError: isError || (exitCode ?? 0) !== 0,
+          });
+          break;
+        }
+        case 'edit_file':
+          addEdit(collector, input, result, config);
+          break;
+        case 'read_file':
+          collector.add('Read', fileSummary('read', str(input.path)), {
+            data: {
+              category: 'read',
+              filePath: str(input.path),
+              ...(typeof input.start_line === 'number' ? { lineStart: input.start_line } : {}),
+              ...(typeof input.end_line === 'number' ? { lineEnd: input.end_line } : {}),
+            },
+            filePath: str(input.path),
+            isError,
+          });
+          break;
+        case 'delete_path':
+          collector.add('Delete', `delete ${str(input.path)}`, {
+            filePath: str(input.path),
+            isWrite: true,
+            isError,
+            changes: [{ kind: 'delete', filePath: str(input.path) }],
+          });
+          break;
+        case 'grep':
+          collector.add('Grep', grepSummary(str(input.regex), str(input.include_pattern) || undefined), {
+            data: {
+              category: 'grep',
+              pattern: str(input.regex),
+              ...(input.include_pattern ? { targetPath: str(input.include_pattern) } : {}),
+            },
+            isError,
+          });
+          break;
+        case 'find_path':
+          collector.add('Glob', globSummary(str(input.glob)), {
+            data: { category: 'glob', pattern: str(input.glob) },
+            isError,
+          });
+          break;
+        case 'web_search':
+          collector.add('WebSearch', searchSummary(str(input.query)), {
+            data: { category: 'search', query: str(input.query) },
+            isError,
+          });
+          break;
+        case 'fetch':
+          collector.add('WebFetch', fetchSummary(str(input.url)), {
+            data: {
+              category: 'fetch',
+              url: str(input.url),
+              ...(output ? { resultPreview: output.slice(0, 100) } : {}),
+            },
+            isError,
+          });
+          break;
+        default: {
+          const argsStr = truncate(JSON.stringify(input), config.mcp.paramChars);
+          collector.add(name, mcpSummary(name, argsStr, output || undefined), {
+            data: {
+              category: 'mcp',
+              toolName: name,
+              params: argsStr,
+              ...(output ? { result: output.slice(0, 100) } : {}),
+            },
+            isError,
+          });
+        }
+      }
+    }
+  }
+
+  return collector;
+}
+
+/**
+ * Extract context from a Zed agent thread for cross-tool continuation.
+ */
+export async function extractZedContext(session: UnifiedSession, config?: VerbosityConfig): Promise<SessionContext> {
+  const cfg = config ?? getPreset('standard');
+
+  let thread: ZedThread | null = null;
+  const db = openThreadsDb(session.originalPath);
+  if (db) {
+    try {
+      const [row] = readThreadRows(db, session.id);
+      thread = row ? decodeThread(row) : null;
+    } catch (err) {
+      logger.debug('zed: failed to read thread', session.id, err);
+    } finally {
+      db.close();
+    }
+  }
+
+  const { turns, results } = thread ? readTurns(thread) : { turns: [], results: new Map<string, ZedToolResult>() };
+
+  const recentMessages: ConversationMessage[] = turns
+    .filter((t) => t.text)
+    .map((t) => ({ role: t.role, content: t.text }))
+    .slice(-cfg.recentMessages);
+
+  const collector = extractToolData(turns, results, cfg);
+  const toolSummaries = collector.getSummaries();
+  const filesModified = collector.getFilesModified();
+  const fileChanges = collector.getFileChanges();
+  const openProblems = collector.getOpenProblems();
+  const pendingTasks: string[] = [];
+
+  const sessionNotes: SessionNotes = {};
+  if (thread?.model) sessionNotes.model = thread.model.model;
+  const usage = thread?.cumulative_token_usage;
+  if (usage && (usage.input_tokens || usage.output_tokens)) {
+    sessionNotes.tokenUsage = { input: usage.input_tokens, output: usage.output_tokens };
+  }
+  if (usage && (usage.cache_creation_input_tokens || usage.cache_read_input_tokens)) {
+    sessionNotes.cacheTokens = { creation: usage.cache_creation_input_tokens, read: usage.cache_read_input_tokens };
+  }
+  if (fileChanges.length > 0) sessionNotes.fileChanges = fileChanges;
+  if (openProblems.length > 0) sessionNotes.openProblems = openProblems;
+
+  const markdown = generateHandoffMarkdown(
+    session,
+    recentMessages,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    cfg,
+  );
+
+  return {
+    session,
+    recentMessages,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    markdown,
+  };
+}
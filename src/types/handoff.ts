@@ -0,0 +1,269 @@
+/**
+ * `continues.handoff/v1` — the structured handoff format.
+ *
+ * A versioned, machine-readable alternative to the markdown handoff, for
+ * tooling and agents that want the session context without scraping prose.
+ * The schema is the contract: breaking changes bump the version.
+ */
+import { z } from 'zod';
+
+/** Format identifier stamped on every structured handoff */
+export const HANDOFF_FORMAT_VERSION = 'continues.handoff/v1';
+
+// ── Structured Tool Samples ─────────────────────────────────────────────────
+// Mirrors the StructuredToolSample union in ./index.ts.
+
+const DiffStatsSchema = z.object({ added: z.number(), removed: z.number() });
+
+export const StructuredToolSampleSchema = z.discriminatedUnion('category', [
+  z.object({
+    category: z.literal('shell'),
+    command: z.string(),
+    exitCode: z.number().optional(),
+    stdoutTail: z.string().optional(),
+    errored: z.boolean().optional(),
+    errorMessage: z.string().optional(),
+  }),
+  z.object({
+    category: z.literal('read'),
+    filePath: z.string(),
+    lineStart: z.number().optional(),
+    lineEnd: z.number().optional(),
+  }),
+  z.object({
+    category: z.literal('write'),
+    filePath: z.string(),
+    isNewFile: z.boolean().optional(),
+    diff: z.string().optional(),
+    diffStats: DiffStatsSchema.optional(),
+    errorMessage: z.string().optional(),
+  }),
+  z.object({
+    category: z.literal('edit'),
+    filePath: z.string(),
+    diff: z.string().optional(),
+    diffStats: DiffStatsSchema.optional(),
+    errorMessage: z.string().optional(),
+  }),
+  z.object({
+    category: z.literal('grep'),
+    pattern: z.string(),
+    targetPath: z.string().optional(),
+    matchCount: z.number().optional(),
+  }),
+  z.object({
+    category: z.literal('glob'),
+    pattern: z.string(),
+    resultCount: z.number().optional(),
+  }),
+  z.object({
+    category: z.literal('search'),
+    query: z.string(),
+    resultCount: z.number().optional(),
+    resultPreview: z.string().optional(),
+  }),
+  z.object({
+    category: z.literal('fetch'),
+    url: z.string(),
+    resultPreview: z.string().optional(),
+  }),
+  z.object({
+    category: z.literal('task'),
+    description: z.string(),
+    agentType: z.string().optional(),
+    resultSummary: z.string().optional(),
+  }),
+  z.object({
+    category: z.literal('ask'),
+    question: z.string(),
+  }),
+  z.object({
+    category: z.literal('todo'),
+    items: z.array(
+      z.object({ content: z.string(), status: z.enum(['pending', 'in_progress', 'completed', 'cancelled']) }),
+    ),
+  }),
+  z.object({
+    category: z.literal('mcp'),
+    toolName: z.string(),
+    params: z.string().optional(),
+    result: z.string().optional(),
+  }),
+  z.object({
+    category: z.literal('reasoning'),
+    toolName: z.string(),
+    stepNumber: z.number().optional(),
+    thought: z.string().optional(),
+    outcome: z.string().optional(),
+    nextAction: z.string().optional(),
+  }),
+]);
+
+// ── Document Parts ──────────────────────────────────────────────────────────
+
+/**
+ * Tool name — any string, since Gemini forks declared in .continues.yml
+ * register under names outside the built-in list
+ */
+const ToolNameSchema = z.string();
+
+export const HandoffSessionSchema = z.object({
+  id: z.string(),
+  source: ToolNameSchema,
+  /** Human-readable tool name, e.g. "Claude Code" */
+  label: z.string(),
+  cwd: z.string(),
+  repo: z.string().optional(),
+  branch: z.string().optional(),
+  summary: z.string().optional(),
+  model: z.string().optional(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  /** Session this one was itself handed off from */
+  parent: z.object({ source: ToolNameSchema, id: z.string() }).optional(),
+});
+
+export const HandoffMessageSchema = z.object({
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string(),
+  timestamp: z.iso.datetime().optional(),
+  /** Tool the message came from (merged handoffs only) */
+  source: ToolNameSchema.optional(),
+  toolCalls: z
+    .array(
+      z.object({
+        name: z.string(),
+        id: z.string().optional(),
+        arguments: z.record(z.string(), z.unknown()).optional(),
+        result: z.string().optional(),
+        success: z.boolean().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export const HandoffToolSchema = z.object({
+  name: z.string(),
+  count: z.number(),
+  errorCount: z.number().optional(),
+  samples: z.array(
+    z.object({
+      summary: z.string(),
+      data: StructuredToolSampleSchema.optional(),
+    }),
+  ),
+});
+
+export const HandoffNotesSchema = z.object({
+  model: z.string().optional(),
+  reasoning: z.array(z.string()).optional(),
+  tokenUsage: z.object({ input: z.number(), output: z.number() }).optional(),
+  cacheTokens: z.object({ creation: z.number(), read: z.number() }).optional(),
+  thinkingTokens: z.number().optional(),
+  activeTimeMs: z.number().optional(),
+  compactSummary: z.string().optional(),
+  subagentResults: z
+    .array(
+      z.object({
+        taskId: z.string(),
+        description: z.string(),
+        status: z.enum(['completed', 'killed', 'error']),
+        result: z.string().optional(),
+        toolCallCount: z.number(),
+      }),
+    )
+    .optional(),
+  reasoningSteps: z
+    .array(
+      z.object({
+        stepNumber: z.number(),
+        totalSteps: z.number(),
+        purpose: z.string(),
+        thought: z.string(),
+        outcome: z.string(),
+        nextAction: z.string(),
+      }),
+    )
+    .optional(),
+  externalToolResults: z.array(z.object({ name: z.string(), sizeBytes: z.number(), preview: z.string() })).optional(),
+  fileChanges: z
+    .array(
+      z.object({
+        filePath: z.string(),
+        edits: z.number(),
+        status: z.enum(['created', 'written', 'modified', 'deleted']),
+        added: z.number(),
+        removed: z.number(),
+        diff: z.string().optional(),
+        partial: z.boolean().optional(),
+      }),
+    )
+    .optional(),
+  openProblems: z
+    .array(
+      z.object({
+        kind: z.enum(['command', 'edit', 'tool']),
+        tool: z.string(),
+        target: z.string(),
+        exitCode: z.number().optional(),
+        error: z.string().optional(),
+        failures: z.number(),
+      }),
+    )
+    .optional(),
+  /** Source sessions of a merged handoff, oldest first */
+  mergedFrom: z.array(HandoffSessionSchema).optional(),
+  /** Set on `--since-last` handoffs: the earlier handoff this one continues from */
+  sinceLast: z
+    .object({
+      target: ToolNameSchema,
+      handedOffAt: z.iso.datetime(),
+      previousMessages: z.number(),
+      newMessages: z.number(),
+      newToolCalls: z.number(),
+    })
+    .optional(),
+});
+
+export const HandoffRepositorySchema = z.object({
+  root: z.string(),
+  branch: z.string().optional(),
+  head: z.string().optional(),
+  sessionBranch: z.string().optional(),
+  /** When the session ended — commits and file changes are counted from here */
+  since: z.iso.datetime(),
+  commits: z.array(z.object({ sha: z.string(), subject: z.string(), author: z.string(), date: z.iso.datetime() })),
+  commitCount: z.number(),
+  dirtyFiles: z.array(z.object({ status: z.string(), path: z.string() })),
+  sessionFiles: z.array(z.object({ path: z.string(), state: z.enum(['unchanged', 'changed', 'reverted']) })),
+});
+
+// ── Document ────────────────────────────────────────────────────────────────
+
+export const HandoffDocumentSchema = z.object({
+  format: z.literal(HANDOFF_FORMAT_VERSION),
+  generatedAt: z.iso.datetime(),
+  session: HandoffSessionSchema,
+  /** Most recent conversation turns, oldest first */
+  messages: z.array(HandoffMessageSchema),
+  /** Tool usage grouped by tool name, with representative samples */
+  tools: z.array(HandoffToolSchema),
+  /** Files modified during the session */
+  files: z.array(z.string()),
+  /** Tasks still open when the session ended */
+  tasks: z.array(z.string()),
+  notes: HandoffNotesSchema.optional(),
+  /** Live git state at handoff time (cross-tool resume only) */
+  repository: HandoffRepositorySchema.optional(),
+  /** Instruction for the agent receiving the handoff */
+  directive: z.string(),
+});
+
+export type HandoffDocument = z.infer<typeof HandoffDocumentSchema>;
+export type HandoffMessage = z.infer<typeof HandoffMessageSchema>;
+export type HandoffTool = z.infer<typeof HandoffToolSchema>;
+
+/** JSON Schema for `continues.handoff/v1`, for consumers outside TypeScript */
+export function handoffJsonSchema(): Record<string, unknown> {
+  return z.toJSONSchema(HandoffDocumentSchema) as Record<string, unknown>;
+}
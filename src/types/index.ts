@@ -35,6 +35,16 @@ export interface UnifiedSession {
   originalPath: string;
   /** Model used in the session */
   model?: string;
+  /** Session this one was handed off from (detected from the handoff marker) */
+  parent?: SessionLink;
+  /** Sessions handed off from this one, oldest first */
+  children?: SessionLink[];
+}
+
+/** Reference to another indexed session */
+export interface SessionLink {
+  source: SessionSource;
+  id: string;
 }
 
 /** Conversation message in normalized format */
@@ -43,6 +53,8 @@ export interface ConversationMessage {
   content: string;
   timestamp?: Date;
   toolCalls?: ToolCall[];
+  /** Tool the message came from — set in merged handoffs only */
+  source?: SessionSource;
 }
 
 /** Tool call information */
@@ -142,6 +154,20 @@ export interface AskSampleData {
   question: string;
 }
 
+/** Status of one todo/plan item, normalized across tools */
+export type TodoStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface TodoItem {
+  content: string;
+  status: TodoStatus;
+}
+
+export interface TodoSampleData {
+  category: 'todo';
+  /** The whole list as written by this call */
+  items: TodoItem[];
+}
+
 export interface McpSampleData {
   category: 'mcp';
   /** Full tool name including namespace (e.g. "mcp__github__list_issues"). */
@@ -181,6 +207,7 @@ export type StructuredToolSample =
   | FetchSampleData
   | TaskSampleData
   | AskSampleData
+  | TodoSampleData
   | McpSampleData
   | ReasoningSampleData;
 
@@ -248,6 +275,112 @@ export interface SessionNotes {
   reasoningSteps?: ReasoningStep[];
   /** External tool results (MCP, plugins) with size and preview */
   externalToolResults?: Array<{ name: string; sizeBytes: number; preview: string }>;
+  /** Net change per file across every write and edit in the session */
+  fileChanges?: FileChangeSummary[];
+  /** Failures the session never recovered from, most recent first */
+  openProblems?: OpenProblem[];
+  /** Source sessions of a merged handoff, oldest first */
+  mergedFrom?: UnifiedSession[];
+  /** Set on `--since-last` handoffs: the earlier handoff this one continues from */
+  sinceLast?: HandoffRecap;
+}
+
+/** A failing shell command, a failed write/edit, or another tool error */
+export type OpenProblemKind = 'command' | 'edit' | 'tool';
+
+/** A failure with no later success of the same command (or write to the same file) */
+export interface OpenProblem {
+  kind: OpenProblemKind;
+  /** Tool that failed, e.g. `Bash`, `Edit`, `mcp__github__create_pr` */
+  tool: string;
+  /** The command, the file path, or the tool call summary */
+  target: string;
+  exitCode?: number;
+  /** Last lines of the error output */
+  error?: string;
+  /** Failures since the last success (or since the session began) */
+  failures: number;
+}
+
+/** How a file ended up: created, overwritten with unknown prior content, edited, or deleted */
+export type FileChangeStatus = 'created' | 'written' | 'modified' | 'deleted';
+
+/** Net change to one file, reconstructed by replaying its writes and edits in order */
+export interface FileChangeSummary {
+  filePath: string;
+  /** Write/edit/patch calls that touched the file */
+  edits: number;
+  status: FileChangeStatus;
+  added: number;
+  removed: number;
+  /** Consolidated diff — the final content for created/written files, net hunks for edited ones */
+  diff?: string;
+  /** Some calls could not be replayed (no recorded change, or an edit that no longer matched) */
+  partial?: boolean;
+}
+
+/** What was handed off the last time a session left for another tool — stored in ~/.continues */
+export interface HandoffCursor {
+  sessionId: string;
+  source: SessionSource;
+  target: SessionSource;
+  /** ISO timestamp of the handoff */
+  handedOffAt: string;
+  /**
+   * Messages carried by this session's handoffs so far — each capped by its
+   * verbosity preset, so not the length of the session
+   */
+  messagesHandedOff: number;
+  /** SHA-256 of the last message handed off — `role: content` with whitespace collapsed, capped */
+  lastMessageHash?: string;
+  /** ISO timestamp of the last message handed off, when the tool records one */
+  lastMessageAt?: string;
+  /** Tool calls so far, per tool name */
+  toolCalls: Record<string, number>;
+  filesModified: string[];
+}
+
+/** Recap of an incremental handoff: the earlier handoff and what is new since */
+export interface HandoffRecap {
+  target: SessionSource;
+  /** ISO timestamp of the earlier handoff */
+  handedOffAt: string;
+  /** Messages the earlier handoffs carried */
+  previousMessages: number;
+  newMessages: number;
+  newToolCalls: number;
+}
+
+/** A commit made after the session ended */
+export interface RepositoryCommit {
+  sha: string;
+  subject: string;
+  author: string;
+  date: Date;
+}
+
+/** What became of a file the session modified, judged at handoff time */
+export type SessionFileState = 'unchanged' | 'changed' | 'reverted';
+
+/** Live git state of the session's working directory at handoff time */
+export interface RepositoryState {
+  /** Repository root */
+  root: string;
+  /** Current branch (undefined when HEAD is detached) */
+  branch?: string;
+  /** Short SHA of HEAD (undefined before the first commit) */
+  head?: string;
+  /** Branch recorded by the session, if any */
+  sessionBranch?: string;
+  /** When the session ended — commits and file changes are counted from here */
+  since: Date;
+  /** Newest first, capped; `commitCount` has the full number */
+  commits: RepositoryCommit[];
+  commitCount: number;
+  /** Uncommitted changes: `git status --porcelain` XY code and repo-relative path */
+  dirtyFiles: Array<{ status: string; path: string }>;
+  /** The session's modified files inside this repository */
+  sessionFiles: Array<{ path: string; state: SessionFileState }>;
 }
 
 /** Extracted context for cross-tool continuation */
@@ -263,6 +396,8 @@ export interface SessionContext {
   toolSummaries: ToolUsageSummary[];
   /** Contextual notes from AI reasoning, model info, etc. */
   sessionNotes?: SessionNotes;
+  /** Repository state at handoff time — filled in by crossToolResume, not the parsers */
+  repositoryState?: RepositoryState;
   /** Generated markdown for injection */
   markdown: string;
 }
@@ -507,6 +507,354 @@ export const CursorTranscriptLineSchema = z
 
 export type CursorTranscriptLine = z.infer<typeof CursorTranscriptLineSchema>;
 
+// ── Goose ───────────────────────────────────────────────────────────────────
+
+/** First line of a Goose session file */
+export const GooseSessionMetaSchema = z
+  .object({
+    working_dir: z.string(),
+    description: z.string().optional(),
+    message_count: z.number().optional(),
+    input_tokens: z.number().nullable().optional(),
+    output_tokens: z.number().nullable().optional(),
+    accumulated_input_tokens: z.number().nullable().optional(),
+    accumulated_output_tokens: z.number().nullable().optional(),
+  })
+  .passthrough();
+
+/** Text returned by a tool, tagged with who it is meant for */
+const GooseToolOutputSchema = z
+  .object({
+    type: z.string(),
+    text: z.string().optional(),
+    annotations: z
+      .object({ audience: z.array(z.string()).optional() })
+      .passthrough()
+      .nullable()
+      .optional(),
+  })
+  .passthrough();
+
+export const GooseContentSchema = z
+  .object({
+    type: z.string(),
+    text: z.string().optional(),
+    id: z.string().optional(),
+    toolCall: z
+      .object({
+        status: z.string(),
+        value: z
+          .object({ name: z.string(), arguments: z.record(z.string(), z.unknown()).optional() })
+          .passthrough()
+          .optional(),
+        error: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    toolResult: z
+      .object({
+        status: z.string(),
+        value: z.array(GooseToolOutputSchema).optional(),
+        error: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export const GooseMessageSchema = z
+  .object({
+    role: z.enum(['user', 'assistant']),
+    /** Unix seconds */
+    created: z.number(),
+    content: z.array(GooseContentSchema),
+  })
+  .passthrough();
+
+/** Any line of a Goose session file: a message, or the metadata line opening newer files */
+export const GooseLineSchema = z.union([GooseMessageSchema, GooseSessionMetaSchema]);
+
+export type GooseSessionMeta = z.infer<typeof GooseSessionMetaSchema>;
+export type GooseContent = z.infer<typeof GooseContentSchema>;
+export type GooseMessage = z.infer<typeof GooseMessageSchema>;
+
+// ── Continue.dev ────────────────────────────────────────────────────────────
+
+/** Entry of ~/.continue/sessions/sessions.json */
+export const ContinueSessionIndexEntrySchema = z
+  .object({
+    sessionId: z.string(),
+    title: z.string().optional(),
+    /** Epoch milliseconds, stored as a string by most versions */
+    dateCreated: z.union([z.string(), z.number()]).optional(),
+    /** Workspace folder — a path or a `file://` URI */
+    workspaceDirectory: z.string().optional(),
+  })
+  .passthrough();
+
+/** Context attached to a message (`@file`, `@terminal`, …) or returned by a tool */
+export const ContinueContextItemSchema = z
+  .object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    content: z.string().optional(),
+    id: z.object({ providerTitle: z.string(), itemId: z.string().optional() }).passthrough().optional(),
+    uri: z.object({ type: z.string(), value: z.string() }).passthrough().optional(),
+  })
+  .passthrough();
+
+const ContinueToolCallSchema = z
+  .object({
+    id: z.string().optional(),
+    type: z.string().optional(),
+    function: z.object({ name: z.string(), arguments: z.string().optional() }).passthrough(),
+  })
+  .passthrough();
+
+/** Status (`done`, `errored`, `canceled`, …) and output of one tool call */
+const ContinueToolCallStateSchema = z
+  .object({
+    toolCallId: z.string().optional(),
+    toolCall: ContinueToolCallSchema,
+    status: z.string(),
+    output: z.array(ContinueContextItemSchema).optional(),
+  })
+  .passthrough();
+
+const ContinueMessagePartSchema = z.object({ type: z.string(), text: z.string().optional() }).passthrough();
+
+export const ContinueHistoryItemSchema = z
+  .object({
+    message: z
+      .object({
+        role: z.string(),
+        content: z.union([z.string(), z.array(ContinueMessagePartSchema)]),
+        toolCalls: z.array(ContinueToolCallSchema).optional(),
+        toolCallId: z.string().optional(),
+        usage: z
+          .object({ promptTokens: z.number().optional(), completionTokens: z.number().optional() })
+          .passthrough()
+          .optional(),
+      })
+      .passthrough(),
+    contextItems: z.array(ContinueContextItemSchema).default([]),
+    toolCallState: ContinueToolCallStateSchema.optional(),
+    /** Newer versions keep one state per parallel tool call */
+    toolCallStates: z.array(ContinueToolCallStateSchema).optional(),
+    promptLogs: z.array(z.object({ modelTitle: z.string().optional() }).passthrough()).optional(),
+  })
+  .passthrough();
+
+/** ~/.continue/sessions/<sessionId>.json */
+export const ContinueSessionSchema = z
+  .object({
+    sessionId: z.string(),
+    title: z.string().optional(),
+    workspaceDirectory: z.string().optional(),
+    history: z.array(ContinueHistoryItemSchema),
+  })
+  .passthrough();
+
+export type ContinueSessionIndexEntry = z.infer<typeof ContinueSessionIndexEntrySchema>;
+export type ContinueContextItem = z.infer<typeof ContinueContextItemSchema>;
+export type ContinueToolCallState = z.infer<typeof ContinueToolCallStateSchema>;
+export type ContinueHistoryItem = z.infer<typeof ContinueHistoryItemSchema>;
+export type ContinueSession = z.infer<typeof ContinueSessionSchema>;
+
+// ── Zed ─────────────────────────────────────────────────────────────────────
+
+/** Row of the `threads` table in Zed's threads.db */
+export const ZedThreadRowSchema = z.object({
+  id: z.string(),
+  summary: z.string(),
+  /** RFC 3339 */
+  updated_at: z.string(),
+  /** `json`, or `zstd` for zstd-compressed JSON */
+  data_type: z.string(),
+  data: z.instanceof(Uint8Array),
+});
+
+const ZedToolUseSchema = z.object({ id: z.string(), name: z.string(), input: z.unknown().optional() }).passthrough();
+
+const ZedToolResultSchema = z
+  .object({
+    tool_use_id: z.string(),
+    is_error: z.boolean().default(false),
+    /** A string, or `{ "Text": … }` */
+    content: z.unknown().optional(),
+    /** Structured output, e.g. the old and new text of an edit */
+    output: z.unknown().optional(),
+  })
+  .passthrough();
+
+/** Message of a thread saved by the original agent panel (format 0.1 – 0.2) */
+export const ZedLegacyMessageSchema = z
+  .object({
+    role: z.enum(['user', 'assistant', 'system']),
+    segments: z.array(z.object({ type: z.string(), text: z.string().optional() }).passthrough()).default([]),
+    tool_uses: z.array(ZedToolUseSchema).default([]),
+    tool_results: z.array(ZedToolResultSchema).default([]),
+    is_hidden: z.boolean().optional(),
+  })
+  .passthrough();
+
+/** Message of a thread saved by the agent panel rewrite: `{ User }`, `{ Agent }` or `"Resume"` */
+export const ZedAgentMessageSchema = z.union([
+  z.object({ User: z.object({ content: z.array(z.record(z.string(), z.unknown())) }).passthrough() }),
+  z.object({
+    Agent: z
+      .object({
+        content: z.array(z.record(z.string(), z.unknown())),
+        tool_results: z.record(z.string(), ZedToolResultSchema).default({}),
+      })
+      .passthrough(),
+  }),
+  z.literal('Resume'),
+]);
+
+/** Decoded `data` of a thread row */
+export const ZedThreadSchema = z
+  .object({
+    messages: z.array(z.unknown()),
+    initial_project_snapshot: z
+      .object({ worktree_snapshots: z.array(z.object({ worktree_path: z.string() }).passthrough()).default([]) })
+      .passthrough()
+      .nullable()
+      .optional(),
+    cumulative_token_usage: z
+      .object({
+        input_tokens: z.number().default(0),
+        output_tokens: z.number().default(0),
+        cache_creation_input_tokens: z.number().default(0),
+        cache_read_input_tokens: z.number().default(0),
+      })
+      .passthrough()
+      .optional(),
+    model: z.object({ provider: z.string(), model: z.string() }).passthrough().nullable().optional(),
+  })
+  .passthrough();
+
+export type ZedThreadRow = z.infer<typeof ZedThreadRowSchema>;
+export type ZedLegacyMessage = z.infer<typeof ZedLegacyMessageSchema>;
+export type ZedAgentMessage = z.infer<typeof ZedAgentMessageSchema>;
+export type ZedThread = z.infer<typeof ZedThreadSchema>;
+
+// ── VS Code Copilot Chat ────────────────────────────────────────────────────
+
+/**
+ * A response part. Markdown parts have no `kind`; typed parts include
+ * `toolInvocationSerialized`, `textEditGroup` and `inlineReference`.
+ */
+export const CopilotChatResponsePartSchema = z
+  .object({
+    kind: z.string().optional(),
+    value: z.unknown().optional(),
+  })
+  .passthrough();
+
+export const CopilotChatRequestSchema = z
+  .object({
+    requestId: z.string().optional(),
+    message: z.object({ text: z.string().optional() }).passthrough(),
+    response: z.array(CopilotChatResponsePartSchema).default([]),
+    modelId: z.string().optional(),
+    /** Epoch milliseconds */
+    timestamp: z.number().optional(),
+    isCanceled: z.boolean().optional(),
+  })
+  .passthrough();
+
+/** `workspaceStorage/<hash>/chatSessions/<sessionId>.json`, or an entry of the legacy `interactive.sessions` key */
+export const CopilotChatSessionSchema = z
+  .object({
+    version: z.number().optional(),
+    sessionId: z.string(),
+    /** Epoch milliseconds */
+    creationDate: z.number().optional(),
+    lastMessageDate: z.number().optional(),
+    customTitle: z.string().optional(),
+    requests: z.array(CopilotChatRequestSchema),
+  })
+  .passthrough();
+
+/** `chat.ChatSessionStore.index` in a workspace's state.vscdb — titles of the chatSessions files */
+export const CopilotChatSessionIndexSchema = z
+  .object({
+    entries: z.record(z.string(), z.object({ title: z.string().optional() }).passthrough()),
+  })
+  .passthrough();
+
+export type CopilotChatResponsePart = z.infer<typeof CopilotChatResponsePartSchema>;
+export type CopilotChatRequest = z.infer<typeof CopilotChatRequestSchema>;
+export type CopilotChatSession = z.infer<typeof CopilotChatSessionSchema>;
+
+// ── Cursor IDE Composer ─────────────────────────────────────────────────────
+
+export const CursorToolFormerDataSchema = z
+  .object({
+    name: z.string().optional(),
+    toolCallId: z.string().optional(),
+    status: z.string().optional(),
+    /** JSON-encoded tool input */
+    rawArgs: z.string().nullish(),
+    params: z.string().nullish(),
+    /** JSON-encoded tool result */
+    result: z.string().nullish(),
+  })
+  .passthrough();
+
+/** A composer message ("bubble"): type 1 is the user, type 2 the assistant */
+export const CursorBubbleSchema = z
+  .object({
+    bubbleId: z.string().optional(),
+    type: z.number(),
+    text: z.string().optional(),
+    toolFormerData: CursorToolFormerDataSchema.nullish(),
+    tokenCount: z
+      .object({ inputTokens: z.number().optional(), outputTokens: z.number().optional() })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+/** Composer list of a workspace — `composer.composerData` in its state.vscdb */
+export const CursorWorkspaceComposersSchema = z
+  .object({
+    allComposers: z.array(
+      z
+        .object({
+          composerId: z.string(),
+          name: z.string().optional(),
+          /** Epoch milliseconds */
+          createdAt: z.number().optional(),
+          lastUpdatedAt: z.number().optional(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
+/** `composerData:<composerId>` in the global state.vscdb `cursorDiskKV` table */
+export const CursorComposerDataSchema = z
+  .object({
+    composerId: z.string(),
+    name: z.string().optional(),
+    createdAt: z.number().optional(),
+    lastUpdatedAt: z.number().optional(),
+    /** Inline bubbles — composers saved before the separate bubble store */
+    conversation: z.array(CursorBubbleSchema).optional(),
+    /** Bubble order; bodies live under `bubbleId:<composerId>:<bubbleId>` */
+    fullConversationHeadersOnly: z
+      .array(z.object({ bubbleId: z.string(), type: z.number().optional() }).passthrough())
+      .optional(),
+    modelConfig: z.object({ modelName: z.string().optional() }).passthrough().nullish(),
+  })
+  .passthrough();
+
+export type CursorToolFormerData = z.infer<typeof CursorToolFormerDataSchema>;
+export type CursorBubble = z.infer<typeof CursorBubbleSchema>;
+export type CursorComposerData = z.infer<typeof CursorComposerDataSchema>;
+
 // ── Serialized Session (Index JSONL) ────────────────────────────────────────
 
 export const SerializedSessionSchema = z.object({
@@ -19,6 +19,13 @@ export const TOOL_NAMES = Object.freeze([
   'roo-code',
   'kilo-code',
   'antigravity',
+  'aider',
+  'goose',
+  'continue-dev',
+  'zed',
+  'qwen',
+  'copilot-chat',
+  'cursor-ide',
 ] as const);
 
 /** Source CLI tool — derived from TOOL_NAMES, never defined manually */
@@ -69,8 +76,18 @@ export const TASK_OUTPUT_TOOLS: ReadonlySet<string> = new Set(['TaskOutput']);
 /** User interaction tools */
 export const ASK_TOOLS: ReadonlySet<string> = new Set(['AskUserQuestion', 'request_user_input']);
 
+/** Todo list / plan tools — each call carries the agent's whole task list */
+export const TODO_TOOLS: ReadonlySet<string> = new Set([
+  'TodoWrite',
+  'update_plan',
+  'write_todos',
+  'todowrite',
+  'todo_write',
+  'update_todo',
+]);
+
 /** Tools to skip — internal bookkeeping, no useful handoff context */
-export const SKIP_TOOLS: ReadonlySet<string> = new Set(['TaskStop', 'ExitPlanMode', 'TodoWrite', 'update_plan', 'view_image']);
+export const SKIP_TOOLS: ReadonlySet<string> = new Set(['TaskStop', 'ExitPlanMode', 'view_image']);
 
 // ── Tool Sample Classification ──────────────────────────────────────────────
 
@@ -86,6 +103,7 @@ export type ToolSampleCategory =
   | 'fetch'
   | 'task'
   | 'ask'
+  | 'todo'
   | 'mcp';
 
 /**
@@ -105,5 +123,6 @@ export function classifyToolName(name: string): ToolSampleCategory | undefined {
   if (FETCH_TOOLS.has(name)) return 'fetch';
   if (TASK_TOOLS.has(name) || TASK_OUTPUT_TOOLS.has(name)) return 'task';
   if (ASK_TOOLS.has(name)) return 'ask';
+  if (TODO_TOOLS.has(name)) return 'todo';
   return 'mcp';
 }
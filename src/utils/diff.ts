@@ -84,3 +84,44 @@ export function countDiffStats(diff: string): { added: number; removed: number }
   }
   return { added, removed };
 }
+
+/** Above this many old×new line pairs, lineDiff skips the LCS and lists every line as removed then added */
+const MAX_LCS_CELLS = 250_000;
+
+/**
+ * Line-level diff of two texts as ` `/`-`/`+` prefixed lines, aligned on
+ * their longest common subsequence.
+ */
+export function lineDiff(oldStr: string, newStr: string): string[] {
+  const a = oldStr ? oldStr.split('\n') : [];
+  const b = newStr ? newStr.split('\n') : [];
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [...a.map((l) => `-${l}`), ...b.map((l) => `+${l}`)];
+  }
+
+  // lcs[i][j] = common subsequence length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(` ${a[i]}`);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`-${a[i++]}`);
+  while (j < b.length) lines.push(`+${b[j++]}`);
+  return lines;
+}
@@ -0,0 +1,167 @@
+/**
+ * Locations of VS Code–family editor storage (VS Code, VSCodium, Cursor, Kiro, …):
+ * each product's config directory with its `User` directory, and the
+ * per-workspace `workspaceStorage/<hash>` folders, each mapped back to the
+ * folder that was open.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getActiveConfig } from '../config/index.js';
+import { logger } from '../logger.js';
+import { homeDir } from './parser-helpers.js';
+import { openSqlite, type SqliteDb } from './sqlite.js';
+
+/** A `workspaceStorage/<hash>` folder and the workspace it belongs to */
+export interface WorkspaceStorage {
+  /** Absolute path of the `<hash>` folder */
+  dir: string;
+  hash: string;
+  /** Folder that was open in the window, or '' for unknown or remote workspaces */
+  folder: string;
+}
+
+/** A VS Code–family product: its config folder name and its Linux package ids */
+interface EditorProduct {
+  /** Folder under the config directory, e.g. `Code` */
+  dir: string;
+  /** Flatpak app id — config under `~/.var/app/<id>/config/` */
+  flatpak?: string;
+  /** Snap name — config under `~/snap/<name>/current/.config/` */
+  snap?: string;
+}
+
+const EDITOR_PRODUCTS: EditorProduct[] = [
+  { dir: 'Code', flatpak: 'com.visualstudio.code', snap: 'code' },
+  { dir: 'Code - Insiders', flatpak: 'com.visualstudio.code.insiders', snap: 'code-insiders' },
+  { dir: 'VSCodium', flatpak: 'com.vscodium.codium', snap: 'codium' },
+  { dir: 'VSCodium - Insiders', flatpak: 'com.vscodium.codium-insiders' },
+  { dir: 'Code - OSS', flatpak: 'com.visualstudio.code-oss' },
+  { dir: 'Cursor' },
+  { dir: 'Windsurf', flatpak: 'com.codeium.windsurf' },
+  { dir: 'Kiro' },
+];
+
+/** Every VS Code–family product whose extensions can keep sessions */
+export const VSCODE_FAMILY: readonly string[] = EDITOR_PRODUCTS.map((product) => product.dir);
+
+/**
+ * Config directories ("bases") of the given products on this platform, plus
+ * the `editorStorage.bases` from the config. On Linux that is `$XDG_CONFIG_HOME`
+ * (falling back to `~/.config`) and the Flatpak and Snap sandboxes.
+ * Candidates are returned whether or not they exist.
+ */
+export function editorBases(products: readonly string[]): string[] {
+  const home = homeDir();
+  const bases: string[] = [];
+
+  for (const name of products) {
+    const product = EDITOR_PRODUCTS.find((p) => p.dir === name) ?? { dir: name };
+    if (process.platform === 'darwin') {
+      bases.push(path.join(home, 'Library', 'Application Support', product.dir));
+    } else if (process.platform === 'win32') {
+      bases.push(path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), product.dir));
+    } else {
+      bases.push(path.join(process.env.XDG_CONFIG_HOME || path.join(home, '.config'), product.dir));
+      if (product.flatpak) bases.push(path.join(home, '.var', 'app', product.flatpak, 'config', product.dir));
+      if (product.snap) bases.push(path.join(home, 'snap', product.snap, 'current', '.config', product.dir));
+    }
+  }
+  bases.push(...(getActiveConfig().editorStorage?.bases ?? []));
+
+  return [...new Set(bases)];
+}
+
+/** `User` directories of the given products (e.g. `Code`, `Cursor`), one per base */
+export function editorUserDirs(products: readonly string[]): string[] {
+  return editorBases(products).map((base) => path.join(base, 'User'));
+}
+
+/** Convert a `file://` URI to a path; other URIs (remote, virtual) have no local path */
+export function fileUriToPath(uri: string | undefined): string {
+  if (!uri) return '';
+  if (!uri.startsWith('file://')) return '';
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Folder of a workspace storage dir, from its `workspace.json` — either a
+ * `folder` URI or a `workspace` URI of a `.code-workspace` file
+ */
+export function readWorkspaceFolder(storageDir: string): string {
+  try {
+    const raw = JSON.parse(fs.readFileSync(path.join(storageDir, 'workspace.json'), 'utf8')) as {
+      folder?: unknown;
+      workspace?: unknown;
+    };
+    if (typeof raw.folder === 'string') return fileUriToPath(raw.folder);
+    if (typeof raw.workspace === 'string') {
+      const file = fileUriToPath(raw.workspace);
+      return file ? path.dirname(file) : '';
+    }
+  } catch (err) {
+    logger.debug('editor-storage: cannot read workspace.json', storageDir, err);
+  }
+  return '';
+}
+
+/** Every `workspaceStorage/<hash>` folder under the given `User` directories */
+export function listWorkspaceStorage(userDirs: readonly string[]): WorkspaceStorage[] {
+  const results: WorkspaceStorage[] = [];
+  for (const userDir of userDirs) {
+    const root = path.join(userDir, 'workspaceStorage');
+    if (!fs.existsSync(root)) continue;
+    try {
+      for (const entry of fs.readdirSync(root, { withFileTypes: true })) {
+        if (!entry.isDirectory()) continue;
+        const dir = path.join(root, entry.name);
+        results.push({ dir, hash: entry.name, folder: readWorkspaceFolder(dir) });
+      }
+    } catch (err) {
+      logger.debug('editor-storage: cannot read workspaceStorage', root, err);
+    }
+  }
+  return results;
+}
+
+// ── state.vscdb ─────────────────────────────────────────────────────────────
+
+/** Open a `state.vscdb` key-value database read-only, or null if it can't be opened */
+export function openStateDb(dbPath: string): SqliteDb | null {
+  try {
+    return openSqlite(dbPath, { readOnly: true });
+  } catch (err) {
+    logger.debug('editor-storage: cannot open state database', dbPath, err);
+    return null;
+  }
+}
+
+/** Decode a key-value row's value — stored as TEXT or as a BLOB of UTF-8 JSON */
+export function decodeStateValue(value: unknown): unknown {
+  const text =
+    typeof value === 'string' ? value : value instanceof Uint8Array ? Buffer.from(value).toString('utf8') : '';
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * JSON value of a key in a `state.vscdb` table — `ItemTable` for editor
+ * state, `cursorDiskKV` for Cursor's composer store
+ */
+export function readStateValue(db: SqliteDb, table: 'ItemTable' | 'cursorDiskKV', key: string): unknown {
+  try {
+    const row = db.prepare(`SELECT value FROM ${table} WHERE key = ?`).get(key) as { value: unknown } | undefined;
+    return row ? decodeStateValue(row.value) : undefined;
+  } catch (err) {
+    logger.debug(`editor-storage: cannot read ${key} from ${table}`, err);
+    return undefined;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Net per-file changes across a session.
+ *
+ * Write/Edit samples are capped per tool, so a file edited thirty times shows
+ * up as five fragments. SummaryCollector records every write, edit and patch
+ * as a FileChangeOp; `summarizeFileChanges` replays them per file, in order,
+ * into one consolidated diff with net added/removed line counts.
+ */
+import type { FileChangeStatus, FileChangeSummary } from '../types/index.js';
+import { lineDiff } from './diff.js';
+
+/** One recorded change to a file, in session order */
+export type FileChangeOp =
+  | { kind: 'write'; filePath: string; content: string; isNewFile?: boolean }
+  | { kind: 'edit'; filePath: string; oldText: string; newText: string; replaceAll?: boolean }
+  | { kind: 'delete'; filePath: string }
+  /** A change whose content was not recorded (counted, but not replayable) */
+  | { kind: 'unknown'; filePath: string };
+
+/** Lines kept per consolidated diff; the handoff renders fewer (edit.diffLines) */
+const MAX_DIFF_LINES = 500;
+
+interface Hunk {
+  oldText: string;
+  newText: string;
+}
+
+// ── Op Extraction ───────────────────────────────────────────────────────────
+
+/**
+ * Ops from a unified diff (`@@` hunks with ` `/`-`/`+` lines). A diff against
+ * /dev/null becomes a write of the added lines.
+ */
+export function opsFromUnifiedDiff(filePath: string, diff: string): FileChangeOp[] {
+  const hunks: Hunk[] = [];
+  let current: { old: string[]; new: string[] } | undefined;
+  let fromNothing = false;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('--- ')) {
+      fromNothing = line.slice(4).trim() === '/dev/null';
+      continue;
+    }
+    if (line.startsWith('+++ ') || line.startsWith('Index: ') || line.startsWith('===') || line.startsWith('\\')) {
+      continue;
+    }
+    if (line.startsWith('@@') || !current) {
+      if (current) hunks.push({ oldText: current.old.join('\n'), newText: current.new.join('\n') });
+      current = { old: [], new: [] };
+      if (line.startsWith('@@')) continue;
+    }
+    if (line.startsWith('-')) current.old.push(line.slice(1));
+    else if (line.startsWith('+')) current.new.push(line.slice(1));
+    else if (line.startsWith(' ')) {
+      current.old.push(line.slice(1));
+      current.new.push(line.slice(1));
+    }
+  }
+  if (current && (current.old.length > 0 || current.new.length > 0)) {
+    hunks.push({ oldText: current.old.join('\n'), newText: current.new.join('\n') });
+  }
+
+  if (fromNothing) {
+    return [{ kind: 'write', filePath, content: hunks.map((h) => h.newText).join('\n'), isNewFile: true }];
+  }
+  if (hunks.length === 0) return [{ kind: 'unknown', filePath }];
+  return hunks.map((h) => ({ kind: 'edit', filePath, ...h }));
+}
+
+/**
+ * Ops from a Codex `apply_patch` body (`*** Add File:` / `*** Update File:` /
+ * `*** Delete File:` sections with `@@` chunks).
+ */
+export function opsFromCodexPatch(patch: string): FileChangeOp[] {
+  const ops: FileChangeOp[] = [];
+  let file: { kind: 'add' | 'update'; path: string } | undefined;
+  let added: string[] = [];
+  let chunk: { old: string[]; new: string[] } | undefined;
+
+  const flushChunk = () => {
+    if (file && chunk && (chunk.old.length > 0 || chunk.new.length > 0)) {
+      ops.push({ kind: 'edit', filePath: file.path, oldText: chunk.old.join('\n'), newText: chunk.new.join('\n') });
+    }
+    chunk = undefined;
+  };
+  const flushFile = () => {
+    flushChunk();
+    if (file?.kind === 'add') {
+      ops.push({ kind: 'write', filePath: file.path, content: added.join('\n'), isNewFile: true });
+    }
+    file = undefined;
+    added = [];
+  };
+
+  for (const line of patch.split('\n')) {
+    const header = line.match(/^\*\*\* (Add|Update|Delete) File: (.+)$/);
+    if (header) {
+      flushFile();
+      const filePath = header[2].trim();
+      if (header[1] === 'Delete') ops.push({ kind: 'delete', filePath });
+      else file = { kind: header[1] === 'Add' ? 'add' : 'update', path: filePath };
+      continue;
+    }
+    if (line.startsWith('*** ')) {
+      // *** Begin Patch / *** End Patch / *** Move to: / *** End of File
+      if (!line.startsWith('*** End of File') && !line.startsWith('*** Move to:')) flushFile();
+      continue;
+    }
+    if (!file) continue;
+    if (file.kind === 'add') {
+      if (line.startsWith('+')) added.push(line.slice(1));
+      continue;
+    }
+    if (line.startsWith('@@')) {
+      flushChunk();
+      continue;
+    }
+    chunk ??= { old: [], new: [] };
+    if (line.startsWith('-')) chunk.old.push(line.slice(1));
+    else if (line.startsWith('+')) chunk.new.push(line.slice(1));
+    else {
+      const context = line.startsWith(' ') ? line.slice(1) : line;
+      chunk.old.push(context);
+      chunk.new.push(context);
+    }
+  }
+  flushFile();
+  return ops;
+}
+
+// ── Replay ──────────────────────────────────────────────────────────────────
+
+function replace(text: string, oldText: string, newText: string, all?: boolean): string {
+  if (all) return text.split(oldText).join(newText);
+  const at = text.indexOf(oldText);
+  return text.slice(0, at) + newText + text.slice(at + oldText.length);
+}
+
+function countLines(text: string): number {
+  if (!text) return 0;
+  return text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+}
+
+/**
+ * Fold an edit into the net hunks of a file whose full content is unknown.
+ * An edit inside an earlier edit's new text rewrites that hunk; an edit
+ * spanning earlier hunks absorbs them (mapped back to their original text).
+ */
+function foldEdit(hunks: Hunk[], oldText: string, newText: string, replaceAll?: boolean): void {
+  const inside = oldText ? hunks.find((h) => h.newText.includes(oldText)) : undefined;
+  if (inside) {
+    inside.newText = replace(inside.newText, oldText, newText, replaceAll);
+    return;
+  }
+
+  let original = oldText;
+  for (let i = hunks.length - 1; i >= 0; i--) {
+    const h = hunks[i];
+    if (h.newText && original.includes(h.newText)) {
+      original = replace(original, h.newText, h.oldText);
+      hunks.splice(i, 1);
+    }
+  }
+  hunks.push({ oldText: original, newText });
+}
+
+function capDiff(lines: string[]): string {
+  if (lines.length <= MAX_DIFF_LINES) return lines.join('\n');
+  return [...lines.slice(0, MAX_DIFF_LINES), `+${lines.length - MAX_DIFF_LINES} lines truncated`].join('\n');
+}
+
+function replayFile(filePath: string, ops: FileChangeOp[]): FileChangeSummary {
+  let status: FileChangeStatus | undefined;
+  /** Full content, once a write made it known */
+  let content: string | undefined;
+  let hunks: Hunk[] = [];
+  let partial = false;
+
+  for (const op of ops) {
+    switch (op.kind) {
+      case 'write':
+        if (status === undefined) status = op.isNewFile ? 'created' : 'written';
+        else if (status !== 'created') status = 'written';
+        content = op.content;
+        hunks = [];
+        break;
+      case 'edit':
+        status ??= 'modified';
+        if (content !== undefined && op.oldText && content.includes(op.oldText)) {
+          content = replace(content, op.oldText, op.newText, op.replaceAll);
+        } else if (content !== undefined) {
+          // Known content but the edit does not apply — keep it as a loose hunk
+          partial = true;
+          hunks.push({ oldText: op.oldText, newText: op.newText });
+        } else {
+          foldEdit(hunks, op.oldText, op.newText, op.replaceAll);
+        }
+        break;
+      case 'delete':
+        status = 'deleted';
+        content = undefined;
+        hunks = [];
+        break;
+      case 'unknown':
+        status ??= 'modified';
+        partial = true;
+        break;
+    }
+  }
+
+  const summary: FileChangeSummary = {
+    filePath,
+    edits: ops.length,
+    status: status ?? 'modified',
+    added: 0,
+    removed: 0,
+  };
+  const diff: string[] = [];
+
+  if (content !== undefined) {
+    summary.added = countLines(content);
+    diff.push(...(content ? content.replace(/\n$/, '').split('\n') : []).map((l) => `+${l}`));
+  }
+  for (const hunk of hunks.filter((h) => h.oldText !== h.newText)) {
+    const lines = lineDiff(hunk.oldText, hunk.newText);
+    if (diff.length > 0) diff.push('@@');
+    diff.push(...lines);
+    summary.added += lines.filter((l) => l.startsWith('+')).length;
+    summary.removed += lines.filter((l) => l.startsWith('-')).length;
+  }
+
+  if (diff.length > 0) summary.diff = capDiff(diff);
+  if (partial) summary.partial = true;
+  return summary;
+}
+
+/** Replay recorded ops into one net change per file, in first-touched order */
+export function summarizeFileChanges(ops: FileChangeOp[]): FileChangeSummary[] {
+  const byFile = new Map<string, FileChangeOp[]>();
+  for (const op of ops) {
+    const list = byFile.get(op.filePath);
+    if (list) list.push(op);
+    else byFile.set(op.filePath, [op]);
+  }
+  return Array.from(byFile, ([filePath, fileOps]) => replayFile(filePath, fileOps));
+}
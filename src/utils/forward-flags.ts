@@ -2,6 +2,7 @@ import type { SessionSource } from '../types/index.js';
 
 export type CanonicalFlagKey =
   | 'model'
+  | 'provider'
   | 'yolo'
   | 'force'
   | 'allowAll'
@@ -87,6 +88,7 @@ const FLAG_SPECS: FlagSpec[] = [
   { key: 'workspace', names: ['--workspace'], valueMode: 'required' },
   { key: 'sandbox', names: ['--sandbox', '-s'], valueMode: 'optional' },
   { key: 'model', names: ['--model', '-m'], valueMode: 'required' },
+  { key: 'provider', names: ['--provider'], valueMode: 'required' },
   { key: 'yolo', names: ['--yolo', '-y'], valueMode: 'none' },
   { key: 'allowAll', names: ['--allow-all'], valueMode: 'none' },
   { key: 'force', names: ['--force', '-f'], valueMode: 'none' },
@@ -87,3 +87,12 @@ export function listSubdirectories(dir: string): string[] {
     return [];
   }
 }
+
+/** `dir` and every directory above it, nearest first */
+export function ancestors(dir: string): string[] {
+  const dirs = [path.resolve(dir)];
+  while (path.dirname(dirs[dirs.length - 1]) !== dirs[dirs.length - 1]) {
+    dirs.push(path.dirname(dirs[dirs.length - 1]));
+  }
+  return dirs;
+}
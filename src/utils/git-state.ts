@@ -0,0 +1,221 @@
+/**
+ * Live repository state for handoffs.
+ *
+ * `filesModified` says what the session touched, not what the repository
+ * looks like now: commits may have landed since, edits may have been
+ * reverted, the branch may have switched. This reads the current state with
+ * the local `git` binary when a handoff is made. Outside a repository, or
+ * without git, there is simply no state.
+ */
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { logger } from '../logger.js';
+import type { RepositoryCommit, RepositoryState, SessionFileState, UnifiedSession } from '../types/index.js';
+
+const GIT_TIMEOUT_MS = 5000;
+
+/** Commits and dirty files listed in the handoff before "…and N more" */
+const MAX_COMMITS = 10;
+const MAX_DIRTY_FILES = 20;
+
+/** Edits land a moment before the session's last message is recorded */
+const MTIME_SLACK_MS = 2000;
+
+/** Run git without a shell; null on any failure (not a repo, no git, timeout) */
+function git(cwd: string, args: string[]): string | null {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf8',
+      timeout: GIT_TIMEOUT_MS,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (err) {
+    logger.debug('git-state: git command failed', args.join(' '), err);
+    return null;
+  }
+}
+
+function lines(output: string | null): string[] {
+  return (output ?? '').split('\n').filter(Boolean);
+}
+
+/** `git status --porcelain -z` entries; renames carry their old path as an extra entry */
+function parseStatus(output: string): Array<{ status: string; path: string }> {
+  const entries = output.split('\0');
+  const files: Array<{ status: string; path: string }> = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.length < 4) continue;
+    const status = entry.slice(0, 2);
+    files.push({ status, path: entry.slice(3) });
+    if (status.includes('R') || status.includes('C')) i++;
+  }
+  return files;
+}
+
+function parseCommits(output: string | null): RepositoryCommit[] {
+  return lines(output).map((line) => {
+    const [sha, date, author, ...subject] = line.split('\x1f');
+    return { sha, date: new Date(date), author, subject: subject.join('\x1f') };
+  });
+}
+
+/**
+ * Read the state of the repository containing `cwd`: current branch vs the
+ * session's, commits since the session ended, uncommitted changes, and what
+ * became of each file the session modified. Returns null outside a repository.
+ *
+ * A session file is `reverted` when its content matches the last commit
+ * before the session started, `changed` when it was written (or deleted)
+ * after the session ended, and `unchanged` otherwise.
+ */
+export function getRepositoryState(
+  cwd: string,
+  session: Pick<UnifiedSession, 'branch' | 'createdAt' | 'updatedAt'>,
+  filesModified: string[] = [],
+): RepositoryState | null {
+  if (!cwd || !fs.existsSync(cwd)) return null;
+  const root = git(cwd, ['rev-parse', '--show-toplevel'])?.trim();
+  if (!root) return null;
+
+  const branch = git(root, ['symbolic-ref', '--short', '-q', 'HEAD'])?.trim() || undefined;
+  const head = git(root, ['rev-parse', '--short', 'HEAD'])?.trim() || undefined;
+
+  const since = `--since=${session.updatedAt.toISOString()}`;
+  const commitCount = head ? Number.parseInt(git(root, ['rev-list', '--count', since, 'HEAD']) ?? '0', 10) || 0 : 0;
+  const commits =
+    commitCount > 0
+      ? parseCommits(git(root, ['log', since, `-n${MAX_COMMITS}`, '--format=%h%x1f%cI%x1f%an%x1f%s', 'HEAD']))
+      : [];
+
+  const dirtyFiles = parseStatus(git(root, ['status', '--porcelain=v1', '-z', '--untracked-files=normal']) ?? '');
+
+  // Session paths may be absolute or relative to the session's cwd; keep those inside the repo
+  const relative = [
+    ...new Set(
+      filesModified
+        .map((file) => path.relative(root, path.resolve(cwd, file)).split(path.sep).join('/'))
+        .filter((rel) => rel && !rel.startsWith('..') && !path.isAbsolute(rel)),
+    ),
+  ];
+
+  // Files whose content differs from the last commit before the session started
+  const base = head ? git(root, ['rev-list', '-1', `--before=${session.createdAt.toISOString()}`, 'HEAD'])?.trim() : '';
+  const differsFromBase =
+    base && relative.length > 0 ? new Set(lines(git(root, ['diff', '--name-only', base, '--', ...relative]))) : null;
+  // Untracked and ignored files never show in that diff — `status` lists a new directory only as `dir/`
+  const tracked = differsFromBase ? new Set(lines(git(root, ['ls-files', '--', ...relative]))) : null;
+
+  const sessionFiles = relative.map((rel) => {
+    const abs = path.join(root, rel);
+    const exists = fs.existsSync(abs);
+    let state: SessionFileState;
+    if (differsFromBase && !differsFromBase.has(rel) && !(exists && !tracked?.has(rel))) {
+      state = 'reverted';
+    } else if (!exists || fs.statSync(abs).mtimeMs > session.updatedAt.getTime() + MTIME_SLACK_MS) {
+      state = 'changed';
+    } else {
+      state = 'unchanged';
+    }
+    return { path: rel, state };
+  });
+
+  return {
+    root,
+    branch,
+    head,
+    sessionBranch: session.branch,
+    since: session.updatedAt,
+    commits,
+    commitCount,
+    dirtyFiles,
+    sessionFiles,
+  };
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  M: 'modified',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  U: 'conflicted',
+  T: 'type changed',
+};
+
+function describeStatus(status: string): string {
+  if (status === '??') return 'untracked';
+  const [index, worktree] = status;
+  const code = worktree !== ' ' ? worktree : index;
+  const label = STATUS_LABELS[code] ?? status.trim();
+  return index !== ' ' && worktree === ' ' ? `${label}, staged` : label;
+}
+
+const FILE_STATE_LABELS: Record<SessionFileState, string> = {
+  unchanged: 'unchanged since the session',
+  changed: 'changed after the session',
+  reverted: 'reverted (matches the last commit before the session)',
+};
+
+/**
+ * Render the `## Repository State` handoff section
+ */
+export function buildRepositoryStateSection(state: RepositoryState): string {
+  const ended = state.since.toISOString().slice(0, 16).replace('T', ' ');
+  const branch = state.branch ? `\`${state.branch}\`` : `detached at \`${state.head ?? '?'}\``;
+  let branchNote = '';
+  if (state.sessionBranch && state.sessionBranch !== state.branch) {
+    branchNote = ` — **the session was on \`${state.sessionBranch}\`**`;
+  } else if (state.sessionBranch) {
+    branchNote = ' (same as the session)';
+  }
+
+  const lines = [
+    '## Repository State',
+    '',
+    `*Live state of \`${state.root}\` at handoff time; the session ended ${ended}.*`,
+    '',
+    '| Field | Value |',
+    '|-------|-------|',
+    `| **Branch** | ${branch}${branchNote} |`,
+  ];
+  if (state.head) lines.push(`| **HEAD** | \`${state.head}\` |`);
+  lines.push(`| **Commits Since Session** | ${state.commitCount} |`);
+  lines.push(`| **Uncommitted Changes** | ${state.dirtyFiles.length} files |`);
+  lines.push('');
+
+  if (state.commits.length > 0) {
+    lines.push('### Commits Since the Session', '');
+    for (const commit of state.commits) {
+      const date = commit.date.toISOString().slice(0, 16).replace('T', ' ');
+      lines.push(`- \`${commit.sha}\` ${commit.subject} (${commit.author}, ${date})`);
+    }
+    if (state.commitCount > state.commits.length) {
+      lines.push(`- *…and ${state.commitCount - state.commits.length} more*`);
+    }
+    lines.push('');
+  }
+
+  if (state.dirtyFiles.length > 0) {
+    lines.push('### Uncommitted Changes', '');
+    for (const file of state.dirtyFiles.slice(0, MAX_DIRTY_FILES)) {
+      lines.push(`- \`${file.path}\` (${describeStatus(file.status)})`);
+    }
+    if (state.dirtyFiles.length > MAX_DIRTY_FILES) {
+      lines.push(`- *…and ${state.dirtyFiles.length - MAX_DIRTY_FILES} more*`);
+    }
+    lines.push('');
+  }
+
+  if (state.sessionFiles.length > 0) {
+    lines.push("### Session's Files Now", '');
+    for (const file of state.sessionFiles) {
+      lines.push(`- \`${file.path}\`: ${FILE_STATE_LABELS[file.state]}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,327 @@
+/**
+ * Handoff rendering in every supported format.
+ *
+ * Markdown is the prose handoff generated by the parsers, or a user template
+ * (`template:` / `templates:` in .continues.yml); JSON and XML carry the same
+ * context as a `continues.handoff/v1` document (see types/handoff.ts).
+ * `dump` and `inspect` can also export a standalone HTML page (see html.ts).
+ */
+import * as fs from 'node:fs';
+import { getActiveConfig, type VerbosityConfig } from '../config/index.js';
+import { StorageError } from '../errors.js';
+import { HANDOFF_FORMAT_VERSION, type HandoffDocument, HandoffDocumentSchema } from '../types/handoff.js';
+import type { RepositoryState, SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
+import { buildRepositoryStateSection } from './git-state.js';
+import { renderSessionHtml } from './html.js';
+import {
+  capsFromConfig,
+  getSourceLabels,
+  HANDOFF_DIRECTIVE,
+  renderConversation,
+  renderFileChanges,
+  renderOpenProblems,
+  renderReasoningChain,
+  renderSubagentResults,
+  renderToolActivity,
+} from './markdown.js';
+import { compileTemplate, renderTemplate, type TemplateHelper } from './template.js';
+
+/** Output formats accepted by `--format` */
+export const HANDOFF_FORMATS = ['markdown', 'json', 'xml'] as const;
+
+export type HandoffFormat = (typeof HANDOFF_FORMATS)[number];
+
+/** Formats `dump` and `inspect` can export: the handoff formats plus a standalone HTML page */
+export const EXPORT_FORMATS = [...HANDOFF_FORMATS, 'html'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', json: 'json', xml: 'xml', html: 'html' };
+
+export function isHandoffFormat(value: unknown): value is HandoffFormat {
+  return typeof value === 'string' && (HANDOFF_FORMATS as readonly string[]).includes(value);
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/** File extension (without dot) for a handoff or export format */
+export function handoffExtension(format: ExportFormat): string {
+  return FILE_EXTENSIONS[format];
+}
+
+function sessionOverview(session: UnifiedSession) {
+  return {
+    id: session.id,
+    source: session.source,
+    label: getSourceLabels()[session.source] || session.source,
+    cwd: session.cwd,
+    repo: session.repo,
+    branch: session.branch,
+    summary: session.summary,
+    model: session.model,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    parent: session.parent,
+  };
+}
+
+/**
+ * Build a `continues.handoff/v1` document from extracted context. The result
+ * is validated against the schema, so consumers can rely on its shape.
+ */
+export function buildHandoffDocument(context: SessionContext, generatedAt: Date = new Date()): HandoffDocument {
+  const { session, sessionNotes, repositoryState } = context;
+
+  return HandoffDocumentSchema.parse({
+    format: HANDOFF_FORMAT_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    session: { ...sessionOverview(session), model: session.model ?? sessionNotes?.model },
+    messages: context.recentMessages.map((message) => ({
+      ...message,
+      timestamp: message.timestamp?.toISOString(),
+    })),
+    tools: context.toolSummaries,
+    files: context.filesModified,
+    tasks: context.pendingTasks,
+    notes: sessionNotes && {
+      ...sessionNotes,
+      mergedFrom: sessionNotes.mergedFrom?.map(sessionOverview),
+    },
+    repository: repositoryState && {
+      ...repositoryState,
+      since: repositoryState.since.toISOString(),
+      commits: repositoryState.commits.map((commit) => ({ ...commit, date: commit.date.toISOString() })),
+    },
+    directive: HANDOFF_DIRECTIVE,
+  });
+}
+
+/**
+ * Parse and validate a JSON handoff document. Throws a ZodError when the
+ * input does not match `continues.handoff/v1`.
+ */
+export function parseHandoffDocument(json: string): HandoffDocument {
+  return HandoffDocumentSchema.parse(JSON.parse(json));
+}
+
+export interface HandoffRenderOptions {
+  /** Config for template selection and template helpers (default: the active config) */
+  config?: VerbosityConfig;
+  /** Tool receiving the handoff — selects a per-tool template */
+  target?: SessionSource;
+  /** Earlier hops of a chained handoff, exposed to templates as `lineage` */
+  lineage?: string;
+}
+
+/**
+ * Render extracted context in the requested format
+ */
+export function renderHandoff(
+  context: SessionContext,
+  format: HandoffFormat,
+  options: HandoffRenderOptions = {},
+): string {
+  switch (format) {
+    case 'markdown': {
+      const config = options.config ?? getActiveConfig();
+      const templatePath = resolveHandoffTemplate(config, options.target);
+      return templatePath ? renderHandoffTemplate(templatePath, context, { ...options, config }) : context.markdown;
+    }
+    case 'json':
+      return JSON.stringify(buildHandoffDocument(context), null, 2);
+    case 'xml':
+      return renderHandoffXml(buildHandoffDocument(context));
+  }
+}
+
+/**
+ * Render extracted context for export — a handoff format, or a standalone HTML page
+ */
+export function renderExport(
+  context: SessionContext,
+  format: ExportFormat,
+  options: HandoffRenderOptions = {},
+): string {
+  return format === 'html' ? renderSessionHtml(context) : renderHandoff(context, format, options);
+}
+
+// ── Templates ───────────────────────────────────────────────────────────────
+
+/** Template file for a handoff to `target` — a per-tool template wins over the global one */
+export function resolveHandoffTemplate(config: VerbosityConfig, target?: SessionSource): string | undefined {
+  return (target && config.templates?.[target]) || config.template;
+}
+
+function asList(value: unknown, helper: string): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`${helper} expects a list`);
+  return value;
+}
+
+/** Helpers available in handoff templates; section renderers return '' for empty input */
+function templateHelpers(config: VerbosityConfig): Record<string, TemplateHelper> {
+  const block = (lines: string[]) => lines.join('\n').trimEnd();
+  return {
+    renderToolActivity: (summaries) => {
+      const list = asList(summaries, 'renderToolActivity') as SessionContext['toolSummaries'];
+      return list.length > 0 ? block(renderToolActivity(list, capsFromConfig(config))) : '';
+    },
+    renderSubagentResults: (results) => {
+      const list = asList(results, 'renderSubagentResults') as Parameters<typeof renderSubagentResults>[0];
+      return list.length > 0 ? block(renderSubagentResults(list, config)) : '';
+    },
+    renderReasoningChain: (steps) => {
+      const list = asList(steps, 'renderReasoningChain') as Parameters<typeof renderReasoningChain>[0];
+      return list.length > 0 ? block(renderReasoningChain(list)) : '';
+    },
+    renderFileChanges: (changes) => {
+      const list = asList(changes, 'renderFileChanges') as Parameters<typeof renderFileChanges>[0];
+      return list.length > 0 ? block(renderFileChanges(list, config.edit.diffLines)) : '';
+    },
+    renderOpenProblems: (problems) => {
+      const list = asList(problems, 'renderOpenProblems') as Parameters<typeof renderOpenProblems>[0];
+      return list.length > 0 ? block(renderOpenProblems(list, true)) : '';
+    },
+    renderRepositoryState: (state) => (state ? buildRepositoryStateSection(state as RepositoryState).trimEnd() : ''),
+    renderConversation: (messages, maxChars) => {
+      const list = asList(messages, 'renderConversation') as SessionContext['recentMessages'];
+      const chars = typeof maxChars === 'number' ? maxChars : config.maxMessageChars;
+      return list.length > 0 ? block(renderConversation(list, chars)) : '';
+    },
+    truncate: (text, max) => {
+      const value = text === undefined || text === null ? '' : String(text);
+      const limit = typeof max === 'number' ? max : 200;
+      return value.length > limit ? `${value.slice(0, limit)}…` : value;
+    },
+    date: (value) => {
+      const date = value instanceof Date ? value : new Date(String(value));
+      return Number.isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 16).replace('T', ' ');
+    },
+    join: (list, separator) => asList(list, 'join').join(typeof separator === 'string' ? separator : ', '),
+    json: (value) => JSON.stringify(value, null, 2),
+    label: (source) => getSourceLabels()[String(source)] || String(source ?? ''),
+    length: (value) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+  };
+}
+
+/**
+ * Render a handoff through a user template. The template sees every
+ * SessionContext field (`session`, `recentMessages`, `filesModified`,
+ * `pendingTasks`, `toolSummaries`, `sessionNotes`, `repositoryState`, `markdown`) plus
+ * `sourceLabel`, `target`, `targetLabel`, `lineage` and `directive`.
+ * Throws TemplateError (with line and column) for template mistakes.
+ */
+export function renderHandoffTemplate(
+  templatePath: string,
+  context: SessionContext,
+  options: HandoffRenderOptions = {},
+): string {
+  let source: string;
+  try {
+    source = fs.readFileSync(templatePath, 'utf8');
+  } catch (err) {
+    throw new StorageError(templatePath, 'Cannot read handoff template', { cause: err });
+  }
+
+  const labels = getSourceLabels();
+  const helpers = templateHelpers(options.config ?? getActiveConfig());
+  const template = compileTemplate(source, templatePath, helpers);
+
+  return renderTemplate(
+    template,
+    {
+      session: context.session,
+      recentMessages: context.recentMessages,
+      filesModified: context.filesModified,
+      pendingTasks: context.pendingTasks,
+      toolSummaries: context.toolSummaries,
+      sessionNotes: context.sessionNotes,
+      repositoryState: context.repositoryState,
+      markdown: context.markdown,
+      sourceLabel: labels[context.session.source] || context.session.source,
+      target: options.target,
+      targetLabel: options.target ? labels[options.target] || options.target : undefined,
+      lineage: options.lineage ?? '',
+      directive: HANDOFF_DIRECTIVE,
+    },
+    helpers,
+  );
+}
+
+// ── XML ─────────────────────────────────────────────────────────────────────
+
+/** Element names for the items of array-valued fields */
+const XML_ITEM_NAMES: Record<string, string> = {
+  messages: 'message',
+  toolCalls: 'toolCall',
+  tools: 'tool',
+  samples: 'sample',
+  files: 'file',
+  tasks: 'task',
+  reasoning: 'thought',
+  subagentResults: 'subagent',
+  reasoningSteps: 'step',
+  externalToolResults: 'result',
+  fileChanges: 'file',
+  openProblems: 'problem',
+  commits: 'commit',
+  dirtyFiles: 'file',
+  sessionFiles: 'file',
+};
+
+const XML_NAME = /^[A-Za-z_][\w.-]*$/;
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // Control characters are not allowed in XML 1.0, even escaped
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: stripping them is the point
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
+
+function xmlElement(name: string, value: unknown, indent: string): string[] {
+  if (value === undefined || value === null) return [];
+
+  // Record keys (e.g. tool call arguments) need not be valid element names
+  const open = XML_NAME.test(name) ? name : `entry key="${escapeXml(name)}"`;
+  const close = XML_NAME.test(name) ? name : 'entry';
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${indent}<${open}/>`];
+    const item = XML_ITEM_NAMES[name] ?? 'item';
+    return [
+      `${indent}<${open}>`,
+      ...value.flatMap((entry) => xmlElement(item, entry, `${indent}  `)),
+      `${indent}</${close}>`,
+    ];
+  }
+  if (typeof value === 'object') {
+    return [
+      `${indent}<${open}>`,
+      ...Object.entries(value).flatMap(([key, entry]) => xmlElement(key, entry, `${indent}  `)),
+      `${indent}</${close}>`,
+    ];
+  }
+  return [`${indent}<${open}>${escapeXml(String(value))}</${close}>`];
+}
+
+/**
+ * Render a handoff document as XML. Element names follow the JSON field
+ * names; array items use the singular (`<files><file>…</file></files>`).
+ */
+export function renderHandoffXml(document: HandoffDocument): string {
+  const { format, ...body } = document;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<handoff format="${escapeXml(format)}">`,
+    ...Object.entries(body).flatMap(([key, value]) => xmlElement(key, value, '  ')),
+    '</handoff>',
+  ].join('\n');
+}
@@ -0,0 +1,477 @@
+/**
+ * Per-adapter health report — timings, discovery/parse counts, zod schema
+ * rejections, swallowed parse errors and schema-drift warnings.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
+import type { z } from 'zod';
+import { ParseError } from '../errors.js';
+import { addLogSink } from '../logger.js';
+import { adapters, type ToolAdapter } from '../parsers/registry.js';
+import { decodeZedThreadData } from '../parsers/zed.js';
+import type { SessionSource } from '../types/index.js';
+import {
+  ClaudeMessageSchema,
+  CodexMessageSchema,
+  ContinueSessionIndexEntrySchema,
+  ContinueSessionSchema,
+  CopilotChatSessionSchema,
+  CopilotEventSchema,
+  CursorBubbleSchema,
+  CursorComposerDataSchema,
+  CursorTranscriptLineSchema,
+  CursorWorkspaceComposersSchema,
+  DroidEventSchema,
+  GeminiSessionSchema,
+  GooseLineSchema,
+  OpenCodeSessionSchema,
+  ZedThreadRowSchema,
+  ZedThreadSchema,
+} from '../types/schemas.js';
+import { decodeStateValue } from './editor-storage.js';
+import { openSqlite } from './sqlite.js';
+
+/** How a tool's raw files are validated against the zod schemas */
+export interface SchemaProbe {
+  format: 'jsonl' | 'json' | 'sqlite';
+  schema: z.ZodType;
+  /** Event `type` values the parser knows how to handle */
+  knownTypes?: string[];
+  /** Known event types the schema doesn't describe — counted as valid without validation */
+  unschemedTypes?: string[];
+  /** Top-level fields that are expected even though the schema doesn't declare them */
+  extraFields?: string[];
+  /** Map a listed session path to the file to validate (e.g. a directory to its events file) */
+  resolveFile?: (listedPath: string) => string | null;
+  /** Items to type-check inside a whole-file JSON document */
+  items?: (doc: Record<string, unknown>) => unknown[];
+  /** Probes for other stores the parser reads next to the session files, e.g. an index */
+  also?: SchemaProbe[];
+  /** SQLite stores: the query whose rows are validated, one record per row */
+  query?: string;
+  /** Turn a row into the record to validate (e.g. parse a JSON column); undefined skips the row */
+  decode?: (row: Record<string, unknown>) => unknown;
+  /** Report fields the schema doesn't declare — off for editor stores full of fields the parser ignores */
+  fieldDrift?: boolean;
+}
+
+/** Cursor keeps composer threads in <User>/globalStorage/state.vscdb, next to the listed workspace databases */
+function cursorGlobalDb(workspaceDb: string): string | null {
+  const globalDb = path.resolve(path.dirname(workspaceDb), '..', '..', 'globalStorage', 'state.vscdb');
+  return fs.existsSync(globalDb) ? globalDb : null;
+}
+
+export const SCHEMA_PROBES: Partial<Record<SessionSource, SchemaProbe>> = {
+  claude: {
+    format: 'jsonl',
+    schema: ClaudeMessageSchema,
+    knownTypes: ['user', 'assistant', 'system', 'summary', 'file-history-snapshot', 'progress', 'queue-operation'],
+    unschemedTypes: ['summary', 'file-history-snapshot', 'queue-operation'],
+    extraFields: [
+      'isSidechain',
+      'userType',
+      'version',
+      'requestId',
+      'toolUseResult',
+      'isMeta',
+      'leafUuid',
+      'summary',
+      'agentId',
+      'level',
+      'subtype',
+      'content',
+      'toolUseID',
+      'data',
+      'operation',
+      'snapshot',
+      'messageId',
+      'isSnapshotUpdate',
+      'thinkingMetadata',
+      'todos',
+      'logicalParentUuid',
+      'compactMetadata',
+      'isVisibleInTranscriptOnly',
+      'isApiErrorMessage',
+      'permissionMode',
+      'sourceToolUseID',
+      'parentToolUseID',
+    ],
+  },
+  codex: {
+    format: 'jsonl',
+    schema: CodexMessageSchema,
+    knownTypes: ['session_meta', 'event_msg', 'response_item', 'turn_context', 'compacted'],
+    unschemedTypes: ['compacted'],
+  },
+  copilot: {
+    format: 'jsonl',
+    schema: CopilotEventSchema,
+    resolveFile: (dir) => {
+      const events = path.join(dir, 'events.jsonl');
+      return fs.existsSync(events) ? events : null;
+    },
+  },
+  droid: {
+    format: 'jsonl',
+    schema: DroidEventSchema,
+    knownTypes: ['session_start', 'message', 'todo_state', 'compaction_state'],
+  },
+  cursor: { format: 'jsonl', schema: CursorTranscriptLineSchema },
+  gemini: {
+    format: 'json',
+    schema: GeminiSessionSchema,
+    knownTypes: ['user', 'gemini', 'info', 'error', 'warning'],
+    extraFields: ['summary'],
+    items: (doc) => (Array.isArray(doc.messages) ? doc.messages : []),
+  },
+  opencode: {
+    format: 'json',
+    schema: OpenCodeSessionSchema,
+    // The SQLite database is queried, not validated line by line
+    resolveFile: (p) => (p.endsWith('.json') ? p : null),
+  },
+  goose: {
+    format: 'jsonl',
+    schema: GooseLineSchema,
+    extraFields: ['id', 'metadata', 'schedule_id', 'project_id', 'total_tokens', 'accumulated_total_tokens'],
+  },
+  'continue-dev': {
+    format: 'json',
+    schema: ContinueSessionSchema,
+    extraFields: ['mode', 'chatModelTitle', 'usage'],
+    also: [
+      {
+        format: 'json',
+        schema: ContinueSessionIndexEntrySchema,
+        resolveFile: (p) => {
+          const index = path.join(path.dirname(p), 'sessions.json');
+          return fs.existsSync(index) ? index : null;
+        },
+      },
+    ],
+  },
+  zed: {
+    format: 'sqlite',
+    schema: ZedThreadRowSchema,
+    query: 'SELECT id, summary, updated_at, data_type, data FROM threads',
+    also: [
+      {
+        format: 'sqlite',
+        schema: ZedThreadSchema,
+        query: 'SELECT id, summary, updated_at, data_type, data FROM threads',
+        // Rows the row probe rejected are not decoded again
+        decode: (row) => {
+          const parsed = ZedThreadRowSchema.safeParse(row);
+          return parsed.success ? decodeZedThreadData(parsed.data) : undefined;
+        },
+        fieldDrift: false,
+      },
+    ],
+  },
+  'copilot-chat': {
+    format: 'json',
+    schema: CopilotChatSessionSchema,
+    // Workspace state.vscdb files only hold the legacy chats and titles
+    resolveFile: (p) => (p.endsWith('.json') ? p : null),
+    fieldDrift: false,
+  },
+  'cursor-ide': {
+    format: 'sqlite',
+    schema: CursorWorkspaceComposersSchema,
+    query: "SELECT value FROM ItemTable WHERE key = 'composer.composerData'",
+    decode: (row) => decodeStateValue(row.value),
+    fieldDrift: false,
+    also: [
+      {
+        format: 'sqlite',
+        schema: CursorComposerDataSchema,
+        query: "SELECT value FROM cursorDiskKV WHERE key LIKE 'composerData:%'",
+        decode: (row) => decodeStateValue(row.value),
+        resolveFile: cursorGlobalDb,
+        fieldDrift: false,
+      },
+      {
+        format: 'sqlite',
+        schema: CursorBubbleSchema,
+        query: "SELECT value FROM cursorDiskKV WHERE key LIKE 'bubbleId:%'",
+        decode: (row) => decodeStateValue(row.value),
+        resolveFile: cursorGlobalDb,
+        fieldDrift: false,
+      },
+    ],
+  },
+};
+
+/** Max lines (or rows) validated per file — drift shows up early, full scans are slow */
+const MAX_PROBE_LINES = 5000;
+
+export interface FileProbeResult {
+  /** No record in the file passed schema validation (or it isn't valid JSON) */
+  rejected: boolean;
+  invalidRecords: number;
+  unknownTypes: Map<string, number>;
+  unknownFields: Map<string, number>;
+  error?: string;
+}
+
+export interface AdapterHealth {
+  source: SessionSource;
+  label: string;
+  /** Wall time for discovery + parsing (ms) */
+  durationMs: number;
+  discoverMs: number;
+  parseMs: number;
+  filesDiscovered: number;
+  /** Files that produced at least one session */
+  filesParsed: number;
+  /** Files rejected by the zod schemas in types/schemas.ts */
+  filesRejected: number;
+  /** Whether this tool's raw format has a schema probe at all */
+  schemaChecked: boolean;
+  sessions: number;
+  errorCount: number;
+  /** First N parse errors, including ones parsers swallowed and only logged */
+  errors: ParseError[];
+  /** Schema-drift warnings: unknown event types and fields */
+  drift: string[];
+  /** Storage directories discovery searched, for tools that look in several places */
+  storageBases?: Array<{ path: string; found: boolean }>;
+  /** Set when the adapter itself threw */
+  failure?: string;
+}
+
+function bump(map: Map<string, number>, key: string): void {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+/** Keys declared by an object schema, or by the union member that matches `value` */
+function declaredKeys(schema: z.ZodType, value: unknown): string[] {
+  const def = schema as unknown as { shape?: Record<string, unknown>; options?: z.ZodType[] };
+  if (def.shape) return Object.keys(def.shape);
+  if (def.options) {
+    const match = def.options.find((option) => option.safeParse(value).success);
+    return match ? declaredKeys(match, value) : [];
+  }
+  return [];
+}
+
+function checkRecord(raw: unknown, probe: SchemaProbe, result: FileProbeResult, validate: boolean): boolean {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    result.invalidRecords++;
+    return false;
+  }
+  const record = raw as Record<string, unknown>;
+
+  if (probe.knownTypes && typeof record.type === 'string' && !probe.knownTypes.includes(record.type)) {
+    bump(result.unknownTypes, record.type);
+  }
+  if (!validate || (typeof record.type === 'string' && probe.unschemedTypes?.includes(record.type))) return true;
+
+  const valid = probe.schema.safeParse(raw).success;
+  if (!valid) {
+    result.invalidRecords++;
+    return false;
+  }
+
+  if (probe.fieldDrift === false) return true;
+  const known = new Set([...declaredKeys(probe.schema, raw), ...(probe.extraFields ?? [])]);
+  for (const key of Object.keys(record)) {
+    if (!known.has(key)) bump(result.unknownFields, key);
+  }
+  return true;
+}
+
+/**
+ * Validate one raw session file against its tool's zod schema and collect drift signals
+ */
+export async function probeFile(filePath: string, probe: SchemaProbe): Promise<FileProbeResult> {
+  const result: FileProbeResult = {
+    rejected: false,
+    invalidRecords: 0,
+    unknownTypes: new Map(),
+    unknownFields: new Map(),
+  };
+
+  try {
+    if (probe.format === 'json') {
+      const doc = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (Array.isArray(doc)) {
+        // A list of records, e.g. an index file
+        const valid = doc.slice(0, MAX_PROBE_LINES).filter((item) => checkRecord(item, probe, result, true)).length;
+        result.rejected = doc.length > 0 && valid === 0;
+        return result;
+      }
+      result.rejected = !checkRecord(doc, probe, result, true);
+      if (!result.rejected && probe.items) {
+        for (const item of probe.items(doc)) checkRecord(item, { ...probe, extraFields: [] }, result, false);
+      }
+      return result;
+    }
+
+    if (probe.format === 'sqlite') {
+      const db = openSqlite(filePath, { readOnly: true });
+      try {
+        let validRecords = 0;
+        let records = 0;
+        const rows = db.prepare(`${probe.query} LIMIT ${MAX_PROBE_LINES}`).all() as Record<string, unknown>[];
+        for (const row of rows) {
+          let record: unknown;
+          try {
+            record = probe.decode ? probe.decode(row) : row;
+          } catch {
+            records++;
+            result.invalidRecords++;
+            continue;
+          }
+          if (record === undefined) continue;
+          records++;
+          if (checkRecord(record, probe, result, true)) validRecords++;
+        }
+        result.rejected = records > 0 && validRecords === 0;
+      } finally {
+        db.close();
+      }
+      return result;
+    }
+
+    let validRecords = 0;
+    let lines = 0;
+    const rl = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+    for await (const line of rl) {
+      if (!line.trim()) continue;
+      if (++lines > MAX_PROBE_LINES) break;
+      try {
+        if (checkRecord(JSON.parse(line), probe, result, true)) validRecords++;
+      } catch {
+        result.invalidRecords++;
+      }
+    }
+    rl.close();
+    result.rejected = lines > 0 && validRecords === 0;
+  } catch (err) {
+    result.rejected = true;
+    result.error = (err as Error).message;
+  }
+
+  return result;
+}
+
+function firstPathArg(args: unknown[]): string {
+  const candidate = args.find((a): a is string => typeof a === 'string' && (a.includes('/') || a.includes('\\')));
+  return candidate ?? '';
+}
+
+function describeDrift(label: string, counts: Map<string, number>, limit = 5): string | null {
+  if (counts.size === 0) return null;
+  const top = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key, count]) => `${key} (${count})`);
+  const more = counts.size > limit ? `, +${counts.size - limit} more` : '';
+  return `${label}: ${top.join(', ')}${more}`;
+}
+
+/**
+ * Run discovery and parsing for one adapter with timings, capturing every
+ * error its parser logs (most are swallowed) and probing files against the schemas.
+ */
+export async function checkAdapterHealth(adapter: ToolAdapter, maxErrors = 5): Promise<AdapterHealth> {
+  const health: AdapterHealth = {
+    source: adapter.name,
+    label: adapter.label,
+    durationMs: 0,
+    discoverMs: 0,
+    parseMs: 0,
+    filesDiscovered: 0,
+    filesParsed: 0,
+    filesRejected: 0,
+    schemaChecked: !!SCHEMA_PROBES[adapter.family ?? adapter.name],
+    sessions: 0,
+    errorCount: 0,
+    errors: [],
+    drift: [],
+  };
+
+  const recordError = (filePath: string, message: string, cause?: unknown): void => {
+    health.errorCount++;
+    if (health.errors.length < maxErrors) {
+      health.errors.push(new ParseError(adapter.name, filePath || '(unknown path)', message, { cause }));
+    }
+  };
+
+  // Parsers report skipped files via logger.debug('<tool>: ...', path, err) — capture those
+  const removeSink = addLogSink((level, args) => {
+    if (level !== 'debug' && level !== 'warn' && level !== 'error') return;
+    const err = args.find((a) => a instanceof Error) as Error | undefined;
+    if (!err) return;
+    const context = typeof args[0] === 'string' ? args[0] : 'error';
+    recordError(firstPathArg(args.slice(1)), `${context}: ${err.message}`, err);
+  });
+
+  const started = Date.now();
+  let files: string[] | undefined;
+  try {
+    health.storageBases = adapter.storageBases?.().map((base) => ({ path: base, found: fs.existsSync(base) }));
+    if (adapter.listSessionFiles) {
+      files = await adapter.listSessionFiles();
+      health.filesDiscovered = files.length;
+    }
+    health.discoverMs = Date.now() - started;
+
+    const parseStart = Date.now();
+    const sessions = await adapter.parseSessions(files);
+    health.parseMs = Date.now() - parseStart;
+    health.sessions = sessions.length;
+    health.filesParsed = new Set(sessions.map((s) => s.originalPath)).size;
+    if (!files) health.filesDiscovered = health.filesParsed;
+  } catch (err) {
+    health.failure = (err as Error).message;
+  } finally {
+    health.durationMs = Date.now() - started;
+    removeSink();
+  }
+
+  const probe = SCHEMA_PROBES[adapter.family ?? adapter.name];
+  if (probe && files) {
+    const unknownTypes = new Map<string, number>();
+    const unknownFields = new Map<string, number>();
+    let invalidRecords = 0;
+
+    for (const each of [probe, ...(probe.also ?? [])]) {
+      // Several session files can share one companion store
+      const targets = new Set(files.map((listed) => (each.resolveFile ? each.resolveFile(listed) : listed)));
+      for (const target of targets) {
+        if (!target) continue;
+        const result = await probeFile(target, each);
+        invalidRecords += result.invalidRecords;
+        for (const [key, count] of result.unknownTypes) unknownTypes.set(key, (unknownTypes.get(key) ?? 0) + count);
+        for (const [key, count] of result.unknownFields) unknownFields.set(key, (unknownFields.get(key) ?? 0) + count);
+        if (result.rejected) {
+          health.filesRejected++;
+          recordError(target, result.error ?? 'rejected by schema: no record passed validation');
+        }
+      }
+    }
+
+    const typeDrift = describeDrift('unknown event types', unknownTypes);
+    const fieldDrift = describeDrift('unknown fields', unknownFields);
+    if (typeDrift) health.drift.push(typeDrift);
+    if (fieldDrift) health.drift.push(fieldDrift);
+    if (invalidRecords > 0) health.drift.push(`${invalidRecords} records failed schema validation`);
+  }
+
+  return health;
+}
+
+/**
+ * Health report for every registered adapter. Adapters run one at a time so
+ * timings and captured errors are attributed correctly.
+ */
+export async function runHealthCheck(options: { maxErrors?: number } = {}): Promise<AdapterHealth[]> {
+  const report: AdapterHealth[] = [];
+  for (const adapter of Object.values(adapters)) {
+    report.push(await checkAdapterHealth(adapter, options.maxErrors));
+  }
+  return report;
+}
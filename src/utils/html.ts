@@ -0,0 +1,456 @@
+/**
+ * Standalone HTML export — one self-contained page per session, plus an
+ * index page for `dump`.
+ *
+ * For code review and for teammates who don't live in a terminal. Pages
+ * carry their own CSS (and, for the index, a few lines of script for the
+ * filters); nothing is loaded from the network. Conversations and tool
+ * groups are <details> blocks, diffs are coloured per line with a small
+ * language-agnostic token highlighter.
+ */
+import type {
+  ConversationMessage,
+  FileChangeSummary,
+  ReasoningStep,
+  SessionContext,
+  SubagentResult,
+  ToolSample,
+  ToolUsageSummary,
+  UnifiedSession,
+} from '../types/index.js';
+import { getSourceLabels } from './markdown.js';
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function label(source: string): string {
+  return getSourceLabels()[source] || source;
+}
+
+// ── Highlighting ────────────────────────────────────────────────────────────
+
+const KEYWORDS = (
+  'async await break case catch class const continue def default defer do elif else enum export extends false ' +
+  'False finally fn for from func function if impl import in interface let match mut new nil None null package ' +
+  'pub return self static struct switch this throw true True try type undefined use var while with yield'
+).split(' ');
+
+/** Comments, strings, numbers and keywords — enough to make code in diffs readable in any common language */
+const TOKEN_PATTERN = new RegExp(
+  [
+    String.raw`(\/\/.*$|\/\*.*?\*\/|(?<=^|\s)#.*$|<!--.*?-->)`,
+    String.raw`("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|\`(?:\\.|[^\`\\])*\`)`,
+    String.raw`\b(\d+(?:\.\d+)?)\b`,
+    `\\b(${KEYWORDS.join('|')})\\b`,
+  ].join('|'),
+  'g',
+);
+
+const TOKEN_CLASSES = ['tok-comment', 'tok-string', 'tok-number', 'tok-keyword'];
+
+/** Escape one line of code, wrapping recognised tokens in spans */
+export function highlightCode(line: string): string {
+  let html = '';
+  let last = 0;
+  for (const match of line.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    const group = match.slice(1).findIndex((value) => value !== undefined);
+    html += `${escapeHtml(line.slice(last, index))}<span class="${TOKEN_CLASSES[group]}">${escapeHtml(match[0])}</span>`;
+    last = index + match[0].length;
+  }
+  return `${html}${escapeHtml(line.slice(last))}`;
+}
+
+/** A unified diff with added, removed and hunk lines coloured and code highlighted */
+export function renderDiff(diff: string): string {
+  const lines = diff.split('\n').map((line) => {
+    if (line.startsWith('@@')) return `<span class="diff-hunk">${escapeHtml(line)}</span>`;
+    if (/^\+\d+ lines truncated$/.test(line)) return `<span class="diff-note">${escapeHtml(line)}</span>`;
+    if (line.startsWith('+++') || line.startsWith('---')) return `<span class="diff-file">${escapeHtml(line)}</span>`;
+    const kind = line.startsWith('+') ? 'diff-add' : line.startsWith('-') ? 'diff-del' : 'diff-ctx';
+    const marker = kind === 'diff-ctx' && !line.startsWith(' ') ? '' : line.slice(0, 1);
+    const code = marker ? line.slice(1) : line;
+    return `<span class="${kind}">${escapeHtml(marker)}${highlightCode(code)}</span>`;
+  });
+  return `<pre class="diff">${lines.join('\n')}</pre>`;
+}
+
+// ── Session Page ────────────────────────────────────────────────────────────
+
+const STYLE = `
+:root { color-scheme: light dark; --bg: #fff; --fg: #1f2328; --muted: #656d76; --border: #d0d7de; --panel: #f6f8fa;
+  --add: #dafbe1; --del: #ffebe9; --hunk: #ddf4ff; --accent: #0969da; --warn: #9a6700;
+  --comment: #6e7781; --string: #0a3069; --number: #0550ae; --keyword: #cf222e; }
+@media (prefers-color-scheme: dark) {
+  :root { --bg: #0d1117; --fg: #e6edf3; --muted: #8d96a0; --border: #30363d; --panel: #161b22;
+    --add: #12261e; --del: #25171c; --hunk: #121d2f; --accent: #4493f8; --warn: #d29922;
+    --comment: #8d96a0; --string: #a5d6ff; --number: #79c0ff; --keyword: #ff7b72; }
+}
+* { box-sizing: border-box; }
+body { margin: 0; background: var(--bg); color: var(--fg); font: 15px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; }
+main { max-width: 1040px; margin: 0 auto; padding: 32px 24px 64px; }
+h1 { font-size: 24px; margin: 4px 0 16px; }
+h2 { font-size: 18px; margin: 0; display: inline; }
+a { color: var(--accent); }
+code, pre { font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+pre { margin: 8px 0; padding: 12px; background: var(--panel); border: 1px solid var(--border); border-radius: 6px; overflow-x: auto; }
+pre.text { white-space: pre-wrap; word-break: break-word; }
+.eyebrow, .muted, footer { color: var(--muted); }
+.eyebrow { margin: 0; font-size: 13px; text-transform: uppercase; letter-spacing: .04em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 6px 10px; border-bottom: 1px solid var(--border); vertical-align: top; }
+table.meta th { width: 180px; color: var(--muted); font-weight: 500; }
+details.section { margin: 24px 0; border: 1px solid var(--border); border-radius: 8px; padding: 12px 16px; }
+details.section > summary { cursor: pointer; }
+details.item { margin: 8px 0; }
+details.item > summary { cursor: pointer; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 13px; }
+.count { color: var(--muted); margin-left: 8px; font-size: 14px; }
+.msg { margin: 16px 0; }
+.msg header { font-weight: 600; }
+.msg.user header { color: var(--accent); }
+.error { color: var(--keyword); }
+.badge { display: inline-block; padding: 0 6px; border: 1px solid var(--border); border-radius: 10px; font-size: 12px; color: var(--muted); }
+.diff > span { display: block; }
+.diff-add { background: var(--add); }
+.diff-del { background: var(--del); }
+.diff-hunk, .diff-file { background: var(--hunk); color: var(--muted); }
+.diff-note { color: var(--warn); }
+.tok-comment { color: var(--comment); font-style: italic; }
+.tok-string { color: var(--string); }
+.tok-number { color: var(--number); }
+.tok-keyword { color: var(--keyword); }
+ol.steps li, ul.plain li { margin: 6px 0; }
+.filters { display: flex; gap: 8px; margin: 16px 0; flex-wrap: wrap; }
+.filters select, .filters input { font: inherit; padding: 4px 8px; background: var(--panel); color: var(--fg); border: 1px solid var(--border); border-radius: 6px; }
+footer { margin-top: 48px; font-size: 13px; }
+`;
+
+function page(title: string, body: string[], script = ''): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<meta name="generator" content="continues">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    ...body,
+    '</main>',
+    script ? `<script>${script}</script>` : '',
+    '</body>',
+    '</html>',
+  ]
+    .filter((line) => line !== '')
+    .map((line) => `${line}\n`)
+    .join('');
+}
+
+function section(title: string, count: string, content: string[], open = true): string[] {
+  return [
+    `<details class="section"${open ? ' open' : ''}>`,
+    `<summary><h2>${escapeHtml(title)}</h2><span class="count">${escapeHtml(count)}</span></summary>`,
+    ...content,
+    '</details>',
+  ];
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function renderMeta(context: SessionContext): string[] {
+  const { session, sessionNotes } = context;
+  const rows: Array<[string, string]> = [
+    ['Source', escapeHtml(label(session.source))],
+    ['Session ID', `<code>${escapeHtml(session.id)}</code>`],
+    ['Working Directory', `<code>${escapeHtml(session.cwd)}</code>`],
+  ];
+  if (session.repo) {
+    const branch = session.branch ? ` @ <code>${escapeHtml(session.branch)}</code>` : '';
+    rows.push(['Repository', `${escapeHtml(session.repo)}${branch}`]);
+  }
+  const model = session.model ?? sessionNotes?.model;
+  if (model) rows.push(['Model', escapeHtml(model)]);
+  rows.push(['Started', formatDate(session.createdAt)]);
+  rows.push(['Last Active', formatDate(session.updatedAt)]);
+  if (sessionNotes?.tokenUsage && (sessionNotes.tokenUsage.input > 0 || sessionNotes.tokenUsage.output > 0)) {
+    const { input, output } = sessionNotes.tokenUsage;
+    rows.push(['Tokens Used', `${input.toLocaleString()} in / ${output.toLocaleString()} out`]);
+  }
+  if (sessionNotes?.activeTimeMs) rows.push(['Active Time', `${Math.round(sessionNotes.activeTimeMs / 60000)} min`]);
+  rows.push(['Files Modified', String(context.filesModified.length)]);
+  rows.push(['Messages', String(context.recentMessages.length)]);
+  return [
+    '<table class="meta">',
+    ...rows.map(([name, value]) => `<tr><th>${name}</th><td>${value}</td></tr>`),
+    '</table>',
+  ];
+}
+
+function renderMessage(message: ConversationMessage): string[] {
+  const role = message.role === 'user' ? 'User' : 'Assistant';
+  const from = message.source ? ` <span class="badge">${escapeHtml(label(message.source))}</span>` : '';
+  const time = message.timestamp ? ` <span class="muted">${formatDate(message.timestamp)}</span>` : '';
+  return [
+    `<article class="msg ${message.role}">`,
+    `<header>${role}${from}${time}</header>`,
+    `<pre class="text">${escapeHtml(message.content)}</pre>`,
+    '</article>',
+  ];
+}
+
+function renderSample(sample: ToolSample): string[] {
+  const data = sample.data;
+  const title = `<summary>${escapeHtml(sample.summary)}</summary>`;
+  switch (data?.category) {
+    case 'shell': {
+      const body: string[] = [`<pre>$ ${highlightCode(data.command)}</pre>`];
+      if (data.exitCode !== undefined) {
+        body.push(`<p class="${data.errored ? 'error' : 'muted'}">exit ${data.exitCode}</p>`);
+      }
+      if (data.stdoutTail) body.push(`<pre class="text">${escapeHtml(data.stdoutTail)}</pre>`);
+      if (data.errorMessage) body.push(`<pre class="text error">${escapeHtml(data.errorMessage)}</pre>`);
+      return ['<details class="item" open>', title, ...body, '</details>'];
+    }
+    case 'write':
+    case 'edit': {
+      const body: string[] = [];
+      if (data.diff) body.push(renderDiff(data.diff));
+      if (data.errorMessage) body.push(`<pre class="text error">${escapeHtml(data.errorMessage)}</pre>`);
+      if (body.length === 0) return [`<p><code>${escapeHtml(sample.summary)}</code></p>`];
+      return ['<details class="item" open>', title, ...body, '</details>'];
+    }
+    case 'task':
+      if (!data.resultSummary) break;
+      return [
+        '<details class="item">',
+        title,
+        `<pre class="text">${escapeHtml(data.resultSummary)}</pre>`,
+        '</details>',
+      ];
+    case 'mcp':
+      if (!data.result) break;
+      return ['<details class="item">', title, `<pre class="text">${escapeHtml(data.result)}</pre>`, '</details>'];
+  }
+  return [`<p><code>${escapeHtml(sample.summary)}</code></p>`];
+}
+
+function renderTool(summary: ToolUsageSummary): string[] {
+  const errors = summary.errorCount ? `, ${plural(summary.errorCount, 'error')}` : '';
+  const shown = summary.samples.length < summary.count ? `, ${summary.samples.length} shown` : '';
+  return [
+    '<details class="item" open>',
+    `<summary><strong>${escapeHtml(summary.name)}</strong> <span class="count">${plural(summary.count, 'call')}${errors}${shown}</span></summary>`,
+    ...summary.samples.flatMap(renderSample),
+    '</details>',
+  ];
+}
+
+function renderFileChange(change: FileChangeSummary): string[] {
+  const stats = `${change.status}, +${change.added} -${change.removed}${change.partial ? ', partial' : ''}`;
+  const title = `<summary><code>${escapeHtml(change.filePath)}</code> <span class="count">${stats}</span></summary>`;
+  if (!change.diff) return ['<details class="item">', title, '</details>'];
+  return ['<details class="item">', title, renderDiff(change.diff), '</details>'];
+}
+
+function renderSubagent(result: SubagentResult): string[] {
+  return [
+    '<details class="item">',
+    `<summary>${escapeHtml(result.description)} <span class="count">${result.status}, ${plural(result.toolCallCount, 'tool call')}</span></summary>`,
+    result.result ? `<pre class="text">${escapeHtml(result.result)}</pre>` : '<p class="muted">No output</p>',
+    '</details>',
+  ];
+}
+
+function renderStep(step: ReasoningStep): string {
+  const parts = [
+    `<strong>${escapeHtml(step.purpose)}</strong> <span class="muted">${step.stepNumber}/${step.totalSteps}</span>`,
+    `<div>${escapeHtml(step.thought)}</div>`,
+  ];
+  if (step.outcome) parts.push(`<div class="muted">Outcome: ${escapeHtml(step.outcome)}</div>`);
+  if (step.nextAction) parts.push(`<div class="muted">Next: ${escapeHtml(step.nextAction)}</div>`);
+  return `<li>${parts.join('')}</li>`;
+}
+
+/**
+ * Render one session as a standalone HTML page: metadata header, pending
+ * tasks, the conversation, tool activity with diffs and shell output,
+ * changed files, subagent results and the reasoning chain.
+ */
+export function renderSessionHtml(context: SessionContext, generatedAt: Date = new Date()): string {
+  const { session, sessionNotes } = context;
+  const title = session.summary || `Session ${session.id}`;
+  const body: string[] = [
+    '<header>',
+    `<p class="eyebrow">${escapeHtml(label(session.source))} session</p>`,
+    `<h1>${escapeHtml(title)}</h1>`,
+    ...renderMeta(context),
+    '</header>',
+  ];
+
+  if (context.pendingTasks.length > 0) {
+    body.push(
+      ...section('Pending Tasks', plural(context.pendingTasks.length, 'task'), [
+        '<ul class="plain">',
+        ...context.pendingTasks.map((task) => `<li>${escapeHtml(task)}</li>`),
+        '</ul>',
+      ]),
+    );
+  }
+
+  if (context.recentMessages.length > 0) {
+    body.push(
+      ...section(
+        'Conversation',
+        plural(context.recentMessages.length, 'message'),
+        context.recentMessages.flatMap(renderMessage),
+      ),
+    );
+  }
+
+  if (context.toolSummaries.length > 0) {
+    const calls = context.toolSummaries.reduce((total, s) => total + s.count, 0);
+    body.push(...section('Tool Activity', plural(calls, 'call'), context.toolSummaries.flatMap(renderTool)));
+  }
+
+  const fileChanges = sessionNotes?.fileChanges ?? [];
+  if (fileChanges.length > 0) {
+    body.push(...section('Changes by File', plural(fileChanges.length, 'file'), fileChanges.flatMap(renderFileChange)));
+  } else if (context.filesModified.length > 0) {
+    body.push(
+      ...section('Files Modified', plural(context.filesModified.length, 'file'), [
+        '<ul class="plain">',
+        ...context.filesModified.map((file) => `<li><code>${escapeHtml(file)}</code></li>`),
+        '</ul>',
+      ]),
+    );
+  }
+
+  const subagents = sessionNotes?.subagentResults ?? [];
+  if (subagents.length > 0) {
+    body.push(...section('Subagent Results', plural(subagents.length, 'task'), subagents.flatMap(renderSubagent)));
+  }
+
+  const steps = sessionNotes?.reasoningSteps ?? [];
+  if (steps.length > 0) {
+    body.push(
+      ...section('Reasoning Chain', plural(steps.length, 'step'), [
+        '<ol class="steps">',
+        ...steps.map(renderStep),
+        '</ol>',
+      ]),
+    );
+  }
+
+  const reasoning = sessionNotes?.reasoning ?? [];
+  if (reasoning.length > 0) {
+    body.push(
+      ...section(
+        'Reasoning Highlights',
+        plural(reasoning.length, 'note'),
+        reasoning.map((thought) => `<pre class="text">${escapeHtml(thought)}</pre>`),
+        false,
+      ),
+    );
+  }
+
+  body.push(`<footer>Exported by continues on ${formatDate(generatedAt)} UTC</footer>`);
+  return page(title, body);
+}
+
+// ── Index Page ──────────────────────────────────────────────────────────────
+
+/** One exported session, as listed in the dump's index.html */
+export interface HtmlIndexEntry {
+  /** Page file name, relative to the index */
+  file: string;
+  session: UnifiedSession;
+}
+
+const INDEX_SCRIPT = `
+const rows = Array.from(document.querySelectorAll('tbody tr'));
+const controls = ['source', 'repo', 'query'].map((id) => document.getElementById(id));
+function apply() {
+  const [source, repo, query] = controls.map((control) => control.value.toLowerCase());
+  let shown = 0;
+  for (const row of rows) {
+    const visible = (!source || row.dataset.source === source) && (!repo || row.dataset.repo === repo) &&
+      (!query || row.textContent.toLowerCase().includes(query));
+    row.hidden = !visible;
+    if (visible) shown++;
+  }
+  document.getElementById('shown').textContent = String(shown);
+}
+for (const control of controls) control.addEventListener('input', apply);
+`;
+
+function options(values: string[], render: (value: string) => string): string[] {
+  return [...new Set(values)]
+    .filter(Boolean)
+    .sort()
+    .map((value) => `<option value="${escapeHtml(value.toLowerCase())}">${escapeHtml(render(value))}</option>`);
+}
+
+/** Index of a dump's HTML pages, newest first, filterable by source, repo and text */
+export function renderHtmlIndex(entries: HtmlIndexEntry[], generatedAt: Date = new Date()): string {
+  const sorted = [...entries].sort((a, b) => b.session.updatedAt.getTime() - a.session.updatedAt.getTime());
+  const repoOf = (session: UnifiedSession) => session.repo || session.cwd.split('/').pop() || '';
+
+  const rows = sorted.map(({ file, session }) => {
+    const repo = repoOf(session);
+    return [
+      `<tr data-source="${escapeHtml(session.source)}" data-repo="${escapeHtml(repo.toLowerCase())}">`,
+      `<td>${escapeHtml(label(session.source))}</td>`,
+      `<td>${escapeHtml(repo)}${session.branch ? ` <span class="muted">@ ${escapeHtml(session.branch)}</span>` : ''}</td>`,
+      `<td>${formatDate(session.updatedAt)}</td>`,
+      `<td><a href="${escapeHtml(encodeURI(file))}">${escapeHtml(session.summary || session.id)}</a></td>`,
+      `<td><code>${escapeHtml(session.id.slice(0, 8))}</code></td>`,
+      '</tr>',
+    ].join('');
+  });
+
+  const body = [
+    '<header>',
+    '<p class="eyebrow">continues dump</p>',
+    `<h1>${plural(entries.length, 'session')}</h1>`,
+    '</header>',
+    '<div class="filters">',
+    '<select id="source"><option value="">All sources</option>',
+    ...options(
+      sorted.map((e) => e.session.source),
+      label,
+    ),
+    '</select>',
+    '<select id="repo"><option value="">All repositories</option>',
+    ...options(
+      sorted.map((e) => repoOf(e.session)),
+      (repo) => repo,
+    ),
+    '</select>',
+    '<input id="query" type="search" placeholder="Filter by text">',
+    `<span class="muted"><span id="shown">${entries.length}</span> shown</span>`,
+    '</div>',
+    '<table>',
+    '<thead><tr><th>Source</th><th>Repository</th><th>Last Active</th><th>Summary</th><th>ID</th></tr></thead>',
+    '<tbody>',
+    ...rows,
+    '</tbody>',
+    '</table>',
+    `<footer>Exported by continues on ${formatDate(generatedAt)} UTC</footer>`,
+  ];
+  return page('continues — exported sessions', body, INDEX_SCRIPT);
+}
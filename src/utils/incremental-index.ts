@@ -0,0 +1,133 @@
+/**
+ * Incremental session indexing — per-adapter file fingerprints so that only
+ * changed source files are re-parsed when the index goes stale.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { logger } from '../logger.js';
+import type { ToolAdapter } from '../parsers/registry.js';
+import type { SessionSource, UnifiedSession } from '../types/index.js';
+
+/** Size/mtime snapshot of a single session source (file, directory or database) */
+export interface FileFingerprint {
+  mtimeMs: number;
+  size: number;
+}
+
+/** Fingerprints of every source file seen for one adapter, keyed by path */
+export type AdapterManifest = Record<string, FileFingerprint>;
+
+/** On-disk manifest stored next to sessions.jsonl */
+export interface IndexManifest {
+  version: 1;
+  adapters: Partial<Record<SessionSource, AdapterManifest>>;
+}
+
+/** Outcome of refreshing a single adapter */
+export interface AdapterRefreshResult {
+  sessions: UnifiedSession[];
+  files: AdapterManifest;
+  /** Sessions carried over from the previous index unchanged */
+  reused: number;
+  /** Sessions produced by re-parsing changed or new files */
+  reparsed: number;
+  /** Source files that were re-parsed */
+  changedFiles: number;
+  /** Source files that disappeared since the previous index */
+  deletedFiles: number;
+}
+
+/** Aggregate statistics of the most recent index refresh */
+export interface IndexStats {
+  /** True when the whole index was rebuilt from scratch */
+  full: boolean;
+  reused: number;
+  reparsed: number;
+  changedFiles: number;
+  deletedFiles: number;
+  bySource: Partial<Record<SessionSource, Omit<AdapterRefreshResult, 'sessions' | 'files'>>>;
+}
+
+export function emptyManifest(): IndexManifest {
+  return { version: 1, adapters: {} };
+}
+
+/**
+ * Fingerprint a session source. Directories (e.g. Copilot session dirs) are
+ * summarised over their immediate files so appends to any of them are noticed;
+ * SQLite databases include their write-ahead log, where fresh rows land first.
+ */
+export function fingerprintPath(filePath: string): FileFingerprint | null {
+  try {
+    const stat = fs.statSync(filePath);
+    if (!stat.isDirectory()) {
+      const wal = `${filePath}-wal`;
+      if (!fs.existsSync(wal)) return { mtimeMs: stat.mtimeMs, size: stat.size };
+      const walStat = fs.statSync(wal);
+      return { mtimeMs: Math.max(stat.mtimeMs, walStat.mtimeMs), size: stat.size + walStat.size };
+    }
+
+    let mtimeMs = stat.mtimeMs;
+    let size = 0;
+    for (const entry of fs.readdirSync(filePath, { withFileTypes: true })) {
+      if (!entry.isFile()) continue;
+      const child = fs.statSync(path.join(filePath, entry.name));
+      mtimeMs = Math.max(mtimeMs, child.mtimeMs);
+      size += child.size;
+    }
+    return { mtimeMs, size };
+  } catch (err) {
+    logger.debug('index: cannot fingerprint', filePath, err);
+    return null;
+  }
+}
+
+function sameFingerprint(a: FileFingerprint | undefined, b: FileFingerprint): boolean {
+  return !!a && a.mtimeMs === b.mtimeMs && a.size === b.size;
+}
+
+/**
+ * Refresh one adapter's sessions against its previous manifest.
+ *
+ * Files whose fingerprint is unchanged keep their cached sessions; new or
+ * modified files are handed to `parseSessions(files)`; sessions whose file
+ * vanished are dropped. Adapters that cannot list their files are fully re-parsed.
+ */
+export async function refreshAdapterSessions(
+  adapter: Pick<ToolAdapter, 'parseSessions' | 'listSessionFiles'>,
+  cached: UnifiedSession[],
+  previous: AdapterManifest | undefined,
+): Promise<AdapterRefreshResult> {
+  if (!adapter.listSessionFiles) {
+    const sessions = await adapter.parseSessions();
+    return { sessions, files: {}, reused: 0, reparsed: sessions.length, changedFiles: 0, deletedFiles: 0 };
+  }
+
+  const files: AdapterManifest = {};
+  const changed: string[] = [];
+  const unchanged = new Set<string>();
+
+  for (const filePath of await adapter.listSessionFiles()) {
+    const fingerprint = fingerprintPath(filePath);
+    if (!fingerprint) continue;
+    files[filePath] = fingerprint;
+    if (previous && sameFingerprint(previous[filePath], fingerprint)) {
+      unchanged.add(filePath);
+    } else {
+      changed.push(filePath);
+    }
+  }
+
+  const deletedFiles = previous ? Object.keys(previous).filter((p) => !(p in files)).length : 0;
+  const reusedSessions = previous ? cached.filter((s) => unchanged.has(s.originalPath)) : [];
+  const parsedSessions = changed.length > 0 ? await adapter.parseSessions(changed) : [];
+
+  return {
+    sessions: [...reusedSessions, ...parsedSessions],
+    files,
+    reused: reusedSessions.length,
+    reparsed: parsedSessions.length,
+    changedFiles: changed.length,
+    deletedFiles,
+  };
+}
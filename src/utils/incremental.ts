@@ -0,0 +1,171 @@
+/**
+ * Incremental handoffs — only what happened since the last handoff.
+ *
+ * Bouncing one session between tools repeats its whole context on every
+ * hop. Each cross-tool handoff records a `HandoffCursor` next to the saved
+ * context in ~/.continues; `--since-last` extracts the session with a long
+ * history, finds the cursor's last message, and keeps only the messages,
+ * tool calls and file changes after it, under a short recap.
+ */
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import type { VerbosityConfig } from '../config/index.js';
+import type {
+  ConversationMessage,
+  HandoffCursor,
+  SessionContext,
+  SessionSource,
+  ToolUsageSummary,
+} from '../types/index.js';
+import { generateHandoffMarkdown } from './markdown.js';
+import { sampleLimit } from './tool-summarizer.js';
+
+/** Shape of a stored `<source>-<id>.cursor.json` */
+export const HandoffCursorSchema = z.object({
+  sessionId: z.string(),
+  source: z.custom<SessionSource>((value) => typeof value === 'string'),
+  target: z.custom<SessionSource>((value) => typeof value === 'string'),
+  handedOffAt: z.string(),
+  messagesHandedOff: z.number(),
+  lastMessageHash: z.string().optional(),
+  lastMessageAt: z.string().optional(),
+  toolCalls: z.record(z.string(), z.number()),
+  filesModified: z.array(z.string()),
+});
+
+/** Messages and samples per tool read back when looking for the cursor */
+const HISTORY_LIMIT = 1000;
+
+const FINGERPRINT_CHARS = 200;
+
+/**
+ * Hash of a message's `role: content`, whitespace collapsed and capped. Only
+ * the hash is stored, so a secret in the message never reaches the cursor file.
+ */
+function fingerprint(message: ConversationMessage): string {
+  const text = `${message.role}: ${message.content.replace(/\s+/g, ' ').trim()}`.slice(0, FINGERPRINT_CHARS);
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * `config` with the message and sample caps raised, so the turns and tool
+ * calls since the last handoff are all extracted
+ */
+export function historyConfig(config: VerbosityConfig): VerbosityConfig {
+  return {
+    ...config,
+    recentMessages: HISTORY_LIMIT,
+    shell: { ...config.shell, maxSamples: HISTORY_LIMIT },
+    read: { ...config.read, maxSamples: HISTORY_LIMIT },
+    write: { ...config.write, maxSamples: HISTORY_LIMIT },
+    edit: { ...config.edit, maxSamples: HISTORY_LIMIT },
+    grep: { ...config.grep, maxSamples: HISTORY_LIMIT },
+    mcp: { ...config.mcp, maxSamplesPerNamespace: HISTORY_LIMIT },
+  };
+}
+
+/** Record what `context` hands off to `target` */
+export function createHandoffCursor(
+  context: SessionContext,
+  target: SessionSource,
+  handedOffAt: Date = new Date(),
+): HandoffCursor {
+  const last = context.recentMessages[context.recentMessages.length - 1];
+  return {
+    sessionId: context.session.id,
+    source: context.session.source,
+    target,
+    handedOffAt: handedOffAt.toISOString(),
+    messagesHandedOff: context.recentMessages.length,
+    ...(last ? { lastMessageHash: fingerprint(last) } : {}),
+    ...(last?.timestamp ? { lastMessageAt: last.timestamp.toISOString() } : {}),
+    toolCalls: Object.fromEntries(context.toolSummaries.map((s) => [s.name, s.count])),
+    filesModified: context.filesModified,
+  };
+}
+
+/**
+ * Messages after the cursor: after its last message when that is still in
+ * the history, otherwise those newer than its timestamp. With neither, every
+ * message counts as new.
+ */
+function messagesSince(messages: ConversationMessage[], cursor: HandoffCursor): ConversationMessage[] {
+  if (cursor.lastMessageHash) {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (fingerprint(messages[i]) === cursor.lastMessageHash) return messages.slice(i + 1);
+    }
+  }
+  if (cursor.lastMessageAt) {
+    const since = new Date(cursor.lastMessageAt).getTime();
+    if (messages.some((m) => m.timestamp)) return messages.filter((m) => !m.timestamp || m.timestamp.getTime() > since);
+  }
+  return messages;
+}
+
+/** Calls made since the cursor, per tool, with the most recent samples kept */
+function toolCallsSince(
+  summaries: ToolUsageSummary[],
+  cursor: HandoffCursor,
+  config: VerbosityConfig,
+): ToolUsageSummary[] {
+  const result: ToolUsageSummary[] = [];
+  for (const summary of summaries) {
+    const before = cursor.toolCalls[summary.name] ?? 0;
+    const count = summary.count - before;
+    if (count <= 0) continue;
+    const samples = summary.samples.slice(before).slice(-sampleLimit(config, summary.name));
+    result.push({ name: summary.name, count, samples });
+  }
+  return result;
+}
+
+/** Files written in the new tool calls, plus any the session had not modified before */
+function filesSince(context: SessionContext, toolSummaries: ToolUsageSummary[], cursor: HandoffCursor): string[] {
+  const previous = new Set(cursor.filesModified);
+  const files = new Set<string>();
+  for (const sample of toolSummaries.flatMap((s) => s.samples)) {
+    if (sample.data?.category === 'write' || sample.data?.category === 'edit') files.add(sample.data.filePath);
+  }
+  for (const file of context.filesModified) {
+    if (!previous.has(file)) files.add(file);
+  }
+  return context.filesModified.filter((file) => files.has(file));
+}
+
+/**
+ * Narrow a context extracted with `historyConfig` to what happened since
+ * `cursor`. Pending tasks and open problems describe the session as it is
+ * now and are kept whole; the file-change summary keeps only the new files.
+ */
+export function contextSince(context: SessionContext, cursor: HandoffCursor, config: VerbosityConfig): SessionContext {
+  const newMessages = messagesSince(context.recentMessages, cursor);
+  const recentMessages = newMessages.slice(-config.recentMessages);
+  const toolSummaries = toolCallsSince(context.toolSummaries, cursor, config);
+  const filesModified = filesSince(context, toolSummaries, cursor);
+
+  const { compactSummary: _compactSummary, reasoning: _reasoning, ...notes } = context.sessionNotes ?? {};
+  const fileChanges = notes.fileChanges?.filter((change) => filesModified.includes(change.filePath));
+  const sessionNotes = {
+    ...notes,
+    fileChanges: fileChanges && fileChanges.length > 0 ? fileChanges : undefined,
+    sinceLast: {
+      target: cursor.target,
+      handedOffAt: cursor.handedOffAt,
+      previousMessages: cursor.messagesHandedOff,
+      newMessages: newMessages.length,
+      newToolCalls: toolSummaries.reduce((total, s) => total + s.count, 0),
+    },
+  };
+
+  const markdown = generateHandoffMarkdown(
+    context.session,
+    recentMessages,
+    filesModified,
+    context.pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    config,
+  );
+
+  return { ...context, recentMessages, filesModified, toolSummaries, sessionNotes, markdown };
+}
@@ -1,12 +1,25 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { getActiveConfig, type VerbosityConfig } from '../config/index.js';
+import { AmbiguousSessionError } from '../errors.js';
 import { logger } from '../logger.js';
 import { adapters } from '../parsers/registry.js';
-import type { SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
+import type { HandoffCursor, SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
+import { HandoffCursorSchema } from './incremental.js';
+import {
+  type AdapterRefreshResult,
+  emptyManifest,
+  type IndexManifest,
+  type IndexStats,
+  refreshAdapterSessions,
+} from './incremental-index.js';
+import { annotateParents, linkLineage } from './lineage.js';
 import { homeDir } from './parser-helpers.js';
+import { fuzzyMatchSessions, matchSessionIds } from './session-match.js';
 
 const CONTINUES_DIR = path.join(homeDir(), '.continues');
 const INDEX_FILE = path.join(CONTINUES_DIR, 'sessions.jsonl');
+const MANIFEST_FILE = path.join(CONTINUES_DIR, 'index-manifest.json');
 const CONTEXTS_DIR = path.join(CONTINUES_DIR, 'contexts');
 
 // Cache TTL in milliseconds (5 minutes)
@@ -42,24 +55,150 @@ export function indexNeedsRebuild(): boolean {
   }
 }
 
+let lastIndexStats: IndexStats | null = null;
+
+/**
+ * Statistics from the most recent index refresh in this process
+ * (null if the index has not been touched yet)
+ */
+export function getLastIndexStats(): IndexStats | null {
+  return lastIndexStats;
+}
+
+/**
+ * Load the per-adapter file manifest used for incremental indexing
+ */
+function loadManifest(): IndexManifest {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(MANIFEST_FILE, 'utf8')) as IndexManifest;
+    return parsed.version === 1 && parsed.adapters ? parsed : emptyManifest();
+  } catch (err) {
+    logger.debug('index: cannot read manifest', MANIFEST_FILE, err);
+    return emptyManifest();
+  }
+}
+
 /**
- * Build the unified session index
+ * Write a file atomically (temp file + rename) so readers never see a partial index
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, content);
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Build the unified session index.
+ *
+ * When the cached index is stale, each adapter is refreshed incrementally:
+ * only source files whose mtime/size changed are re-parsed, and sessions of
+ * deleted files are dropped. `force` discards the cache and re-parses everything.
  */
 export async function buildIndex(force = false): Promise<UnifiedSession[]> {
   ensureDirectories();
 
   // Check if we can use cached index
   if (!force && !indexNeedsRebuild()) {
-    return loadIndex();
+    const cached = loadIndex();
+    lastIndexStats = {
+      full: false,
+      reused: cached.length,
+      reparsed: 0,
+      changedFiles: 0,
+      deletedFiles: 0,
+      bySource: {},
+    };
+    return cached;
   }
 
-  // Parse all sessions from all sources in parallel — use allSettled so one
-  // broken parser doesn't crash the entire CLI
-  const results = await Promise.allSettled(Object.values(adapters).map((a) => a.parseSessions()));
+  return refreshIndex({ force });
+}
+
+/**
+ * Refresh the index now, regardless of its age. With `sources`, only those
+ * adapters are re-checked and every other tool keeps its cached entries.
+ * The index and manifest are replaced atomically.
+ */
+export async function refreshIndex(
+  options: { force?: boolean; sources?: SessionSource[] } = {},
+): Promise<UnifiedSession[]> {
+  ensureDirectories();
+
+  const force = options.force ?? false;
+  const cached = force ? [] : loadIndex();
+  const manifest = force ? emptyManifest() : loadManifest();
+  const nextManifest = emptyManifest();
+
+  const cachedBySource = new Map<SessionSource, UnifiedSession[]>();
+  for (const session of cached) {
+    const list = cachedBySource.get(session.source) ?? [];
+    list.push(session);
+    cachedBySource.set(session.source, list);
+  }
+
+  const keepCached = (source: SessionSource): AdapterRefreshResult => {
+    const previous = cachedBySource.get(source) ?? [];
+    return {
+      sessions: previous,
+      files: manifest.adapters[source] ?? {},
+      reused: previous.length,
+      reparsed: 0,
+      changedFiles: 0,
+      deletedFiles: 0,
+    };
+  };
+
+  // Refresh sources in parallel — use allSettled so one broken parser
+  // doesn't crash the entire CLI
+  const adapterList = Object.values(adapters);
+  const results = await Promise.allSettled(
+    adapterList.map((a) =>
+      options.sources && !options.sources.includes(a.name)
+        ? Promise.resolve(keepCached(a.name))
+        : refreshAdapterSessions(
+            // Only re-parsed sessions are scanned for a handoff marker; reused ones keep their parent
+            {
+              listSessionFiles: a.listSessionFiles,
+              parseSessions: async (files) => annotateParents(await a.parseSessions(files)),
+            },
+            cachedBySource.get(a.name) ?? [],
+            manifest.adapters[a.name],
+          ),
+    ),
+  );
 
-  const allSessions = results
-    .filter((r): r is PromiseFulfilledResult<UnifiedSession[]> => r.status === 'fulfilled')
-    .flatMap((r) => r.value);
+  const stats: IndexStats = { full: force, reused: 0, reparsed: 0, changedFiles: 0, deletedFiles: 0, bySource: {} };
+  const seen = new Set<string>();
+  const allSessions: UnifiedSession[] = [];
+
+  results.forEach((result, i) => {
+    const adapter = adapterList[i];
+    let refreshed: AdapterRefreshResult;
+    if (result.status === 'fulfilled') {
+      refreshed = result.value;
+    } else {
+      // Keep the previous entries rather than losing the tool from the index
+      logger.debug(`index: ${adapter.name} refresh failed, keeping cached sessions`, result.reason);
+      refreshed = keepCached(adapter.name);
+    }
+
+    nextManifest.adapters[adapter.name] = refreshed.files;
+    const { sessions, files: _files, ...counts } = refreshed;
+    stats.bySource[adapter.name] = counts;
+    stats.reused += counts.reused;
+    stats.reparsed += counts.reparsed;
+    stats.changedFiles += counts.changedFiles;
+    stats.deletedFiles += counts.deletedFiles;
+
+    for (const session of sessions) {
+      const key = `${session.source}:${session.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      allSessions.push(session);
+    }
+  });
+
+  linkLineage(allSessions);
 
   // Sort by updated time (newest first)
   allSessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
@@ -73,13 +212,16 @@ export async function buildIndex(force = false): Promise<UnifiedSession[]> {
     }),
   );
 
-  fs.writeFileSync(INDEX_FILE, lines.join('\n') + '\n');
+  writeFileAtomic(INDEX_FILE, lines.length > 0 ? `${lines.join('\n')}\n` : '');
+  writeFileAtomic(MANIFEST_FILE, JSON.stringify(nextManifest));
+  lastIndexStats = stats;
 
   return allSessions;
 }
 
 /**
- * Load sessions from the index file
+ * Load sessions from the index file. Sessions of tools no longer registered
+ * (a Gemini fork removed from the config) are left out.
  */
 export function loadIndex(): UnifiedSession[] {
   try {
@@ -92,6 +234,7 @@ export function loadIndex(): UnifiedSession[] {
     return lines.flatMap((line) => {
       try {
         const parsed = JSON.parse(line);
+        if (!(parsed.source in adapters)) return [];
         return [
           {
             ...parsed,
@@ -126,20 +269,31 @@ export async function getSessionsBySource(source: SessionSource, forceRebuild =
 }
 
 /**
- * Find a session by ID
+ * Find a session by ID, ID prefix, `source:prefix`, or summary/repo/branch text.
+ * Throws AmbiguousSessionError when the reference matches more than one ID, or
+ * matches only as text — a text match is never taken without confirmation.
  */
 export async function findSession(id: string): Promise<UnifiedSession | null> {
-  const all = await getAllSessions();
-  return all.find((s) => s.id === id || s.id.startsWith(id)) || null;
+  const sessions = await getAllSessions();
+  const byId = matchSessionIds(sessions, id);
+  if (byId.length > 1) throw new AmbiguousSessionError(id, byId);
+  if (byId.length === 1) return byId[0];
+
+  const fuzzy = fuzzyMatchSessions(sessions, id);
+  if (fuzzy.length > 0) throw new AmbiguousSessionError(id, fuzzy, true);
+  return null;
 }
 
 /**
  * Extract context from a session based on its source
  */
-export async function extractContext(session: UnifiedSession): Promise<SessionContext> {
+export async function extractContext(
+  session: UnifiedSession,
+  config: VerbosityConfig = getActiveConfig(),
+): Promise<SessionContext> {
   const adapter = adapters[session.source];
   if (!adapter) throw new Error(`Unknown session source: ${session.source}`);
-  return adapter.extractContext(session);
+  return adapter.extractContext(session, config);
 }
 
 /**
@@ -167,6 +321,42 @@ export function getCachedContext(sessionId: string): string | null {
   return null;
 }
 
+/** Session IDs are only unique per tool, so cursors are keyed by both */
+function handoffCursorPath(source: SessionSource, sessionId: string): string {
+  return path.join(CONTEXTS_DIR, `${source}-${sessionId}.cursor.json`);
+}
+
+/**
+ * Remember what was handed off for a session, for the next `--since-last` handoff
+ */
+export function saveHandoffCursor(cursor: HandoffCursor): string {
+  ensureDirectories();
+
+  const cursorPath = handoffCursorPath(cursor.source, cursor.sessionId);
+  fs.writeFileSync(cursorPath, JSON.stringify(cursor, null, 2));
+
+  return cursorPath;
+}
+
+/**
+ * Get the last handoff recorded for a session, if any
+ */
+export function getHandoffCursor(source: SessionSource, sessionId: string): HandoffCursor | null {
+  const cursorPath = handoffCursorPath(source, sessionId);
+
+  try {
+    const parsed = HandoffCursorSchema.safeParse(JSON.parse(fs.readFileSync(cursorPath, 'utf8')));
+    if (parsed.success) return parsed.data;
+    logger.debug('index: invalid handoff cursor', cursorPath, parsed.error);
+    return null;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.debug('index: unreadable handoff cursor', cursorPath, err);
+    }
+    return null;
+  }
+}
+
 /**
  * Format session for display
  */
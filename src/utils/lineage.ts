@@ -0,0 +1,230 @@
+/**
+ * Handoff lineage — connects the sessions of a Claude → Codex → Gemini chain.
+ *
+ * Every cross-tool handoff prompt starts with a marker naming the session it
+ * came from. When a session is indexed, the head of its file is scanned for a
+ * message opening with that marker to record the parent; children are derived
+ * from the parents.
+ */
+import * as fs from 'node:fs';
+import { logger } from '../logger.js';
+import { adapters } from '../parsers/registry.js';
+import type { SessionContext, SessionLink, SessionSource, UnifiedSession } from '../types/index.js';
+import { getSourceLabels } from './markdown.js';
+
+/**
+ * Matches the marker's payload only, so it is found whether or not the tool
+ * stored the surrounding `<!-- -->` escaped. Values are restricted to plain
+ * identifier characters so source code mentioning the marker doesn't match.
+ */
+const MARKER_PATTERN = /continues-handoff v1 source=([a-z][a-z-]*) id=([\w.:-]+)/;
+
+/**
+ * The marker where a handoff prompt puts it: `<!--` (raw, JSON- or
+ * HTML-escaped) opening a stored string or a line (after Aider's `#### `
+ * user prefix). A marker quoted mid-text — by a reply, tool output or an
+ * embedded earlier handoff — doesn't match.
+ */
+const PROMPT_MARKER_PATTERN = new RegExp(`(?:(?:^|\\n)(?:#### )?|")(?:<|\\\\u003c|&lt;)!-- ${MARKER_PATTERN.source}`);
+
+/** The marker sits at the start of the first user message — no need to read whole transcripts */
+const HEAD_BYTES = 64 * 1024;
+
+/**
+ * Storage shared by many sessions can't attribute a marker to one of them;
+ * their parsers may link each session themselves (see `parseHandoffPrompt`)
+ */
+const SHARED_STORAGE = /(\.(db|sqlite|sqlite3|vscdb)(-wal)?|\.aider\.chat\.history\.md)$/i;
+
+/** Earlier hops whose context is pulled into a handoff */
+const MAX_ANCESTOR_CONTEXTS = 5;
+
+/**
+ * Machine-readable marker stamped at the top of every handoff prompt
+ */
+export function formatHandoffMarker(session: UnifiedSession): string {
+  return `<!-- continues-handoff v1 source=${session.source} id=${session.id} -->`;
+}
+
+/**
+ * Extract the source session from a handoff marker, if the text contains one
+ */
+export function parseHandoffMarker(text: string): SessionLink | null {
+  return toLink(MARKER_PATTERN.exec(text));
+}
+
+/**
+ * Extract the source session from a message that opens with a handoff marker,
+ * as the first user message of a handed-off session does
+ */
+export function parseHandoffPrompt(message: string): SessionLink | null {
+  const text = message.trimStart();
+  return text.startsWith('<!--') ? toLink(PROMPT_MARKER_PATTERN.exec(text)) : null;
+}
+
+function toLink(match: RegExpExecArray | null): SessionLink | null {
+  if (!match || !(match[1] in adapters)) return null;
+  return { source: match[1] as SessionSource, id: match[2] };
+}
+
+/**
+ * Read the parent link from the head of a session file: the first marker
+ * opening a message, which is where a handoff prompt stamps it. Directories
+ * and shared databases are skipped.
+ */
+export function detectParentLink(session: UnifiedSession): SessionLink | null {
+  if (SHARED_STORAGE.test(session.originalPath)) return null;
+
+  let fd: number | undefined;
+  try {
+    if (!fs.statSync(session.originalPath).isFile()) return null;
+    fd = fs.openSync(session.originalPath, 'r');
+    const buffer = Buffer.alloc(HEAD_BYTES);
+    const bytesRead = fs.readSync(fd, buffer, 0, HEAD_BYTES, 0);
+    const link = toLink(PROMPT_MARKER_PATTERN.exec(buffer.toString('utf8', 0, bytesRead)));
+    // A session can't be its own parent (e.g. a handoff file read back in)
+    return link && !(link.source === session.source && link.id === session.id) ? link : null;
+  } catch (err) {
+    logger.debug('lineage: cannot read session head', session.originalPath, err);
+    return null;
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+/**
+ * Stamp freshly parsed sessions with their parent link. Sessions in shared
+ * storage keep whatever link their parser found.
+ */
+export function annotateParents(sessions: UnifiedSession[]): UnifiedSession[] {
+  for (const session of sessions) {
+    if (SHARED_STORAGE.test(session.originalPath)) continue;
+    const parent = detectParentLink(session);
+    if (parent) session.parent = parent;
+    else delete session.parent;
+  }
+  return sessions;
+}
+
+function linkKey(link: SessionLink): string {
+  return `${link.source}:${link.id}`;
+}
+
+/**
+ * Recompute every session's `children` from the parent links
+ */
+export function linkLineage(sessions: UnifiedSession[]): void {
+  const byKey = new Map(sessions.map((s) => [linkKey(s), s]));
+  for (const session of sessions) delete session.children;
+
+  // Oldest first so children are listed in handoff order
+  const chronological = [...sessions].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const session of chronological) {
+    if (!session.parent) continue;
+    const parent = byKey.get(linkKey(session.parent));
+    if (!parent) continue;
+    parent.children = [...(parent.children ?? []), { source: session.source, id: session.id }];
+  }
+}
+
+/**
+ * Earlier hops of a session, nearest first. Stops at links to sessions that
+ * are no longer indexed, and at cycles.
+ */
+export function getAncestors(sessions: UnifiedSession[], session: UnifiedSession): UnifiedSession[] {
+  const byKey = new Map(sessions.map((s) => [linkKey(s), s]));
+  const ancestors: UnifiedSession[] = [];
+  const seen = new Set([linkKey(session)]);
+
+  let current = session;
+  while (current.parent) {
+    const key = linkKey(current.parent);
+    const parent = byKey.get(key);
+    if (!parent || seen.has(key)) break;
+    seen.add(key);
+    ancestors.push(parent);
+    current = parent;
+  }
+  return ancestors;
+}
+
+export interface LineageNode {
+  session: UnifiedSession;
+  children: LineageNode[];
+}
+
+/**
+ * The whole handoff tree a session belongs to, rooted at its earliest ancestor
+ */
+export function getLineageTree(sessions: UnifiedSession[], session: UnifiedSession): LineageNode {
+  const byKey = new Map(sessions.map((s) => [linkKey(s), s]));
+  const ancestors = getAncestors(sessions, session);
+  const root = ancestors[ancestors.length - 1] ?? session;
+  const seen = new Set<string>();
+
+  const build = (node: UnifiedSession): LineageNode => {
+    seen.add(linkKey(node));
+    const children = (node.children ?? [])
+      .filter((link) => !seen.has(linkKey(link)))
+      .map((link) => byKey.get(linkKey(link)))
+      .filter((child): child is UnifiedSession => !!child)
+      .map(build);
+    return { session: node, children };
+  };
+
+  return build(root);
+}
+
+/**
+ * Markdown section carrying the context of earlier hops, so a handoff from
+ * the third tool in a chain still knows what the first one did.
+ */
+export function buildLineageSection(hops: Array<{ session: UnifiedSession; context: SessionContext }>): string {
+  if (hops.length === 0) return '';
+  const labels = getSourceLabels();
+
+  const lines = [
+    '## Earlier Sessions in This Chain',
+    '',
+    `This session was itself continued from ${hops.length === 1 ? 'an earlier session' : `${hops.length} earlier sessions`} (most recent first):`,
+    '',
+  ];
+
+  hops.forEach(({ session, context }, i) => {
+    const date = session.updatedAt.toISOString().slice(0, 16).replace('T', ' ');
+    lines.push(`### ${i + 1}. ${labels[session.source] || session.source} — \`${session.id}\` (${date})`);
+    lines.push('');
+    if (session.summary) lines.push(`> ${session.summary}`, '');
+
+    const lastAssistant = [...context.recentMessages].reverse().find((m) => m.role === 'assistant');
+    if (lastAssistant) {
+      const text = lastAssistant.content.trim();
+      lines.push(`Last response: ${text.slice(0, 500)}${text.length > 500 ? '…' : ''}`, '');
+    }
+    if (context.filesModified.length > 0) {
+      const files = context.filesModified.slice(0, 10).map((f) => `\`${f}\``);
+      const more = context.filesModified.length > 10 ? ` (+${context.filesModified.length - 10} more)` : '';
+      lines.push(`Files modified: ${files.join(', ')}${more}`, '');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Extract context for a session's earlier hops (nearest first) and render it
+ * as a handoff section. Hops whose context can't be extracted are skipped.
+ */
+export async function collectLineageContext(sessions: UnifiedSession[], session: UnifiedSession): Promise<string> {
+  const hops: Array<{ session: UnifiedSession; context: SessionContext }> = [];
+  for (const ancestor of getAncestors(sessions, session).slice(0, MAX_ANCESTOR_CONTEXTS)) {
+    const adapter = adapters[ancestor.source];
+    if (!adapter) continue;
+    try {
+      hops.push({ session: ancestor, context: await adapter.extractContext(ancestor) });
+    } catch (err) {
+      logger.debug('lineage: cannot extract context for earlier hop', ancestor.id, err);
+    }
+  }
+  return buildLineageSection(hops);
+}
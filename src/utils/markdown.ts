@@ -1,6 +1,8 @@
 import { adapters } from '../parsers/registry.js';
 import type {
   ConversationMessage,
+  FileChangeSummary,
+  OpenProblem,
   SessionNotes,
   SubagentResult,
   ReasoningStep,
@@ -21,15 +23,21 @@ import {
   TASK_TOOLS,
   TASK_OUTPUT_TOOLS,
   ASK_TOOLS,
+  TODO_TOOLS,
   classifyToolName,
 } from '../types/tool-names.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
+import { describeTodoList } from './todos.js';
+import { type BudgetedSection, estimateTokens, fitSectionsToBudget } from './tokens.js';
 
-/** Human-readable labels for each session source — derived lazily from the adapter registry */
+/**
+ * Human-readable labels for each session source — derived lazily from the adapter
+ * registry, and rebuilt once config-declared forks have been registered
+ */
 let _sourceLabels: Record<string, string> | null = null;
 export function getSourceLabels(): Record<string, string> {
-  if (!_sourceLabels) {
+  if (!_sourceLabels || Object.keys(_sourceLabels).length !== Object.keys(adapters).length) {
     _sourceLabels = Object.fromEntries(Object.values(adapters).map((a) => [a.name, a.label]));
   }
   return _sourceLabels;
@@ -37,7 +45,7 @@ export function getSourceLabels(): Record<string, string> {
 
 // ── Display Caps ────────────────────────────────────────────────────────────
 
-interface DisplayCaps {
+export interface DisplayCaps {
   shellDetailed: number;
   shellStdoutLines: number;
   writeEditDetailed: number;
@@ -48,7 +56,7 @@ interface DisplayCaps {
 }
 
 /** Derive display caps from a VerbosityConfig — single source of truth for all limits */
-function capsFromConfig(config: VerbosityConfig): DisplayCaps {
+export function capsFromConfig(config: VerbosityConfig): DisplayCaps {
   return {
     shellDetailed: config.shell.maxSamples,
     shellStdoutLines: config.shell.stdoutLines,
@@ -77,6 +85,7 @@ function buildCategoryOrder(): Record<string, number> {
     [TASK_TOOLS, 8],
     [TASK_OUTPUT_TOOLS, 8],
     [ASK_TOOLS, 9],
+    [TODO_TOOLS, 9],
   ];
   for (const [set, priority] of mapping) {
     for (const name of set) order[name] = priority;
@@ -90,9 +99,14 @@ function getCategoryOrder(name: string): number {
   return CATEGORY_ORDER[name] ?? 10; // MCP/unknown go last
 }
 
+/** Closing instruction for the agent receiving a handoff, in every format */
+export const HANDOFF_DIRECTIVE =
+  'You are continuing this session. Pick up exactly where it left off — review the conversation above, check pending tasks, and keep going.';
+
 /**
  * Generate a markdown handoff document from any session source.
- * Shared by all parsers to avoid duplicated logic.
+ * Shared by all parsers to avoid duplicated logic. `extraSections` go last,
+ * before the closing directive, and share the token budget with the rest.
  */
 export function generateHandoffMarkdown(
   session: UnifiedSession,
@@ -103,11 +117,19 @@ export function generateHandoffMarkdown(
   sessionNotes?: SessionNotes,
   config: VerbosityConfig = getPreset('standard'),
   mode: 'inline' | 'reference' = 'inline',
+  extraSections: BudgetedSection[] = [],
 ): string {
   const labels = getSourceLabels();
-  const sourceLabel = labels[session.source] || session.source;
+  const mergedFrom = sessionNotes?.mergedFrom ?? [];
+  const sourceLabel =
+    mergedFrom.length > 0
+      ? [...new Set(mergedFrom.map((s) => labels[s.source] || s.source))].join(' + ')
+      : labels[session.source] || session.source;
   const caps = capsFromConfig(config);
 
+  // Sections in document order; a token budget (config.maxTokens) trims them by priority
+  const sections: BudgetedSection[] = [];
+
   const lines: string[] = [
     '# Session Handoff Context',
     '',
@@ -153,6 +175,40 @@ export function generateHandoffMarkdown(
   lines.push('');
   lines.push('');
 
+  if (sessionNotes?.sinceLast) {
+    const recap = sessionNotes.sinceLast;
+    const handedOffAt = recap.handedOffAt.slice(0, 16).replace('T', ' ');
+    lines.push('## Since Last Handoff');
+    lines.push('');
+    const target = labels[recap.target] || recap.target;
+    lines.push(
+      `This session was handed off to ${target} at ${handedOffAt} (${recap.previousMessages} messages handed off so far).`,
+    );
+    lines.push(
+      'The conversation, tool activity and modified files below cover only what happened since; pending tasks and open problems are current.',
+    );
+    lines.push('');
+    lines.push(
+      `- **New since then:** ${recap.newMessages} messages, ${recap.newToolCalls} tool calls, ${filesModified.length} files modified`,
+    );
+    lines.push('');
+    lines.push('');
+  }
+
+  if (mergedFrom.length > 0) {
+    lines.push('## Merged Sessions');
+    lines.push('');
+    lines.push('| Source | Session ID | Working Directory | Last Active | Summary |');
+    lines.push('|--------|------------|-------------------|-------------|---------|');
+    for (const s of mergedFrom) {
+      const lastActive = s.updatedAt.toISOString().slice(0, 16).replace('T', ' ');
+      const summary = (s.summary ?? '').replace(/\|/g, '\\|').slice(0, 80);
+      lines.push(`| ${labels[s.source] || s.source} | \`${s.id}\` | \`${s.cwd}\` | ${lastActive} | ${summary} |`);
+    }
+    lines.push('');
+    lines.push('');
+  }
+
   if (session.summary) {
     lines.push('## Summary');
     lines.push('');
@@ -168,78 +224,151 @@ export function generateHandoffMarkdown(
     lines.push('');
     lines.push('');
   }
+  sections.push({ key: 'overview', lines });
+
+  // ── Failures nothing later fixed — above everything the next agent reads ──
+  if (sessionNotes?.openProblems && sessionNotes.openProblems.length > 0) {
+    const openProblems = sessionNotes.openProblems;
+    sections.push({
+      key: 'openProblems',
+      lines: renderOpenProblems(openProblems, true),
+      shrink: (maxTokens) => {
+        const list = renderOpenProblems(openProblems, false);
+        return estimateTokens(list.join('\n')) <= maxTokens ? list : null;
+      },
+    });
+  }
 
   // ── Category-aware Tool Activity section ──
   if (toolSummaries.length > 0) {
-    lines.push('## Tool Activity');
-    lines.push('');
-    lines.push(...renderToolActivity(toolSummaries, caps));
-    lines.push('');
+    sections.push({
+      key: 'toolActivity',
+      lines: ['## Tool Activity', '', ...renderToolActivity(toolSummaries, caps), ''],
+    });
   }
 
   // ── Subagent Results ──
   if (sessionNotes?.subagentResults && sessionNotes.subagentResults.length > 0) {
-    lines.push(...renderSubagentResults(sessionNotes.subagentResults, config));
+    sections.push({ key: 'toolActivity', lines: renderSubagentResults(sessionNotes.subagentResults, config) });
   }
 
   if (sessionNotes?.reasoning && sessionNotes.reasoning.length > 0) {
-    lines.push('## Key Decisions');
-    lines.push('');
+    const decisions = ['## Key Decisions', ''];
     for (const thought of sessionNotes.reasoning.slice(0, config.thinking.maxHighlights)) {
-      lines.push(`- ${thought}`);
+      decisions.push(`- ${thought}`);
     }
-    lines.push('');
-    lines.push('');
+    decisions.push('');
+    decisions.push('');
+    sections.push({ key: 'reasoning', lines: decisions });
   }
 
   // ── Reasoning Chain ──
   if (sessionNotes?.reasoningSteps && sessionNotes.reasoningSteps.length > 0) {
-    lines.push(...renderReasoningChain(sessionNotes.reasoningSteps));
+    sections.push({ key: 'reasoning', lines: renderReasoningChain(sessionNotes.reasoningSteps) });
   }
 
   // Show recent messages for richer context
   const recentMessages = messages.slice(-config.recentMessages);
   if (recentMessages.length > 0) {
-    lines.push('## Recent Conversation');
-    lines.push('');
-    for (const msg of recentMessages) {
-      const role = msg.role === 'user' ? 'User' : 'Assistant';
-      lines.push(`### ${role}`);
-      lines.push('');
-      const maxChars = config.maxMessageChars;
-      lines.push(msg.content.slice(0, maxChars) + (msg.content.length > maxChars ? '\u2026' : ''));
-      lines.push('');
-    }
-    lines.push('');
+    sections.push({
+      key: 'conversation',
+      lines: renderConversation(recentMessages, config.maxMessageChars),
+      shrink: (maxTokens) => shrinkConversation(recentMessages, config.maxMessageChars, maxTokens),
+    });
   }
 
   if (filesModified.length > 0) {
-    lines.push('## Files Modified');
-    lines.push('');
-    for (const file of filesModified) {
-      lines.push(`- \`${file}\``);
-    }
-    lines.push('');
-    lines.push('');
+    sections.push({
+      key: 'files',
+      lines: renderList('## Files Modified', filesModified.map((file) => `- \`${file}\``)),
+      shrink: (maxTokens) =>
+        shrinkList('## Files Modified', filesModified.map((file) => `- \`${file}\``), maxTokens, 'files'),
+    });
+  }
+
+  // ── Net change per file, across every write and edit ──
+  if (sessionNotes?.fileChanges && sessionNotes.fileChanges.length > 0) {
+    const fileChanges = sessionNotes.fileChanges;
+    sections.push({
+      key: 'files',
+      lines: renderFileChanges(fileChanges, config.edit.diffLines),
+      shrink: (maxTokens) => {
+        const table = renderFileChanges(fileChanges, 0);
+        return estimateTokens(table.join('\n')) <= maxTokens ? table : null;
+      },
+    });
   }
 
   if (pendingTasks.length > 0) {
-    lines.push('## Pending Tasks');
-    lines.push('');
-    for (const task of pendingTasks) {
-      lines.push(`- [ ] ${task}`);
-    }
+    sections.push({
+      key: 'pendingTasks',
+      lines: renderList('## Pending Tasks', pendingTasks.map((task) => `- [ ] ${task}`)),
+      shrink: (maxTokens) =>
+        shrinkList('## Pending Tasks', pendingTasks.map((task) => `- [ ] ${task}`), maxTokens, 'tasks'),
+    });
+  }
+
+  // ── Sections known only at handoff time (repository state, lineage), budgeted like the rest ──
+  sections.push(...extraSections);
+
+  const closing = [
+    '---',
+    '',
+    `**${HANDOFF_DIRECTIVE}**`,
+  ];
+
+  const budget = config.maxTokens > 0 ? Math.max(0, config.maxTokens - estimateTokens(closing.join('\n'))) : 0;
+  const fitted = budget > 0 ? fitSectionsToBudget(sections, budget) : sections;
+
+  return [...fitted.flatMap((section) => section.lines), ...closing].join('\n');
+}
+
+// ── Budget-aware Section Renderers ──────────────────────────────────────────
+
+/** `## Recent Conversation` with each message cut at `maxChars` */
+export function renderConversation(messages: ConversationMessage[], maxChars: number): string[] {
+  const lines: string[] = ['## Recent Conversation', ''];
+  const labels = getSourceLabels();
+  for (const msg of messages) {
+    const role = msg.role === 'user' ? 'User' : 'Assistant';
+    lines.push(msg.source ? `### ${role} (${labels[msg.source] || msg.source})` : `### ${role}`);
     lines.push('');
+    lines.push(msg.content.slice(0, maxChars) + (msg.content.length > maxChars ? '\u2026' : ''));
     lines.push('');
   }
-
-  lines.push('---');
   lines.push('');
-  lines.push(
-    '**You are continuing this session. Pick up exactly where it left off — review the conversation above, check pending tasks, and keep going.**',
+  return lines;
+}
+
+/**
+ * Squeeze the conversation: first shorten each message, then drop the
+ * oldest ones. The newest message is the last to go.
+ */
+function shrinkConversation(messages: ConversationMessage[], maxChars: number, maxTokens: number): string[] | null {
+  const charSteps = [maxChars, Math.floor(maxChars / 2), Math.floor(maxChars / 4), 200, 100].filter(
+    (chars, i, all) => chars > 0 && chars <= maxChars && all.indexOf(chars) === i,
   );
+  for (let keep = messages.length; keep >= 1; keep--) {
+    for (const chars of charSteps) {
+      const lines = renderConversation(messages.slice(-keep), chars);
+      if (keep < messages.length) lines.splice(2, 0, `*…${messages.length - keep} earlier messages omitted*`, '');
+      if (estimateTokens(lines.join('\n')) <= maxTokens) return lines;
+    }
+  }
+  return null;
+}
+
+function renderList(heading: string, items: string[]): string[] {
+  return [heading, '', ...items, '', ''];
+}
 
-  return lines.join('\n');
+/** Keep the first items that fit and count the rest */
+function shrinkList(heading: string, items: string[], maxTokens: number, noun: string): string[] | null {
+  for (let keep = items.length - 1; keep >= 1; keep--) {
+    const lines = renderList(heading, [...items.slice(0, keep), `- *…and ${items.length - keep} more ${noun}*`]);
+    if (estimateTokens(lines.join('\n')) <= maxTokens) return lines;
+  }
+  return null;
 }
 
 // ── MCP Namespace Grouping ───────────────────────────────────────────────────
@@ -296,7 +425,8 @@ function groupMcpByNamespace(summaries: ToolUsageSummary[], mcpSampleCap: number
 
 // ── Category-Aware Rendering ────────────────────────────────────────────────
 
-function renderToolActivity(toolSummaries: ToolUsageSummary[], caps: DisplayCaps): string[] {
+/** Category-aware tool blocks (without the `## Tool Activity` heading) */
+export function renderToolActivity(toolSummaries: ToolUsageSummary[], caps: DisplayCaps): string[] {
   // Group MCP tools by namespace (e.g. mcp__github__* → "MCP: github")
   const grouped = groupMcpByNamespace(toolSummaries, caps.mcpTaskAsk);
   const sorted = [...grouped].sort((a, b) => getCategoryOrder(a.name) - getCategoryOrder(b.name));
@@ -327,6 +457,7 @@ function renderToolActivity(toolSummaries: ToolUsageSummary[], caps: DisplayCaps
       case 'fetch':
       case 'task':
       case 'ask':
+      case 'todo':
       case 'mcp':
         lines.push(...renderCompactSection(tool, category, caps));
         break;
@@ -648,6 +779,7 @@ const COMPACT_LABELS: Record<string, string> = {
   fetch: 'Fetch',
   task: 'Task',
   ask: 'Ask',
+  todo: 'Todo',
   mcp: 'MCP',
 };
 
@@ -672,6 +804,8 @@ function formatCompactSample(sample: ToolSample, category: string): string {
     }
     case 'ask':
       return `"${d.question}"`;
+    case 'todo':
+      return describeTodoList(d.items);
     case 'mcp': {
       const params = d.params ? `(${d.params})` : '';
       const resultStr = d.result ? ` — "${d.result}"` : '';
@@ -682,9 +816,82 @@ function formatCompactSample(sample: ToolSample, category: string): string {
   }
 }
 
+// ── Changes by File Renderer ────────────────────────────────────────────────
+
+function describeFileChange(change: FileChangeSummary): string {
+  let net: string;
+  if (change.status === 'deleted') net = 'deleted';
+  else if (change.status === 'created') net = `created, +${change.added}`;
+  else if (change.status === 'written') net = `written, ${change.added} line${change.added === 1 ? '' : 's'}`;
+  else if (change.diff) net = `+${change.added} -${change.removed}`;
+  else net = change.partial ? 'not recorded' : 'no net change';
+  return change.partial && change.diff ? `${net} (partial)` : net;
+}
+
+/**
+ * `## Changes by File` — one row per file with its net change, then the
+ * consolidated diff of each file cut at `maxDiffLines` (0 renders the table only).
+ */
+export function renderFileChanges(changes: FileChangeSummary[], maxDiffLines: number): string[] {
+  const lines: string[] = ['## Changes by File', '', '| File | Edits | Net Change |', '|------|-------|------------|'];
+  for (const change of changes) {
+    lines.push(`| \`${change.filePath}\` | ${change.edits} | ${describeFileChange(change)} |`);
+  }
+  lines.push('');
+
+  if (maxDiffLines > 0) {
+    for (const change of changes) {
+      if (!change.diff) continue;
+      const diffLines = change.diff.split('\n');
+      const capped = diffLines.slice(0, maxDiffLines);
+      lines.push(`### \`${change.filePath}\``, '', '```diff', ...capped, '```');
+      if (diffLines.length > capped.length) {
+        lines.push(`*+${diffLines.length - capped.length} lines truncated*`);
+      }
+      lines.push('');
+    }
+  }
+
+  lines.push('');
+  return lines;
+}
+
+// ── Open Problems Renderer ──────────────────────────────────────────────────
+
+function describeOpenProblem(problem: OpenProblem): string {
+  const times = problem.failures > 1 ? `failed ${problem.failures} times` : 'failed';
+  switch (problem.kind) {
+    case 'command': {
+      const exit = problem.exitCode !== undefined ? `exit ${problem.exitCode}, ` : '';
+      return `**\`$ ${problem.target}\`** — ${exit}${times}`;
+    }
+    case 'edit':
+      return `**${problem.tool} \`${problem.target}\`** — ${times}`;
+    case 'tool':
+      return `**${problem.tool}** — ${times}: \`${problem.target}\``;
+  }
+}
+
+/**
+ * `## Open Problems` — failures no later call resolved, most recent first,
+ * each with the tail of its error output unless `withErrors` is false.
+ */
+export function renderOpenProblems(problems: OpenProblem[], withErrors: boolean): string[] {
+  const lines: string[] = ['## Open Problems', '', '*Unresolved when the session ended, most recent first.*', ''];
+  for (const problem of problems) {
+    lines.push(`- ${describeOpenProblem(problem)}`);
+    if (withErrors && problem.error) {
+      const fence = problem.error.includes('```') ? '````' : '```';
+      lines.push('', fence, problem.error, fence, '');
+    }
+  }
+  lines.push('', '');
+  return lines;
+}
+
 // ── Subagent Results Renderer ────────────────────────────────────────────────
 
-function renderSubagentResults(results: SubagentResult[], config: VerbosityConfig): string[] {
+export function renderSubagentResults(results: SubagentResult[], config: VerbosityConfig): string[] {
   const lines: string[] = ['## Subagent Results', ''];
 
   for (const r of results) {
@@ -716,7 +923,7 @@ function capitalize(s: string): string {
 
 // ── Reasoning Chain Renderer ────────────────────────────────────────────────
 
-function renderReasoningChain(steps: ReasoningStep[]): string[] {
+export function renderReasoningChain(steps: ReasoningStep[]): string[] {
   const lines: string[] = ['## Reasoning Chain', ''];
 
   for (const step of steps) {
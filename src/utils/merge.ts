@@ -0,0 +1,200 @@
+/**
+ * Merged handoffs — one handoff built from several sessions on the same project.
+ *
+ * A day of work often spans a Claude, a Codex and a Cursor session in one
+ * repository. `mergeContexts` combines their extracted contexts: the
+ * conversations are interleaved chronologically (each message tagged with
+ * its tool), modified files are unioned, pending tasks deduplicated, and the
+ * overview lists every source session.
+ */
+import type { VerbosityConfig } from '../config/index.js';
+import type {
+  ConversationMessage,
+  FileChangeSummary,
+  SessionContext,
+  SessionNotes,
+  ToolUsageSummary,
+  UnifiedSession,
+} from '../types/index.js';
+import { generateHandoffMarkdown } from './markdown.js';
+import { matchesCwd } from './slug.js';
+
+/** Default `--project` window: sessions active in the last day */
+export const DEFAULT_PROJECT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const DURATION_UNITS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+/** Parse a window like `90m`, `12h`, `2d` or `1w` (a bare number is hours). Returns null when invalid. */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw]?)$/i);
+  if (!match) return null;
+  const amount = Number.parseFloat(match[1]);
+  const ms = amount * DURATION_UNITS[(match[2] || 'h').toLowerCase()];
+  return ms > 0 ? ms : null;
+}
+
+/**
+ * Sessions of the project at `cwd` active within `windowMs` of `now`,
+ * oldest first. Subdirectories of `cwd` count as the same project.
+ */
+export function findProjectSessions(
+  sessions: UnifiedSession[],
+  cwd: string,
+  windowMs: number = DEFAULT_PROJECT_WINDOW_MS,
+  now: Date = new Date(),
+): UnifiedSession[] {
+  const since = now.getTime() - windowMs;
+  return sessions
+    .filter((s) => matchesCwd(s.cwd, cwd) && s.updatedAt.getTime() >= since)
+    .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime());
+}
+
+/**
+ * Interleave the sessions' messages by time. Messages without a timestamp
+ * inherit the previous one from their session, so each session keeps its order.
+ */
+function interleaveMessages(contexts: SessionContext[]): ConversationMessage[] {
+  const timed: Array<{ message: ConversationMessage; time: number; order: number }> = [];
+  let order = 0;
+  for (const context of contexts) {
+    let last = context.session.createdAt.getTime();
+    for (const message of context.recentMessages) {
+      if (message.timestamp) last = message.timestamp.getTime();
+      timed.push({ message: { ...message, source: context.session.source }, time: last, order: order++ });
+    }
+  }
+  return timed.sort((a, b) => a.time - b.time || a.order - b.order).map((t) => t.message);
+}
+
+function union(lists: string[][]): string[] {
+  return [...new Set(lists.flat())];
+}
+
+/** Most recent session's tasks first; the same task phrased identically appears once */
+function dedupeTasks(contexts: SessionContext[], maxTasks: number): string[] {
+  const seen = new Set<string>();
+  const tasks: string[] = [];
+  for (const context of [...contexts].reverse()) {
+    for (const task of context.pendingTasks) {
+      const key = task.toLowerCase().replace(/\s+/g, ' ').trim();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      tasks.push(task);
+    }
+  }
+  return tasks.slice(0, maxTasks);
+}
+
+function mergeToolSummaries(contexts: SessionContext[]): ToolUsageSummary[] {
+  const byName = new Map<string, ToolUsageSummary>();
+  for (const summary of contexts.flatMap((c) => c.toolSummaries)) {
+    const existing = byName.get(summary.name);
+    if (!existing) {
+      byName.set(summary.name, { ...summary, samples: [...summary.samples] });
+      continue;
+    }
+    existing.count += summary.count;
+    if (summary.errorCount) existing.errorCount = (existing.errorCount ?? 0) + summary.errorCount;
+    existing.samples.push(...summary.samples);
+  }
+  return Array.from(byName.values());
+}
+
+/** One row per file; a file changed in several sessions adds up their edits and hunks */
+function mergeFileChanges(changes: FileChangeSummary[]): FileChangeSummary[] {
+  const byFile = new Map<string, FileChangeSummary>();
+  for (const change of changes) {
+    const existing = byFile.get(change.filePath);
+    if (!existing) {
+      byFile.set(change.filePath, { ...change });
+      continue;
+    }
+    existing.edits += change.edits;
+    existing.added += change.added;
+    existing.removed += change.removed;
+    if (change.status === 'deleted' || existing.status === 'modified') existing.status = change.status;
+    if (change.diff) existing.diff = existing.diff ? `${existing.diff}\n@@\n${change.diff}` : change.diff;
+    if (change.partial) existing.partial = true;
+  }
+  return Array.from(byFile.values());
+}
+
+function mergeNotes(contexts: SessionContext[], config: VerbosityConfig): SessionNotes {
+  const notes = contexts.map((c) => c.sessionNotes ?? {});
+  const merged: SessionNotes = { mergedFrom: contexts.map((c) => c.session) };
+  const sum = (pick: (n: SessionNotes) => number | undefined) => notes.reduce((total, n) => total + (pick(n) ?? 0), 0);
+
+  const reasoning = notes.flatMap((n) => n.reasoning ?? []);
+  if (reasoning.length > 0) merged.reasoning = reasoning;
+  const input = sum((n) => n.tokenUsage?.input);
+  const output = sum((n) => n.tokenUsage?.output);
+  if (input > 0 || output > 0) merged.tokenUsage = { input, output };
+  const read = sum((n) => n.cacheTokens?.read);
+  const creation = sum((n) => n.cacheTokens?.creation);
+  if (read > 0 || creation > 0) merged.cacheTokens = { creation, read };
+  const thinkingTokens = sum((n) => n.thinkingTokens);
+  if (thinkingTokens > 0) merged.thinkingTokens = thinkingTokens;
+  const activeTimeMs = sum((n) => n.activeTimeMs);
+  if (activeTimeMs > 0) merged.activeTimeMs = activeTimeMs;
+
+  const compact = notes.map((n) => n.compactSummary).filter((s): s is string => !!s);
+  if (compact.length > 0) merged.compactSummary = compact[compact.length - 1];
+
+  const subagentResults = notes.flatMap((n) => n.subagentResults ?? []);
+  if (subagentResults.length > 0) merged.subagentResults = subagentResults;
+  const reasoningSteps = notes.flatMap((n) => n.reasoningSteps ?? []);
+  if (reasoningSteps.length > 0) merged.reasoningSteps = reasoningSteps;
+  const externalToolResults = notes.flatMap((n) => n.externalToolResults ?? []);
+  if (externalToolResults.length > 0) merged.externalToolResults = externalToolResults;
+  const fileChanges = mergeFileChanges(notes.flatMap((n) => n.fileChanges ?? []));
+  if (fileChanges.length > 0) merged.fileChanges = fileChanges;
+
+  // Most recent session's problems first
+  const openProblems = [...notes]
+    .reverse()
+    .flatMap((n) => n.openProblems ?? [])
+    .slice(0, config.openProblems.maxProblems);
+  if (openProblems.length > 0) merged.openProblems = openProblems;
+
+  return merged;
+}
+
+/**
+ * Combine the contexts of several sessions into one handoff. The most recent
+ * session stands in as the handoff's session (its tool, directory and marker),
+ * under an ID joining the short IDs of every source session.
+ */
+export function mergeContexts(contexts: SessionContext[], config: VerbosityConfig): SessionContext {
+  if (contexts.length === 0) throw new Error('Nothing to merge: no sessions given');
+  const ordered = [...contexts].sort((a, b) => a.session.updatedAt.getTime() - b.session.updatedAt.getTime());
+  const latest = ordered[ordered.length - 1].session;
+
+  const session: UnifiedSession = {
+    ...latest,
+    id: ordered.map((c) => c.session.id.slice(0, 8)).join('+'),
+    lines: ordered.reduce((total, c) => total + c.session.lines, 0),
+    bytes: ordered.reduce((total, c) => total + c.session.bytes, 0),
+    createdAt: new Date(Math.min(...ordered.map((c) => c.session.createdAt.getTime()))),
+    parent: undefined,
+    children: undefined,
+  };
+
+  const recentMessages = interleaveMessages(ordered);
+  const filesModified = union(ordered.map((c) => c.filesModified));
+  const pendingTasks = dedupeTasks(ordered, config.pendingTasks.maxTasks);
+  const toolSummaries = mergeToolSummaries(ordered);
+  const sessionNotes = mergeNotes(ordered, config);
+
+  // Every source already kept its own recent turns; show all of them
+  const markdown = generateHandoffMarkdown(
+    session,
+    recentMessages,
+    filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    { ...config, recentMessages: recentMessages.length },
+  );
+
+  return { session, recentMessages, filesModified, pendingTasks, toolSummaries, sessionNotes, markdown };
+}
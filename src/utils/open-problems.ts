@@ -0,0 +1,100 @@
+/**
+ * Open problems — failures a session never recovered from.
+ *
+ * Shell samples carry exit codes and error output, but they are capped and
+ * kept in call order, so the test run that was still failing when the
+ * session stopped can be missing or buried. SummaryCollector records the
+ * outcome of every tool call; `findOpenProblems` walks them backwards and
+ * keeps the failures that nothing later fixed:
+ *   - a command with no later successful run of the same command
+ *   - a write/edit with no later successful write/edit of the same file
+ *   - any other tool error among the last `recentToolCalls` calls
+ */
+import type { VerbosityConfig } from '../config/index.js';
+import type { OpenProblem, StructuredToolSample } from '../types/index.js';
+
+/** One tool call as seen by the collector */
+export interface ToolOutcome {
+  tool: string;
+  summary: string;
+  isError: boolean;
+  filePath?: string;
+  isWrite?: boolean;
+  data?: StructuredToolSample;
+}
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+/** Last `maxLines` non-empty lines of the error output */
+function errorTail(data: StructuredToolSample | undefined, maxLines: number): string | undefined {
+  if (!data || maxLines === 0) return undefined;
+  let text: string | undefined;
+  if (data.category === 'shell') text = data.errorMessage ?? data.stdoutTail;
+  else if (data.category === 'write' || data.category === 'edit') text = data.errorMessage;
+  else if (data.category === 'mcp') text = data.result;
+  const lines = text?.split('\n').filter((line) => line.trim());
+  return lines && lines.length > 0 ? lines.slice(-maxLines).join('\n') : undefined;
+}
+
+/** Unresolved failures, most recent first, capped at `config.maxProblems` */
+export function findOpenProblems(outcomes: ToolOutcome[], config: VerbosityConfig['openProblems']): OpenProblem[] {
+  if (config.maxProblems === 0) return [];
+
+  const resolved = new Set<string>();
+  const problems = new Map<string, OpenProblem>();
+  const recentFrom = outcomes.length - config.recentToolCalls;
+
+  const fail = (key: string, problem: () => OpenProblem) => {
+    const existing = problems.get(key);
+    if (existing) existing.failures++;
+    else problems.set(key, problem());
+  };
+
+  for (let i = outcomes.length - 1; i >= 0; i--) {
+    const outcome = outcomes[i];
+    const { data } = outcome;
+
+    if (data?.category === 'shell') {
+      const key = `command:${normalizeCommand(data.command)}`;
+      if (!outcome.isError && !data.errored) resolved.add(key);
+      else if (!resolved.has(key)) {
+        fail(key, () => ({
+          kind: 'command',
+          tool: outcome.tool,
+          target: data.command,
+          ...(data.exitCode !== undefined ? { exitCode: data.exitCode } : {}),
+          ...withError(errorTail(data, config.errorLines)),
+          failures: 1,
+        }));
+      }
+    } else if (outcome.isWrite && outcome.filePath) {
+      const key = `file:${outcome.filePath}`;
+      if (!outcome.isError) resolved.add(key);
+      else if (!resolved.has(key)) {
+        fail(key, () => ({
+          kind: 'edit',
+          tool: outcome.tool,
+          target: outcome.filePath!,
+          ...withError(errorTail(data, config.errorLines)),
+          failures: 1,
+        }));
+      }
+    } else if (outcome.isError && i >= recentFrom) {
+      fail(`tool:${outcome.tool}:${outcome.summary}`, () => ({
+        kind: 'tool',
+        tool: outcome.tool,
+        target: outcome.summary,
+        ...withError(errorTail(data, config.errorLines)),
+        failures: 1,
+      }));
+    }
+  }
+
+  return Array.from(problems.values()).slice(0, config.maxProblems);
+}
+
+function withError(error: string | undefined): { error?: string } {
+  return error ? { error } : {};
+}
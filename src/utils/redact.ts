@@ -0,0 +1,194 @@
+/**
+ * Secret redaction for handoffs.
+ *
+ * Handoffs embed shell output, diffs, MCP params and fetched previews
+ * verbatim, and end up in `.continues-handoff.*`, `~/.continues/contexts/`
+ * and dump directories. `redactContext` scrubs every string in a
+ * SessionContext before any of that is rendered, using the built-in
+ * detectors below plus the `redaction.patterns` from .continues.yml.
+ */
+import * as path from 'node:path';
+import { getActiveConfig, type VerbosityConfig } from '../config/index.js';
+import type { SessionContext } from '../types/index.js';
+import { generateHandoffMarkdown } from './markdown.js';
+
+export interface RedactionRule {
+  /** Detector name, shown in the placeholder and the redaction report */
+  name: string;
+  /** Global regex; with `secretGroup`, only that capture group is replaced */
+  pattern: RegExp;
+  secretGroup?: number;
+  /** Extra check on a candidate match (e.g. entropy) */
+  accept?: (secret: string) => boolean;
+}
+
+export interface RedactionReport {
+  total: number;
+  /** Redactions per detector name */
+  byRule: Record<string, number>;
+}
+
+/** Bits of entropy per character */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of text) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/** Long, mixed-case, digit-bearing and random-looking — hex hashes and UUIDs stay below the threshold */
+function looksRandom(candidate: string): boolean {
+  return /[a-z]/.test(candidate) && /[A-Z]/.test(candidate) && /\d/.test(candidate) && shannonEntropy(candidate) >= 4.2;
+}
+
+/** Built-in detectors, most specific first */
+export const BUILTIN_REDACTION_RULES: readonly RedactionRule[] = [
+  {
+    name: 'private-key',
+    // A truncated block (no END line) is redacted to the end of the text
+    pattern:
+      /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----|$)/g,
+  },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { name: 'openai-key', pattern: /\bsk-(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { name: 'bearer-token', pattern: /\b(Bearer\s+)(?!\[REDACTED)([A-Za-z0-9._~+/-]{16,}=*)/g, secretGroup: 2 },
+  {
+    name: 'secret-assignment',
+    // SCREAMING_CASE, snake_case and camelCase names; lowercase `token` needs a prefix so "tokens: 1500" stays
+    pattern:
+      /\b((?:[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?)[A-Z0-9_]*|[a-z0-9_]*(?:secret|_token|password|passwd|api_?key|access_?key|private_?key|credentials?)[a-z0-9_]*|[a-z][A-Za-z0-9]*(?:Secret|Token|Password|ApiKey|AccessKey|PrivateKey))["']?\s*[=:]\s*["']?)(?!\[REDACTED)([^\s"'`]{4,})/g,
+    secretGroup: 2,
+  },
+  // No `/` in the charset — paths and URLs are long runs of mixed-case words and digits, not secrets
+  { name: 'high-entropy', pattern: /[A-Za-z0-9+_=-]{32,}/g, accept: looksRandom },
+];
+
+/** Every `KEY=value` in env files — applied to diffs and writes of `.env*` files only */
+const ENV_FILE_RULE: RedactionRule = {
+  name: 'env-file',
+  pattern: /^([+\- ]?\s*(?:export\s+)?[A-Za-z_][\w.-]*\s*=\s*)(?!\[REDACTED)(\S.*)$/gm,
+  secretGroup: 2,
+};
+
+const ENV_FILE_NAME = /^\.env(?:rc)?(?:\..+)?$|\.env$/;
+
+/**
+ * Identifiers and locations, not content — tool call ids often look random
+ * enough to trip the entropy check, and a scrubbed path breaks Files Modified
+ */
+const SKIPPED_KEYS = new Set(['id', 'taskId', 'filePath', 'file_path', 'path', 'targetPath', 'cwd', 'url']);
+
+function isEnvFile(filePath: unknown): boolean {
+  return typeof filePath === 'string' && ENV_FILE_NAME.test(path.basename(filePath));
+}
+
+export function createRedactionReport(): RedactionReport {
+  return { total: 0, byRule: {} };
+}
+
+/**
+ * Detectors for a config: custom `redaction.patterns` first, then the
+ * built-ins not listed in `redaction.disable`. Empty when redaction is off.
+ */
+export function resolveRedactionRules(config: VerbosityConfig = getActiveConfig()): RedactionRule[] {
+  const settings = config.redaction;
+  if (settings?.enabled === false) return [];
+
+  const custom = (settings?.patterns ?? []).map((p) => ({
+    name: p.name,
+    pattern: new RegExp(p.pattern, `${(p.flags ?? '').replace(/g/g, '')}g`),
+  }));
+  const disabled = new Set(settings?.disable ?? []);
+  return [...custom, ...BUILTIN_REDACTION_RULES.filter((rule) => !disabled.has(rule.name))];
+}
+
+/**
+ * Replace every secret found by `rules` with `[REDACTED:<rule>]`. Counts are
+ * added to `report` when one is passed.
+ */
+export function redactText(text: string, rules: readonly RedactionRule[], report?: RedactionReport): string {
+  let result = text;
+  for (const rule of rules) {
+    result = result.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+      const secret = rule.secretGroup ? groups[rule.secretGroup - 1] : match;
+      if (typeof secret !== 'string' || !secret || (rule.accept && !rule.accept(secret))) return match;
+      if (report) {
+        report.total++;
+        report.byRule[rule.name] = (report.byRule[rule.name] ?? 0) + 1;
+      }
+      const at = match.lastIndexOf(secret);
+      return `${match.slice(0, at)}[REDACTED:${rule.name}]${match.slice(at + secret.length)}`;
+    });
+  }
+  return result;
+}
+
+/** Redact every string in a value; objects describing an env file also get the env-file rule */
+function redactValue<T>(value: T, rules: readonly RedactionRule[], report: RedactionReport): T {
+  if (typeof value === 'string') return redactText(value, rules, report) as T;
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, rules, report)) as T;
+  if (typeof value !== 'object' || value === null || value instanceof Date) return value;
+
+  const record = value as Record<string, unknown>;
+  const envFile = isEnvFile(record.filePath ?? record.file_path ?? record.path);
+  const scoped = envFile ? [ENV_FILE_RULE, ...rules] : rules;
+  return Object.fromEntries(
+    Object.entries(record).map(([key, entry]) => [
+      key,
+      SKIPPED_KEYS.has(key) ? entry : redactValue(entry, scoped, report),
+    ]),
+  ) as T;
+}
+
+/**
+ * Redact secrets from extracted context. The markdown is regenerated from the
+ * redacted fields (rather than scrubbed after the fact), so a secret cut in
+ * half by truncation cannot slip through. Pass `report` to accumulate counts
+ * across several contexts.
+ */
+export function redactContext(
+  context: SessionContext,
+  config: VerbosityConfig = getActiveConfig(),
+  report: RedactionReport = createRedactionReport(),
+): { context: SessionContext; report: RedactionReport } {
+  const before = report.total;
+  const rules = resolveRedactionRules(config);
+  if (rules.length === 0) return { context, report };
+
+  const session = context.session.summary
+    ? { ...context.session, summary: redactText(context.session.summary, rules, report) }
+    : context.session;
+  const recentMessages = redactValue(context.recentMessages, rules, report);
+  const pendingTasks = redactValue(context.pendingTasks, rules, report);
+  const toolSummaries = redactValue(context.toolSummaries, rules, report);
+  const sessionNotes = redactValue(context.sessionNotes, rules, report);
+  if (report.total === before) return { context, report };
+
+  const markdown = generateHandoffMarkdown(
+    session,
+    recentMessages,
+    context.filesModified,
+    pendingTasks,
+    toolSummaries,
+    sessionNotes,
+    config,
+  );
+  return {
+    context: { ...context, session, recentMessages, pendingTasks, toolSummaries, sessionNotes, markdown },
+    report,
+  };
+}
+
+/** e.g. "Redacted 3 secrets (github-token ×2, env-file)" */
+export function formatRedactionReport(report: RedactionReport): string {
+  const parts = Object.entries(report.byRule)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) => (count > 1 ? `${name} ×${count}` : name));
+  return `Redacted ${report.total} secret${report.total === 1 ? '' : 's'} (${parts.join(', ')})`;
+}
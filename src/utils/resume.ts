@@ -1,18 +1,35 @@
 import { spawn } from 'node:child_process';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import chalk from 'chalk';
+import { getActiveConfig, type VerbosityConfig } from '../config/index.js';
 import { logger } from '../logger.js';
 import { ALL_TOOLS, adapters } from '../parsers/registry.js';
-import type { SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
+import { HANDOFF_FORMAT_VERSION } from '../types/handoff.js';
+import type { HandoffCursor, SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
 import {
   type ForwardResolution,
   formatForwardArgs,
   type HandoffForwardingOptions,
   resolveTargetForwarding,
 } from './forward-flags.js';
-import { extractContext, saveContext } from './index.js';
-import { getSourceLabels } from './markdown.js';
+import { buildRepositoryStateSection, getRepositoryState } from './git-state.js';
+import { type HandoffFormat, handoffExtension, renderHandoff } from './handoff.js';
+import { contextSince, createHandoffCursor, historyConfig } from './incremental.js';
+import { extractContext, getAllSessions, getHandoffCursor, saveContext, saveHandoffCursor } from './index.js';
+import { collectLineageContext, formatHandoffMarker } from './lineage.js';
+import { generateHandoffMarkdown, getSourceLabels } from './markdown.js';
+import { mergeContexts } from './merge.js';
 import { SHELL_OPTION, WHICH_CMD } from './platform.js';
+import {
+  createRedactionReport,
+  formatRedactionReport,
+  type RedactionReport,
+  redactContext,
+  redactText,
+  resolveRedactionRules,
+} from './redact.js';
+import type { BudgetedSection } from './tokens.js';
 
 /**
  * Resolve mapped + passthrough forward args for cross-tool launches.
@@ -35,22 +52,108 @@ export async function nativeResume(session: UnifiedSession): Promise<void> {
   await runCommand(adapter.binaryName, adapter.nativeResumeArgs(session), cwd);
 }
 
+/** Handoff file written to the project directory, e.g. `.continues-handoff.md` */
+export function handoffFileName(format: HandoffFormat = 'markdown'): string {
+  return `.continues-handoff.${handoffExtension(format)}`;
+}
+
 /**
- * Resume a session in a different tool (cross-tool)
+ * Resume a session in a different tool (cross-tool). With `sinceLast`, only
+ * what happened since the session's previous handoff is handed off.
  */
 export async function crossToolResume(
   session: UnifiedSession,
   target: SessionSource,
   mode: 'inline' | 'reference' = 'inline',
   forwarding?: HandoffForwardingOptions,
+  format: HandoffFormat = 'markdown',
+  sinceLast = false,
 ): Promise<void> {
-  const context = await extractContext(session);
+  const config = getActiveConfig();
+  const previous = sinceLast ? getHandoffCursor(session.source, session.id) : null;
+  if (sinceLast && !previous) {
+    console.log(chalk.gray('No earlier handoff recorded for this session — handing off the full context'));
+  }
+
+  if (!previous) {
+    const context = await extractContext(session, config);
+    await handOff(context, target, mode, forwarding, format, { cursor: createHandoffCursor(context, target) });
+    return;
+  }
+
+  const history = await extractContext(session, historyConfig(config));
+  const context = contextSince(history, previous, config);
+  const cursor = {
+    ...createHandoffCursor(history, target),
+    messagesHandedOff: previous.messagesHandedOff + context.recentMessages.length,
+  };
+  await handOff(context, target, mode, forwarding, format, { cursor });
+}
+
+/**
+ * Hand several sessions off to `target` as one merged handoff (`--merge`, `--project`).
+ * The handoff is injected even when `target` is the tool of every session.
+ */
+export async function mergedResume(
+  sessions: UnifiedSession[],
+  target: SessionSource,
+  mode: 'inline' | 'reference' = 'inline',
+  forwarding?: HandoffForwardingOptions,
+  format: HandoffFormat = 'markdown',
+): Promise<void> {
+  const config = getActiveConfig();
+  // Redacted per session: the merged markdown is built from already-scrubbed parts
+  const report = createRedactionReport();
+  const contexts: SessionContext[] = [];
+  for (const session of sessions) {
+    contexts.push(redactContext(await extractContext(session, config), config, report).context);
+  }
+  await handOff(mergeContexts(contexts, config), target, mode, forwarding, format, { redactionReport: report });
+}
+
+/**
+ * Write the handoff for an extracted context and launch `target` with it.
+ * `cursor` is remembered for the session's next `--since-last` handoff.
+ */
+async function handOff(
+  extracted: SessionContext,
+  target: SessionSource,
+  mode: 'inline' | 'reference',
+  forwarding: HandoffForwardingOptions | undefined,
+  format: HandoffFormat,
+  extras: { redactionReport?: RedactionReport; cursor?: HandoffCursor } = {},
+): Promise<void> {
+  const config = getActiveConfig();
+  // Secrets are scrubbed before anything is written to disk or passed to the target
+  const { context, report } = redactContext(extracted, config, extras.redactionReport);
+  const session = context.session;
   const cwd = session.cwd || process.cwd();
 
+  // What the repository looks like now, as opposed to when the session ended
+  context.repositoryState = getRepositoryState(cwd, context.session, context.filesModified) ?? undefined;
+  const handoffSections: BudgetedSection[] = [];
+  if (context.repositoryState && format === 'markdown') {
+    handoffSections.push({
+      key: 'repositoryState',
+      lines: [...buildRepositoryStateSection(context.repositoryState).split('\n'), ''],
+    });
+  }
+
+  // Carry the earlier hops of a chained handoff along (structured formats carry the parent link instead)
+  const lineage =
+    session.parent && format === 'markdown'
+      ? redactText(await collectLineageContext(await getAllSessions(), session), resolveRedactionRules(config), report)
+      : '';
+  if (lineage) handoffSections.push({ key: 'lineage', lines: [...lineage.split('\n'), ''] });
+  if (handoffSections.length > 0) context.markdown = renderWithSections(context, config, handoffSections);
+  if (report.total > 0) console.log(chalk.gray(formatRedactionReport(report)));
+
+  const handoff = renderHandoff(context, format, { target, lineage });
+
   // Always save handoff file to project directory (for sandboxed tools like Gemini)
-  const localPath = path.join(cwd, '.continues-handoff.md');
+  const localPath = path.join(cwd, handoffFileName(format));
   try {
-    fs.writeFileSync(localPath, context.markdown);
+    fs.writeFileSync(localPath, handoff);
   } catch (err) {
     logger.debug('resume: failed to write handoff file', localPath, err);
   }
@@ -58,62 +161,137 @@ export async function crossToolResume(
   // Also save to global directory as backup
   saveContext(context);
 
-  // Build prompt based on mode
-  const prompt = mode === 'inline' ? buildInlinePrompt(context, session) : buildReferencePrompt(session);
-
   const adapter = adapters[target];
   if (!adapter) throw new Error(`Unknown target: ${target}`);
 
-  const resolved = resolveCrossToolForwarding(target, forwarding);
-  await runCommand(adapter.binaryName, [...resolved.extraArgs, ...adapter.crossToolArgs(prompt, cwd)], cwd);
+  // IDE targets can't take the prompt — the user attaches the handoff file
+  if (adapter.handoffInstructions) {
+    console.log(chalk.green(`Handoff written to ${localPath}`));
+    for (const step of adapter.handoffInstructions(handoffFileName(format), cwd)) {
+      console.log(chalk.gray(`  ${step}`));
+    }
+  }
+
+  // Build prompt based on mode
+  const prompt =
+    mode === 'inline' ? buildInlinePrompt(handoff, context, format) : buildReferencePrompt(context, format);
+  const launchArgs = adapter.crossToolArgs(prompt, cwd);
+  if (launchArgs) {
+    const resolved = resolveCrossToolForwarding(target, forwarding);
+    await runCommand(
+      adapter.binaryName,
+      [...(adapter.crossToolSubcommand ?? []), ...resolved.extraArgs, ...launchArgs],
+      cwd,
+    );
+  }
+
+  // Only a delivered handoff moves the cursor — a failed launch has thrown by now
+  if (extras.cursor) {
+    try {
+      saveHandoffCursor(extras.cursor);
+    } catch (err) {
+      logger.debug('resume: failed to save handoff cursor', err);
+    }
+  }
+}
+
+/**
+ * Re-render a context's markdown with handoff-time sections fitted into the
+ * token budget. The context's messages were already capped at extraction.
+ */
+function renderWithSections(context: SessionContext, config: VerbosityConfig, sections: BudgetedSection[]): string {
+  return generateHandoffMarkdown(
+    context.session,
+    context.recentMessages,
+    context.filesModified,
+    context.pendingTasks,
+    context.toolSummaries,
+    context.sessionNotes,
+    { ...config, recentMessages: context.recentMessages.length },
+    'inline',
+    sections,
+  );
+}
+
+/**
+ * Marker session and "a coding session from X" wording for a handoff prompt.
+ * A merged handoff is marked with its most recent source session, so the new
+ * session's lineage points at a real one.
+ */
+function describeHandoffSource(context: SessionContext): { marker: string; from: string } {
+  const labels = getSourceLabels();
+  const mergedFrom = context.sessionNotes?.mergedFrom ?? [];
+  if (mergedFrom.length === 0) {
+    return {
+      marker: formatHandoffMarker(context.session),
+      from: `a coding session from **${labels[context.session.source] || context.session.source}**`,
+    };
+  }
+  const tools = [...new Set(mergedFrom.map((s) => labels[s.source] || s.source))];
+  return {
+    marker: formatHandoffMarker(mergedFrom[mergedFrom.length - 1]),
+    from: `${mergedFrom.length} coding sessions from **${tools.join('**, **')}**`,
+  };
 }
 
 /**
  * Build an inline prompt that embeds the full session context directly.
  * The LLM gets everything upfront — no file reading needed.
  */
-function buildInlinePrompt(context: SessionContext, session: UnifiedSession): string {
-  const sourceLabel = getSourceLabels()[session.source] || session.source;
+function buildInlinePrompt(handoff: string, context: SessionContext, format: HandoffFormat): string {
+  const { marker, from } = describeHandoffSource(context);
 
   // Simple intro — the handoff markdown already has the full table, conversation, and closing directive
-  const intro = `I'm continuing a coding session from **${sourceLabel}**. Here's the full context:\n\n---\n\n`;
+  if (format === 'markdown') {
+    const intro = `${marker}\nI'm continuing ${from}. Here's the full context:\n\n---\n\n`;
+    return intro + handoff;
+  }
 
-  return intro + context.markdown;
+  // Structured handoffs are fenced so the document stays intact
+  const intro = `${marker}\nI'm continuing ${from}. Here's the full context as a \`${HANDOFF_FORMAT_VERSION}\` ${format.toUpperCase()} document:\n\n`;
+  return `${intro}\`\`\`${format}\n${handoff}\n\`\`\``;
 }
 
 /**
  * Build a compact reference prompt that points to the handoff file.
  * Used when --reference flag is passed (for very large sessions).
  */
-function buildReferencePrompt(session: UnifiedSession): string {
+function buildReferencePrompt(context: SessionContext, format: HandoffFormat): string {
+  const session = context.session;
   const sourceLabel = getSourceLabels()[session.source] || session.source;
+  const fileName = handoffFileName(format);
+  const { marker, from } = describeHandoffSource(context);
 
   return [
+    marker,
     `# 🔄 Session Handoff`,
     ``,
-    `Picking up a coding session from **${sourceLabel}**. The full context is in \`.continues-handoff.md\`.`,
+    `Picking up ${from}. The full context is in \`${fileName}\`.`,
     ``,
     `| Detail | Value |`,
     `|--------|-------|`,
     `| Previous tool | ${sourceLabel} |`,
     `| Working directory | \`${session.cwd}\` |`,
-    `| Context file | \`.continues-handoff.md\` |`,
+    `| Context file | \`${fileName}\` |`,
     session.summary ? `| Last task | ${session.summary.slice(0, 80)} |` : '',
     ``,
-    `Read \`.continues-handoff.md\` first, then continue the work.`,
+    `Read \`${fileName}\` first, then continue the work.`,
   ]
     .filter(Boolean)
     .join('\n');
 }
 
 /**
- * Resume a session - automatically chooses native or cross-tool
+ * Resume a session - automatically chooses native or cross-tool.
+ * `sinceLast` applies to cross-tool handoffs only; a native resume has the whole session.
  */
 export async function resume(
   session: UnifiedSession,
   target?: SessionSource,
   mode: 'inline' | 'reference' = 'inline',
   forwarding?: HandoffForwardingOptions,
+  format: HandoffFormat = 'markdown',
+  sinceLast = false,
 ): Promise<void> {
   const actualTarget = target || session.source;
 
@@ -122,7 +300,7 @@ export async function resume(
     await nativeResume(session);
   } else {
     // Different tool - use cross-tool injection
-    await crossToolResume(session, actualTarget, mode, forwarding);
+    await crossToolResume(session, actualTarget, mode, forwarding, format, sinceLast);
   }
 }
 
@@ -192,14 +370,17 @@ export function getResumeCommand(
   session: UnifiedSession,
   target?: SessionSource,
   forwarding?: HandoffForwardingOptions,
+  format: HandoffFormat = 'markdown',
 ): string {
   const actualTarget = target || session.source;
 
   if (actualTarget === session.source) {
-    return adapters[session.source].resumeCommandDisplay(session);
+    // A Gemini fork removed from the config has no adapter left to resume with
+    return adapters[session.source]?.resumeCommandDisplay(session) ?? `continues resume ${session.id}`;
   }
 
   const resolved = resolveCrossToolForwarding(actualTarget, forwarding);
   const suffix = resolved.extraArgs.length > 0 ? ` ${formatForwardArgs(resolved.extraArgs)}` : '';
-  return `continues resume ${session.id} --in ${actualTarget}${suffix}`;
+  const formatFlag = format === 'markdown' ? '' : ` --format ${format}`;
+  return `continues resume ${session.id} --in ${actualTarget}${formatFlag}${suffix}`;
 }
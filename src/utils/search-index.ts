@@ -0,0 +1,248 @@
+/**
+ * Full-text search over indexed sessions, backed by a SQLite FTS5 table
+ * in ~/.continues/search.db. Sessions are (re-)indexed lazily, only when
+ * their size or timestamp changed since they were last indexed.
+ */
+import * as path from 'node:path';
+import { getPreset, type VerbosityConfig } from '../config/index.js';
+import { IndexError } from '../errors.js';
+import { logger } from '../logger.js';
+import { adapters } from '../parsers/registry.js';
+import type { SessionContext, SessionSource, UnifiedSession } from '../types/index.js';
+import { ensureDirectories } from './index.js';
+import { homeDir } from './parser-helpers.js';
+import { openSqlite, type SqliteDb } from './sqlite.js';
+
+const SEARCH_DB_FILE = path.join(homeDir(), '.continues', 'search.db');
+
+/** Kind of text a search hit came from */
+export type SearchDocKind = 'user' | 'assistant' | 'tool' | 'file';
+
+export interface SearchDoc {
+  kind: SearchDocKind;
+  content: string;
+}
+
+export interface SearchHit {
+  session: UnifiedSession;
+  kind: SearchDocKind;
+  /** Matching excerpt with the hit wrapped in [brackets] */
+  snippet: string;
+  /** bm25 rank — lower is better */
+  rank: number;
+}
+
+export interface SearchOptions {
+  source?: SessionSource;
+  limit?: number;
+}
+
+/** Config used for indexing: every message, every tool sample */
+const INDEX_CONFIG: VerbosityConfig = { ...getPreset('full'), recentMessages: Number.MAX_SAFE_INTEGER };
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS indexed_sessions (
+  session_key TEXT PRIMARY KEY,
+  fingerprint TEXT NOT NULL
+);
+CREATE VIRTUAL TABLE IF NOT EXISTS session_docs USING fts5(
+  session_key UNINDEXED,
+  kind UNINDEXED,
+  content,
+  tokenize = 'porter unicode61'
+);
+`;
+
+function sessionKey(session: UnifiedSession): string {
+  return `${session.source}:${session.id}`;
+}
+
+function sessionFingerprint(session: UnifiedSession): string {
+  return `${session.updatedAt.getTime()}:${session.bytes}:${session.lines}`;
+}
+
+/**
+ * Open (and create if needed) the search database
+ */
+export function openSearchDb(dbPath = SEARCH_DB_FILE): SqliteDb {
+  try {
+    const db = openSqlite(dbPath);
+    db.exec(SCHEMA);
+    return db;
+  } catch (err) {
+    throw new IndexError(`Cannot open search index at ${dbPath}: ${(err as Error).message}`, { cause: err });
+  }
+}
+
+/**
+ * Flatten a session context into searchable documents: conversation turns,
+ * tool invocations (shell commands included) and modified file paths.
+ */
+export function contextToSearchDocs(context: SessionContext): SearchDoc[] {
+  const docs: SearchDoc[] = [];
+
+  for (const message of context.recentMessages) {
+    if (!message.content.trim()) continue;
+    if (message.role === 'user' || message.role === 'assistant') {
+      docs.push({ kind: message.role, content: message.content });
+    }
+  }
+
+  const toolLines: string[] = [];
+  for (const tool of context.toolSummaries) {
+    for (const sample of tool.samples) {
+      toolLines.push(sample.summary);
+      if (sample.data?.category === 'shell' && sample.data.command !== sample.summary) {
+        toolLines.push(sample.data.command);
+      }
+    }
+  }
+  if (toolLines.length > 0) docs.push({ kind: 'tool', content: toolLines.join('\n') });
+
+  if (context.filesModified.length > 0) {
+    docs.push({ kind: 'file', content: context.filesModified.join('\n') });
+  }
+
+  return docs;
+}
+
+/**
+ * Bring the search index in line with the session list: drop sessions that no
+ * longer exist and (re-)index sessions whose fingerprint changed. When `source`
+ * is given, `sessions` is taken to cover that source only.
+ * Returns the number of sessions that were (re-)indexed.
+ */
+export async function syncSearchIndex(
+  db: SqliteDb,
+  sessions: UnifiedSession[],
+  source?: SessionSource,
+): Promise<number> {
+  const known = new Map(
+    (
+      db.prepare('SELECT session_key, fingerprint FROM indexed_sessions').all() as Array<{
+        session_key: string;
+        fingerprint: string;
+      }>
+    ).map((row) => [row.session_key, row.fingerprint]),
+  );
+
+  const deleteDocs = db.prepare('DELETE FROM session_docs WHERE session_key = ?');
+  const deleteSession = db.prepare('DELETE FROM indexed_sessions WHERE session_key = ?');
+  const insertDoc = db.prepare('INSERT INTO session_docs (session_key, kind, content) VALUES (?, ?, ?)');
+  const upsertSession = db.prepare(
+    'INSERT INTO indexed_sessions (session_key, fingerprint) VALUES (?, ?) ON CONFLICT(session_key) DO UPDATE SET fingerprint = excluded.fingerprint',
+  );
+
+  const current = new Set(sessions.map(sessionKey));
+  for (const key of known.keys()) {
+    if (current.has(key) || (source && !key.startsWith(`${source}:`))) continue;
+    deleteDocs.run(key);
+    deleteSession.run(key);
+  }
+
+  let indexed = 0;
+  for (const session of sessions) {
+    const key = sessionKey(session);
+    const fingerprint = sessionFingerprint(session);
+    if (known.get(key) === fingerprint) continue;
+
+    const adapter = adapters[session.source];
+    if (!adapter) continue;
+
+    let docs: SearchDoc[];
+    try {
+      docs = contextToSearchDocs(await adapter.extractContext(session, INDEX_CONFIG));
+    } catch (err) {
+      logger.debug('search: cannot extract context', key, err);
+      continue;
+    }
+
+    db.exec('BEGIN');
+    try {
+      deleteDocs.run(key);
+      for (const doc of docs) insertDoc.run(key, doc.kind, doc.content);
+      upsertSession.run(key, fingerprint);
+      db.exec('COMMIT');
+      indexed++;
+    } catch (err) {
+      db.exec('ROLLBACK');
+      logger.debug('search: failed to index session', key, err);
+    }
+  }
+
+  return indexed;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match (prefix match on
+ * the last one), and FTS operators in user input are treated literally.
+ */
+export function toFtsQuery(query: string): string {
+  const terms = query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, '').trim())
+    .filter(Boolean);
+  return terms.map((term, i) => `"${term}"${i === terms.length - 1 ? '*' : ''}`).join(' ');
+}
+
+/**
+ * Search indexed sessions. Returns the best-ranked hit per session.
+ */
+export function searchIndex(
+  db: SqliteDb,
+  sessions: UnifiedSession[],
+  query: string,
+  options: SearchOptions = {},
+): SearchHit[] {
+  const ftsQuery = toFtsQuery(query);
+  if (!ftsQuery) return [];
+
+  const byKey = new Map(sessions.map((s) => [sessionKey(s), s]));
+  const rows = db
+    .prepare(
+      `SELECT session_key, kind, snippet(session_docs, 2, '[', ']', '…', 12) AS snippet, bm25(session_docs) AS rank
+       FROM session_docs WHERE session_docs MATCH ? ORDER BY rank`,
+    )
+    .all(ftsQuery) as Array<{ session_key: string; kind: SearchDocKind; snippet: string; rank: number }>;
+
+  const limit = options.limit ?? 20;
+  const hits: SearchHit[] = [];
+  const seen = new Set<string>();
+
+  for (const row of rows) {
+    if (hits.length >= limit) break;
+    if (seen.has(row.session_key)) continue;
+    const session = byKey.get(row.session_key);
+    if (!session) continue;
+    if (options.source && session.source !== options.source) continue;
+
+    seen.add(row.session_key);
+    hits.push({
+      session,
+      kind: row.kind,
+      snippet: row.snippet.replace(/\s+/g, ' ').trim(),
+      rank: row.rank,
+    });
+  }
+
+  return hits;
+}
+
+/**
+ * Sync the on-disk search index with `sessions` and run a query against it
+ */
+export async function searchSessions(
+  sessions: UnifiedSession[],
+  query: string,
+  options: SearchOptions = {},
+): Promise<SearchHit[]> {
+  ensureDirectories();
+  const db = openSearchDb();
+  try {
+    const scope = options.source ? sessions.filter((s) => s.source === options.source) : sessions;
+    await syncSearchIndex(db, scope, options.source);
+    return searchIndex(db, scope, query, options);
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Resolve a user-supplied session reference — full ID, ID prefix,
+ * `source:prefix`, or loose text matched against summary, repo and branch.
+ */
+import { adapters } from '../parsers/registry.js';
+import type { SessionSource, UnifiedSession } from '../types/index.js';
+
+export interface SessionQuery {
+  /** Restrict matching to one tool (from `source:prefix` syntax) */
+  source?: SessionSource;
+  needle: string;
+}
+
+/**
+ * Split `codex:a1e9` into source and needle. Only known tool names count as a
+ * source prefix, so IDs that themselves contain ':' are left intact.
+ */
+export function parseSessionQuery(query: string): SessionQuery {
+  const colon = query.indexOf(':');
+  if (colon > 0) {
+    const source = query.slice(0, colon).toLowerCase();
+    if (source in adapters) return { source: source as SessionSource, needle: query.slice(colon + 1) };
+  }
+  return { needle: query };
+}
+
+/** True when every character of `needle` occurs in `haystack` in order */
+function isSubsequence(needle: string, haystack: string): boolean {
+  let i = 0;
+  for (const ch of haystack) {
+    if (ch === needle[i]) i++;
+    if (i === needle.length) return true;
+  }
+  return needle.length === 0;
+}
+
+/**
+ * Score how well free text matches a session's summary, repo and branch.
+ * Every term must match some field — as a substring (2 points) or, failing
+ * that, as an in-order subsequence (1 point). Returns 0 for no match.
+ */
+export function fuzzySessionScore(session: UnifiedSession, text: string): number {
+  const fields = [session.summary, session.repo, session.branch]
+    .filter((f): f is string => !!f)
+    .map((f) => f.toLowerCase());
+  const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (fields.length === 0 || terms.length === 0) return 0;
+
+  let score = 0;
+  for (const term of terms) {
+    if (fields.some((f) => f.includes(term))) score += 2;
+    else if (term.length >= 3 && fields.some((f) => isSubsequence(term, f))) score += 1;
+    else return 0;
+  }
+  return score;
+}
+
+/** Narrow `sessions` to the tool named in the query, if any */
+function queryPool(sessions: UnifiedSession[], query: string): { pool: UnifiedSession[]; needle: string } {
+  const { source, needle } = parseSessionQuery(query.trim());
+  return { pool: source ? sessions.filter((s) => s.source === source) : sessions, needle };
+}
+
+/**
+ * Sessions whose ID is the reference or starts with it. An exact ID wins over
+ * prefix matches; a result with more than one entry is ambiguous.
+ */
+export function matchSessionIds(sessions: UnifiedSession[], query: string): UnifiedSession[] {
+  const { pool, needle } = queryPool(sessions, query);
+  if (!needle) return [];
+
+  const exact = pool.filter((s) => s.id === needle);
+  if (exact.length > 0) return exact;
+
+  return pool.filter((s) => s.id.startsWith(needle));
+}
+
+/**
+ * Sessions whose summary, repo or branch match the reference as text, best
+ * first. These are guesses — callers should confirm them, even a single one.
+ */
+export function fuzzyMatchSessions(sessions: UnifiedSession[], query: string): UnifiedSession[] {
+  const { pool, needle } = queryPool(sessions, query);
+  if (!needle) return [];
+
+  return pool
+    .map((session) => ({ session, score: fuzzySessionScore(session, needle) }))
+    .filter((m) => m.score > 0)
+    .sort((a, b) => b.score - a.score || b.session.updatedAt.getTime() - a.session.updatedAt.getTime())
+    .map((m) => m.session);
+}
+
+/**
+ * All sessions a reference could mean, best first: ID matches if there are
+ * any, otherwise fuzzy matches.
+ */
+export function matchSessions(sessions: UnifiedSession[], query: string): UnifiedSession[] {
+  const byId = matchSessionIds(sessions, query);
+  return byId.length > 0 ? byId : fuzzyMatchSessions(sessions, query);
+}
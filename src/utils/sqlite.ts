@@ -0,0 +1,28 @@
+/**
+ * Thin wrapper around the built-in node:sqlite module.
+ * Loaded lazily so older Node versions only fail when SQLite is actually used.
+ */
+import { createRequire } from 'node:module';
+
+/** Minimal typed interface for node:sqlite StatementSync */
+export interface SqliteStatement {
+  all(...params: unknown[]): unknown[];
+  get(...params: unknown[]): unknown | undefined;
+  run(...params: unknown[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+}
+
+/** Minimal typed interface for node:sqlite DatabaseSync */
+export interface SqliteDb {
+  prepare(sql: string): SqliteStatement;
+  exec(sql: string): void;
+  close(): void;
+}
+
+/**
+ * Open a SQLite database. Throws if node:sqlite is unavailable or the file can't be opened.
+ */
+export function openSqlite(filePath: string, options: { readOnly?: boolean } = {}): SqliteDb {
+  const require = createRequire(import.meta.url);
+  const { DatabaseSync } = require('node:sqlite');
+  return new DatabaseSync(filePath, { open: true, readOnly: options.readOnly ?? false }) as SqliteDb;
+}
@@ -0,0 +1,280 @@
+/**
+ * Minimal logic-light template engine for handoff templates.
+ *
+ * Syntax (a small subset of Handlebars):
+ *   {{session.summary}}                     value lookup (dot paths)
+ *   {{truncate content 200}}                helper call with path, number or "string" arguments
+ *   {{#if pendingTasks}} … {{else}} … {{/if}}
+ *   {{#unless sessionNotes}} … {{/unless}}
+ *   {{#each recentMessages}} {{role}}: {{content}} {{@index}} {{/each}}
+ *   {{! comment }}
+ *
+ * Block tags and comments alone on a line drop the whole line, so templates
+ * can be laid out readably without leaving blank lines in the output.
+ * Every parse and render error carries the template line and column.
+ */
+import { TemplateError } from '../errors.js';
+
+export type TemplateHelper = (...args: unknown[]) => unknown;
+
+type Arg = { kind: 'path'; path: string[] } | { kind: 'literal'; value: unknown };
+
+interface Expression {
+  helper?: string;
+  args: Arg[];
+  line: number;
+  column: number;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; expr: Expression }
+  | { type: 'if'; expr: Expression; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; expr: Expression; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockName = 'if' | 'unless' | 'each';
+
+export interface CompiledTemplate {
+  /** File path or label used in error messages */
+  name: string;
+  nodes: TemplateNode[];
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────────────
+
+function positionOf(source: string, index: number): { line: number; column: number } {
+  const before = source.slice(0, index);
+  const line = before.split('\n').length;
+  return { line, column: index - before.lastIndexOf('\n') };
+}
+
+function splitArgs(text: string): string[] {
+  return text.match(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\S+/g) ?? [];
+}
+
+function parseArg(token: string): Arg {
+  if (/^(["']).*\1$/.test(token)) return { kind: 'literal', value: token.slice(1, -1).replace(/\\(.)/g, '$1') };
+  if (/^-?\d+(\.\d+)?$/.test(token)) return { kind: 'literal', value: Number(token) };
+  if (token === 'true' || token === 'false') return { kind: 'literal', value: token === 'true' };
+  return { kind: 'path', path: token.split('.') };
+}
+
+/**
+ * Parse a template into a node tree. Throws TemplateError for unclosed or
+ * mismatched blocks, unknown helpers and malformed tags.
+ */
+export function compileTemplate(
+  source: string,
+  name = '<template>',
+  helpers: Record<string, TemplateHelper> = {},
+): CompiledTemplate {
+  function fail(index: number, message: string): never {
+    const { line, column } = positionOf(source, index);
+    throw new TemplateError(name, line, column, message);
+  }
+
+  const parseExpression = (text: string, index: number): Expression => {
+    const tokens = splitArgs(text);
+    const { line, column } = positionOf(source, index);
+    if (tokens.length === 0) fail(index, 'Empty expression');
+    const [first, ...rest] = tokens;
+    if (Object.hasOwn(helpers, first)) return { helper: first, args: rest.map(parseArg), line, column };
+    if (rest.length > 0) fail(index, `Unknown helper "${first}"`);
+    return { args: [parseArg(first)], line, column };
+  };
+
+  const root: TemplateNode[] = [];
+  const stack: Array<{
+    name: BlockName;
+    index: number;
+    node: TemplateNode & { body: TemplateNode[] };
+    inElse: boolean;
+  }> = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse && 'otherwise' in top.node ? top.node.otherwise : top.node.body;
+  };
+
+  let cursor = 0;
+  while (cursor < source.length) {
+    const open = source.indexOf('{{', cursor);
+    if (open === -1) {
+      current().push({ type: 'text', value: source.slice(cursor) });
+      break;
+    }
+    const close = source.indexOf('}}', open + 2);
+    if (close === -1) fail(open, 'Unclosed "{{"');
+
+    const tag = source.slice(open + 2, close).trim();
+    let text = source.slice(cursor, open);
+    let next = close + 2;
+
+    // A block tag or comment alone on its line takes the line with it
+    const isStandaloneKind = /^[#/!]|^else$/.test(tag);
+    if (isStandaloneKind) {
+      const lineStart = source.lastIndexOf('\n', open - 1) + 1;
+      const newline = source.indexOf('\n', next);
+      const lineEnd = newline === -1 ? source.length : newline;
+      if (!source.slice(lineStart, open).trim() && !source.slice(next, lineEnd).trim()) {
+        text = text.slice(0, text.length - (open - Math.max(lineStart, cursor)));
+        next = newline === -1 ? source.length : newline + 1;
+      }
+    }
+    if (text) current().push({ type: 'text', value: text });
+    cursor = next;
+
+    if (tag.startsWith('!')) continue;
+
+    if (tag.startsWith('#')) {
+      const [keyword, ...rest] = tag.slice(1).split(/\s+/);
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') fail(open, `Unknown block "#${keyword}"`);
+      if (rest.length === 0) fail(open, `"#${keyword}" needs an expression`);
+      const expr = parseExpression(rest.join(' '), open);
+      const node =
+        keyword === 'each'
+          ? { type: 'each' as const, expr, body: [], otherwise: [] }
+          : { type: 'if' as const, expr, negate: keyword === 'unless', body: [], otherwise: [] };
+      current().push(node);
+      stack.push({ name: keyword as BlockName, index: open, node, inElse: false });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top) fail(open, '"else" outside of a block');
+      if (top.inElse) fail(open, `Duplicate "else" in "#${top.name}"`);
+      top.inElse = true;
+      continue;
+    }
+
+    if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const top = stack.pop();
+      if (!top) fail(open, `Unexpected "/${keyword}" — no block is open`);
+      if (top.name !== keyword) {
+        const { line } = positionOf(source, top.index);
+        fail(open, `Expected "/${top.name}" to close the block opened on line ${line}, found "/${keyword}"`);
+      }
+      continue;
+    }
+
+    current().push({ type: 'value', expr: parseExpression(tag, open) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) fail(unclosed.index, `Unclosed "#${unclosed.name}" block`);
+
+  return { name, nodes: root };
+}
+
+// ── Rendering ───────────────────────────────────────────────────────────────
+
+interface Frame {
+  scope: unknown;
+  index?: number;
+  first?: boolean;
+  last?: boolean;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Render a compiled template. Unknown top-level variables are errors (they are
+ * usually typos); missing nested fields render as empty.
+ */
+export function renderTemplate(
+  template: CompiledTemplate,
+  data: Record<string, unknown>,
+  helpers: Record<string, TemplateHelper> = {},
+): string {
+  function fail(expr: Expression, message: string, cause?: unknown): never {
+    throw new TemplateError(template.name, expr.line, expr.column, message, cause ? { cause } : undefined);
+  }
+
+  const resolvePath = (path: string[], frames: Frame[], expr: Expression): unknown => {
+    const [head, ...rest] = path;
+    const frame = frames[frames.length - 1];
+    let value: unknown;
+
+    if (head === '@index') return frame.index;
+    if (head === '@first') return frame.first;
+    if (head === '@last') return frame.last;
+    if (head === 'this') {
+      value = frame.scope;
+    } else {
+      const owner = [...frames]
+        .reverse()
+        .find((f) => typeof f.scope === 'object' && f.scope !== null && Object.hasOwn(f.scope, head));
+      if (!owner) fail(expr, `Unknown variable "${path.join('.')}"`);
+      value = (owner.scope as Record<string, unknown>)[head];
+    }
+
+    for (const key of rest) {
+      if (value === undefined || value === null) return undefined;
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  };
+
+  const evaluate = (expr: Expression, frames: Frame[]): unknown => {
+    const args = expr.args.map((arg) => (arg.kind === 'literal' ? arg.value : resolvePath(arg.path, frames, expr)));
+    if (!expr.helper) return args[0];
+    try {
+      return helpers[expr.helper](...args);
+    } catch (err) {
+      return fail(expr, `Helper "${expr.helper}" failed: ${(err as Error).message}`, err);
+    }
+  };
+
+  const renderNodes = (nodes: TemplateNode[], frames: Frame[]): string => {
+    let out = '';
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          out += node.value;
+          break;
+        case 'value':
+          out += stringify(evaluate(node.expr, frames));
+          break;
+        case 'if': {
+          const truthy = isTruthy(evaluate(node.expr, frames)) !== node.negate;
+          out += renderNodes(truthy ? node.body : node.otherwise, frames);
+          break;
+        }
+        case 'each': {
+          const list = evaluate(node.expr, frames);
+          if (list !== undefined && list !== null && !Array.isArray(list)) {
+            fail(node.expr, '"#each" needs a list');
+          }
+          const items = (list ?? []) as unknown[];
+          if (items.length === 0) {
+            out += renderNodes(node.otherwise, frames);
+            break;
+          }
+          items.forEach((item, index) => {
+            out += renderNodes(node.body, [
+              ...frames,
+              { scope: item, index, first: index === 0, last: index === items.length - 1 },
+            ]);
+          });
+          break;
+        }
+      }
+    }
+    return out;
+  };
+
+  return renderNodes(template.nodes, [{ scope: data }]);
+}
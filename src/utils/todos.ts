@@ -0,0 +1,99 @@
+/**
+ * Todo list / plan tool parsing.
+ *
+ * Claude's `TodoWrite`, Codex's `update_plan`, Gemini's `write_todos`,
+ * OpenCode's `todowrite`, Amp's `todo_write` and Copilot's `update_todo`
+ * each rewrite the agent's whole task list on every call. The last list is
+ * the session's real remaining plan; its incomplete items become the
+ * handoff's pending tasks.
+ */
+import type { TodoItem, TodoStatus } from '../types/index.js';
+
+function normalizeStatus(raw: unknown): TodoStatus {
+  const status = String(raw ?? '').toLowerCase();
+  // `incomplete`, `not_done`, `unfinished`, `inactive` — negations the checks below would misread
+  if (/(?:^|[^a-z])(?:in|un|not[\s_-]*)(?:complete|done|finish|active|start)/.test(status)) return 'pending';
+  if (/progress|doing|active|current/.test(status)) return 'in_progress';
+  if (/complete|done|finish/.test(status)) return 'completed';
+  if (/cancel|skip|abandon/.test(status)) return 'cancelled';
+  return 'pending';
+}
+
+/** `- [ ] task`, `- [x] task` and Droid's `1. [in_progress] task` lines */
+function parseTodoText(text: string): TodoItem[] {
+  const items: TodoItem[] = [];
+  for (const line of text.split('\n')) {
+    const checkbox = line.match(/^\s*(?:[-*]|\d+\.)\s*\[([ xX~>-]|[a-z_]+)\]\s+(.+)$/);
+    if (!checkbox) continue;
+    const mark = checkbox[1];
+    let status: TodoStatus;
+    if (mark === ' ') status = 'pending';
+    else if (mark === 'x' || mark === 'X') status = 'completed';
+    else if (mark === '~' || mark === '>') status = 'in_progress';
+    else if (mark === '-') status = 'cancelled';
+    else status = normalizeStatus(mark);
+    items.push({ content: checkbox[2].trim(), status });
+  }
+  return items;
+}
+
+/**
+ * Read the task list from a todo/plan tool's input: `{ todos: [...] }`,
+ * `{ plan: [...] }`, a bare array, or a markdown checklist string. Items may
+ * name their text `content`, `description`, `step`, `title` or `task`.
+ * Returns undefined when the input holds no list.
+ */
+export function parseTodoList(input: unknown): TodoItem[] | undefined {
+  if (typeof input === 'string') {
+    const trimmed = input.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        return parseTodoList(JSON.parse(trimmed));
+      } catch {
+        // not JSON — fall through to checklist parsing
+      }
+    }
+    const items = parseTodoText(input);
+    return items.length > 0 ? items : undefined;
+  }
+
+  let list: unknown = input;
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    const record = input as Record<string, unknown>;
+    list = record.todos ?? record.plan ?? record.items;
+  }
+  if (typeof list === 'string') return parseTodoList(list);
+  if (!Array.isArray(list)) return undefined;
+
+  const items: TodoItem[] = [];
+  for (const entry of list) {
+    if (typeof entry === 'string') {
+      items.push({ content: entry, status: 'pending' });
+      continue;
+    }
+    if (!entry || typeof entry !== 'object') continue;
+    const record = entry as Record<string, unknown>;
+    const content = record.content ?? record.description ?? record.step ?? record.title ?? record.task ?? record.text;
+    if (typeof content !== 'string' || !content.trim()) continue;
+    items.push({ content: content.trim(), status: normalizeStatus(record.status ?? record.state) });
+  }
+  return items;
+}
+
+/** e.g. "3/7 done, in progress: Add tests" */
+export function describeTodoList(items: TodoItem[]): string {
+  const done = items.filter((item) => item.status === 'completed').length;
+  const current = items.find((item) => item.status === 'in_progress');
+  return `${done}/${items.length} done${current ? `, in progress: ${current.content}` : ''}`;
+}
+
+/**
+ * Incomplete items of a todo list, as pending tasks. In-progress items are
+ * marked so the receiving agent knows where work stopped.
+ */
+export function pendingTasksFromTodos(items: TodoItem[], maxTasks: number): string[] {
+  return items
+    .filter((item) => item.status === 'pending' || item.status === 'in_progress')
+    .slice(0, maxTasks)
+    .map((item) => (item.status === 'in_progress' ? `**In progress:** ${item.content}` : item.content));
+}
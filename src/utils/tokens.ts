@@ -0,0 +1,165 @@
+/**
+ * Offline token estimation and token-budget fitting for handoff documents.
+ *
+ * The estimator mimics a BPE pre-tokenizer (cl100k-style splitting into
+ * words, digit groups, punctuation runs and whitespace) and charges long
+ * words several tokens. It runs without a vocabulary, so counts are an
+ * approximation — typically within ~10% for English prose and code.
+ */
+
+const PRE_TOKEN = /'(?:s|t|re|ve|m|ll|d)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+/** Estimate how many tokens `text` costs in a typical LLM tokenizer */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(PRE_TOKEN)) {
+    const core = piece.trimStart();
+    if (!core) {
+      tokens += 1; // whitespace run
+    } else if (/^\p{L}/u.test(core)) {
+      // Common words are one token; longer words split into ~4-char pieces
+      tokens += core.length <= 6 ? 1 : Math.ceil(core.length / 4);
+    } else if (/^\p{N}/u.test(core)) {
+      tokens += 1;
+    } else {
+      tokens += Math.ceil(core.length / 2); // punctuation/markdown runs merge in pairs
+    }
+  }
+  return tokens;
+}
+
+/** Estimated tokens per `## ` section of a markdown document, in document order */
+export function estimateSectionTokens(markdown: string): Array<{ title: string; tokens: number }> {
+  const sections: Array<{ title: string; tokens: number }> = [];
+  let title = '(preamble)';
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const text = buffer.join('\n');
+    if (text.trim()) sections.push({ title, tokens: estimateTokens(text) });
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (line.startsWith('## ')) {
+      flush();
+      title = line.slice(3).trim();
+      buffer = [line];
+    } else {
+      buffer.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+// ── Budget fitting ──────────────────────────────────────────────────────────
+
+/** Handoff sections in budget priority order — earlier sections are served first */
+export const SECTION_PRIORITY = [
+  'overview',
+  'openProblems',
+  'pendingTasks',
+  'conversation',
+  'files',
+  'repositoryState',
+  'toolActivity',
+  'reasoning',
+  'lineage',
+] as const;
+
+export type HandoffSectionKey = (typeof SECTION_PRIORITY)[number];
+
+export interface BudgetedSection {
+  key: HandoffSectionKey;
+  lines: string[];
+  /**
+   * Re-render the section to fit `maxTokens`. Returns null when nothing
+   * useful fits. Sections without a shrinker are cut line by line.
+   */
+  shrink?: (maxTokens: number) => string[] | null;
+}
+
+/** Sections squeezed below this are dropped rather than shown as a stub */
+const MIN_SECTION_TOKENS = 24;
+
+/** Share of the budget held back for each lower-priority section */
+const FLOOR_SHARE = 0.05;
+
+export const BUDGET_NOTE = '*…trimmed to fit the token budget*';
+
+function linesTokens(lines: string[]): number {
+  return estimateTokens(lines.join('\n'));
+}
+
+/**
+ * Keep leading lines while they fit, then add a trim note. Closes a code
+ * fence left open by the cut. Returns null if not even the heading fits.
+ */
+export function truncateLines(lines: string[], maxTokens: number): string[] | null {
+  const noteCost = estimateTokens(BUDGET_NOTE) + 4;
+  const kept: string[] = [];
+  let used = 0;
+  let openFence: string | null = null;
+
+  for (const line of lines) {
+    const cost = estimateTokens(line) + 1;
+    if (used + cost + noteCost > maxTokens) break;
+    kept.push(line);
+    used += cost;
+    const fence = /^(> )?```/.exec(line);
+    if (fence) openFence = openFence ? null : `${fence[1] ?? ''}\`\`\``;
+  }
+
+  if (kept.filter((l) => l.trim()).length <= 1) return null;
+  if (openFence) kept.push(openFence);
+  return [...kept, '', BUDGET_NOTE, '', ''];
+}
+
+/**
+ * Fit sections into a token budget. Sections are served in priority order
+ * (see SECTION_PRIORITY), each lower-priority section keeping a small floor
+ * so it can still show a trimmed version. The overview is never dropped.
+ * Returns the surviving sections in their original document order.
+ */
+export function fitSectionsToBudget(sections: BudgetedSection[], maxTokens: number): BudgetedSection[] {
+  const total = sections.reduce((sum, s) => sum + linesTokens(s.lines), 0);
+  if (maxTokens <= 0 || total <= maxTokens) return sections;
+
+  const rank = (s: BudgetedSection) => SECTION_PRIORITY.indexOf(s.key);
+  const byPriority = sections
+    .map((section, index) => ({ section, index }))
+    .sort((a, b) => rank(a.section) - rank(b.section));
+  const floors = byPriority.map(({ section }) =>
+    Math.min(linesTokens(section.lines), Math.floor(maxTokens * FLOOR_SHARE)),
+  );
+
+  const fitted = new Map<number, BudgetedSection>();
+  let remaining = maxTokens;
+
+  byPriority.forEach(({ section, index }, i) => {
+    const reserved = floors.slice(i + 1).reduce((sum, f) => sum + f, 0);
+    const available = Math.max(0, remaining - reserved);
+    const cost = linesTokens(section.lines);
+
+    let lines: string[] | null = section.lines;
+    if (cost > available) {
+      lines =
+        available >= MIN_SECTION_TOKENS
+          ? (section.shrink?.(available) ?? truncateLines(section.lines, available))
+          : null;
+      if (!lines && section.key === 'overview') {
+        lines = truncateLines(section.lines, Math.max(available, MIN_SECTION_TOKENS));
+      }
+    }
+
+    if (lines) {
+      fitted.set(index, { ...section, lines });
+      remaining -= linesTokens(lines);
+    }
+  });
+
+  return sections.flatMap((_s, index) => {
+    const section = fitted.get(index);
+    return section ? [section] : [];
+  });
+}
@@ -6,15 +6,19 @@ import type {
   AskSampleData,
   EditSampleData,
   FetchSampleData,
+  FileChangeSummary,
   GlobSampleData,
   GrepSampleData,
   McpSampleData,
+  OpenProblem,
   ReadSampleData,
   ReasoningSampleData,
   SearchSampleData,
   ShellSampleData,
   StructuredToolSample,
   TaskSampleData,
+  TodoItem,
+  TodoSampleData,
   ToolUsageSummary,
   WriteSampleData,
 } from '../types/index.js';
@@ -32,6 +36,7 @@ import {
   SKIP_TOOLS,
   TASK_OUTPUT_TOOLS,
   TASK_TOOLS,
+  TODO_TOOLS,
   WRITE_TOOLS,
 } from '../types/tool-names.js';
 import { countDiffStats, extractStdoutTail, formatEditDiff, formatNewFileDiff } from './diff.js';
@@ -49,6 +54,7 @@ import {
   truncate,
   withResult,
 } from './tool-summarizer.js';
+import { describeTodoList, parseTodoList } from './todos.js';
 
 /** Minimal tool_use block shape — works across Claude, Droid, Cursor */
 interface ToolUseItem {
@@ -94,6 +100,9 @@ export function extractAnthropicToolData(
 ): {
   summaries: ToolUsageSummary[];
   filesModified: string[];
+  fileChanges: FileChangeSummary[];
+  todos?: TodoItem[];
+  openProblems: OpenProblem[];
 } {
   const collector = new SummaryCollector(config);
   const toolResultMap = new Map<string, ToolResultEntry>();
@@ -177,6 +186,7 @@ export function extractAnthropicToolData(
         collector.add(name, withResult(fileSummary('read', fp), result?.slice(0, 80)), {
           data,
           filePath: fp,
+          isError,
         });
       } else if (WRITE_TOOLS.has(name)) {
         const content = (input.content as string) || '';
@@ -209,6 +219,9 @@ export function extractAnthropicToolData(
           filePath: fp,
           isWrite: true,
           isError,
+          ...(typeof input.content === 'string'
+            ? { changes: [{ kind: 'write' as const, filePath: fp, content: input.content, isNewFile }] }
+            : {}),
         });
       } else if (EDIT_TOOLS.has(name)) {
         const oldStr = (input.old_string as string) || '';
@@ -235,6 +248,13 @@ export function extractAnthropicToolData(
           filePath: fp,
           isWrite: true,
           isError,
+          ...(oldStr || newStr
+            ? {
+                changes: [
+                  { kind: 'edit' as const, filePath: fp, oldText: oldStr, newText: newStr, replaceAll: input.replace_all === true },
+                ],
+              }
+            : {}),
         });
       } else if (GREP_TOOLS.has(name)) {
         const pattern = (input.pattern as string) || (input.query as string) || '';
@@ -248,7 +268,7 @@ export function extractAnthropicToolData(
           ...(targetPath ? { targetPath } : {}),
           ...(matchCount !== undefined ? { matchCount } : {}),
         };
-        collector.add('Grep', withResult(grepSummary(pattern, targetPath), result?.slice(0, 80)), { data });
+        collector.add('Grep', withResult(grepSummary(pattern, targetPath), result?.slice(0, 80)), { data, isError });
       } else if (GLOB_TOOLS.has(name)) {
         const pattern = (input.pattern as string) || (input.path as string) || '';
         const resultCount = result ? parseFileCount(result) : undefined;
@@ -258,7 +278,7 @@ export function extractAnthropicToolData(
           pattern,
           ...(resultCount !== undefined ? { resultCount } : {}),
         };
-        collector.add('Glob', withResult(globSummary(pattern), result?.slice(0, 80)), { data });
+        collector.add('Glob', withResult(globSummary(pattern), result?.slice(0, 80)), { data, isError });
       } else if (FETCH_TOOLS.has(name)) {
         const url = (input.url as string) || '';
         const data: FetchSampleData = {
@@ -266,7 +286,7 @@ export function extractAnthropicToolData(
           url,
           ...(result ? { resultPreview: result.slice(0, 100) } : {}),
         };
-        collector.add('WebFetch', fetchSummary(url), { data });
+        collector.add('WebFetch', fetchSummary(url), { data, isError });
       } else if (SEARCH_TOOLS.has(name)) {
         const query = (input.query as string) || '';
         const resultCount = result ? parseMatchCount(result) : undefined;
@@ -277,7 +297,7 @@ export function extractAnthropicToolData(
           ...(resultCount !== undefined ? { resultCount } : {}),
           ...(resultPreview ? { resultPreview } : {}),
         };
-        collector.add('WebSearch', searchSummary(query), { data });
+        collector.add('WebSearch', searchSummary(query), { data, isError });
       } else if (TASK_TOOLS.has(name)) {
         const description = (input.description as string) || '';
         const agentType = (input.subagent_type as string) || undefined;
@@ -286,7 +306,7 @@ export function extractAnthropicToolData(
           description,
           ...(agentType ? { agentType } : {}),
         };
-        collector.add('Task', subagentSummary(description, agentType), { data });
+        collector.add('Task', subagentSummary(description, agentType), { data, isError });
       } else if (TASK_OUTPUT_TOOLS.has(name)) {
         const description = (input.content as string) || (input.result as string) || '';
         const agentType = (input.subagent_type as string) || undefined;
@@ -296,11 +316,17 @@ export function extractAnthropicToolData(
           ...(agentType ? { agentType } : {}),
           ...(result ? { resultSummary: result.slice(0, 100) } : {}),
         };
-        collector.add('TaskOutput', subagentSummary(description, agentType), { data });
+        collector.add('TaskOutput', subagentSummary(description, agentType), { data, isError });
       } else if (ASK_TOOLS.has(name)) {
         const question = truncate((input.question as string) || (input.prompt as string) || '', 80);
         const data: AskSampleData = { category: 'ask', question };
         collector.add('AskUserQuestion', `ask: "${question}"`, { data });
+      } else if (TODO_TOOLS.has(name)) {
+        const items = parseTodoList(input);
+        if (items) {
+          const data: TodoSampleData = { category: 'todo', items };
+          collector.add(name, `todo: ${truncate(describeTodoList(items), 80)}`, { data });
+        }
       } else if (name.startsWith('mcp__') || name.includes('___') || name.includes('-')) {
         // MCP tools — check for thinking/reasoning tools first
         if (config.mcp.thinkingTools.extractReasoning && isThinkingTool(name)) {
@@ -333,7 +359,10 @@ export function extractAnthropicToolData(
             ...(params ? { params } : {}),
             ...(result ? { result: result.slice(0, config.mcp.resultChars) } : {}),
           };
-          collector.add(name, mcpSummary(name, JSON.stringify(input).slice(0, config.mcp.paramChars), result?.slice(0, 80)), { data });
+          collector.add(name, mcpSummary(name, JSON.stringify(input).slice(0, config.mcp.paramChars), result?.slice(0, 80)), {
+            data,
+            isError,
+          });
         }
       } else {
         // Generic/unknown tool — treat as MCP-like
@@ -346,12 +375,19 @@ export function extractAnthropicToolData(
         };
         collector.add(name, withResult(`${name}(${JSON.stringify(input).slice(0, config.mcp.paramChars)})`, result?.slice(0, 80)), {
           data,
+          isError,
         });
       }
     }
   }
 
-  return { summaries: collector.getSummaries(), filesModified: collector.getFilesModified() };
+  return {
+    summaries: collector.getSummaries(),
+    filesModified: collector.getFilesModified(),
+    fileChanges: collector.getFileChanges(),
+    todos: collector.getTodos(),
+    openProblems: collector.getOpenProblems(),
+  };
 }
 
 // ── Helpers ─────────────────────────────────────────────────────────────────
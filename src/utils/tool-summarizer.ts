@@ -3,9 +3,18 @@
  * Each parser normalizes its raw tool events and uses these utilities
  * for consistent, concise summaries across all 7 CLIs.
  */
-import type { StructuredToolSample, ToolSample, ToolUsageSummary } from '../types/index.js';
+import type {
+  FileChangeSummary,
+  OpenProblem,
+  StructuredToolSample,
+  TodoItem,
+  ToolSample,
+  ToolUsageSummary,
+} from '../types/index.js';
 import type { VerbosityConfig } from '../config/index.js';
 import { getPreset } from '../config/index.js';
+import { type FileChangeOp, opsFromUnifiedDiff, summarizeFileChanges } from './file-changes.js';
+import { findOpenProblems, type ToolOutcome } from './open-problems.js';
 
 // ── Formatting Helpers ──────────────────────────────────────────────────────
 
@@ -120,6 +129,11 @@ function buildCategoryLimits(config: VerbosityConfig): Record<string, number> {
 
 const DEFAULT_SAMPLE_LIMIT = 5;
 
+/** Samples SummaryCollector keeps for a tool category under `config` */
+export function sampleLimit(config: VerbosityConfig, category: string): number {
+  return buildCategoryLimits(config)[category] ?? DEFAULT_SAMPLE_LIMIT;
+}
+
 /** Options for SummaryCollector.add() */
 export interface AddSampleOptions {
   /** Structured data for rich rendering */
@@ -130,21 +144,38 @@ export interface AddSampleOptions {
   isWrite?: boolean;
   /** Whether this invocation resulted in an error */
   isError?: boolean;
+  /** Exact changes made, for the per-file net change (default: parsed from `data.diff`) */
+  changes?: FileChangeOp[];
+}
+
+/** Changes recoverable from a sample's (possibly capped) diff */
+function changesFromSample(filePath: string, data?: StructuredToolSample): FileChangeOp[] {
+  const diff = data?.category === 'write' || data?.category === 'edit' ? data.diff : undefined;
+  if (diff && !/^\+\d+ lines truncated$/m.test(diff)) return opsFromUnifiedDiff(filePath, diff);
+  return [{ kind: 'unknown', filePath }];
 }
 
 /**
  * Accumulates tool call summaries by category (tool name).
  * Keeps up to N representative samples per category (category-aware limits)
- * and tracks files modified and error counts.
+ * and tracks files modified and error counts. Every successful write/edit is
+ * also recorded uncapped, for the per-file net change, the latest todo
+ * list is kept for the pending tasks, and every call's outcome is kept for
+ * the open problems.
  */
 export class SummaryCollector {
   private data = new Map<string, { count: number; errorCount: number; samples: ToolSample[] }>();
   private files = new Set<string>();
+  private changes: FileChangeOp[] = [];
+  private todos?: TodoItem[];
+  private outcomes: ToolOutcome[] = [];
   private categoryLimits: Record<string, number>;
+  private openProblemsConfig: VerbosityConfig['openProblems'];
 
   constructor(config?: VerbosityConfig) {
     const resolved = config ?? getPreset('standard');
     this.categoryLimits = buildCategoryLimits(resolved);
+    this.openProblemsConfig = resolved.openProblems;
   }
 
   /** Add a tool invocation. Optionally tracks file modification and errors. */
@@ -163,8 +194,19 @@ export class SummaryCollector {
       entry.samples.push(sample);
     }
 
+    if (opts?.data?.category === 'todo') this.todos = opts.data.items;
+
+    this.outcomes.push({
+      tool: category,
+      summary,
+      isError: opts?.isError ?? false,
+      ...(opts?.filePath ? { filePath: opts.filePath, isWrite: opts.isWrite } : {}),
+      ...(opts?.data ? { data: opts.data } : {}),
+    });
+
     if (opts?.isWrite && opts?.filePath) {
       this.files.add(opts.filePath);
+      if (!opts.isError) this.changes.push(...(opts.changes ?? changesFromSample(opts.filePath, opts.data)));
     }
   }
 
@@ -187,4 +229,19 @@ export class SummaryCollector {
   getFilesModified(): string[] {
     return Array.from(this.files);
   }
+
+  /** Get the last todo/plan list written in the session, if any */
+  getTodos(): TodoItem[] | undefined {
+    return this.todos;
+  }
+
+  /** Get the net change per file across every recorded write and edit */
+  getFileChanges(): FileChangeSummary[] {
+    return summarizeFileChanges(this.changes);
+  }
+
+  /** Get the failures no later call resolved, most recent first */
+  getOpenProblems(): OpenProblem[] {
+    return findOpenProblems(this.outcomes, this.openProblemsConfig);
+  }
 }
@@ -0,0 +1,194 @@
+/**
+ * Session watcher — keeps the index hot by re-parsing only the tools whose
+ * storage changed, and reports per-session change events.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { logger } from '../logger.js';
+import { adapters, type ToolAdapter } from '../parsers/registry.js';
+import type { SessionSource, UnifiedSession } from '../types/index.js';
+import { loadIndex, refreshIndex } from './index.js';
+import { homeDir } from './parser-helpers.js';
+
+export type SessionChangeType = 'session-created' | 'session-updated' | 'session-deleted';
+
+export interface SessionChangeEvent {
+  type: SessionChangeType;
+  source: SessionSource;
+  id: string;
+  session: UnifiedSession;
+}
+
+export interface WatchOptions {
+  /** Quiet period before changed tools are re-indexed (ms) */
+  debounceMs?: number;
+  /** Full incremental sweep interval, catching events the OS dropped (ms) */
+  sweepMs?: number;
+  onEvent: (event: SessionChangeEvent) => void;
+  onError?: (err: unknown) => void;
+}
+
+export interface SessionWatcher {
+  /** Directories being watched, per tool — session files themselves for `watchFiles` tools */
+  roots: Partial<Record<SessionSource, string[]>>;
+  close: () => void;
+}
+
+function sessionKey(session: UnifiedSession): string {
+  return `${session.source}:${session.id}`;
+}
+
+/**
+ * Compare two index snapshots and describe what changed
+ */
+export function diffSessions(before: UnifiedSession[], after: UnifiedSession[]): SessionChangeEvent[] {
+  const previous = new Map(before.map((s) => [sessionKey(s), s]));
+  const events: SessionChangeEvent[] = [];
+
+  for (const session of after) {
+    const key = sessionKey(session);
+    const old = previous.get(key);
+    previous.delete(key);
+    if (!old) {
+      events.push({ type: 'session-created', source: session.source, id: session.id, session });
+    } else if (
+      old.updatedAt.getTime() !== session.updatedAt.getTime() ||
+      old.bytes !== session.bytes ||
+      old.lines !== session.lines ||
+      old.summary !== session.summary
+    ) {
+      events.push({ type: 'session-updated', source: session.source, id: session.id, session });
+    }
+  }
+
+  for (const session of previous.values()) {
+    events.push({ type: 'session-deleted', source: session.source, id: session.id, session });
+  }
+
+  return events;
+}
+
+/**
+ * Directory holding `target` — itself, or its folder for a database file.
+ * Null when it does not exist yet: watching a parent like `~/.config`
+ * recursively instead would follow every other app writing there, and the
+ * periodic sweep picks the tool up once its storage appears.
+ */
+function storageDir(target: string): string | null {
+  try {
+    const stat = fs.statSync(target);
+    return stat.isDirectory() ? path.resolve(target) : path.dirname(path.resolve(target));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Directories to watch for one tool: the static part of its storage path
+ * (up to the first glob segment) plus the directories actually holding its
+ * session files — the latter covers env-var overrides. Nested roots are collapsed,
+ * and storage that does not exist yet is skipped.
+ * Tools keeping their files in project folders (`watchFiles`) get the files themselves.
+ */
+export async function resolveWatchRoots(adapter: ToolAdapter): Promise<string[]> {
+  if (adapter.watchFiles) {
+    try {
+      return [...new Set(await adapter.listSessionFiles?.())];
+    } catch (err) {
+      logger.debug(`watch: cannot list ${adapter.name} session files`, err);
+      return [];
+    }
+  }
+
+  const candidates: string[] = [];
+
+  const staticPart = adapter.storagePath.split('*')[0].replace(/^~(?=$|\/)/, homeDir());
+  const home = homeDir();
+  const fromStorage = storageDir(staticPart);
+  if (fromStorage && fromStorage !== home && fromStorage !== path.dirname(home)) candidates.push(fromStorage);
+
+  if (adapter.listSessionFiles) {
+    try {
+      for (const file of await adapter.listSessionFiles()) {
+        candidates.push(fs.statSync(file).isDirectory() ? file : path.dirname(file));
+      }
+    } catch (err) {
+      logger.debug(`watch: cannot list ${adapter.name} session files`, err);
+    }
+  }
+
+  const sorted = [...new Set(candidates)].sort((a, b) => a.length - b.length);
+  const roots: string[] = [];
+  for (const dir of sorted) {
+    if (!roots.some((root) => dir === root || dir.startsWith(`${root}${path.sep}`))) roots.push(dir);
+  }
+  return roots;
+}
+
+/**
+ * Watch every tool's storage and keep the index current. Changes are debounced
+ * per tool; each burst re-indexes only that tool (and only its changed files).
+ */
+export async function watchSessions(options: WatchOptions): Promise<SessionWatcher> {
+  const debounceMs = options.debounceMs ?? 500;
+  const sweepMs = options.sweepMs ?? 60_000;
+  const watchers: fs.FSWatcher[] = [];
+  const roots: Partial<Record<SessionSource, string[]>> = {};
+
+  let snapshot = loadIndex();
+  const pending = new Set<SessionSource>();
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> = Promise.resolve();
+
+  const reindex = (sources?: SessionSource[]): void => {
+    running = running.then(async () => {
+      try {
+        const next = await refreshIndex({ sources });
+        const scoped = sources ? snapshot.filter((s) => sources.includes(s.source)) : snapshot;
+        const nextScoped = sources ? next.filter((s) => sources.includes(s.source)) : next;
+        snapshot = next;
+        for (const event of diffSessions(scoped, nextScoped)) options.onEvent(event);
+      } catch (err) {
+        options.onError?.(err);
+      }
+    });
+  };
+
+  const schedule = (source: SessionSource): void => {
+    pending.add(source);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const sources = [...pending];
+      pending.clear();
+      reindex(sources);
+    }, debounceMs);
+  };
+
+  for (const adapter of Object.values(adapters)) {
+    const adapterRoots = await resolveWatchRoots(adapter);
+    roots[adapter.name] = adapterRoots;
+    for (const root of adapterRoots) {
+      try {
+        const watcher = fs.watch(root, { recursive: !adapter.watchFiles, persistent: true }, () =>
+          schedule(adapter.name),
+        );
+        watcher.on('error', (err) => logger.debug(`watch: ${adapter.name} watcher error`, root, err));
+        watchers.push(watcher);
+      } catch (err) {
+        logger.debug(`watch: cannot watch ${root}`, err);
+      }
+    }
+  }
+
+  const sweep = setInterval(() => reindex(), sweepMs);
+
+  return {
+    roots,
+    close: () => {
+      if (timer) clearTimeout(timer);
+      clearInterval(sweep);
+      for (const watcher of watchers) watcher.close();
+    },
+  };
+}